@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+import Database from 'better-sqlite3';
+
+console.log('📊 Adding documents_fts full-text index...');
+
+const dbPath = process.argv[2] || 'document_analysis.db';
+const db = new Database(dbPath);
+
+// Create FTS5 table over documents (external content - text is not duplicated)
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+    full_text,
+    one_sentence_summary,
+    paragraph_summary,
+    content='documents',
+    content_rowid='id',
+    tokenize='porter unicode61'
+  );
+`);
+
+console.log('✅ Created documents_fts table');
+
+// Keep the index in sync with future writes to documents
+db.exec(`
+  CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+    INSERT INTO documents_fts(rowid, full_text, one_sentence_summary, paragraph_summary)
+    VALUES (new.id, new.full_text, new.one_sentence_summary, new.paragraph_summary);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+    INSERT INTO documents_fts(documents_fts, rowid, full_text, one_sentence_summary, paragraph_summary)
+    VALUES ('delete', old.id, old.full_text, old.one_sentence_summary, old.paragraph_summary);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE ON documents BEGIN
+    INSERT INTO documents_fts(documents_fts, rowid, full_text, one_sentence_summary, paragraph_summary)
+    VALUES ('delete', old.id, old.full_text, old.one_sentence_summary, old.paragraph_summary);
+    INSERT INTO documents_fts(rowid, full_text, one_sentence_summary, paragraph_summary)
+    VALUES (new.id, new.full_text, new.one_sentence_summary, new.paragraph_summary);
+  END;
+`);
+
+console.log('✅ Created sync triggers');
+
+// Index all existing documents
+console.log('Rebuilding index from documents table...');
+db.exec(`INSERT INTO documents_fts(documents_fts) VALUES ('rebuild')`);
+
+const count = db.prepare('SELECT COUNT(*) as count FROM documents').get() as { count: number };
+console.log(`📊 Indexed ${count.count} documents`);
+
+db.close();
+
+console.log('✅ Migration complete!');
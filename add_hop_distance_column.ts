@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from './db_version';
 
 const db = new Database('document_analysis.db');
 
@@ -64,16 +65,24 @@ for (const edge of edges) {
 
 console.log(`✓ Built graph with ${adjacencyList.size} unique actors\n`);
 
-// Step 4: BFS from Jeffrey Epstein to calculate hop distances
-console.log('Calculating hop distances from Jeffrey Epstein using BFS...');
-const PRINCIPAL = 'Jeffrey Epstein';
+// Step 4: BFS from the principal(s) to calculate hop distances
+// PRINCIPAL_NAMES is a comma-separated list; every principal is at distance 0
+const PRINCIPALS = (process.env.PRINCIPAL_NAMES || 'Jeffrey Epstein')
+  .split(',')
+  .map(p => p.trim())
+  .filter(p => p.length > 0);
+console.log(`Calculating hop distances from ${PRINCIPALS.join(', ')} using BFS...`);
 
 const hopDistances = new Map<string, number>();
-const queue: { name: string; distance: number }[] = [{ name: PRINCIPAL, distance: 0 }];
+const queue: { name: string; distance: number }[] = [];
 const visited = new Set<string>();
 
-visited.add(PRINCIPAL);
-hopDistances.set(PRINCIPAL, 0);
+for (const principal of PRINCIPALS) {
+  if (visited.has(principal)) continue;
+  visited.add(principal);
+  hopDistances.set(principal, 0);
+  queue.push({ name: principal, distance: 0 });
+}
 
 while (queue.length > 0) {
   const current = queue.shift()!;
@@ -157,6 +166,7 @@ for (const row of distribution) {
   console.log(`  ${label}: ${row.count} actors`);
 }
 
+bumpContentVersion(db, 'add_hop_distance_column');
 console.log('\n✅ Migration complete!\n');
 
 db.close();
@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+import Database from 'better-sqlite3';
+
+console.log('📊 Adding triple_clusters join table...');
+
+const dbPath = process.argv[2] || 'document_analysis.db';
+const db = new Database(dbPath);
+
+// One row per (cluster, triple) from the materialized top_cluster_ids JSON, so the API can
+// filter clusters with an index lookup instead of parsing JSON per row
+db.exec(`
+  CREATE TABLE IF NOT EXISTS triple_clusters (
+    cluster_id INTEGER NOT NULL,
+    triple_id INTEGER NOT NULL,
+    PRIMARY KEY (cluster_id, triple_id)
+  ) WITHOUT ROWID;
+
+  CREATE INDEX IF NOT EXISTS idx_triple_clusters_triple ON triple_clusters(triple_id);
+`);
+
+console.log('✅ Created triple_clusters table');
+
+// Keep the join table in sync with update_top_clusters.ts and any triple inserts/deletes
+db.exec(`
+  CREATE TRIGGER IF NOT EXISTS triple_clusters_insert AFTER INSERT ON rdf_triples
+  WHEN new.top_cluster_ids IS NOT NULL BEGIN
+    INSERT OR IGNORE INTO triple_clusters(cluster_id, triple_id)
+    SELECT value, new.id FROM json_each(new.top_cluster_ids);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS triple_clusters_delete AFTER DELETE ON rdf_triples BEGIN
+    DELETE FROM triple_clusters WHERE triple_id = old.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS triple_clusters_update AFTER UPDATE OF top_cluster_ids ON rdf_triples BEGIN
+    DELETE FROM triple_clusters WHERE triple_id = old.id;
+    INSERT OR IGNORE INTO triple_clusters(cluster_id, triple_id)
+    SELECT value, new.id FROM json_each(new.top_cluster_ids) WHERE new.top_cluster_ids IS NOT NULL;
+  END;
+`);
+
+console.log('✅ Created sync triggers');
+
+// Rebuild from existing triples
+console.log('Rebuilding from rdf_triples.top_cluster_ids...');
+db.transaction(() => {
+  db.exec('DELETE FROM triple_clusters');
+  db.exec(`
+    INSERT OR IGNORE INTO triple_clusters(cluster_id, triple_id)
+    SELECT json_each.value, rt.id
+    FROM rdf_triples rt, json_each(rt.top_cluster_ids)
+    WHERE rt.top_cluster_ids IS NOT NULL AND json_valid(rt.top_cluster_ids)
+  `);
+})();
+
+const count = db.prepare('SELECT COUNT(*) as count FROM triple_clusters').get() as { count: number };
+console.log(`📊 Indexed ${count.count} triple/cluster pairs`);
+
+db.close();
+
+console.log('✅ Migration complete!');
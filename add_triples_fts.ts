@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+
+import Database from 'better-sqlite3';
+import { initEntityNamesIndex } from './analysis_schema';
+
+console.log('📊 Adding triples_fts keyword index...');
+
+const dbPath = process.argv[2] || 'document_analysis.db';
+const db = new Database(dbPath);
+
+// Create FTS5 table over the text fields of rdf_triples (external content)
+db.exec(`
+  CREATE VIRTUAL TABLE IF NOT EXISTS triples_fts USING fts5(
+    actor,
+    action,
+    target,
+    location,
+    explicit_topic,
+    implicit_topic,
+    content='rdf_triples',
+    content_rowid='id',
+    tokenize='porter unicode61'
+  );
+`);
+
+console.log('✅ Created triples_fts table');
+
+// Keep the index in sync with the pipeline and fix-up scripts (dedupe, actor renames, ...).
+// The update trigger only watches indexed columns so top_cluster_ids refreshes stay cheap.
+db.exec(`
+  CREATE TRIGGER IF NOT EXISTS triples_fts_insert AFTER INSERT ON rdf_triples BEGIN
+    INSERT INTO triples_fts(rowid, actor, action, target, location, explicit_topic, implicit_topic)
+    VALUES (new.id, new.actor, new.action, new.target, new.location, new.explicit_topic, new.implicit_topic);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS triples_fts_delete AFTER DELETE ON rdf_triples BEGIN
+    INSERT INTO triples_fts(triples_fts, rowid, actor, action, target, location, explicit_topic, implicit_topic)
+    VALUES ('delete', old.id, old.actor, old.action, old.target, old.location, old.explicit_topic, old.implicit_topic);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS triples_fts_update
+  AFTER UPDATE OF actor, action, target, location, explicit_topic, implicit_topic ON rdf_triples BEGIN
+    INSERT INTO triples_fts(triples_fts, rowid, actor, action, target, location, explicit_topic, implicit_topic)
+    VALUES ('delete', old.id, old.actor, old.action, old.target, old.location, old.explicit_topic, old.implicit_topic);
+    INSERT INTO triples_fts(rowid, actor, action, target, location, explicit_topic, implicit_topic)
+    VALUES (new.id, new.actor, new.action, new.target, new.location, new.explicit_topic, new.implicit_topic);
+  END;
+`);
+
+console.log('✅ Created sync triggers');
+
+// Index all existing triples
+console.log('Rebuilding index from rdf_triples table...');
+db.exec(`INSERT INTO triples_fts(triples_fts) VALUES ('rebuild')`);
+
+const count = db.prepare('SELECT COUNT(*) as count FROM rdf_triples').get() as { count: number };
+console.log(`📊 Indexed ${count.count} triples`);
+
+// Entity names (raw and canonical) for keyword matches on any part of a name
+const hasAliases = !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'entity_aliases'").get();
+if (!hasAliases) {
+  console.warn('⚠ entity_aliases not found - run dedupe_with_llm.ts first, then this script again for the entity name index');
+} else {
+  initEntityNamesIndex(db);
+  db.exec(`
+    INSERT OR IGNORE INTO entity_names(name)
+    SELECT actor FROM rdf_triples UNION SELECT target FROM rdf_triples UNION SELECT canonical_name FROM entity_aliases;
+  `);
+  const names = db.prepare('SELECT COUNT(*) as count FROM entity_names').get() as { count: number };
+  console.log(`📊 Indexed ${names.count} entity names`);
+}
+
+db.close();
+
+console.log('✅ Migration complete!');
@@ -0,0 +1,273 @@
+import type Database from 'better-sqlite3';
+
+// Persistent work queue for analyze_documents.ts. Every document to analyze is a row in
+// analysis_jobs; workers claim queued rows, so a run that crashes or is stopped can simply be
+// started again. Transient failures (rate limits, overloaded or unreachable servers) are
+// retried with exponential backoff; anything else marks the job failed until --retry-failed.
+
+export const JOB_STATUSES = ['queued', 'running', 'failed', 'done'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface AnalysisJob {
+  doc_id: string;
+  file_path: string;
+  // Part 1 of a split document; this job waits until that one is no longer queued or running
+  depends_on: string | null;
+  status: JobStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface NewJob {
+  docId: string;
+  filePath: string;
+  dependsOn?: string | null;
+}
+
+export const DEFAULT_JOB_OPTIONS = {
+  concurrency: 20,
+  maxAttempts: 5,
+  backoffBaseMs: 2000,
+  backoffMaxMs: 5 * 60 * 1000
+};
+
+export interface JobRunnerOptions {
+  concurrency: number;
+  // Attempts per job before a transient error counts as a failure
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // Start at most this many different documents
+  limit?: number;
+  // Checked before each claim; once true, running jobs finish and no new ones start
+  shouldStop?: () => boolean;
+  now?: () => Date;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface JobRunSummary {
+  done: number;
+  failed: number;
+  retried: number;
+}
+
+/**
+ * Add jobs for documents the queue has not seen yet. Documents analyzed before the queue
+ * existed start as done, or as failed if their row records an error.
+ */
+export function enqueueJobs(db: Database.Database, jobs: NewJob[]): number {
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO analysis_jobs (doc_id, file_path, depends_on, status, attempts, last_error, finished_at)
+    SELECT @docId, @filePath, @dependsOn,
+      CASE WHEN d.doc_id IS NULL THEN 'queued' WHEN d.error IS NULL THEN 'done' ELSE 'failed' END,
+      CASE WHEN d.doc_id IS NULL THEN 0 ELSE 1 END,
+      d.error,
+      d.analysis_timestamp
+    FROM (SELECT 1) LEFT JOIN documents d ON d.doc_id = @docId
+  `);
+
+  return db.transaction(() => {
+    let added = 0;
+    for (const job of jobs) {
+      added += insert.run({ docId: job.docId, filePath: job.filePath, dependsOn: job.dependsOn ?? null }).changes;
+    }
+    return added;
+  })();
+}
+
+/**
+ * What would be queued after enqueueJobs(db, jobs), in claim order, without writing anything:
+ * queued jobs plus new documents that have not been analyzed. `db` may be null or predate the
+ * queue.
+ */
+export function previewQueuedJobs(db: Database.Database | null, jobs: NewJob[]): NewJob[] {
+  const hasTable = (name: string) => !!db?.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name);
+
+  const known = new Set<string>();
+  const queued: NewJob[] = [];
+  if (db && hasTable('analysis_jobs')) {
+    for (const job of db.prepare('SELECT doc_id, file_path, depends_on, status FROM analysis_jobs').all() as AnalysisJob[]) {
+      known.add(job.doc_id);
+      if (job.status === 'queued') queued.push({ docId: job.doc_id, filePath: job.file_path, dependsOn: job.depends_on });
+    }
+  }
+  if (db && hasTable('documents')) {
+    for (const row of db.prepare('SELECT doc_id FROM documents').all() as Array<{ doc_id: string }>) known.add(row.doc_id);
+  }
+
+  for (const job of jobs) {
+    if (!known.has(job.docId)) {
+      known.add(job.docId);
+      queued.push(job);
+    }
+  }
+  return queued.sort((a, b) => Number(!!a.dependsOn) - Number(!!b.dependsOn) || (a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0));
+}
+
+/**
+ * Jobs left running by a crashed or killed run go back to the queue
+ */
+export function recoverInterruptedJobs(db: Database.Database): number {
+  return db.prepare(`
+    UPDATE analysis_jobs SET status = 'queued', next_attempt_at = NULL WHERE status = 'running'
+  `).run().changes;
+}
+
+export function retryFailedJobs(db: Database.Database): number {
+  return db.prepare(`
+    UPDATE analysis_jobs SET status = 'queued', attempts = 0, next_attempt_at = NULL WHERE status = 'failed'
+  `).run().changes;
+}
+
+export function getJobCounts(db: Database.Database): Record<JobStatus, number> {
+  const counts = { queued: 0, running: 0, failed: 0, done: 0 };
+  const rows = db.prepare('SELECT status, COUNT(*) as count FROM analysis_jobs GROUP BY status').all() as Array<{ status: JobStatus; count: number }>;
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
+
+export function listFailedJobs(db: Database.Database): AnalysisJob[] {
+  return db.prepare("SELECT * FROM analysis_jobs WHERE status = 'failed' ORDER BY doc_id").all() as AnalysisJob[];
+}
+
+/**
+ * Mark the next runnable job as running. Unsplit documents and first parts go first; with
+ * `onlyDocIds` the choice is limited to those documents.
+ */
+export function claimNextJob(db: Database.Database, now: Date, onlyDocIds?: string[]): AnalysisJob | null {
+  const claim = db.transaction(() => {
+    const job = db.prepare(`
+      SELECT j.* FROM analysis_jobs j
+      WHERE j.status = 'queued'
+        AND (j.next_attempt_at IS NULL OR j.next_attempt_at <= @now)
+        AND (j.depends_on IS NULL OR NOT EXISTS (
+          SELECT 1 FROM analysis_jobs p WHERE p.doc_id = j.depends_on AND p.status IN ('queued', 'running')
+        ))
+        AND (@only IS NULL OR j.doc_id IN (SELECT value FROM json_each(@only)))
+      ORDER BY j.depends_on IS NOT NULL, j.doc_id
+      LIMIT 1
+    `).get({ now: now.toISOString(), only: onlyDocIds ? JSON.stringify(onlyDocIds) : null }) as AnalysisJob | undefined;
+    if (!job) return null;
+
+    db.prepare(`
+      UPDATE analysis_jobs SET status = 'running', attempts = attempts + 1, started_at = ?, finished_at = NULL
+      WHERE doc_id = ?
+    `).run(now.toISOString(), job.doc_id);
+    return { ...job, status: 'running' as const, attempts: job.attempts + 1, started_at: now.toISOString(), finished_at: null };
+  });
+  return claim();
+}
+
+export function completeJob(db: Database.Database, docId: string, now: Date): void {
+  db.prepare(`
+    UPDATE analysis_jobs SET status = 'done', last_error = NULL, next_attempt_at = NULL, finished_at = ? WHERE doc_id = ?
+  `).run(now.toISOString(), docId);
+}
+
+/**
+ * Record a failed attempt. With `retryAt` the job is queued again for that time, otherwise it
+ * stays failed until --retry-failed.
+ */
+export function failJob(db: Database.Database, docId: string, error: string, now: Date, retryAt?: Date): void {
+  db.prepare(`
+    UPDATE analysis_jobs SET status = ?, last_error = ?, next_attempt_at = ?, finished_at = ? WHERE doc_id = ?
+  `).run(retryAt ? 'queued' : 'failed', error, retryAt ? retryAt.toISOString() : null, retryAt ? null : now.toISOString(), docId);
+}
+
+/**
+ * Rate limits, overloaded servers and dropped connections; worth waiting for and retrying
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown; statusCode?: unknown } | null)?.status
+    ?? (error as { statusCode?: unknown } | null)?.statusCode;
+  if (typeof status === 'number' && (status === 429 || status >= 500)) return true;
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /rate.?limit|overloaded|too many requests|\b(?:429|500|502|503|504|529)\b|ECONNRESET|ECONNREFUSED|ETIMEDOUT|fetch failed|socket hang up/i
+    .test(message);
+}
+
+/**
+ * Exponential backoff for the given attempt (1-based) with ±20% jitter so parallel workers do
+ * not retry in lockstep, capped at maxMs
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+  const delay = baseMs * 2 ** (attempt - 1);
+  return Math.min(maxMs, Math.round(delay * (0.8 + 0.4 * random())));
+}
+
+/**
+ * Run queued jobs with up to `concurrency` in flight until the queue is empty (or the limit or
+ * shouldStop is reached). `handler` resolving marks the job done; throwing fails or requeues it.
+ * A transient error also pauses every worker for the backoff delay, since a rate limit applies
+ * to all of them.
+ */
+export async function runJobQueue(
+  db: Database.Database,
+  options: JobRunnerOptions,
+  handler: (job: AnalysisJob) => Promise<void>
+): Promise<JobRunSummary> {
+  const now = options.now ?? (() => new Date());
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const summary: JobRunSummary = { done: 0, failed: 0, retried: 0 };
+  const started: string[] = [];
+  let pausedUntil = 0;
+
+  const limitReached = () => options.limit !== undefined && started.length >= options.limit;
+
+  // How long to wait for a queued job to become claimable, or null when none is left
+  const nextWait = (): number | null => {
+    const pending = db.prepare(`
+      SELECT MIN(COALESCE(next_attempt_at, '')) as next, COUNT(*) as count FROM analysis_jobs
+      WHERE status = 'queued' AND (@only IS NULL OR doc_id IN (SELECT value FROM json_each(@only)))
+    `).get({ only: limitReached() ? JSON.stringify(started) : null }) as { next: string | null; count: number };
+    if (pending.count === 0) return null;
+    const until = pending.next ? Date.parse(pending.next) - now().getTime() : 0;
+    return Math.min(1000, Math.max(200, until));
+  };
+
+  const worker = async () => {
+    while (!options.shouldStop?.()) {
+      const pause = pausedUntil - now().getTime();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+
+      const job = claimNextJob(db, now(), limitReached() ? started : undefined);
+      if (!job) {
+        // Waiting on a backoff or on a first part another worker is analyzing
+        const wait = nextWait();
+        if (wait === null) return;
+        await sleep(wait);
+        continue;
+      }
+      if (!started.includes(job.doc_id)) started.push(job.doc_id);
+
+      try {
+        await handler(job);
+        completeJob(db, job.doc_id, now());
+        summary.done++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isTransientError(error) && job.attempts < options.maxAttempts) {
+          const delay = backoffDelay(job.attempts, options.backoffBaseMs, options.backoffMaxMs);
+          failJob(db, job.doc_id, message, now(), new Date(now().getTime() + delay));
+          pausedUntil = Math.max(pausedUntil, now().getTime() + delay);
+          summary.retried++;
+          console.warn(`  ⏳ ${job.doc_id}: ${message} (attempt ${job.attempts}/${options.maxAttempts}, retrying in ${(delay / 1000).toFixed(1)}s)`);
+        } else {
+          failJob(db, job.doc_id, message, now());
+          summary.failed++;
+          console.error(`  ❌ ${job.doc_id} failed after ${job.attempts} attempt(s): ${message}`);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency) }, worker));
+  return summary;
+}
@@ -1,36 +1,86 @@
 #!/usr/bin/env node
 
-// Please note: this method uses the agents SDK and assume you are already locally authenticated via claude code via a MAX plan.
-// Running this with the API rather than the max plan will cost about $50 for the 2000 epstein emails
-import { query } from '@anthropic-ai/claude-agent-sdk';
+// Please note: by default this uses the agents SDK and assumes you are already locally authenticated via claude code via a MAX plan.
+// Running this with the API rather than the max plan will cost about $50 for the 2000 epstein emails.
+// Use --estimate to see the cost before a run and --max-cost to cap it; runs are recorded in analysis_runs.
+// Set LLM_PROVIDER (and LLM_MODEL) to use another backend, see llm_provider.ts.
 import * as fs from 'fs/promises';
+import { existsSync } from 'fs';
 import * as path from 'path';
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from '../db_version';
+import { initAnalysisSchema } from '../analysis_schema';
+import { llmProviderFromEnv, promptHash, type LLMUsage } from '../llm_provider';
+import { validateDocumentAnalysis, type DocumentAnalysis, type ExtractionIssue } from '../extraction_schema';
+import { repairJson, type ParseMethod } from '../json_repair';
+import {
+  enqueueJobs,
+  recoverInterruptedJobs,
+  retryFailedJobs,
+  getJobCounts,
+  listFailedJobs,
+  previewQueuedJobs,
+  runJobQueue,
+  DEFAULT_JOB_OPTIONS,
+  type NewJob
+} from '../analysis_jobs';
+import {
+  startRun,
+  recordRunDocument,
+  finishRun,
+  markInterruptedRuns,
+  averageOutputTokens,
+  estimateRunCost,
+  DEFAULT_OUTPUT_TOKENS_PER_DOC,
+  type CostEstimate
+} from '../analysis_runs';
+
+// Defaults to claude-haiku-4-5: fast and cost-effective for document analysis
+const llm = llmProviderFromEnv();
+
+const HELP = `
+Document Analysis
+
+Analyzes the .txt files in a data directory and stores summaries and RDF triples. Every
+file becomes a job in the analysis_jobs table, so an interrupted run picks up where it
+stopped when started again. Rate limits and server errors are retried with exponential
+backoff; other failures leave the job failed until --retry-failed. Each run is recorded in
+analysis_runs with its model, prompt version and spend (see cost_report.ts).
+
+Usage:
+  npx tsx analysis_pipeline/analyze_documents.ts [dataDir] [maxDocs] [dbPath] [options]
+
+Arguments:
+  dataDir              Directory of .txt files (default: data/001_split)
+  maxDocs              Documents to analyze in this run (default: all)
+  dbPath               Database to write to (default: document_analysis.db)
+
+Options:
+  --concurrency <n>    Documents analyzed at once (default: ${DEFAULT_JOB_OPTIONS.concurrency})
+  --max-attempts <n>   Attempts per document on rate limits and server errors (default: ${DEFAULT_JOB_OPTIONS.maxAttempts})
+  --retry-failed       Queue failed documents again before starting
+  --max-cost <usd>     Stop starting new documents once this run has spent this much;
+                       documents already in flight still finish
+  --estimate           Print the cost estimate for the queued documents and exit
+                       without writing to the database
+  --help, -h           Show this help message
+`;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
 
-// Model configuration
-const ANALYSIS_MODEL = 'claude-haiku-4-5'; // Fast and cost-effective for document analysis
-
-interface RDFTriple {
-  timestamp?: string; // ISO format YYYY-MM-DDTHH:MM or date YYYY-MM-DD
-  actor: string;
-  action: string;
-  target: string;
-  location?: string; // Physical location where the action occurred
-  actor_likely_type?: string; // Type of unknown/redacted actor
-  tags: string[]; // Triple-level tags
-  explicit_topic: string; // What the interaction directly says
-  implicit_topic: string; // What it likely implies
+function positiveNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || isNaN(parsed) || parsed <= 0) fail(`${flag} needs a positive number`);
+  return parsed;
 }
 
-interface DocumentAnalysis {
-  doc_id: string;
-  one_sentence_summary: string;
-  paragraph_summary: string;
-  date_range_earliest?: string;
-  date_range_latest?: string;
-  category: string;
-  content_tags: string[];
-  rdf_triples: RDFTriple[];
+function positiveInteger(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed <= 0) fail(`${flag} needs a positive whole number`);
+  return parsed;
 }
 
 interface AnalysisResult {
@@ -38,13 +88,11 @@ interface AnalysisResult {
   file_path: string;
   full_text: string;
   analysis: DocumentAnalysis;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-    cache_read_input_tokens?: number;
-  } | null;
+  usage: LLMUsage | null;
   cost_usd: number;
   error?: string;
+  issues?: ExtractionIssue[];
+  parse_method?: ParseMethod;
 }
 
 /**
@@ -56,78 +104,28 @@ function initDatabase(dbPath: string): Database.Database {
   // Enable foreign keys
   db.pragma('foreign_keys = ON');
 
-  // Create documents table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS documents (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      doc_id TEXT UNIQUE NOT NULL,
-      file_path TEXT NOT NULL,
-      one_sentence_summary TEXT NOT NULL,
-      paragraph_summary TEXT NOT NULL,
-      date_range_earliest TEXT,
-      date_range_latest TEXT,
-      category TEXT NOT NULL,
-      content_tags TEXT NOT NULL, -- JSON array
-      full_text TEXT,
-      analysis_timestamp TEXT NOT NULL,
-      input_tokens INTEGER,
-      output_tokens INTEGER,
-      cache_read_tokens INTEGER,
-      cost_usd REAL,
-      error TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-  `);
+  // Documents, triples and their full-text indexes (shared with generate_fixture_db.ts)
+  initAnalysisSchema(db);
 
-  // Create RDF triples table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS rdf_triples (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      doc_id TEXT NOT NULL,
-      timestamp TEXT,
-      actor TEXT NOT NULL,
-      action TEXT NOT NULL,
-      target TEXT NOT NULL,
-      location TEXT,
-      actor_likely_type TEXT,
-      triple_tags TEXT,
-      explicit_topic TEXT,
-      implicit_topic TEXT,
-      sequence_order INTEGER NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (doc_id) REFERENCES documents(doc_id) ON DELETE CASCADE
-    );
-  `);
-
-  // Create indexes for efficient querying
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_documents_doc_id ON documents(doc_id);
-    CREATE INDEX IF NOT EXISTS idx_documents_category ON documents(category);
-    CREATE INDEX IF NOT EXISTS idx_rdf_triples_doc_id ON rdf_triples(doc_id);
-    CREATE INDEX IF NOT EXISTS idx_rdf_triples_actor ON rdf_triples(actor);
-    CREATE INDEX IF NOT EXISTS idx_rdf_triples_timestamp ON rdf_triples(timestamp);
-  `);
+  // saveToDatabase uses INSERT OR REPLACE, which only fires the delete trigger
+  // (keeping documents_fts in sync) when recursive triggers are enabled
+  db.pragma('recursive_triggers = ON');
 
   console.log(`✓ Database initialized at: ${dbPath}\n`);
   return db;
 }
 
 /**
- * Analyze a single document using a Claude agent
+ * The analysis prompt for one document; parts 2+ of a split document get part 1's context
  */
-async function analyzeDocument(
-  docId: string,
-  filePath: string,
-  content: string,
-  contextPreamble?: string
-): Promise<AnalysisResult> {
+function buildAnalysisPrompt(docId: string, content: string, contextPreamble?: string): string {
   const preambleSection = contextPreamble ? `
 **DOCUMENT CONTEXT:**
 ${contextPreamble}
 
 ` : '';
 
-  const analysisPrompt = `You are analyzing a document from a legal/investigative document collection. The document ID is "${docId}".
+  return `You are analyzing a document from a legal/investigative document collection. The document ID is "${docId}".
 
 IMPORTANT: You have ALL the information you need in the document text below. Do NOT attempt to read files, explore directories, or gather additional context. Analyze ONLY the text provided.
 
@@ -244,72 +242,82 @@ Guidelines for document-level content tags:
 - Typical tags might include: legal_strategy, crisis_response, financial_transactions, financial_advice, political_strategy, damage_control, personal_relationships, travel_planning, etc.
 
 If the document is too fragmentary or unreadable to analyze, still provide your best interpretation and mark uncertainty in the summaries.`;
+}
+
+// Identifies the prompt template in analysis_runs, so spend can be compared across prompt changes
+const PROMPT_VERSION = promptHash(buildAnalysisPrompt('{doc_id}', '{content}')).slice(0, 12);
+
+/**
+ * Analyze a single document using a Claude agent
+ */
+async function analyzeDocument(
+  docId: string,
+  filePath: string,
+  content: string,
+  contextPreamble?: string
+): Promise<AnalysisResult> {
+  const analysisPrompt = buildAnalysisPrompt(docId, content, contextPreamble);
 
   console.log(`Analyzing ${docId}...`);
 
   let result = '';
-  let usageStats = null;
-  let agentCostUSD = 0;
-
-  const agent = query({
-    prompt: analysisPrompt,
-    options: {
-      model: ANALYSIS_MODEL,
-      maxTokens: 16000,
-      maxTurns: 5,
-      allowedTools: [],
-    }
-  });
-
-  try {
-    for await (const message of agent) {
-      if (message.type === 'result' && message.subtype === 'success') {
-        result = message.result;
-        if (message.usage) {
-          usageStats = message.usage;
-        }
-        if (message.total_cost_usd !== undefined) {
-          agentCostUSD = message.total_cost_usd;
-        }
-      } else if (message.type === 'assistant') {
-        const textBlocks = message.message.content.filter((c: any) => c.type === 'text');
-        for (const block of textBlocks) {
-          result += block.text;
-        }
-      }
-    }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    console.error(`  ❌ Error analyzing ${docId}: ${errorMsg}`);
-    return {
+  let usageStats: LLMUsage | null = null;
+  let costUSD = 0;
+
+  // Errors from the model call propagate so the job queue can retry them
+  const response = await llm.complete({ prompt: analysisPrompt, maxTokens: 16000 });
+  result = response.text;
+  usageStats = response.usage;
+  costUSD = response.costUsd;
+
+  // Unparseable and invalid responses are both saved with the document text and a placeholder analysis
+  const failedResult = (
+    summary: string,
+    paragraph: string,
+    error: string,
+    method: ParseMethod,
+    issues: ExtractionIssue[] = []
+  ): AnalysisResult => ({
+    doc_id: docId,
+    file_path: filePath,
+    full_text: content,
+    analysis: {
       doc_id: docId,
-      file_path: filePath,
-      analysis: {
-        doc_id: docId,
-        one_sentence_summary: 'Error during analysis',
-        paragraph_summary: 'An error occurred during document analysis.',
-        category: 'other',
-        content_tags: [],
-        rdf_triples: []
-      },
-      usage: usageStats,
-      cost_usd: agentCostUSD,
-      error: errorMsg
-    };
-  }
+      one_sentence_summary: summary,
+      paragraph_summary: paragraph,
+      category: 'other',
+      content_tags: [],
+      rdf_triples: []
+    },
+    usage: usageStats,
+    cost_usd: costUSD,
+    error,
+    issues,
+    parse_method: method
+  });
 
   // Parse JSON from the result
   const jsonMatch = result.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
   const jsonText = jsonMatch ? jsonMatch[1] : result;
-  let analysis: DocumentAnalysis;
+  let parsed: unknown;
+  let parseMethod: ParseMethod = 'direct';
+  let parseError: unknown = null;
 
   try {
-    analysis = JSON.parse(jsonText.trim());
-    analysis.doc_id = docId; // Ensure doc_id is set
-  } catch (parseError) {
-    console.log(`  ⚠️  JSON parse failed for ${docId}, attempting repair...`);
+    parsed = JSON.parse(jsonText.trim());
+  } catch (error) {
+    parseError = error;
+  }
+
+  const local = parseError ? repairJson(jsonText) : null;
+  if (local) {
+    parsed = local.value;
+    parseMethod = 'local_repair';
+    console.log(`  ✓ JSON repaired locally for ${docId} (${local.fixes.join(', ')})`);
+  } else if (parseError) {
+    console.log(`  ⚠️  JSON parse failed for ${docId}, asking the model to repair it...`);
 
-    // Attempt to repair the JSON
+    // Last resort: ask the model to fix its own output
     const repairPrompt = `The following JSON response from a document analysis has a parsing error. Please identify and fix the issue, then return ONLY the corrected JSON:
 
 \`\`\`json
@@ -325,28 +333,11 @@ Instructions:
 - Return ONLY the valid JSON object, no explanations
 - Do NOT modify the content, only fix the syntax`;
 
-    const repairAgent = query({
-      prompt: repairPrompt,
-      options: {
-        model: ANALYSIS_MODEL,
-        maxTokens: 16000,
-        maxTurns: 3,
-        allowedTools: [],
-      }
-    });
-
     let repairedText = '';
     try {
-      for await (const message of repairAgent) {
-        if (message.type === 'result' && message.subtype === 'success') {
-          repairedText = message.result;
-        } else if (message.type === 'assistant') {
-          const textBlocks = message.message.content.filter((c: any) => c.type === 'text');
-          for (const block of textBlocks) {
-            repairedText += block.text;
-          }
-        }
-      }
+      const repair = await llm.complete({ prompt: repairPrompt, maxTokens: 16000 });
+      repairedText = repair.text;
+      costUSD += repair.costUsd;
 
       // Extract JSON from repair response
       const repairMatch = repairedText.match(/```(?:json)?\s*([\s\S]*?)```/) || repairedText.match(/\{[\s\S]*\}/);
@@ -355,50 +346,59 @@ Instructions:
       }
 
       const repairedJsonText = repairMatch[1] || repairMatch[0];
-      analysis = JSON.parse(repairedJsonText.trim());
-      analysis.doc_id = docId;
-      console.log(`  ✓ JSON successfully repaired for ${docId}`);
+      parsed = JSON.parse(repairedJsonText.trim());
+      parseMethod = 'llm_repair';
+      console.log(`  ✓ JSON successfully repaired by the model for ${docId}`);
     } catch (repairError) {
       console.error(`  ❌ Repair failed for ${docId}: ${repairError instanceof Error ? repairError.message : String(repairError)}`);
-      return {
-        doc_id: docId,
-        file_path: filePath,
-        analysis: {
-          doc_id: docId,
-          one_sentence_summary: 'Failed to parse analysis',
-          paragraph_summary: 'The document analysis could not be parsed correctly.',
-          category: 'other',
-          content_tags: [],
-          rdf_triples: []
-        },
-        usage: usageStats,
-        cost_usd: agentCostUSD,
-        error: 'JSON parse error (repair failed)'
-      };
+      return failedResult(
+        'Failed to parse analysis',
+        'The document analysis could not be parsed correctly.',
+        'JSON parse error (repair failed)',
+        'failed'
+      );
     }
   }
 
+  const { analysis, issues } = validateDocumentAnalysis(parsed, docId);
+  if (issues.length > 0) {
+    const rejected = issues.filter(issue => issue.severity === 'error').length;
+    console.log(`  ⚠️  ${issues.length} schema issue(s) in ${docId} (${rejected} errors)`);
+  }
+
+  if (!analysis) {
+    return failedResult(
+      'Failed to validate analysis',
+      'The document analysis did not match the expected schema.',
+      'Schema validation failed',
+      parseMethod,
+      issues
+    );
+  }
+
   return {
     doc_id: docId,
     file_path: filePath,
     full_text: content,
     analysis,
     usage: usageStats,
-    cost_usd: agentCostUSD
+    cost_usd: costUSD,
+    issues,
+    parse_method: parseMethod
   };
 }
 
 /**
  * Save analysis results to database
  */
-function saveToDatabase(db: Database.Database, result: AnalysisResult): void {
+function saveToDatabase(db: Database.Database, result: AnalysisResult, runId: number): void {
   const insertDoc = db.prepare(`
     INSERT OR REPLACE INTO documents (
       doc_id, file_path, one_sentence_summary, paragraph_summary,
       date_range_earliest, date_range_latest, category, content_tags, full_text,
       analysis_timestamp, input_tokens, output_tokens, cache_read_tokens,
-      cost_usd, error
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      cost_usd, error, parse_method, run_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertTriple = db.prepare(`
@@ -426,54 +426,42 @@ function saveToDatabase(db: Database.Database, result: AnalysisResult): void {
     result.usage?.output_tokens || null,
     result.usage?.cache_read_input_tokens || null,
     result.cost_usd,
-    result.error || null
+    result.error || null,
+    result.parse_method || null,
+    runId
   );
 
-  // Insert RDF triples in a transaction
-  const insertTriplesInTransaction = db.transaction((triples: any[]) => {
-    for (let i = 0; i < triples.length; i++) {
-      const triple = triples[i];
-
-      // Skip malformed triples that are missing required fields
-      if (!triple.actor || !triple.action || !triple.target) {
-        console.warn(`Skipping malformed triple in ${result.doc_id}: missing actor, action, or target`);
-        continue;
-      }
+  const insertIssue = db.prepare(`
+    INSERT INTO extraction_issues (doc_id, triple_index, field, code, severity, message, value)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
 
-      // Truncate tags if too large (SQLite parameter limit)
-      let tags = triple.tags || [];
-      if (Array.isArray(tags) && tags.length > 50) {
-        console.warn(`Truncating ${tags.length} tags to 50 for triple in ${result.doc_id}`);
-        tags = tags.slice(0, 50);
-      }
+  // Triples were checked by validateDocumentAnalysis; what it rejected is in result.issues
+  const insertTriplesInTransaction = db.transaction((triples: DocumentAnalysis['rdf_triples'], issues: ExtractionIssue[]) => {
+    triples.forEach((triple, i) => {
+      insertTriple.run(
+        result.doc_id,
+        triple.timestamp || null,
+        triple.actor,
+        triple.action,
+        triple.target,
+        triple.location || null,
+        triple.actor_likely_type || null,
+        JSON.stringify(triple.tags),
+        triple.explicit_topic || null,
+        triple.implicit_topic || null,
+        i
+      );
+    });
 
-      try {
-        insertTriple.run(
-          result.doc_id,
-          triple.timestamp || null,
-          triple.actor,
-          triple.action,
-          triple.target,
-          triple.location || null,
-          triple.actor_likely_type || null,
-          JSON.stringify(tags),
-          triple.explicit_topic || null,
-          triple.implicit_topic || null,
-          i
-        );
-      } catch (error: any) {
-        // If still too many parameters, skip this triple
-        if (error.message?.includes('Too many parameter')) {
-          console.warn(`Skipping triple in ${result.doc_id} due to parameter limit (${tags.length} tags)`);
-        } else {
-          throw error;
-        }
-      }
+    db.prepare('DELETE FROM extraction_issues WHERE doc_id = ?').run(result.doc_id);
+    for (const issue of issues) {
+      insertIssue.run(result.doc_id, issue.triple_index, issue.field, issue.code, issue.severity, issue.message, issue.value);
     }
   });
 
   try {
-    insertTriplesInTransaction(analysis.rdf_triples);
+    insertTriplesInTransaction(analysis.rdf_triples, result.issues || []);
   } catch (error) {
     console.error(`Error inserting triples for ${result.doc_id}:`, error);
     throw error;
@@ -517,44 +505,128 @@ function getContextPreamble(db: Database.Database, baseDocId: string): string |
   return `This is a segment of a longer document that was split into multiple parts. The document is a ${part1Analysis.category}. The previous part is described as: ${part1Analysis.paragraph_summary}`;
 }
 
+/**
+ * Print the expected cost of analyzing `jobs`, estimated from their prompt lengths with output
+ * tokens averaged over earlier analyses
+ */
+async function estimateCost(jobs: NewJob[], averageOutput: number | null, maxCost?: number): Promise<CostEstimate> {
+  const promptChars: number[] = [];
+  for (const job of jobs) {
+    // A missing file fails its job later; it costs nothing here
+    const content = await fs.readFile(job.filePath, 'utf-8').catch(() => '');
+    promptChars.push(buildAnalysisPrompt(job.docId, content).length);
+  }
+  const outputTokensPerDoc = averageOutput ?? DEFAULT_OUTPUT_TOKENS_PER_DOC;
+  const estimate = estimateRunCost(llm.model, promptChars, outputTokensPerDoc);
+  console.log(`\nEstimated cost: $${estimate.costUsd.toFixed(2)} for ${estimate.documents} documents ` +
+    `(~${estimate.inputTokens.toLocaleString()} input, ~${estimate.outputTokens.toLocaleString()} output tokens at ${outputTokensPerDoc}/document)`);
+  if (maxCost !== undefined && estimate.costUsd > maxCost) {
+    const affordable = Math.ceil(estimate.documents * maxCost / estimate.costUsd);
+    console.log(`⚠️  Over the $${maxCost.toFixed(2)} budget; expect to stop after about ${affordable} document(s)`);
+  }
+  return estimate;
+}
+
 /**
  * Main function to analyze documents
  */
 async function main() {
   const args = process.argv.slice(2);
-  const dataDir = args[0] || 'data/001_split';
-  const maxDocs = args[1] ? parseInt(args[1]) : 100000; // Process all documents by default
-  const dbPath = args[2] || 'document_analysis.db';
+  const positional: string[] = [];
+  let concurrency = DEFAULT_JOB_OPTIONS.concurrency;
+  let maxAttempts = DEFAULT_JOB_OPTIONS.maxAttempts;
+  let retryFailed = false;
+  let maxCost: number | undefined;
+  let estimateOnly = false;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--concurrency') {
+      concurrency = positiveInteger('--concurrency', args[++i]);
+    } else if (args[i] === '--max-attempts') {
+      maxAttempts = positiveInteger('--max-attempts', args[++i]);
+    } else if (args[i] === '--retry-failed') {
+      retryFailed = true;
+    } else if (args[i] === '--max-cost') {
+      maxCost = positiveNumber('--max-cost', args[++i]);
+    } else if (args[i] === '--estimate') {
+      estimateOnly = true;
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(HELP);
+      process.exit(0);
+    } else if (args[i].startsWith('--')) {
+      fail(`Unknown option: ${args[i]}`);
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const dataDir = positional[0] || 'data/001_split';
+  const maxDocs = positional[1] ? positiveInteger('maxDocs', positional[1]) : 100000; // Process all documents by default
+  const dbPath = positional[2] || 'document_analysis.db';
 
   console.log(`\n=== Document Analysis Starting ===\n`);
   console.log(`Data directory: ${dataDir}`);
   console.log(`Max documents: ${maxDocs}`);
+  console.log(`Concurrency: ${concurrency}`);
+  if (maxCost !== undefined) console.log(`Budget: $${maxCost.toFixed(2)}`);
+  console.log(`LLM: ${llm.name} (${llm.model})`);
   console.log(`Database: ${dbPath}\n`);
 
-  // Initialize database
-  const db = initDatabase(dbPath);
-
   // Find all text files
   const files = await fs.readdir(dataDir);
   const allTextFiles = files.filter(f => f.endsWith('.txt'));
 
-  // Get already processed documents
-  const processedDocs = new Set(
-    db.prepare('SELECT doc_id FROM documents').all().map((r: any) => r.doc_id + '.txt')
-  );
-
-  // Filter to unprocessed documents only
-  const unprocessedFiles = allTextFiles.filter(f => !processedDocs.has(f));
+  // Parts 2+ of a split document wait for part 1, whose summary becomes their context
+  const jobs: NewJob[] = allTextFiles.map(file => {
+    const partNum = isSplitDocument(file) ? getPartNumber(file) : null;
+    return {
+      docId: file.replace('.txt', ''),
+      filePath: path.join(dataDir, file),
+      dependsOn: partNum && partNum > 1 ? `${getBaseDocId(file)}_part1` : null
+    };
+  });
 
-  // Separate part1 documents from others
-  const part1Files = unprocessedFiles.filter(f => f.endsWith('_part1.txt'));
-  const otherFiles = unprocessedFiles.filter(f => !f.endsWith('_part1.txt'));
+  // An estimate only reads the database, since a run may still be going
+  if (estimateOnly) {
+    const readDb = existsSync(dbPath) ? new Database(dbPath, { readonly: true }) : null;
+    try {
+      const queued = previewQueuedJobs(readDb, jobs);
+      console.log(`Found ${allTextFiles.length} text files total`);
+      console.log(`Remaining to analyze: ${queued.length}`);
+      await estimateCost(queued.slice(0, maxDocs), readDb ? averageOutputTokens(readDb) : null, maxCost);
+    } finally {
+      readDb?.close();
+    }
+    return;
+  }
 
-  console.log(`Found ${allTextFiles.length} text files total`);
-  console.log(`Already processed: ${processedDocs.size}`);
-  console.log(`Remaining to analyze: ${unprocessedFiles.length}`);
-  console.log(`  - Part 1 documents: ${part1Files.length}`);
-  console.log(`  - Other documents: ${otherFiles.length}`);
+  // Initialize database
+  const db = initDatabase(dbPath);
+  const added = enqueueJobs(db, jobs);
+
+  const recovered = recoverInterruptedJobs(db);
+  if (recovered > 0) console.log(`Requeued ${recovered} document(s) left running by an interrupted run`);
+  if (retryFailed) console.log(`Requeued ${retryFailedJobs(db)} failed document(s)`);
+
+  const counts = getJobCounts(db);
+  console.log(`Found ${allTextFiles.length} text files total (${added} new)`);
+  console.log(`Already processed: ${counts.done}`);
+  console.log(`Failed: ${counts.failed}${counts.failed > 0 && !retryFailed ? ' (rerun with --retry-failed)' : ''}`);
+  console.log(`Remaining to analyze: ${counts.queued}`);
+
+  const estimate = await estimateCost(previewQueuedJobs(db, jobs).slice(0, maxDocs), averageOutputTokens(db), maxCost);
+
+  const interrupted = markInterruptedRuns(db);
+  if (interrupted > 0) console.log(`Marked ${interrupted} earlier run(s) as interrupted`);
+  const runId = startRun(db, {
+    provider: llm.name,
+    model: llm.model,
+    promptVersion: PROMPT_VERSION,
+    dataDir,
+    estimatedCostUsd: estimate.costUsd,
+    maxCostUsd: maxCost ?? null
+  });
+  console.log(`Run #${runId} (prompt ${PROMPT_VERSION})`);
 
   const results: AnalysisResult[] = [];
   let totalCost = 0;
@@ -562,115 +634,69 @@ async function main() {
   let totalOutputTokens = 0;
   let totalCacheReadTokens = 0;
 
-  const BATCH_SIZE = 20;
-  let totalProcessed = 0;
-
-  // Process part1 files first in their own batches
-  if (part1Files.length > 0 && totalProcessed < maxDocs) {
-    const part1ToProcess = part1Files.slice(0, maxDocs);
-    console.log(`\n=== Processing Part 1 Documents First (${part1ToProcess.length} documents) ===\n`);
-
-    for (let i = 0; i < part1ToProcess.length; i += BATCH_SIZE) {
-      const batch = part1ToProcess.slice(i, i + BATCH_SIZE);
-      console.log(`\nProcessing part1 batch ${Math.floor(i / BATCH_SIZE) + 1} of ${Math.ceil(part1ToProcess.length / BATCH_SIZE)} (${batch.length} documents)...\n`);
-
-      const batchPromises = batch.map(async (file) => {
-        const filePath = path.join(dataDir, file);
-        const docId = file.replace('.txt', '');
-
-        try {
-          const content = await fs.readFile(filePath, 'utf-8');
-          const result = await analyzeDocument(docId, filePath, content);
-          return result;
-        } catch (error) {
-          console.error(`Error processing ${file}:`, error);
-          return null;
-        }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-
-      for (const result of batchResults) {
-        if (result !== null) {
-          results.push(result);
-          totalCost += result.cost_usd;
-          if (result.usage) {
-            totalInputTokens += result.usage.input_tokens;
-            totalOutputTokens += result.usage.output_tokens;
-            totalCacheReadTokens += result.usage.cache_read_input_tokens || 0;
-          }
-          saveToDatabase(db, result);
-          console.log(`✓ ${result.doc_id}: ${result.analysis.category} - ${result.analysis.rdf_triples.length} triples`);
-          totalProcessed++;
-        }
+  const budgetReached = () => maxCost !== undefined && totalCost >= maxCost;
+
+  const summary = await runJobQueue(db, {
+    ...DEFAULT_JOB_OPTIONS,
+    concurrency,
+    maxAttempts,
+    limit: maxDocs,
+    shouldStop: budgetReached
+  }, async (job) => {
+    const content = await fs.readFile(job.file_path, 'utf-8');
+
+    // Check if this is a split document part 2+ and needs context
+    let contextPreamble: string | undefined;
+    if (job.depends_on) {
+      contextPreamble = getContextPreamble(db, job.depends_on.replace(/_part1$/, ''));
+      if (contextPreamble) {
+        console.log(`  ℹ Adding context from part 1 for ${job.doc_id}`);
       }
     }
-  }
 
-  // Now process other files (parts 2+, non-split docs) with context enrichment
-  if (otherFiles.length > 0 && totalProcessed < maxDocs) {
-    const remainingSlots = maxDocs - totalProcessed;
-    const otherToProcess = otherFiles.slice(0, remainingSlots);
-    console.log(`\n=== Processing Remaining Documents (${otherToProcess.length} documents) ===\n`);
-
-    for (let i = 0; i < otherToProcess.length; i += BATCH_SIZE) {
-      const batch = otherToProcess.slice(i, i + BATCH_SIZE);
-      console.log(`\nProcessing batch ${Math.floor(i / BATCH_SIZE) + 1} of ${Math.ceil(otherToProcess.length / BATCH_SIZE)} (${batch.length} documents)...\n`);
-
-      const batchPromises = batch.map(async (file) => {
-        const filePath = path.join(dataDir, file);
-        const docId = file.replace('.txt', '');
-
-        try {
-          const content = await fs.readFile(filePath, 'utf-8');
-
-          // Check if this is a split document part 2+ and needs context
-          let contextPreamble: string | undefined;
-          if (isSplitDocument(file)) {
-            const partNum = getPartNumber(file);
-            if (partNum && partNum > 1) {
-              const baseDocId = getBaseDocId(file);
-              contextPreamble = getContextPreamble(db, baseDocId);
-              if (contextPreamble) {
-                console.log(`  ℹ Adding context from part 1 for ${docId}`);
-              }
-            }
-          }
-
-          const result = await analyzeDocument(docId, filePath, content, contextPreamble);
-          return result;
-        } catch (error) {
-          console.error(`Error processing ${file}:`, error);
-          return null;
-        }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-
-      for (const result of batchResults) {
-        if (result !== null) {
-          results.push(result);
-          totalCost += result.cost_usd;
-          if (result.usage) {
-            totalInputTokens += result.usage.input_tokens;
-            totalOutputTokens += result.usage.output_tokens;
-            totalCacheReadTokens += result.usage.cache_read_input_tokens || 0;
-          }
-          saveToDatabase(db, result);
-          console.log(`✓ ${result.doc_id}: ${result.analysis.category} - ${result.analysis.rdf_triples.length} triples`);
-          totalProcessed++;
-        }
-      }
+    const result = await analyzeDocument(job.doc_id, job.file_path, content, contextPreamble);
+    results.push(result);
+    totalCost += result.cost_usd;
+    if (result.usage) {
+      totalInputTokens += result.usage.input_tokens;
+      totalOutputTokens += result.usage.output_tokens;
+      totalCacheReadTokens += result.usage.cache_read_input_tokens || 0;
     }
+    saveToDatabase(db, result, runId);
+    recordRunDocument(db, runId, result.usage, result.cost_usd);
+
+    // The row is kept for inspection, but the job stays failed until --retry-failed
+    if (result.error) throw new Error(result.error);
+    console.log(`✓ ${result.doc_id}: ${result.analysis.category} - ${result.analysis.rdf_triples.length} triples`);
+  });
+  const totalProcessed = summary.done;
+  finishRun(db, runId, budgetReached() ? 'budget_reached' : 'completed', summary.failed);
+
+  if (maxCost !== undefined && budgetReached()) {
+    console.log(`\n💰 Budget of $${maxCost.toFixed(2)} reached after $${totalCost.toFixed(4)}; ` +
+      `${getJobCounts(db).queued} document(s) left queued. Run again to continue.`);
   }
 
   console.log(`\nTotal documents analyzed in this run: ${totalProcessed}`);
+  if (summary.retried > 0) console.log(`Retried after rate limits or server errors: ${summary.retried}`);
+
+  const failedJobs = listFailedJobs(db);
+  if (failedJobs.length > 0) {
+    console.log(`\nFailed documents (${failedJobs.length}), rerun with --retry-failed:`);
+    for (const job of failedJobs.slice(0, 20)) {
+      console.log(`  - ${job.doc_id} (${job.attempts} attempt(s)): ${job.last_error}`);
+    }
+    if (failedJobs.length > 20) console.log(`  ... and ${failedJobs.length - 20} more (see analysis_jobs)`);
+  }
+
+  // Invalidate cached API responses now that new documents are in
+  if (results.length > 0) bumpContentVersion(db, 'analyze_documents');
 
   db.close();
 
   console.log(`\n=== Analysis Complete ===\n`);
   console.log(`Documents analyzed: ${results.length}`);
-  console.log(`Total cost: $${totalCost.toFixed(4)}`);
+  console.log(`Total cost: $${totalCost.toFixed(4)} (estimated $${estimate.costUsd.toFixed(2)}, run #${runId} in analysis_runs)`);
   console.log(`Total tokens: ${(totalInputTokens + totalOutputTokens + totalCacheReadTokens).toLocaleString()}`);
   console.log(`  - Input: ${totalInputTokens.toLocaleString()}`);
   console.log(`  - Output: ${totalOutputTokens.toLocaleString()}`);
@@ -690,6 +716,18 @@ async function main() {
   const totalTriples = results.reduce((sum, r) => sum + r.analysis.rdf_triples.length, 0);
   console.log(`\nTotal RDF triples extracted: ${totalTriples}`);
 
+  const parseMethods = results.reduce((acc, r) => {
+    if (r.parse_method) acc[r.parse_method] = (acc[r.parse_method] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  console.log(`JSON parsing: ${Object.entries(parseMethods).map(([method, count]) => `${method} ${count}`).join(', ') || 'none'}`);
+
+  const issues = results.flatMap(r => r.issues || []);
+  if (issues.length > 0) {
+    const rejected = issues.filter(issue => issue.severity === 'error').length;
+    console.log(`Schema issues: ${issues.length} (${rejected} errors, ${issues.length - rejected} warnings), see extraction_issues`);
+  }
+
   // Save JSON output for inspection
   const jsonOutputPath = 'document_analysis_results.json';
   await fs.writeFile(jsonOutputPath, JSON.stringify(results, null, 2));
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+import Database from 'better-sqlite3';
+import { existsSync } from 'fs';
+import { listRuns, getSpend, SPEND_GROUPINGS, type SpendGrouping, type SpendRow } from '../analysis_runs';
+
+const HELP = `
+Analysis Spend Report
+
+Shows what analyze_documents.ts has spent: recent runs from analysis_runs, then the cost of
+the documents in the database by tranche (the directory a file came from), category and model.
+
+Usage:
+  npx tsx analysis_pipeline/cost_report.ts [dbPath] [options]
+
+Options:
+  --by <grouping>      Only one breakdown: ${SPEND_GROUPINGS.join(', ')} (default: all)
+  --runs <n>           Recent runs to list (default: 10, 0 for none)
+  --help, -h           Show this help message
+`;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function printSpend(title: string, rows: SpendRow[]): void {
+  console.log(`\n${title}:`);
+  if (rows.length === 0) {
+    console.log('  No analyzed documents.');
+    return;
+  }
+  const width = Math.max(...rows.map(row => row.key.length));
+  for (const row of rows) {
+    console.log(
+      `  ${row.key.padEnd(width)}  ${row.documents.toLocaleString().padStart(7)} docs  ${`$${row.cost_usd.toFixed(4)}`.padStart(11)}  ` +
+      `${row.input_tokens.toLocaleString()} in / ${row.output_tokens.toLocaleString()} out`
+    );
+  }
+  const total = rows.reduce((sum, row) => sum + row.cost_usd, 0);
+  console.log(`  ${'Total'.padEnd(width)}  ${rows.reduce((sum, row) => sum + row.documents, 0).toLocaleString().padStart(7)} docs  ${`$${total.toFixed(4)}`.padStart(11)}`);
+}
+
+const args = process.argv.slice(2);
+let dbPath = 'document_analysis.db';
+let groupings: readonly SpendGrouping[] = SPEND_GROUPINGS;
+let runLimit = 10;
+
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--by') {
+    const by = args[++i];
+    if (!(SPEND_GROUPINGS as readonly string[]).includes(by)) fail(`--by must be one of: ${SPEND_GROUPINGS.join(', ')}`);
+    groupings = [by as SpendGrouping];
+  } else if (args[i] === '--runs') {
+    runLimit = Number(args[++i]);
+    if (!Number.isInteger(runLimit) || runLimit < 0) fail('--runs needs a whole number');
+  } else if (args[i] === '--help' || args[i] === '-h') {
+    console.log(HELP);
+    process.exit(0);
+  } else if (args[i].startsWith('--')) {
+    fail(`Unknown option: ${args[i]}`);
+  } else {
+    dbPath = args[i];
+  }
+}
+
+if (!existsSync(dbPath)) fail(`Database not found: ${dbPath}`);
+
+const db = new Database(dbPath, { readonly: true });
+try {
+  if (!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'analysis_runs'").get()) {
+    fail(`${dbPath} has no analysis_runs table yet; it is added by the next analyze_documents.ts run`);
+  }
+
+  console.log(`\n=== Analysis Spend: ${dbPath} ===`);
+
+  if (runLimit > 0) {
+    const runs = listRuns(db, runLimit);
+    console.log(`\nRecent runs:`);
+    if (runs.length === 0) console.log('  None recorded.');
+    for (const run of runs) {
+      const budget = run.max_cost_usd !== null ? `, budget $${run.max_cost_usd.toFixed(2)}` : '';
+      const estimate = run.estimated_cost_usd !== null ? `est. $${run.estimated_cost_usd.toFixed(2)}` : 'no estimate';
+      console.log(
+        `  #${run.id}  ${run.started_at.slice(0, 16).replace('T', ' ')}  ${run.status}  ${run.provider} (${run.model})  prompt ${run.prompt_version}  ` +
+        `${run.documents} docs, ${run.failed} failed  $${run.cost_usd.toFixed(4)} (${estimate}${budget})  ${run.data_dir}`
+      );
+    }
+  }
+
+  for (const by of groupings) {
+    printSpend(`By ${by}`, getSpend(db, by));
+  }
+} finally {
+  db.close();
+}
@@ -1,7 +1,9 @@
-import { query } from '@anthropic-ai/claude-agent-sdk';
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from '../db_version';
+import { llmProviderFromEnv } from '../llm_provider';
 
 const db = new Database('document_analysis.db');
+const llm = llmProviderFromEnv();
 
 interface Actor {
   name: string;
@@ -138,27 +140,8 @@ Return ONLY valid JSON with this exact structure:
 
 If no merges needed, use empty array: {"merge_groups": [], "do_not_merge": ${JSON.stringify(group.names)}, "reasoning_for_no_merge": "all distinct"}`;
 
-  let responseText = '';
-
-  const agent = query({
-    prompt,
-    options: {
-      model: 'claude-haiku-4-5',
-      maxTokens: 4096,
-      maxTurns: 3,
-      allowedTools: [],
-    }
-  });
-
   try {
-    for await (const message of agent) {
-      if (message.type === 'assistant') {
-        const textBlocks = message.message.content.filter((c: any) => c.type === 'text');
-        for (const block of textBlocks) {
-          responseText += block.text;
-        }
-      }
-    }
+    const responseText = (await llm.complete({ prompt, maxTokens: 4096 })).text;
 
     if (!responseText) {
       console.error('No response text for group:', group.names.slice(0, 3));
@@ -284,6 +267,8 @@ async function main() {
   console.log('  FROM rdf_triples rt');
   console.log('  LEFT JOIN entity_aliases ea ON rt.actor = ea.original_name');
 
+  if (totalAliasesCreated > 0) bumpContentVersion(db, 'dedupe_with_llm');
+
   db.close();
 }
 
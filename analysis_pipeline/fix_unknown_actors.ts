@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from '../db_version';
 
 const db = new Database('document_analysis.db');
 
@@ -105,6 +106,7 @@ const applyUpdates = db.transaction((updates: typeof updates) => {
 });
 
 applyUpdates(updates);
+bumpContentVersion(db, 'fix_unknown_actors');
 
 console.log(`✅ Updated ${updates.length} triples`);
 
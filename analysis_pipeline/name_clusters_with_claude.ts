@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
-import { query } from '@anthropic-ai/claude-agent-sdk';
 import fs from 'fs/promises';
+import { llmProviderFromEnv } from '../llm_provider';
 
 interface TagCluster {
   id: number;
@@ -26,7 +26,8 @@ function getRandomSample(tags: string[], count: number): string[] {
 }
 
 async function generateClusterNames(clusters: TagCluster[]): Promise<ClusterNaming[]> {
-  console.log(`\n🤖 Using Claude to generate cluster names for ${clusters.length} clusters...`);
+  const llm = llmProviderFromEnv();
+  console.log(`\n🤖 Using ${llm.model} to generate cluster names for ${clusters.length} clusters...`);
 
   const namings: ClusterNaming[] = [];
 
@@ -70,7 +71,7 @@ Respond in JSON format as an array:
 ]`;
 
     try {
-      const response = await query(prompt);
+      const response = (await llm.complete({ prompt, maxTokens: 4096 })).text;
 
       // Extract JSON from response (might be wrapped in markdown code blocks)
       const jsonMatch = response.match(/\[[\s\S]*\]/);
@@ -117,7 +118,7 @@ async function main() {
   console.log(`Found ${clusters.length} clusters`);
   console.log(`Total tags across all clusters: ${clusters.reduce((sum, c) => sum + c.tags.length, 0)}`);
 
-  // Generate new names using Claude
+  // Generate new names using the configured LLM
   const namings = await generateClusterNames(clusters);
 
   console.log(`\n✅ Generated names for ${namings.length} clusters`);
@@ -1,4 +1,4 @@
-import { query } from '@anthropic-ai/claude-agent-sdk';
+import { llmProviderFromEnv } from '../llm_provider';
 
 async function testOneGroup() {
   const testNames = ['Jeffrey Epstein', 'Jeffrey E.', 'Jeff Epstein', 'J. Epstein'];
@@ -25,31 +25,13 @@ If no merges needed, use empty array: {"merge_groups": [], "do_not_merge": ${JSO
 
   console.log('=== Testing Single Group ===\n');
   console.log('Names:', testNames);
-  console.log('\nSending prompt to Claude...\n');
-
-  let responseText = '';
-
-  const agent = query({
-    prompt,
-    options: {
-      model: 'claude-haiku-4-5',
-      maxTokens: 4096,
-      maxTurns: 1,
-      allowedTools: [],
-    }
-  });
+  const llm = llmProviderFromEnv();
+  console.log(`\nSending prompt to ${llm.name} (${llm.model})...\n`);
 
   try {
-    console.log('Collecting response...\n');
-    for await (const message of agent) {
-      console.log('Message type:', message.type);
-      if (message.type === 'assistant') {
-        const textBlocks = message.message.content.filter((c: any) => c.type === 'text');
-        for (const block of textBlocks) {
-          responseText += block.text;
-        }
-      }
-    }
+    const response = await llm.complete({ prompt, maxTokens: 4096 });
+    const responseText = response.text;
+    console.log('Usage:', response.usage);
 
     console.log('\n=== Response Text ===');
     console.log(responseText);
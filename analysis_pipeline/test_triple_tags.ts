@@ -1,10 +1,11 @@
 #!/usr/bin/env node
 
-import { query } from '@anthropic-ai/claude-agent-sdk';
 import * as fs from 'fs/promises';
 import Database from 'better-sqlite3';
+import { llmProviderFromEnv } from '../llm_provider';
+import { repairJson } from '../json_repair';
 
-const ANALYSIS_MODEL = 'claude-haiku-4-5';
+const llm = llmProviderFromEnv();
 const db = new Database('document_analysis.db');
 
 // First, let's check the schema and add the triple_tags column if needed
@@ -190,36 +191,10 @@ If the document is too fragmentary or unreadable to analyze, still provide your
 
 console.log('Running analysis...\n');
 
-let responseText = '';
-let usageStats: any = null;
-let agentCostUSD = 0;
-
-const agent = query({
-  prompt: analysisPrompt,
-  options: {
-    model: ANALYSIS_MODEL,
-    maxTokens: 16000,
-    maxTurns: 5,
-    allowedTools: [],
-  }
-});
-
-for await (const message of agent) {
-  if (message.type === 'result' && message.subtype === 'success') {
-    responseText = message.result;
-    if (message.usage) {
-      usageStats = message.usage;
-    }
-    if (message.total_cost_usd !== undefined) {
-      agentCostUSD = message.total_cost_usd;
-    }
-  } else if (message.type === 'assistant') {
-    const textBlocks = message.message.content.filter((c: any) => c.type === 'text');
-    for (const block of textBlocks) {
-      responseText += block.text;
-    }
-  }
-}
+const response = await llm.complete({ prompt: analysisPrompt, maxTokens: 16000 });
+const responseText = response.text;
+const usageStats = response.usage;
+let costUSD = response.costUsd;
 
 // Parse JSON response
 const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/) || responseText.match(/\{[\s\S]*\}/);
@@ -229,15 +204,20 @@ if (!jsonMatch) {
 }
 
 const jsonText = jsonMatch[1] || jsonMatch[0];
-let analysis;
+let analysis: any;
 
 try {
   analysis = JSON.parse(jsonText);
 } catch (parseError) {
-  console.log('⚠️  Initial JSON parse failed, attempting repair...\n');
+  const local = repairJson(jsonText);
+  if (local) {
+    analysis = local.value;
+    console.log(`✓ JSON repaired locally (${local.fixes.join(', ')})\n`);
+  } else {
+    console.log('⚠️  Initial JSON parse failed, asking the model to repair it...\n');
 
-  // Attempt to repair the JSON
-  const repairPrompt = `The following JSON response from a document analysis has a parsing error. Please identify and fix the issue, then return ONLY the corrected JSON:
+    // Attempt to repair the JSON
+    const repairPrompt = `The following JSON response from a document analysis has a parsing error. Please identify and fix the issue, then return ONLY the corrected JSON:
 
 \`\`\`json
 ${jsonText}
@@ -252,48 +232,31 @@ Instructions:
 - Return ONLY the valid JSON object, no explanations
 - Do NOT modify the content, only fix the syntax`;
 
-  const repairAgent = query({
-    prompt: repairPrompt,
-    options: {
-      model: ANALYSIS_MODEL,
-      maxTokens: 16000,
-      maxTurns: 3,
-      allowedTools: [],
-    }
-  });
-
-  let repairedText = '';
-  for await (const message of repairAgent) {
-    if (message.type === 'result' && message.subtype === 'success') {
-      repairedText = message.result;
-    } else if (message.type === 'assistant') {
-      const textBlocks = message.message.content.filter((c: any) => c.type === 'text');
-      for (const block of textBlocks) {
-        repairedText += block.text;
-      }
-    }
-  }
+    const repair = await llm.complete({ prompt: repairPrompt, maxTokens: 16000 });
+    const repairedText = repair.text;
+    costUSD += repair.costUsd;
 
-  // Extract JSON from repair response
-  const repairMatch = repairedText.match(/```(?:json)?\s*([\s\S]*?)```/) || repairedText.match(/\{[\s\S]*\}/);
-  if (!repairMatch) {
-    console.error('❌ Repair failed: No JSON found in repair response');
-    console.error('Original error:', parseError);
-    process.exit(1);
-  }
+    // Extract JSON from repair response
+    const repairMatch = repairedText.match(/```(?:json)?\s*([\s\S]*?)```/) || repairedText.match(/\{[\s\S]*\}/);
+    if (!repairMatch) {
+      console.error('❌ Repair failed: No JSON found in repair response');
+      console.error('Original error:', parseError);
+      process.exit(1);
+    }
 
-  const repairedJsonText = repairMatch[1] || repairMatch[0];
-
-  try {
-    analysis = JSON.parse(repairedJsonText);
-    console.log('✓ JSON successfully repaired!\n');
-  } catch (repairError) {
-    console.error('❌ Repair failed: Still cannot parse JSON');
-    console.error('Original error:', parseError);
-    console.error('Repair error:', repairError);
-    console.error('\nOriginal JSON:\n', jsonText);
-    console.error('\nRepaired JSON:\n', repairedJsonText);
-    process.exit(1);
+    const repairedJsonText = repairMatch[1] || repairMatch[0];
+
+    try {
+      analysis = JSON.parse(repairedJsonText);
+      console.log('✓ JSON successfully repaired!\n');
+    } catch (repairError) {
+      console.error('❌ Repair failed: Still cannot parse JSON');
+      console.error('Original error:', parseError);
+      console.error('Repair error:', repairError);
+      console.error('\nOriginal JSON:\n', jsonText);
+      console.error('\nRepaired JSON:\n', repairedJsonText);
+      process.exit(1);
+    }
   }
 }
 
@@ -324,7 +287,7 @@ for (let i = 0; i < analysis.rdf_triples.length; i++) {
 console.log('\nUsage Stats:');
 console.log(`  Input tokens: ${usageStats?.input_tokens || 0}`);
 console.log(`  Output tokens: ${usageStats?.output_tokens || 0}`);
-console.log(`  Cost: $${agentCostUSD.toFixed(4)}`);
+console.log(`  Cost: $${costUSD.toFixed(4)}`);
 
 console.log('\n=== Test Complete ===');
 console.log('Review the triples above. Each should have:');
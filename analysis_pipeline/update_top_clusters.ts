@@ -2,6 +2,7 @@
 
 import Database from 'better-sqlite3';
 import fs from 'fs/promises';
+import { bumpContentVersion } from '../db_version';
 
 interface TagCluster {
   id: number;
@@ -89,6 +90,7 @@ async function main() {
   });
 
   updateMany(triples);
+  bumpContentVersion(db, 'update_top_clusters');
 
   console.log('\n✅ Database update complete!');
 
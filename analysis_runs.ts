@@ -0,0 +1,163 @@
+import type Database from 'better-sqlite3';
+import * as path from 'path';
+import { estimateCostUsd, type LLMUsage } from './llm_provider';
+
+// History and budgets of analyze_documents.ts runs. Each run is a row in analysis_runs with the
+// model, prompt version and running totals (updated per document, so a crashed run still shows
+// what it spent); documents.run_id links every analysis to the run that produced it.
+
+export const RUN_STATUSES = ['running', 'completed', 'budget_reached', 'interrupted'] as const;
+export type RunStatus = typeof RUN_STATUSES[number];
+
+export interface AnalysisRun {
+  id: number;
+  provider: string;
+  model: string;
+  prompt_version: string;
+  data_dir: string;
+  status: RunStatus;
+  started_at: string;
+  finished_at: string | null;
+  documents: number;            // Responses saved, including ones saved with an error
+  failed: number;               // Jobs that ended failed in this run
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;
+  estimated_cost_usd: number | null;
+  max_cost_usd: number | null;
+}
+
+export interface NewRun {
+  provider: string;
+  model: string;
+  promptVersion: string;
+  dataDir: string;
+  estimatedCostUsd?: number | null;
+  maxCostUsd?: number | null;
+}
+
+// Rough tokens per character of English text, for estimates before any call is made
+export const CHARS_PER_TOKEN = 4;
+
+// Output tokens per document when the database has no history to average
+export const DEFAULT_OUTPUT_TOKENS_PER_DOC = 3000;
+
+export interface CostEstimate {
+  documents: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export const SPEND_GROUPINGS = ['tranche', 'category', 'model'] as const;
+export type SpendGrouping = typeof SPEND_GROUPINGS[number];
+
+export interface SpendRow {
+  key: string;
+  documents: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+export function startRun(db: Database.Database, run: NewRun, now: Date = new Date()): number {
+  const result = db.prepare(`
+    INSERT INTO analysis_runs (provider, model, prompt_version, data_dir, status, started_at, estimated_cost_usd, max_cost_usd)
+    VALUES (?, ?, ?, ?, 'running', ?, ?, ?)
+  `).run(run.provider, run.model, run.promptVersion, run.dataDir, now.toISOString(), run.estimatedCostUsd ?? null, run.maxCostUsd ?? null);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Runs still marked running belong to a process that crashed or was killed
+ */
+export function markInterruptedRuns(db: Database.Database): number {
+  return db.prepare(`
+    UPDATE analysis_runs SET status = 'interrupted' WHERE status = 'running'
+  `).run().changes;
+}
+
+/**
+ * Add one saved response to the run's totals
+ */
+export function recordRunDocument(db: Database.Database, runId: number, usage: LLMUsage | null, costUsd: number): void {
+  db.prepare(`
+    UPDATE analysis_runs SET
+      documents = documents + 1,
+      input_tokens = input_tokens + ?,
+      output_tokens = output_tokens + ?,
+      cache_read_tokens = cache_read_tokens + ?,
+      cost_usd = cost_usd + ?
+    WHERE id = ?
+  `).run(usage?.input_tokens ?? 0, usage?.output_tokens ?? 0, usage?.cache_read_input_tokens ?? 0, costUsd, runId);
+}
+
+export function finishRun(db: Database.Database, runId: number, status: RunStatus, failed: number, now: Date = new Date()): void {
+  db.prepare(`
+    UPDATE analysis_runs SET status = ?, failed = ?, finished_at = ? WHERE id = ?
+  `).run(status, failed, now.toISOString(), runId);
+}
+
+export function listRuns(db: Database.Database, limit = 20): AnalysisRun[] {
+  return db.prepare('SELECT * FROM analysis_runs ORDER BY id DESC LIMIT ?').all(limit) as AnalysisRun[];
+}
+
+/**
+ * Mean output tokens of earlier analyses, or null before the first one
+ */
+export function averageOutputTokens(db: Database.Database): number | null {
+  const row = db.prepare(`
+    SELECT AVG(output_tokens) as average FROM documents WHERE output_tokens > 0 AND error IS NULL
+  `).get() as { average: number | null };
+  return row.average === null ? null : Math.round(row.average);
+}
+
+/**
+ * Expected cost of sending prompts of the given lengths (in characters) to `model`. Models
+ * without a known price (e.g. local ones) estimate at 0.
+ */
+export function estimateRunCost(model: string, promptChars: number[], outputTokensPerDoc: number): CostEstimate {
+  const inputTokens = promptChars.reduce((sum, chars) => sum + Math.ceil(chars / CHARS_PER_TOKEN), 0);
+  const outputTokens = promptChars.length * outputTokensPerDoc;
+  return {
+    documents: promptChars.length,
+    inputTokens,
+    outputTokens,
+    costUsd: estimateCostUsd(model, { input_tokens: inputTokens, output_tokens: outputTokens })
+  };
+}
+
+/**
+ * The tranche a document came from: the directory its file was in (e.g. tranche_003 or 001_split)
+ */
+export function trancheOf(filePath: string): string {
+  return path.basename(path.dirname(filePath)) || '.';
+}
+
+/**
+ * Spend on the documents currently in the database, most expensive group first. Documents
+ * analyzed before runs were recorded have model "unknown". A document analyzed again only
+ * counts its latest analysis; analysis_runs has what each run actually spent.
+ */
+export function getSpend(db: Database.Database, by: SpendGrouping): SpendRow[] {
+  const rows = db.prepare(`
+    SELECT d.file_path, d.category, COALESCE(r.model, 'unknown') as model,
+      COALESCE(d.input_tokens, 0) as input_tokens, COALESCE(d.output_tokens, 0) as output_tokens,
+      COALESCE(d.cost_usd, 0) as cost_usd
+    FROM documents d
+    LEFT JOIN analysis_runs r ON r.id = d.run_id
+  `).all() as Array<{ file_path: string; category: string; model: string; input_tokens: number; output_tokens: number; cost_usd: number }>;
+
+  const groups = new Map<string, SpendRow>();
+  for (const row of rows) {
+    const key = by === 'tranche' ? trancheOf(row.file_path) : by === 'category' ? row.category : row.model;
+    const group = groups.get(key) ?? { key, documents: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+    group.documents++;
+    group.input_tokens += row.input_tokens;
+    group.output_tokens += row.output_tokens;
+    group.cost_usd += row.cost_usd;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.cost_usd - a.cost_usd || a.key.localeCompare(b.key));
+}
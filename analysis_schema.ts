@@ -0,0 +1,319 @@
+import type Database from 'better-sqlite3';
+
+// Schema of document_analysis.db. initAnalysisSchema is what analyze_documents.ts creates;
+// initDerivedSchema adds the tables and columns the later pipeline stages and the add_*.ts
+// migrations bring in, so a database can be built with its final shape in one step.
+
+/**
+ * Documents, triples, extraction issues, the job queue, run history and the full-text indexes
+ * (kept in sync by triggers)
+ */
+export function initAnalysisSchema(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS documents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      doc_id TEXT UNIQUE NOT NULL,
+      file_path TEXT NOT NULL,
+      one_sentence_summary TEXT NOT NULL,
+      paragraph_summary TEXT NOT NULL,
+      date_range_earliest TEXT,
+      date_range_latest TEXT,
+      category TEXT NOT NULL,
+      content_tags TEXT NOT NULL, -- JSON array
+      full_text TEXT,
+      analysis_timestamp TEXT NOT NULL,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      cache_read_tokens INTEGER,
+      cost_usd REAL,
+      error TEXT,
+      parse_method TEXT, -- direct, local_repair, llm_repair or failed (json_repair.ts)
+      run_id INTEGER, -- analysis_runs.id
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  // Databases analyzed before responses were repaired locally
+  const documentColumns = db.prepare('PRAGMA table_info(documents)').all() as Array<{ name: string }>;
+  if (!documentColumns.some(col => col.name === 'parse_method')) {
+    db.exec('ALTER TABLE documents ADD COLUMN parse_method TEXT');
+  }
+  // Databases analyzed before runs were recorded
+  if (!documentColumns.some(col => col.name === 'run_id')) {
+    db.exec('ALTER TABLE documents ADD COLUMN run_id INTEGER');
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rdf_triples (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      doc_id TEXT NOT NULL,
+      timestamp TEXT,
+      actor TEXT NOT NULL,
+      action TEXT NOT NULL,
+      target TEXT NOT NULL,
+      location TEXT,
+      actor_likely_type TEXT,
+      triple_tags TEXT,
+      explicit_topic TEXT,
+      implicit_topic TEXT,
+      sequence_order INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (doc_id) REFERENCES documents(doc_id) ON DELETE CASCADE
+    );
+  `);
+
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_documents_doc_id ON documents(doc_id);
+    CREATE INDEX IF NOT EXISTS idx_documents_category ON documents(category);
+    CREATE INDEX IF NOT EXISTS idx_rdf_triples_doc_id ON rdf_triples(doc_id);
+    CREATE INDEX IF NOT EXISTS idx_rdf_triples_actor ON rdf_triples(actor);
+    CREATE INDEX IF NOT EXISTS idx_rdf_triples_timestamp ON rdf_triples(timestamp);
+  `);
+
+  // Schema problems in the model's output (see extraction_schema.ts). triple_index is the
+  // position in the model's rdf_triples array, NULL for document-level fields.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS extraction_issues (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      doc_id TEXT NOT NULL,
+      triple_index INTEGER,
+      field TEXT NOT NULL,
+      code TEXT NOT NULL,
+      severity TEXT NOT NULL CHECK (severity IN ('error', 'warning')),
+      message TEXT NOT NULL,
+      value TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (doc_id) REFERENCES documents(doc_id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_extraction_issues_doc_id ON extraction_issues(doc_id);
+    CREATE INDEX IF NOT EXISTS idx_extraction_issues_code ON extraction_issues(code);
+  `);
+
+  // Work queue of analyze_documents.ts (see analysis_jobs.ts); depends_on is the part 1 a
+  // later part of a split document takes its context from
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS analysis_jobs (
+      doc_id TEXT PRIMARY KEY,
+      file_path TEXT NOT NULL,
+      depends_on TEXT,
+      status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'failed', 'done')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TEXT,
+      started_at TEXT,
+      finished_at TEXT,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status, next_attempt_at);
+  `);
+
+  // One row per analyze_documents.ts run with its running totals (see analysis_runs.ts)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS analysis_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      prompt_version TEXT NOT NULL,
+      data_dir TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'budget_reached', 'interrupted')),
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      documents INTEGER NOT NULL DEFAULT 0,
+      failed INTEGER NOT NULL DEFAULT 0,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      estimated_cost_usd REAL,
+      max_cost_usd REAL
+    );
+  `);
+
+  // Full-text index over document bodies and summaries (external content, backed by documents)
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS documents_fts USING fts5(
+      full_text,
+      one_sentence_summary,
+      paragraph_summary,
+      content='documents',
+      content_rowid='id',
+      tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS documents_fts_insert AFTER INSERT ON documents BEGIN
+      INSERT INTO documents_fts(rowid, full_text, one_sentence_summary, paragraph_summary)
+      VALUES (new.id, new.full_text, new.one_sentence_summary, new.paragraph_summary);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS documents_fts_delete AFTER DELETE ON documents BEGIN
+      INSERT INTO documents_fts(documents_fts, rowid, full_text, one_sentence_summary, paragraph_summary)
+      VALUES ('delete', old.id, old.full_text, old.one_sentence_summary, old.paragraph_summary);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS documents_fts_update AFTER UPDATE ON documents BEGIN
+      INSERT INTO documents_fts(documents_fts, rowid, full_text, one_sentence_summary, paragraph_summary)
+      VALUES ('delete', old.id, old.full_text, old.one_sentence_summary, old.paragraph_summary);
+      INSERT INTO documents_fts(rowid, full_text, one_sentence_summary, paragraph_summary)
+      VALUES (new.id, new.full_text, new.one_sentence_summary, new.paragraph_summary);
+    END;
+  `);
+
+  // Keyword index over triple text used for relevance ranking in the API
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS triples_fts USING fts5(
+      actor,
+      action,
+      target,
+      location,
+      explicit_topic,
+      implicit_topic,
+      content='rdf_triples',
+      content_rowid='id',
+      tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS triples_fts_insert AFTER INSERT ON rdf_triples BEGIN
+      INSERT INTO triples_fts(rowid, actor, action, target, location, explicit_topic, implicit_topic)
+      VALUES (new.id, new.actor, new.action, new.target, new.location, new.explicit_topic, new.implicit_topic);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS triples_fts_delete AFTER DELETE ON rdf_triples BEGIN
+      INSERT INTO triples_fts(triples_fts, rowid, actor, action, target, location, explicit_topic, implicit_topic)
+      VALUES ('delete', old.id, old.actor, old.action, old.target, old.location, old.explicit_topic, old.implicit_topic);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS triples_fts_update
+    AFTER UPDATE OF actor, action, target, location, explicit_topic, implicit_topic ON rdf_triples BEGIN
+      INSERT INTO triples_fts(triples_fts, rowid, actor, action, target, location, explicit_topic, implicit_topic)
+      VALUES ('delete', old.id, old.actor, old.action, old.target, old.location, old.explicit_topic, old.implicit_topic);
+      INSERT INTO triples_fts(rowid, actor, action, target, location, explicit_topic, implicit_topic)
+      VALUES (new.id, new.actor, new.action, new.target, new.location, new.explicit_topic, new.implicit_topic);
+    END;
+  `);
+}
+
+/**
+ * Cluster assignments, entity aliases with hop distances, tag embeddings and the entity name
+ * index. Run after
+ * initAnalysisSchema; existing tables and columns are left alone.
+ */
+export function initDerivedSchema(db: Database.Database): void {
+  // Materialized by update_top_clusters.ts
+  const tripleColumns = db.prepare('PRAGMA table_info(rdf_triples)').all() as Array<{ name: string }>;
+  if (!tripleColumns.some(col => col.name === 'top_cluster_ids')) {
+    db.exec('ALTER TABLE rdf_triples ADD COLUMN top_cluster_ids TEXT');
+  }
+
+  // dedupe_with_llm.ts, add_hop_distance_column.ts and create_canonical_entities_table.ts
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS entity_aliases (
+      original_name TEXT PRIMARY KEY,
+      canonical_name TEXT NOT NULL,
+      reasoning TEXT,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      created_by TEXT DEFAULT 'llm_dedupe',
+      hop_distance_from_principal INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_canonical ON entity_aliases(canonical_name);
+    CREATE INDEX IF NOT EXISTS idx_hop_distance ON entity_aliases(hop_distance_from_principal);
+
+    CREATE TABLE IF NOT EXISTS canonical_entities (
+      canonical_name TEXT PRIMARY KEY,
+      hop_distance_from_principal INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS idx_canonical_entities_name ON canonical_entities(canonical_name);
+  `);
+
+  // add_triple_clusters.ts: one row per (cluster, triple), kept in sync with top_cluster_ids
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS triple_clusters (
+      cluster_id INTEGER NOT NULL,
+      triple_id INTEGER NOT NULL,
+      PRIMARY KEY (cluster_id, triple_id)
+    ) WITHOUT ROWID;
+
+    CREATE INDEX IF NOT EXISTS idx_triple_clusters_triple ON triple_clusters(triple_id);
+
+    CREATE TRIGGER IF NOT EXISTS triple_clusters_insert AFTER INSERT ON rdf_triples
+    WHEN new.top_cluster_ids IS NOT NULL BEGIN
+      INSERT OR IGNORE INTO triple_clusters(cluster_id, triple_id)
+      SELECT value, new.id FROM json_each(new.top_cluster_ids);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS triple_clusters_delete AFTER DELETE ON rdf_triples BEGIN
+      DELETE FROM triple_clusters WHERE triple_id = old.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS triple_clusters_update AFTER UPDATE OF top_cluster_ids ON rdf_triples BEGIN
+      DELETE FROM triple_clusters WHERE triple_id = old.id;
+      INSERT OR IGNORE INTO triple_clusters(cluster_id, triple_id)
+      SELECT value, new.id FROM json_each(new.top_cluster_ids) WHERE new.top_cluster_ids IS NOT NULL;
+    END;
+  `);
+
+  // add_tag_embeddings.ts
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tag_embeddings (
+      tag TEXT PRIMARY KEY,
+      embedding TEXT NOT NULL,  -- JSON array of 32 floats
+      model TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  initEntityNamesIndex(db);
+}
+
+/**
+ * Every raw actor/target name and every canonical alias name, with a trigram index so keyword
+ * filters match any part of a name (graph_store.ts). Run after entity_aliases exists; used by
+ * initDerivedSchema and add_triples_fts.ts, which also fills it for an existing database.
+ */
+export function initEntityNamesIndex(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS entity_names (
+      name TEXT PRIMARY KEY
+    );
+    CREATE INDEX IF NOT EXISTS idx_rdf_triples_target ON rdf_triples(target);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS entity_names_fts USING fts5(
+      name,
+      content='entity_names',
+      tokenize='trigram'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS entity_names_fts_insert AFTER INSERT ON entity_names BEGIN
+      INSERT INTO entity_names_fts(rowid, name) VALUES (new.rowid, new.name);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS entity_names_fts_delete AFTER DELETE ON entity_names BEGIN
+      INSERT INTO entity_names_fts(entity_names_fts, rowid, name) VALUES ('delete', old.rowid, old.name);
+    END;
+
+    -- NOT EXISTS rather than INSERT OR IGNORE: a trigger statement's OR clause gives way to the outer
+    -- statement's, so an INSERT OR REPLACE into entity_aliases would replace the name under a new rowid
+    -- and, without recursive_triggers, leave entity_names_fts pointing at the old one
+    CREATE TRIGGER IF NOT EXISTS entity_names_triple_insert AFTER INSERT ON rdf_triples BEGIN
+      INSERT INTO entity_names(name)
+      SELECT n.name FROM (SELECT new.actor AS name UNION SELECT new.target) n
+      WHERE NOT EXISTS (SELECT 1 FROM entity_names en WHERE en.name = n.name);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS entity_names_triple_update AFTER UPDATE OF actor, target ON rdf_triples BEGIN
+      INSERT INTO entity_names(name)
+      SELECT n.name FROM (SELECT new.actor AS name UNION SELECT new.target) n
+      WHERE NOT EXISTS (SELECT 1 FROM entity_names en WHERE en.name = n.name);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS entity_names_alias_insert AFTER INSERT ON entity_aliases BEGIN
+      INSERT INTO entity_names(name)
+      SELECT new.canonical_name WHERE NOT EXISTS (SELECT 1 FROM entity_names WHERE name = new.canonical_name);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS entity_names_alias_update AFTER UPDATE OF canonical_name ON entity_aliases BEGIN
+      INSERT INTO entity_names(name)
+      SELECT new.canonical_name WHERE NOT EXISTS (SELECT 1 FROM entity_names WHERE name = new.canonical_name);
+    END;
+  `);
+}
@@ -0,0 +1,221 @@
+import express from 'express';
+import cors from 'cors';
+import type Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { getContentVersion } from './db_version';
+import { createResponseCache } from './response_cache';
+import { createRateLimiter, type RateLimitBudget, type RateLimitStore } from './rate_limit';
+import { findApiKey, recordApiKeyRequest, extractApiKey } from './api_keys';
+import { API_ROUTES, ANONYMOUS_MAX_LIMIT } from './api_routes';
+import { buildOpenApiDocument, renderApiDocsPage } from './openapi';
+import { createGraphStore } from './graph_store';
+import { hasScope, requestApiKey, type ApiContext } from './routes/context';
+import { createActorsRouter } from './routes/actors';
+import { createRelationshipsRouter } from './routes/relationships';
+import { createDocumentsRouter } from './routes/documents';
+import { createClustersRouter, type TagCluster } from './routes/clusters';
+import { createCommunityRouter } from './routes/community';
+import { createAdminRouter } from './routes/admin';
+
+// The Express app behind api_server.ts. Nothing here reads the environment or opens files:
+// databases, clusters and settings are passed in, so tests can build an app around fixtures.
+
+export interface ApiConfig {
+  // Browser origins allowed by CORS (*.onrender.com is always allowed)
+  allowedOrigins: string[];
+  // Express `trust proxy` setting; decides whether client IPs come from X-Forwarded-For
+  trustProxy: boolean | number | string[];
+  // Bearer token for /api/admin/* ('' disables it; admin-scoped API keys still work)
+  adminToken: string;
+  // Entities that hop distances are measured from by default
+  defaultPrincipals: string[];
+  rateLimit: {
+    store: RateLimitStore;
+    heavy: RateLimitBudget;
+    cheap: RateLimitBudget;
+  };
+  responseCache: {
+    maxEntries: number;
+    maxBytes: number;
+    diskDir: string | null;
+  };
+  // Built frontend to serve for non-API paths, or null to serve only the API
+  frontendPath: string | null;
+}
+
+export interface AppDependencies {
+  db: Database.Database;
+  // Community edits live in their own database so the source data is never modified
+  communityDb: Database.Database;
+  // Hashed API keys issued with manage_api_keys.ts
+  apiKeysDb: Database.Database;
+  clusters: TagCluster[];
+  config: ApiConfig;
+}
+
+export interface ApiApp {
+  app: express.Express;
+  // Stops the rate limiter's sweep timer and closes its store; the databases belong to the caller
+  close: () => void;
+}
+
+// Routes that scan large parts of the triple table get a smaller budget than everything else
+const HEAVY_ROUTES = ['/api/actor-counts', '/api/export/', '/api/query', '/api/path'];
+
+// The UI loads /api/relationships on every filter change, so only its bulk modes (cursor pages
+// and NDJSON streams of every triple) count as heavy
+function isHeavyRequest(req: express.Request): boolean {
+  if (req.path === '/api/relationships') {
+    return req.query.cursor !== undefined || req.query.pageSize !== undefined || req.query.format === 'ndjson';
+  }
+  return HEAVY_ROUTES.some(route => route.endsWith('/') ? req.path.startsWith(route) : req.path === route);
+}
+
+export function createApp({ db, communityDb, apiKeysDb, clusters, config }: AppDependencies): ApiApp {
+  const app = express();
+
+  // CORS configuration with origin whitelist
+  app.use(cors({
+    origin: (origin, callback) => {
+      // Allow requests with no origin (same-origin requests, mobile apps, curl)
+      if (!origin) return callback(null, true);
+
+      // Allow localhost origins for development
+      if (config.allowedOrigins.includes(origin)) {
+        return callback(null, true);
+      }
+
+      // Allow Render deployment domains (*.onrender.com)
+      if (origin && (origin.includes('.onrender.com') || origin.endsWith('onrender.com'))) {
+        return callback(null, true);
+      }
+
+      // Log rejected origins for debugging
+      console.warn(`CORS blocked origin: ${origin}`);
+
+      // Reject other origins
+      callback(new Error('Not allowed by CORS'));
+    },
+    credentials: true,
+    exposedHeaders: ['RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'],
+    maxAge: 86400
+  }));
+
+  // Request size limits (the admin import route parses its own, larger body)
+  const jsonParser = express.json({ limit: '10mb' });
+  app.use((req, res, next) => req.path === '/api/admin/import' ? next() : jsonParser(req, res, next));
+
+  app.set('trust proxy', config.trustProxy);
+
+  // Identify keyed clients. Requests without a key stay anonymous; a wrong or revoked key is rejected
+  // rather than silently downgraded, so scripts notice.
+  app.use('/api', (req, res, next) => {
+    const key = extractApiKey(req.headers);
+    if (!key) return next();
+
+    const apiKey = findApiKey(apiKeysDb, key);
+    if (!apiKey) {
+      return res.status(401).json({ error: 'Invalid or revoked API key' });
+    }
+    res.locals.apiKey = apiKey;
+    next();
+  });
+
+  const rateLimiter = createRateLimiter({
+    store: config.rateLimit.store,
+    budgets: {
+      heavy: config.rateLimit.heavy,
+      cheap: config.rateLimit.cheap
+    },
+    // Keyed clients draw from one bucket sized by their own quota, whatever the route
+    budgetFor: (req) => {
+      if (!req.path.startsWith('/api/')) return null;
+      const apiKey = requestApiKey(req.res!);
+      if (apiKey) return { name: 'key', budget: { burst: apiKey.burst, perMinute: apiKey.per_minute } };
+      return isHeavyRequest(req) ? 'heavy' : 'cheap';
+    },
+    clientKey: (req) => {
+      const apiKey = requestApiKey(req.res!);
+      return apiKey ? `key-${apiKey.id}` : req.ip || req.socket.remoteAddress || 'unknown';
+    }
+  });
+  app.use(rateLimiter.middleware);
+
+  // Daily key quotas are counted after the rate limiter so throttled requests do not use them up
+  app.use('/api', (req, res, next) => {
+    const apiKey = requestApiKey(res);
+    if (apiKey && !recordApiKeyRequest(apiKeysDb, apiKey)) {
+      return res.status(429).json({ error: 'Daily quota for this API key is exhausted' });
+    }
+    next();
+  });
+
+  // Cache for the heavy read endpoints; cleared whenever a pipeline script bumps the content version
+  const responseCache = createResponseCache({
+    getVersion: () => getContentVersion(db),
+    ...config.responseCache
+  });
+  const cached = responseCache.middleware;
+
+  const context: ApiContext = {
+    db,
+    communityDb,
+    graph: createGraphStore(db, { defaultPrincipals: config.defaultPrincipals }),
+    config,
+    cached,
+    // Responses with community edits applied change with every vote, so they bypass the cache.
+    // So do keyed requests above the anonymous row ceiling, which would otherwise be served to anyone
+    // sending the same query string. Runs after validateRequest, so the parsed input is available.
+    cachedUnlessApplyingEdits: (req, res, next) =>
+      res.locals.input.applyEdits || (res.locals.input.limit > ANONYMOUS_MAX_LIMIT && hasScope(res, 'read'))
+        ? next()
+        : cached(req, res, next)
+  };
+
+  // Machine-readable API description (generated from api_routes.ts) and an interactive viewer for it
+  const openApiDocument = buildOpenApiDocument(API_ROUTES, { title: 'Document Explorer API', version: '1.0.0' });
+
+  app.get('/api/openapi.json', (req, res) => {
+    res.json(openApiDocument);
+  });
+
+  app.get('/api/docs', (req, res) => {
+    res.type('html').send(renderApiDocsPage('/api/openapi.json'));
+  });
+
+  app.use(createActorsRouter(context));
+  app.use(createRelationshipsRouter(context));
+  app.use(createDocumentsRouter(context));
+  app.use(createClustersRouter(clusters));
+  app.use(createCommunityRouter(context));
+  app.use(createAdminRouter(context));
+
+  // Health check endpoint
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      uptime: process.uptime(),
+      timestamp: new Date().toISOString(),
+      cache: responseCache.stats()
+    });
+  });
+
+  // Serve static frontend files
+  const frontendPath = config.frontendPath;
+  if (frontendPath && fs.existsSync(frontendPath)) {
+    app.use(express.static(frontendPath));
+
+    // Serve index.html for all non-API routes (SPA support)
+    app.use((req, res, next) => {
+      // Skip API routes
+      if (req.path.startsWith('/api') || req.path.startsWith('/health')) {
+        return next();
+      }
+      // Serve index.html for all other routes (client-side routing)
+      res.sendFile(path.join(frontendPath, 'index.html'));
+    });
+  }
+
+  return { app, close: rateLimiter.close };
+}
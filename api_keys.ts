@@ -0,0 +1,181 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+
+// API keys for scripted access. Only a SHA-256 hash of each key is stored; the plaintext is shown
+// once when the key is issued (see manage_api_keys.ts). Every key has its own rate quota, an
+// optional daily request cap and a set of scopes.
+
+export const API_KEY_SCOPES = ['read', 'export', 'admin'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Prefix makes keys recognizable in an Authorization header (and in leaked-secret scanners)
+export const API_KEY_PREFIX = 'edx_';
+
+export const DEFAULT_KEY_QUOTA = {
+  burst: 600,
+  perMinute: 300
+};
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  key_prefix: string;           // First characters of the key, for identifying it in listings
+  scopes: ApiKeyScope[];
+  burst: number;
+  per_minute: number;
+  daily_quota: number | null;   // Requests per UTC day, null = unlimited
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiKeyScope[];
+  burst?: number;
+  perMinute?: number;
+  dailyQuota?: number | null;
+}
+
+type ApiKeyRow = Omit<ApiKey, 'scopes'> & { scopes: string };
+
+export function openApiKeysDb(dbPath: string): Database.Database {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      key_prefix TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,   -- SHA-256 of the full key
+      scopes TEXT NOT NULL,            -- Comma-separated: read, export, admin
+      burst INTEGER NOT NULL,
+      per_minute REAL NOT NULL,
+      daily_quota INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_used_at DATETIME,
+      revoked_at DATETIME
+    );
+
+    -- Requests per key per UTC day, for daily quotas and usage reports
+    CREATE TABLE IF NOT EXISTS api_key_usage (
+      key_id INTEGER NOT NULL REFERENCES api_keys(id),
+      day TEXT NOT NULL,
+      requests INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (key_id, day)
+    );
+  `);
+  return db;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function parseScopes(value: string): ApiKeyScope[] {
+  const scopes = value.split(',').map(s => s.trim()).filter(Boolean);
+  const invalid = scopes.filter(s => !(API_KEY_SCOPES as readonly string[]).includes(s));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown scope(s): ${invalid.join(', ')} (use ${API_KEY_SCOPES.join(', ')})`);
+  }
+  if (scopes.length === 0) {
+    throw new Error('At least one scope is required');
+  }
+  return [...new Set(scopes)] as ApiKeyScope[];
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return { ...row, scopes: parseScopes(row.scopes) };
+}
+
+const KEY_COLUMNS = 'id, name, key_prefix, scopes, burst, per_minute, daily_quota, created_at, last_used_at, revoked_at';
+
+// Returns the plaintext key, which is not recoverable afterwards
+export function issueApiKey(db: Database.Database, input: NewApiKey): { key: string; apiKey: ApiKey } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  const result = db.prepare(`
+    INSERT INTO api_keys (name, key_prefix, key_hash, scopes, burst, per_minute, daily_quota)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    input.name,
+    key.slice(0, API_KEY_PREFIX.length + 6),
+    hashApiKey(key),
+    input.scopes.join(','),
+    input.burst ?? DEFAULT_KEY_QUOTA.burst,
+    input.perMinute ?? DEFAULT_KEY_QUOTA.perMinute,
+    input.dailyQuota ?? null
+  );
+
+  const row = db.prepare(`SELECT ${KEY_COLUMNS} FROM api_keys WHERE id = ?`).get(result.lastInsertRowid) as ApiKeyRow;
+  return { key, apiKey: toApiKey(row) };
+}
+
+export function listApiKeys(db: Database.Database, includeRevoked: boolean = false): ApiKey[] {
+  const rows = db.prepare(`
+    SELECT ${KEY_COLUMNS} FROM api_keys
+    ${includeRevoked ? '' : 'WHERE revoked_at IS NULL'}
+    ORDER BY id
+  `).all() as ApiKeyRow[];
+  return rows.map(toApiKey);
+}
+
+// Revoke by numeric id or key prefix; returns the revoked key, or null if nothing active matched
+export function revokeApiKey(db: Database.Database, idOrPrefix: string): ApiKey | null {
+  const matches = db.prepare(`
+    SELECT ${KEY_COLUMNS} FROM api_keys
+    WHERE revoked_at IS NULL AND (id = ? OR key_prefix = ?)
+  `).all(/^\d+$/.test(idOrPrefix) ? parseInt(idOrPrefix) : -1, idOrPrefix) as ApiKeyRow[];
+  if (matches.length === 0) return null;
+  if (matches.length > 1) {
+    throw new Error(`"${idOrPrefix}" matches ${matches.length} keys; revoke by id instead`);
+  }
+
+  db.prepare('UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?').run(matches[0].id);
+  return toApiKey({ ...matches[0], revoked_at: new Date().toISOString() });
+}
+
+// Active key for a plaintext value, or null if it is unknown or revoked
+export function findApiKey(db: Database.Database, key: string): ApiKey | null {
+  const row = db.prepare(`
+    SELECT ${KEY_COLUMNS} FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL
+  `).get(hashApiKey(key)) as ApiKeyRow | undefined;
+  return row ? toApiKey(row) : null;
+}
+
+// Count one request against today's usage; returns false (without counting) once the daily quota is spent
+export function recordApiKeyRequest(db: Database.Database, apiKey: ApiKey): boolean {
+  const day = new Date().toISOString().slice(0, 10);
+  return db.transaction(() => {
+    if (apiKey.daily_quota !== null) {
+      const usage = db.prepare('SELECT requests FROM api_key_usage WHERE key_id = ? AND day = ?')
+        .get(apiKey.id, day) as { requests: number } | undefined;
+      if ((usage?.requests ?? 0) >= apiKey.daily_quota) return false;
+    }
+    db.prepare(`
+      INSERT INTO api_key_usage (key_id, day, requests) VALUES (?, ?, 1)
+      ON CONFLICT(key_id, day) DO UPDATE SET requests = requests + 1
+    `).run(apiKey.id, day);
+    db.prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?').run(apiKey.id);
+    return true;
+  }).immediate();
+}
+
+export function getApiKeyUsage(db: Database.Database, keyId: number, days: number = 30): Array<{ day: string; requests: number }> {
+  return db.prepare(`
+    SELECT day, requests FROM api_key_usage
+    WHERE key_id = ?
+    ORDER BY day DESC
+    LIMIT ?
+  `).all(keyId, days) as Array<{ day: string; requests: number }>;
+}
+
+// Key from `X-API-Key` or an `Authorization: Bearer edx_...` header. Other bearer tokens
+// (the admin token) are left alone.
+export function extractApiKey(headers: { authorization?: string; 'x-api-key'?: string | string[] }): string | null {
+  const header = headers['x-api-key'];
+  if (typeof header === 'string' && header.trim()) return header.trim();
+
+  const match = /^Bearer\s+(\S+)$/i.exec(headers.authorization || '');
+  if (match && match[1].startsWith(API_KEY_PREFIX)) return match[1];
+  return null;
+}
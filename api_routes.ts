@@ -0,0 +1,525 @@
+import { defineRoutes, type FieldSet } from './api_schema';
+import { GRAPH_EXPORT_FORMATS } from './graph_export';
+import { RDF_FORMATS } from './rdf_export';
+import { EDIT_TYPES, FLAG_REASONS, COMMUNITY_LIMITS } from './community_edits';
+import { GRAPH_QUERY_LIMITS } from './graph_query';
+
+// Request schemas for every /api route. The routers in routes/ validate against these, openapi.ts documents
+// them and generate_api_client.ts turns them into network-ui/src/api.ts. Response types are
+// TypeScript expressions over network-ui/src/types.ts.
+
+// Row ceilings for `limit` on /api/relationships; keys with the read scope get the higher one
+export const ANONYMOUS_MAX_LIMIT = 20000;
+export const KEYED_MAX_LIMIT = 100000;
+
+export const ANALYTICS_SORT_COLUMNS = ['degree', 'weighted_degree', 'betweenness', 'pagerank', 'eigenvector', 'community_id'] as const;
+
+// Cluster, category and year filters shared by the graph endpoints
+const TRIPLE_FILTERS = {
+  clusters: { type: 'integer[]', minimum: 0, maxItems: 50, description: 'Tag cluster ids; a triple matches if any of its top 3 clusters is listed' },
+  categories: { type: 'string[]', maxLength: 100, maxItems: 50, description: 'Document categories' },
+  yearMin: { type: 'integer', minimum: 1970, maximum: 2100, description: 'First year (applies only together with yearMax)' },
+  yearMax: { type: 'integer', minimum: 1970, maximum: 2100, description: 'Last year (applies only together with yearMin)' },
+  includeUndated: { type: 'boolean', default: true, description: 'Keep undated triples when filtering by year' }
+} as const satisfies FieldSet;
+
+// Keyword, hop-distance and principal options shared by the relationship endpoints and the graph export
+const GRAPH_FILTERS = {
+  keywords: { type: 'string[]', maxLength: 100, maxItems: 20, description: 'Prefix-matched keywords (ORed) over actor, action, target, location and topics' },
+  maxHops: { type: 'integer', minimum: 1, maximum: 10, description: 'Keep only entities within this many hops of the principals' },
+  principal: { type: 'string[]', maxLength: 200, maxItems: 10, description: 'Entities hop distances are measured from (default: PRINCIPAL_NAMES)' }
+} as const satisfies FieldSet;
+
+const SORT = {
+  sort: { type: 'enum', values: ['timestamp', 'relevance'], default: 'timestamp', description: 'relevance ranks keyword matches by bm25' }
+} as const satisfies FieldSet;
+
+const APPLY_EDITS = {
+  applyEdits: { type: 'boolean', default: false, description: 'Overlay accepted community edits' }
+} as const satisfies FieldSet;
+
+const ACTOR_NAME = {
+  name: { type: 'string', required: true, minLength: 1, maxLength: 200, description: 'Entity name (alias or canonical)' }
+} as const satisfies FieldSet;
+
+const FINGERPRINT = { type: 'string', maxLength: COMMUNITY_LIMITS.maxFingerprintLength, description: 'Anonymous browser fingerprint' } as const;
+const REQUIRED_FINGERPRINT = { ...FINGERPRINT, required: true } as const;
+const VOTE = { type: 'integer', required: true, minimum: -1, maximum: 1, description: '1 = upvote, -1 = downvote' } as const;
+
+const MODERATION_TARGET = {
+  targetType: { type: 'enum', values: ['edit', 'comment'], required: true },
+  targetId: { type: 'integer', minimum: 1, required: true }
+} as const satisfies FieldSet;
+
+const FINGERPRINT_HASH = { type: 'string', required: true, pattern: '^[0-9a-f]{64}$', description: 'Stored fingerprint hash' } as const;
+
+export const API_ROUTES = defineRoutes({
+  fetchActors: {
+    method: 'get',
+    path: '/api/actors',
+    operationId: 'fetchActors',
+    summary: 'The 100 most connected actors',
+    tag: 'Entities',
+    response: { type: 'Actor[]', description: 'Actors with their relationship counts' }
+  },
+
+  fetchRelationships: {
+    method: 'get',
+    path: '/api/relationships',
+    operationId: 'fetchRelationships',
+    summary: 'Relationship network with density pruning, or cursor pages / NDJSON of every filtered triple',
+    tag: 'Graph',
+    query: {
+      limit: { type: 'integer', minimum: 1, maximum: KEYED_MAX_LIMIT, clamp: true, default: 500, description: `Unique edges to return (at most ${ANONYMOUS_MAX_LIMIT} without an API key)` },
+      ...TRIPLE_FILTERS,
+      ...GRAPH_FILTERS,
+      ...SORT,
+      ...APPLY_EDITS,
+      format: { type: 'enum', values: ['json', 'ndjson'], default: 'json', description: 'ndjson streams every filtered triple in id order; limit and sort are rejected' },
+      cursor: { type: 'string', maxLength: 32, description: 'Resume after this cursor (switches to id-ordered pages; limit and sort are rejected)' },
+      pageSize: { type: 'integer', minimum: 1, maximum: 5000, clamp: true, description: 'Page size for cursor pagination (default 1000; limit and sort are rejected)' }
+    },
+    response: { type: 'RelationshipsResponse', description: 'Relationships plus totals, or one page with nextCursor' }
+  },
+
+  fetchActorRelationships: {
+    method: 'get',
+    path: '/api/actor/:name/relationships',
+    operationId: 'fetchActorRelationships',
+    summary: 'Every relationship involving an entity or its aliases',
+    tag: 'Entities',
+    params: ACTOR_NAME,
+    query: { ...TRIPLE_FILTERS, ...GRAPH_FILTERS, ...SORT, ...APPLY_EDITS },
+    response: { type: 'ActorRelationshipsResponse', description: 'The actor timeline' }
+  },
+
+  fetchActorCount: {
+    method: 'get',
+    path: '/api/actor/:name/count',
+    operationId: 'fetchActorCount',
+    summary: 'Unfiltered relationship count for an entity',
+    tag: 'Entities',
+    params: ACTOR_NAME,
+    response: { type: '{ count: number }', description: 'Relationship count' }
+  },
+
+  fetchActorNeighborhood: {
+    method: 'get',
+    path: '/api/actor/:name/neighborhood',
+    operationId: 'fetchActorNeighborhood',
+    summary: 'N-hop ego graph around an entity',
+    tag: 'Graph',
+    params: ACTOR_NAME,
+    query: {
+      depth: { type: 'integer', minimum: 1, maximum: 3, clamp: true, default: 2 },
+      maxNodes: { type: 'integer', minimum: 1, maximum: 1000, clamp: true, default: 200 },
+      minWeight: { type: 'integer', minimum: 1, clamp: true, default: 1, description: 'Minimum supporting triples per edge' },
+      ...TRIPLE_FILTERS
+    },
+    response: { type: 'ActorNeighborhood', description: 'Nodes by depth and the triples between them' }
+  },
+
+  findPaths: {
+    method: 'get',
+    path: '/api/path',
+    operationId: 'findPaths',
+    summary: 'Up to k shortest connection paths between two entities',
+    tag: 'Graph',
+    query: {
+      from: { type: 'string', required: true, minLength: 1, maxLength: 200 },
+      to: { type: 'string', required: true, minLength: 1, maxLength: 200 },
+      k: { type: 'integer', minimum: 1, maximum: 10, clamp: true, default: 3 },
+      ...TRIPLE_FILTERS
+    },
+    response: { type: 'PathResponse', description: 'Paths with the supporting triples for every hop' }
+  },
+
+  fetchActorCounts: {
+    method: 'get',
+    path: '/api/actor-counts',
+    operationId: 'fetchActorCounts',
+    summary: 'Unfiltered relationship totals for the top N entities',
+    tag: 'Entities',
+    query: {
+      limit: { type: 'integer', minimum: 1, maximum: 10000, clamp: true, default: 300 }
+    },
+    response: { type: 'Record<string, number>', description: 'Entity name to relationship count' }
+  },
+
+  searchActors: {
+    method: 'get',
+    path: '/api/search',
+    operationId: 'searchActors',
+    summary: 'Entity name substring search',
+    tag: 'Entities',
+    query: {
+      q: { type: 'string', maxLength: 200 }
+    },
+    response: { type: 'Actor[]', description: 'Up to 20 matching entities' }
+  },
+
+  exportGraph: {
+    method: 'get',
+    path: '/api/export/graph',
+    operationId: 'exportGraph',
+    summary: 'Filtered relationship graph for Gephi / Cytoscape',
+    tag: 'Export',
+    query: {
+      format: { type: 'enum', values: Object.keys(GRAPH_EXPORT_FORMATS) as (keyof typeof GRAPH_EXPORT_FORMATS)[], default: 'gexf' },
+      table: { type: 'enum', values: ['edges', 'nodes'], default: 'edges', description: 'Which CSV table to export' },
+      ...TRIPLE_FILTERS,
+      ...GRAPH_FILTERS
+    },
+    response: { type: 'string', description: 'GEXF, GraphML, Cytoscape JSON or CSV file', download: true }
+  },
+
+  exportRdf: {
+    method: 'get',
+    path: '/api/export/rdf',
+    operationId: 'exportRdf',
+    summary: 'Filtered triple store as RDF',
+    tag: 'Export',
+    query: {
+      format: { type: 'enum', values: Object.keys(RDF_FORMATS) as (keyof typeof RDF_FORMATS)[], default: 'turtle' },
+      ...TRIPLE_FILTERS
+    },
+    response: { type: 'string', description: 'Turtle, N-Triples or JSON-LD file', download: true }
+  },
+
+  exportTriples: {
+    method: 'get',
+    path: '/api/export/triples',
+    operationId: 'exportTriples',
+    summary: 'Every triple as NDJSON (bulk export)',
+    tag: 'Export',
+    auth: 'export',
+    query: TRIPLE_FILTERS,
+    response: { type: 'string', description: 'Newline-delimited JSON triples', download: true }
+  },
+
+  runGraphQuery: {
+    method: 'post',
+    path: '/api/query',
+    operationId: 'runGraphQuery',
+    summary: 'Run a graph pattern query (see graph_query.ts)',
+    tag: 'Graph',
+    body: {
+      query: { type: 'string', required: true, minLength: 1, maxLength: GRAPH_QUERY_LIMITS.maxQueryLength },
+      limit: { type: 'integer', minimum: 1, clamp: true }
+    },
+    response: { type: 'GraphQueryResult', description: 'Result table; syntax errors are 400 with a position' }
+  },
+
+  fetchEntityAnalytics: {
+    method: 'get',
+    path: '/api/analytics/entities',
+    operationId: 'fetchEntityAnalytics',
+    summary: 'Centrality metrics and community ids per canonical entity',
+    tag: 'Analytics',
+    query: {
+      sort: { type: 'enum', values: ANALYTICS_SORT_COLUMNS, default: 'pagerank' },
+      order: { type: 'enum', values: ['asc', 'desc'], default: 'desc' },
+      limit: { type: 'integer', minimum: 1, maximum: 1000, clamp: true, default: 100 },
+      offset: { type: 'integer', minimum: 0, clamp: true, default: 0 },
+      community: { type: 'integer', description: 'Only entities in this community' },
+      q: { type: 'string', maxLength: 200, description: 'Name substring' }
+    },
+    response: { type: '{ entities: EntityAnalytics[]; total: number }', description: 'One page of entities' }
+  },
+
+  fetchEntityCommunities: {
+    method: 'get',
+    path: '/api/analytics/communities',
+    operationId: 'fetchEntityCommunities',
+    summary: 'Community id for every canonical entity',
+    tag: 'Analytics',
+    response: { type: 'Record<string, number>', description: 'Entity name to community id (503 until computed)' }
+  },
+
+  fetchStats: {
+    method: 'get',
+    path: '/api/stats',
+    operationId: 'fetchStats',
+    summary: 'Document, triple and actor counts',
+    tag: 'Documents',
+    response: { type: 'Stats', description: 'Database statistics' }
+  },
+
+  searchDocuments: {
+    method: 'get',
+    path: '/api/documents/search',
+    operationId: 'searchDocuments',
+    summary: 'Full-text document search',
+    tag: 'Documents',
+    query: {
+      q: { type: 'string', maxLength: 500, description: 'Words or "quoted phrases" (all must match)' },
+      limit: { type: 'integer', minimum: 1, maximum: 100, clamp: true, default: 20 },
+      categories: TRIPLE_FILTERS.categories
+    },
+    response: { type: '{ results: DocumentSearchResult[]; total: number }', description: 'Ranked matches with snippets' }
+  },
+
+  fetchDocument: {
+    method: 'get',
+    path: '/api/document/:docId',
+    operationId: 'fetchDocument',
+    summary: 'Document metadata',
+    tag: 'Documents',
+    params: {
+      docId: { type: 'string', required: true, minLength: 1, maxLength: 100 }
+    },
+    response: { type: 'Document', description: 'Document metadata' }
+  },
+
+  fetchDocumentText: {
+    method: 'get',
+    path: '/api/document/:docId/text',
+    operationId: 'fetchDocumentText',
+    summary: 'Full document text',
+    tag: 'Documents',
+    params: {
+      docId: { type: 'string', required: true, minLength: 1, maxLength: 100, pattern: '^[^<>:"|?*]+$' }
+    },
+    response: { type: '{ text: string }', description: 'Document text' }
+  },
+
+  fetchTagClusters: {
+    method: 'get',
+    path: '/api/tag-clusters',
+    operationId: 'fetchTagClusters',
+    summary: 'Tag clusters with names and exemplars',
+    tag: 'Documents',
+    response: { type: 'TagCluster[]', description: 'All tag clusters' }
+  },
+
+  fetchTripleEdits: {
+    method: 'get',
+    path: '/api/edits/triple/:tripleId',
+    operationId: 'fetchTripleEdits',
+    summary: 'Edit proposals for a triple, best-voted first',
+    tag: 'Community edits',
+    params: {
+      tripleId: { type: 'integer', required: true, minimum: 1 }
+    },
+    query: {
+      fingerprint: FINGERPRINT,
+      includeRejected: { type: 'boolean', default: false }
+    },
+    response: { type: '{ edits: EditProposal[]; totalCount: number }', description: 'Proposals with the caller\'s votes' }
+  },
+
+  fetchEditSummary: {
+    method: 'post',
+    path: '/api/edits/summary',
+    operationId: 'fetchEditSummary',
+    summary: 'Proposal counts by status for many triples',
+    tag: 'Community edits',
+    body: {
+      tripleIds: { type: 'integer[]', required: true, minimum: 1, maxItems: 10000 }
+    },
+    response: { type: '{ summary: Record<number, EditSummary> }', description: 'Counts for every triple that has proposals' }
+  },
+
+  createEdit: {
+    method: 'post',
+    path: '/api/edits',
+    operationId: 'createEdit',
+    summary: 'Propose an edit to a triple',
+    tag: 'Community edits',
+    body: {
+      tripleId: { type: 'integer', required: true, minimum: 1 },
+      docId: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+      editType: { type: 'enum', values: EDIT_TYPES, required: true },
+      proposedValue: { type: 'string', required: true, minLength: 1, maxLength: COMMUNITY_LIMITS.maxValueLength },
+      originalValue: { type: 'string', required: true, minLength: 1, maxLength: COMMUNITY_LIMITS.maxValueLength },
+      evidenceText: { type: 'string', required: true, minLength: COMMUNITY_LIMITS.minEvidenceLength, maxLength: COMMUNITY_LIMITS.maxEvidenceLength },
+      supportingDocIds: { type: 'string[]', maxLength: 100, maxItems: COMMUNITY_LIMITS.maxSupportingDocs },
+      submitterName: { type: 'string', maxLength: COMMUNITY_LIMITS.maxNameLength },
+      submitterFingerprint: REQUIRED_FINGERPRINT
+    },
+    response: { status: 201, type: 'EditProposal', description: 'The new proposal' }
+  },
+
+  voteOnEdit: {
+    method: 'post',
+    path: '/api/edits/:editId/vote',
+    operationId: 'voteOnEdit',
+    summary: 'Vote on an edit proposal',
+    tag: 'Community edits',
+    params: {
+      editId: { type: 'integer', required: true, minimum: 1 }
+    },
+    body: {
+      vote: VOTE,
+      voterFingerprint: REQUIRED_FINGERPRINT
+    },
+    response: { type: 'EditProposal', description: 'The proposal with updated counts' }
+  },
+
+  fetchEditComments: {
+    method: 'get',
+    path: '/api/edits/:editId/comments',
+    operationId: 'fetchEditComments',
+    summary: 'Threaded discussion for an edit',
+    tag: 'Community edits',
+    params: {
+      editId: { type: 'integer', required: true, minimum: 1 }
+    },
+    query: {
+      fingerprint: FINGERPRINT
+    },
+    response: { type: '{ comments: EditComment[] }', description: 'Comment tree' }
+  },
+
+  postEditComment: {
+    method: 'post',
+    path: '/api/edits/:editId/comments',
+    operationId: 'postEditComment',
+    summary: 'Comment on an edit',
+    tag: 'Community edits',
+    params: {
+      editId: { type: 'integer', required: true, minimum: 1 }
+    },
+    body: {
+      commentText: { type: 'string', required: true, minLength: 1, maxLength: COMMUNITY_LIMITS.maxCommentLength },
+      parentCommentId: { type: 'integer', minimum: 1 },
+      commenterName: { type: 'string', maxLength: COMMUNITY_LIMITS.maxNameLength },
+      commenterFingerprint: REQUIRED_FINGERPRINT
+    },
+    response: { status: 201, type: 'EditComment', description: 'The new comment' }
+  },
+
+  voteOnComment: {
+    method: 'post',
+    path: '/api/comments/:commentId/vote',
+    operationId: 'voteOnComment',
+    summary: 'Vote on a comment',
+    tag: 'Community edits',
+    params: {
+      commentId: { type: 'integer', required: true, minimum: 1 }
+    },
+    body: {
+      vote: VOTE,
+      voterFingerprint: REQUIRED_FINGERPRINT
+    },
+    response: { type: 'EditComment', description: 'The comment with updated counts' }
+  },
+
+  flagContent: {
+    method: 'post',
+    path: '/api/moderation/flag',
+    operationId: 'flagContent',
+    summary: 'Flag an edit or comment for moderators',
+    tag: 'Community edits',
+    body: {
+      ...MODERATION_TARGET,
+      flagReason: { type: 'enum', values: FLAG_REASONS, required: true },
+      flaggerFingerprint: REQUIRED_FINGERPRINT
+    },
+    response: { status: 201, type: '{ id: number; flagCount: number }', description: 'The flag and the target\'s flag count' }
+  },
+
+  fetchModerationQueue: {
+    method: 'get',
+    path: '/api/admin/flags',
+    operationId: 'fetchModerationQueue',
+    summary: 'Flagged content, most-flagged first',
+    tag: 'Moderation',
+    auth: 'admin',
+    query: {
+      includeReviewed: { type: 'boolean', default: false },
+      limit: { type: 'integer', minimum: 1, maximum: 500, clamp: true, default: 100 },
+      offset: { type: 'integer', minimum: 0, clamp: true, default: 0 }
+    },
+    response: { type: '{ items: ModerationQueueItem[]; total: number }', description: 'One page of the queue' }
+  },
+
+  setContentModeration: {
+    method: 'post',
+    path: '/api/admin/content/:targetType/:targetId/:action',
+    operationId: 'setContentModeration',
+    summary: 'Hide or restore an edit or comment',
+    tag: 'Moderation',
+    auth: 'admin',
+    params: {
+      ...MODERATION_TARGET,
+      action: { type: 'enum', values: ['hide', 'restore'], required: true }
+    },
+    body: {
+      note: { type: 'string', maxLength: 500 }
+    },
+    response: { type: "{ target_type: 'edit' | 'comment'; target_id: number; hidden: boolean }", description: 'The new state' }
+  },
+
+  deleteContent: {
+    method: 'delete',
+    path: '/api/admin/content/:targetType/:targetId',
+    operationId: 'deleteContent',
+    summary: 'Delete an edit or comment with everything under it',
+    tag: 'Moderation',
+    auth: 'admin',
+    params: MODERATION_TARGET,
+    response: { type: '{ deleted: number }', description: 'Rows deleted' }
+  },
+
+  fetchBans: {
+    method: 'get',
+    path: '/api/admin/bans',
+    operationId: 'fetchBans',
+    summary: 'Banned fingerprints',
+    tag: 'Moderation',
+    auth: 'admin',
+    response: { type: '{ bans: BannedFingerprint[] }', description: 'All bans' }
+  },
+
+  banFingerprint: {
+    method: 'post',
+    path: '/api/admin/bans',
+    operationId: 'banFingerprint',
+    summary: 'Ban a fingerprint from contributing',
+    tag: 'Moderation',
+    auth: 'admin',
+    body: {
+      fingerprint: FINGERPRINT_HASH,
+      reason: { type: 'string', maxLength: 500 },
+      hideContent: { type: 'boolean', default: false, description: 'Also hide everything it posted' }
+    },
+    response: { status: 201, type: '{ fingerprint: string; hidden: number }', description: 'The ban and how many items were hidden' }
+  },
+
+  unbanFingerprint: {
+    method: 'delete',
+    path: '/api/admin/bans/:fingerprint',
+    operationId: 'unbanFingerprint',
+    summary: 'Lift a ban',
+    tag: 'Moderation',
+    auth: 'admin',
+    params: {
+      fingerprint: FINGERPRINT_HASH
+    },
+    response: { status: 204, type: 'void', description: 'Ban lifted' }
+  },
+
+  exportCommunityData: {
+    method: 'get',
+    path: '/api/admin/export',
+    operationId: 'exportCommunityData',
+    summary: 'JSON backup of all community data',
+    tag: 'Moderation',
+    auth: 'admin',
+    response: { type: 'unknown', description: 'Every community table' }
+  },
+
+  importCommunityData: {
+    method: 'post',
+    path: '/api/admin/import',
+    operationId: 'importCommunityData',
+    summary: 'Replace all community data with a backup',
+    tag: 'Moderation',
+    auth: 'admin',
+    rawBody: true,
+    response: { type: '{ imported: Record<string, number> }', description: 'Rows imported per table' }
+  }
+});
+
+export type ApiRouteName = keyof typeof API_ROUTES;
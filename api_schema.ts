@@ -0,0 +1,262 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// Declarative request schemas for the REST API. One RouteSchema per route (see api_routes.ts) drives
+// runtime validation, the OpenAPI document (openapi.ts) and the generated frontend client
+// (generate_api_client.ts), so the three cannot drift apart.
+
+interface FieldBase {
+  description?: string;
+  required?: boolean;
+}
+
+export type FieldSchema = FieldBase & (
+  | { type: 'integer' | 'number'; minimum?: number; maximum?: number; clamp?: boolean; default?: number }
+  | { type: 'string'; minLength?: number; maxLength?: number; pattern?: string; default?: string }
+  | { type: 'enum'; values: readonly string[]; default?: string }
+  | { type: 'boolean'; default?: boolean }
+  // Lists are comma-separated in the query string and JSON arrays in a body; absent lists are []
+  | { type: 'integer[]'; minimum?: number; maxItems?: number }
+  | { type: 'string[]'; maxLength?: number; maxItems?: number }
+  // Any JSON value (body only), passed through unchecked
+  | { type: 'json' }
+);
+
+export type FieldSet = Record<string, FieldSchema>;
+
+export interface RouteSchema {
+  method: 'get' | 'post' | 'delete';
+  path: string;            // Express path, e.g. /api/actor/:name/relationships
+  operationId: string;     // Function name in the generated client
+  summary: string;
+  tag: string;
+  params?: FieldSet;
+  query?: FieldSet;
+  body?: FieldSet;
+  // Whole request body as one opaque JSON value (e.g. an import file) instead of named fields
+  rawBody?: boolean;
+  auth?: 'admin' | 'export';
+  response: {
+    status?: 200 | 201 | 204;
+    // TypeScript type of the JSON body, written against network-ui/src/types.ts
+    type: string;
+    description: string;
+    // Non-JSON downloads (exports); the client gets a URL builder instead of a fetch
+    download?: boolean;
+  };
+}
+
+// ---- Static types derived from a schema ----
+
+type FieldValue<F> =
+  F extends { type: 'integer' | 'number' } ? number
+  : F extends { type: 'boolean' } ? boolean
+  : F extends { type: 'enum'; values: readonly (infer V)[] } ? V
+  : F extends { type: 'string' } ? string
+  : F extends { type: 'integer[]' } ? number[]
+  : F extends { type: 'string[]' } ? string[]
+  : unknown;
+
+// Fields with a default, required fields and lists always have a value after validation
+type AlwaysPresent<F> =
+  F extends { default: unknown } ? true
+  : F extends { required: true } ? true
+  : F extends { type: 'integer[]' | 'string[]' } ? true
+  : false;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferFields<S> = S extends FieldSet
+  ? Simplify<
+    { [K in keyof S as AlwaysPresent<S[K]> extends true ? K : never]: FieldValue<S[K]> } &
+    { [K in keyof S as AlwaysPresent<S[K]> extends true ? never : K]?: FieldValue<S[K]> }
+  >
+  : {};
+
+export type RouteInput<R extends RouteSchema> = Simplify<
+  InferFields<R['params']> & InferFields<R['query']> & InferFields<R['body']> &
+  (R['rawBody'] extends true ? { body: unknown } : {})
+>;
+
+// Preserves literal types (enum values, defaults) so RouteInput can be inferred
+export function defineRoutes<const T extends Record<string, RouteSchema>>(routes: T): T {
+  return routes;
+}
+
+// ---- Runtime validation ----
+
+export interface ValidationIssue {
+  in: 'path' | 'query' | 'body';
+  name: string;
+  message: string;
+}
+
+type Location = ValidationIssue['in'];
+
+function describeRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return ` between ${min} and ${max}`;
+  if (min !== undefined) return ` of at least ${min}`;
+  if (max !== undefined) return ` of at most ${max}`;
+  return '';
+}
+
+// Raw value -> validated value, or an error message
+function parseField(field: FieldSchema, raw: unknown, location: Location): { value: unknown } | { error: string } {
+  const fromQuery = location !== 'body';
+
+  switch (field.type) {
+    case 'integer':
+    case 'number': {
+      const num = fromQuery && typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      const isValid = typeof num === 'number' && Number.isFinite(num) && (field.type === 'number' || Number.isInteger(num));
+      if (!isValid) {
+        return { error: `must be ${field.type === 'integer' ? 'an integer' : 'a number'}${describeRange(field.minimum, field.maximum)}` };
+      }
+      if (field.clamp) {
+        return { value: Math.min(field.maximum ?? Infinity, Math.max(field.minimum ?? -Infinity, num)) };
+      }
+      if ((field.minimum !== undefined && num < field.minimum) || (field.maximum !== undefined && num > field.maximum)) {
+        return { error: `must be ${field.type === 'integer' ? 'an integer' : 'a number'}${describeRange(field.minimum, field.maximum)}` };
+      }
+      return { value: num };
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      if (fromQuery && (raw === 'true' || raw === 'false')) return { value: raw === 'true' };
+      return { error: 'must be true or false' };
+    }
+
+    case 'string': {
+      if (typeof raw !== 'string') return { error: 'must be a string' };
+      const value = raw.trim();
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        return { error: field.minLength === 1 ? 'must not be empty' : `must be at least ${field.minLength} characters` };
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return { error: `must be at most ${field.maxLength} characters` };
+      }
+      if (field.pattern !== undefined && !new RegExp(field.pattern).test(value)) {
+        return { error: 'has an invalid format' };
+      }
+      return { value };
+    }
+
+    case 'enum': {
+      if (typeof raw !== 'string' || !field.values.includes(raw)) {
+        return { error: `must be one of: ${field.values.join(', ')}` };
+      }
+      return { value: raw };
+    }
+
+    case 'integer[]':
+    case 'string[]': {
+      let items: unknown[];
+      if (fromQuery && typeof raw === 'string') {
+        items = raw.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      } else if (Array.isArray(raw)) {
+        items = raw;
+      } else {
+        return { error: fromQuery ? 'must be a comma-separated list' : 'must be an array' };
+      }
+      if (field.maxItems !== undefined && items.length > field.maxItems) {
+        return { error: `must have at most ${field.maxItems} items` };
+      }
+
+      if (field.type === 'integer[]') {
+        const numbers = items.map(item => (fromQuery && typeof item === 'string' ? Number(item) : item));
+        const invalid = numbers.some(n => typeof n !== 'number' || !Number.isInteger(n) || (field.minimum !== undefined && n < field.minimum));
+        if (invalid) {
+          return { error: `must be a list of integers${field.minimum !== undefined ? ` (each at least ${field.minimum})` : ''}` };
+        }
+        return { value: numbers };
+      }
+
+      const invalid = items.some(item => typeof item !== 'string' || (field.maxLength !== undefined && item.length > field.maxLength));
+      if (invalid) {
+        return { error: `must be a list of strings${field.maxLength !== undefined ? ` of at most ${field.maxLength} characters` : ''}` };
+      }
+      return { value: (items as string[]).map(item => item.trim()) };
+    }
+
+    case 'json':
+      return { value: raw };
+  }
+}
+
+function parseFields(fields: FieldSet | undefined, source: Record<string, unknown>, location: Location, issues: ValidationIssue[]) {
+  const values: Record<string, unknown> = {};
+  if (!fields) return values;
+
+  for (const [name, field] of Object.entries(fields)) {
+    let raw = source[name];
+    // A repeated query parameter (?a=1&a=2) is ambiguous for scalars; lists join the values
+    if (Array.isArray(raw) && location !== 'body') {
+      if (field.type === 'integer[]' || field.type === 'string[]') {
+        raw = raw.join(',');
+      } else {
+        issues.push({ in: location, name, message: 'must be given only once' });
+        continue;
+      }
+    }
+
+    const missing = raw === undefined || raw === null || (location !== 'body' && raw === '');
+    if (missing) {
+      if (field.required) {
+        issues.push({ in: location, name, message: 'is required' });
+      } else if (field.type === 'integer[]' || field.type === 'string[]') {
+        values[name] = [];
+      } else if ('default' in field && field.default !== undefined) {
+        values[name] = field.default;
+      }
+      continue;
+    }
+
+    const result = parseField(field, raw, location);
+    if ('error' in result) {
+      issues.push({ in: location, name, message: result.error });
+    } else {
+      values[name] = result.value;
+    }
+  }
+  return values;
+}
+
+export function validateInput(route: RouteSchema, req: Pick<Request, 'params' | 'query' | 'body'>):
+  { input: Record<string, unknown>; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+  if ((route.body || route.rawBody) && req.body !== undefined && (req.body === null || typeof req.body !== 'object' || Array.isArray(req.body))) {
+    issues.push({ in: 'body', name: 'body', message: 'must be a JSON object' });
+  }
+
+  const input = {
+    ...parseFields(route.params, req.params as Record<string, unknown>, 'path', issues),
+    ...parseFields(route.query, req.query as Record<string, unknown>, 'query', issues),
+    ...parseFields(route.body, body, 'body', issues),
+    ...(route.rawBody ? { body: req.body } : {})
+  };
+  return { input, issues };
+}
+
+// Every validation failure answers 400 with the same shape:
+// { error: "<first problem>", issues: [{ in, name, message }, ...] }
+export function validateRequest(route: RouteSchema): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { input, issues } = validateInput(route, req);
+    if (issues.length > 0) {
+      const [first] = issues;
+      return res.status(400).json({
+        error: first.name === 'body' ? `Request body ${first.message}` : `Invalid ${first.in} parameter "${first.name}": ${first.message}`,
+        issues
+      });
+    }
+    res.locals.input = input;
+    next();
+  };
+}
+
+// Validated input for the current request (validateRequest must run first)
+export function routeInput<R extends RouteSchema>(res: Response, route: R): RouteInput<R> {
+  void route; // Only used to pick the type
+  return res.locals.input as RouteInput<R>;
+}
@@ -0,0 +1,311 @@
+import type Database from 'better-sqlite3';
+import { CommunityEditError } from './community_edits';
+
+// Moderator operations on community_edits.db: the flag queue, hide/restore, deletion,
+// fingerprint bans and JSON backup. Only reachable through the token-protected /api/admin routes.
+
+export type ModerationTarget = 'edit' | 'comment';
+
+export interface ModerationQueueItem {
+  target_type: ModerationTarget;
+  target_id: number;
+  flag_count: number;
+  reasons: Record<string, number>;
+  last_flagged_at: string;
+  hidden: boolean;
+  reviewed: boolean;
+  note: string | null;
+  // The flagged content itself
+  triple_id: number;
+  edit_proposal_id: number;
+  text: string;
+  author_name: string | null;
+  author_fingerprint: string | null;
+  author_banned: boolean;
+  created_at: string;
+}
+
+export interface BannedFingerprint {
+  fingerprint: string;
+  reason: string | null;
+  created_at: string;
+}
+
+// Tables in dependency order, so an import can insert parents before children
+const EXPORT_TABLES = [
+  'edit_proposals',
+  'edit_votes',
+  'edit_comments',
+  'comment_votes',
+  'moderation_flags',
+  'moderation_status',
+  'banned_fingerprints'
+] as const;
+
+export const EXPORT_FORMAT = 'community-edits';
+export const EXPORT_VERSION = 1;
+
+export function requireTargetType(value: unknown): ModerationTarget {
+  if (value !== 'edit' && value !== 'comment') {
+    throw new CommunityEditError("Target type must be 'edit' or 'comment'");
+  }
+  return value;
+}
+
+// Stored fingerprints are SHA-256 hex digests (see hashFingerprint)
+export function requireFingerprintHash(value: unknown): string {
+  if (typeof value !== 'string' || !/^[0-9a-f]{64}$/.test(value)) {
+    throw new CommunityEditError('fingerprint must be a stored fingerprint hash');
+  }
+  return value;
+}
+
+function requireTargetExists(db: Database.Database, targetType: ModerationTarget, targetId: number) {
+  const exists = targetType === 'edit'
+    ? db.prepare('SELECT 1 FROM edit_proposals WHERE id = ?').get(targetId)
+    : db.prepare('SELECT 1 FROM edit_comments WHERE id = ?').get(targetId);
+  if (!exists) {
+    throw new CommunityEditError(`${targetType === 'edit' ? 'Edit proposal' : 'Comment'} not found`, 404);
+  }
+}
+
+/**
+ * Flagged content, most-flagged first. Items an admin has already reviewed are left out
+ * unless includeReviewed is set.
+ */
+export function getModerationQueue(
+  db: Database.Database,
+  options: { includeReviewed?: boolean; limit?: number; offset?: number } = {}
+): { items: ModerationQueueItem[]; total: number } {
+  const reviewedFilter = options.includeReviewed ? '' : 'WHERE COALESCE(ms.reviewed, 0) = 0';
+  const flagged = `
+    SELECT target_type, target_id, COUNT(*) as flag_count, MAX(created_at) as last_flagged_at,
+      json_group_array(flag_reason) as reasons
+    FROM moderation_flags
+    GROUP BY target_type, target_id`;
+
+  const rows = db.prepare(`
+    SELECT
+      f.target_type, f.target_id, f.flag_count, f.last_flagged_at, f.reasons,
+      COALESCE(ms.hidden, 0) as hidden, COALESCE(ms.reviewed, 0) as reviewed, ms.note,
+      COALESCE(ep.triple_id, cep.triple_id) as triple_id,
+      COALESCE(ep.id, c.edit_proposal_id) as edit_proposal_id,
+      CASE WHEN f.target_type = 'edit'
+        THEN ep.edit_type || ': ' || ep.original_value || ' -> ' || ep.proposed_value || char(10) || ep.evidence_text
+        ELSE c.comment_text
+      END as text,
+      COALESCE(ep.submitter_name, c.commenter_name) as author_name,
+      COALESCE(ep.submitter_fingerprint, c.commenter_fingerprint) as author_fingerprint,
+      COALESCE(ep.created_at, c.created_at) as created_at
+    FROM (${flagged}) f
+    LEFT JOIN moderation_status ms ON ms.target_type = f.target_type AND ms.target_id = f.target_id
+    LEFT JOIN edit_proposals ep ON f.target_type = 'edit' AND ep.id = f.target_id
+    LEFT JOIN edit_comments c ON f.target_type = 'comment' AND c.id = f.target_id
+    LEFT JOIN edit_proposals cep ON cep.id = c.edit_proposal_id
+    ${reviewedFilter}
+    ORDER BY f.flag_count DESC, f.last_flagged_at DESC
+    LIMIT ? OFFSET ?
+  `).all(options.limit ?? 100, options.offset ?? 0) as any[];
+
+  const { count } = db.prepare(`
+    SELECT COUNT(*) as count
+    FROM (${flagged}) f
+    LEFT JOIN moderation_status ms ON ms.target_type = f.target_type AND ms.target_id = f.target_id
+    ${reviewedFilter}
+  `).get() as { count: number };
+
+  const isBanned = db.prepare('SELECT 1 FROM banned_fingerprints WHERE fingerprint = ?');
+  const items = rows
+    // Flags on deleted content are cleaned up on delete, but older rows may linger
+    .filter(row => row.text !== null)
+    .map(row => ({
+      ...row,
+      reasons: (JSON.parse(row.reasons) as string[]).reduce((acc, reason) => {
+        acc[reason] = (acc[reason] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>),
+      hidden: row.hidden === 1,
+      reviewed: row.reviewed === 1,
+      author_banned: row.author_fingerprint ? !!isBanned.get(row.author_fingerprint) : false
+    }));
+
+  return { items, total: count };
+}
+
+/**
+ * Hide or restore content. This records an admin decision, so later flags no longer auto-hide it.
+ */
+export function setContentHidden(
+  db: Database.Database,
+  targetType: ModerationTarget,
+  targetId: number,
+  hidden: boolean,
+  note: string | null = null
+): { target_type: ModerationTarget; target_id: number; hidden: boolean } {
+  requireTargetExists(db, targetType, targetId);
+  db.prepare(`
+    INSERT INTO moderation_status (target_type, target_id, hidden, reviewed, note, updated_at)
+    VALUES (?, ?, ?, 1, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(target_type, target_id) DO UPDATE SET
+      hidden = excluded.hidden,
+      reviewed = 1,
+      note = COALESCE(excluded.note, note),
+      updated_at = excluded.updated_at
+  `).run(targetType, targetId, hidden ? 1 : 0, note);
+  return { target_type: targetType, target_id: targetId, hidden };
+}
+
+/**
+ * Permanently delete an edit (with its votes and comments) or a comment (with its replies),
+ * along with the flags and moderation records that pointed at them.
+ */
+export function deleteContent(db: Database.Database, targetType: ModerationTarget, targetId: number): { deleted: number } {
+  requireTargetExists(db, targetType, targetId);
+
+  const remove = db.transaction(() => {
+    // Collect the comment subtree before the cascade removes it
+    const commentIds = (targetType === 'edit'
+      ? db.prepare('SELECT id FROM edit_comments WHERE edit_proposal_id = ?').all(targetId)
+      : db.prepare(`
+          WITH RECURSIVE subtree(id) AS (
+            SELECT ?
+            UNION ALL
+            SELECT c.id FROM edit_comments c JOIN subtree s ON c.parent_comment_id = s.id
+          )
+          SELECT id FROM subtree
+        `).all(targetId)
+    ).map((row: any) => row.id as number);
+
+    const clearRecords = (type: ModerationTarget, ids: number[]) => {
+      const json = JSON.stringify(ids);
+      db.prepare('DELETE FROM moderation_flags WHERE target_type = ? AND target_id IN (SELECT value FROM json_each(?))').run(type, json);
+      db.prepare('DELETE FROM moderation_status WHERE target_type = ? AND target_id IN (SELECT value FROM json_each(?))').run(type, json);
+    };
+    clearRecords('comment', commentIds);
+
+    if (targetType === 'edit') {
+      clearRecords('edit', [targetId]);
+      db.prepare('DELETE FROM edit_proposals WHERE id = ?').run(targetId);
+    } else {
+      db.prepare('DELETE FROM edit_comments WHERE id = ?').run(targetId);
+    }
+    return targetType === 'edit' ? commentIds.length + 1 : commentIds.length;
+  });
+
+  return { deleted: remove() };
+}
+
+// ---- Bans ----
+
+export function listBans(db: Database.Database): BannedFingerprint[] {
+  return db.prepare(
+    'SELECT fingerprint, reason, created_at FROM banned_fingerprints ORDER BY created_at DESC'
+  ).all() as BannedFingerprint[];
+}
+
+/**
+ * Ban a fingerprint hash. With hideContent, everything it has posted is hidden as well.
+ */
+export function banFingerprint(
+  db: Database.Database,
+  fingerprintHash: string,
+  reason: string | null,
+  hideContent: boolean
+): { fingerprint: string; hidden: number } {
+  const ban = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO banned_fingerprints (fingerprint, reason)
+      VALUES (?, ?)
+      ON CONFLICT(fingerprint) DO UPDATE SET reason = COALESCE(excluded.reason, reason)
+    `).run(fingerprintHash, reason);
+
+    if (!hideContent) return 0;
+
+    const hideAll = (type: ModerationTarget, table: string, column: string) => db.prepare(`
+      INSERT INTO moderation_status (target_type, target_id, hidden, reviewed, note)
+      SELECT '${type}', id, 1, 1, 'Author banned' FROM ${table} WHERE ${column} = ?
+      ON CONFLICT(target_type, target_id) DO UPDATE SET hidden = 1, reviewed = 1, updated_at = CURRENT_TIMESTAMP
+    `).run(fingerprintHash).changes;
+
+    return hideAll('edit', 'edit_proposals', 'submitter_fingerprint')
+      + hideAll('comment', 'edit_comments', 'commenter_fingerprint');
+  });
+
+  return { fingerprint: fingerprintHash, hidden: ban() };
+}
+
+export function unbanFingerprint(db: Database.Database, fingerprintHash: string): void {
+  const result = db.prepare('DELETE FROM banned_fingerprints WHERE fingerprint = ?').run(fingerprintHash);
+  if (result.changes === 0) {
+    throw new CommunityEditError('Fingerprint is not banned', 404);
+  }
+}
+
+// ---- Backup ----
+
+function tableColumns(db: Database.Database, table: string): string[] {
+  // table_info leaves out generated columns (net_score), which cannot be inserted
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(col => col.name);
+}
+
+/**
+ * Every community table as JSON rows
+ */
+export function exportCommunityData(db: Database.Database) {
+  const tables: Record<string, unknown[]> = {};
+  EXPORT_TABLES.forEach(table => {
+    const columns = tableColumns(db, table);
+    tables[table] = db.prepare(`SELECT ${columns.join(', ')} FROM ${table} ORDER BY rowid`).all();
+  });
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    tables
+  };
+}
+
+/**
+ * Replace the contents of every community table with an export. Runs in one transaction,
+ * so a bad file leaves the database untouched.
+ */
+export function importCommunityData(db: Database.Database, data: any): Record<string, number> {
+  if (!data || data.format !== EXPORT_FORMAT || data.version !== EXPORT_VERSION || typeof data.tables !== 'object') {
+    throw new CommunityEditError(`Expected a ${EXPORT_FORMAT} export (version ${EXPORT_VERSION})`);
+  }
+  for (const table of EXPORT_TABLES) {
+    if (data.tables[table] !== undefined && !Array.isArray(data.tables[table])) {
+      throw new CommunityEditError(`tables.${table} must be an array`);
+    }
+  }
+
+  const restore = db.transaction(() => {
+    [...EXPORT_TABLES].reverse().forEach(table => db.prepare(`DELETE FROM ${table}`).run());
+
+    const counts: Record<string, number> = {};
+    EXPORT_TABLES.forEach(table => {
+      const columns = tableColumns(db, table);
+      const insert = db.prepare(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(col => `@${col}`).join(', ')})`
+      );
+      const rows: any[] = data.tables[table] ?? [];
+      rows.forEach((row, index) => {
+        if (!row || typeof row !== 'object') {
+          throw new CommunityEditError(`tables.${table}[${index}] must be an object`);
+        }
+        insert.run(Object.fromEntries(columns.map(col => [col, row[col] ?? null])));
+      });
+      counts[table] = rows.length;
+    });
+    // Vote counts and status are recomputed from the imported votes by the schema triggers
+    return counts;
+  });
+
+  try {
+    return restore();
+  } catch (error) {
+    if (error instanceof CommunityEditError) throw error;
+    // Constraint violations mean the file does not match the schema
+    throw new CommunityEditError(`Import failed: ${(error as Error).message}`);
+  }
+}
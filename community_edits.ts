@@ -0,0 +1,558 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Community edit proposals, votes, threaded comments and moderation flags (see COMMUNITY_EDITS_DESIGN.md).
+// Stored in community_edits.db so document_analysis.db stays read-only source data.
+
+export const EDIT_TYPES = [
+  'identify_actor',
+  'identify_target',
+  'correct_actor',
+  'correct_target',
+  'add_context',
+  'dispute'
+] as const;
+export type EditType = typeof EDIT_TYPES[number];
+
+export const FLAG_REASONS = ['spam', 'abuse', 'misinformation', 'duplicate'] as const;
+export type FlagReason = typeof FLAG_REASONS[number];
+
+export const COMMUNITY_LIMITS = {
+  minEvidenceLength: 20,
+  maxEvidenceLength: 5000,
+  maxValueLength: 500,
+  maxCommentLength: 5000,
+  maxNameLength: 100,
+  maxFingerprintLength: 200,
+  maxSupportingDocs: 20,
+  // Per fingerprint, per hour
+  proposalsPerHour: 5,
+  votesPerHour: 50,
+  commentsPerHour: 20,
+  // Flags (from distinct fingerprints) that hide content until an admin reviews it
+  autoHideFlagCount: 5
+};
+
+export class CommunityEditError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'CommunityEditError';
+    this.status = status;
+  }
+}
+
+export interface EditProposal {
+  id: number;
+  triple_id: number;
+  doc_id: string;
+  edit_type: EditType;
+  proposed_value: string;
+  original_value: string;
+  evidence_text: string;
+  supporting_doc_ids: string[];
+  submitter_name: string | null;
+  status: 'pending' | 'accepted' | 'disputed' | 'rejected';
+  upvotes: number;
+  downvotes: number;
+  net_score: number;
+  comment_count: number;
+  user_vote: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EditComment {
+  id: number;
+  edit_proposal_id: number;
+  parent_comment_id: number | null;
+  comment_text: string;
+  commenter_name: string | null;
+  upvotes: number;
+  downvotes: number;
+  net_score: number;
+  user_vote: number | null;
+  created_at: string;
+  replies: EditComment[];
+}
+
+export interface NewEditProposal {
+  tripleId: number;
+  docId: string;
+  editType: EditType;
+  proposedValue: string;
+  originalValue: string;
+  evidenceText: string;
+  supportingDocIds: string[];
+  submitterName: string | null;
+  submitterFingerprint: string;
+}
+
+/**
+ * Open (and create if needed) the community edits database
+ */
+export function openCommunityEditsDb(dbPath: string): Database.Database {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON'); // Deleting a proposal cascades to its votes and comments
+  db.exec(fs.readFileSync(path.join(process.cwd(), 'community_schema.sql'), 'utf-8'));
+  return db;
+}
+
+// Fingerprints are only ever stored hashed
+export function hashFingerprint(fingerprint: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${process.env.FINGERPRINT_SALT || ''}${fingerprint}`)
+    .digest('hex');
+}
+
+// ---- Input validation ----
+
+export function requireFingerprint(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim() || value.length > COMMUNITY_LIMITS.maxFingerprintLength) {
+    throw new CommunityEditError('A valid fingerprint is required');
+  }
+  return hashFingerprint(value.trim());
+}
+
+export function requireId(value: unknown, label: string): number {
+  const id = typeof value === 'number' ? value : parseInt(String(value));
+  if (!Number.isInteger(id) || id < 1) {
+    throw new CommunityEditError(`Invalid ${label}`);
+  }
+  return id;
+}
+
+export function requireVote(value: unknown): 1 | -1 {
+  const vote = Number(value);
+  if (vote !== 1 && vote !== -1) {
+    throw new CommunityEditError('Vote must be 1 or -1');
+  }
+  return vote;
+}
+
+function optionalName(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || value.trim().length > COMMUNITY_LIMITS.maxNameLength) {
+    throw new CommunityEditError(`Name must be at most ${COMMUNITY_LIMITS.maxNameLength} characters`);
+  }
+  return value.trim() || null;
+}
+
+function requireText(value: unknown, label: string, min: number, max: number): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (text.length < min) {
+    throw new CommunityEditError(min > 1 ? `${label} must be at least ${min} characters` : `${label} is required`);
+  }
+  if (text.length > max) {
+    throw new CommunityEditError(`${label} must be at most ${max} characters`);
+  }
+  return text;
+}
+
+/**
+ * Validate a POST /api/edits body
+ */
+export function parseNewEditProposal(body: any): NewEditProposal {
+  if (!body || typeof body !== 'object') {
+    throw new CommunityEditError('Request body is required');
+  }
+
+  if (!EDIT_TYPES.includes(body.editType)) {
+    throw new CommunityEditError(`editType must be one of: ${EDIT_TYPES.join(', ')}`);
+  }
+
+  const supportingDocIds = body.supportingDocIds ?? [];
+  if (!Array.isArray(supportingDocIds)
+    || supportingDocIds.length > COMMUNITY_LIMITS.maxSupportingDocs
+    || supportingDocIds.some((id: unknown) => typeof id !== 'string' || !id.trim() || id.length > 100)) {
+    throw new CommunityEditError(`supportingDocIds must be a list of at most ${COMMUNITY_LIMITS.maxSupportingDocs} document IDs`);
+  }
+
+  return {
+    tripleId: requireId(body.tripleId, 'tripleId'),
+    docId: requireText(body.docId, 'docId', 1, 100),
+    editType: body.editType,
+    proposedValue: requireText(body.proposedValue, 'Proposed value', 1, COMMUNITY_LIMITS.maxValueLength),
+    originalValue: requireText(body.originalValue, 'Original value', 1, COMMUNITY_LIMITS.maxValueLength),
+    evidenceText: requireText(
+      body.evidenceText, 'Evidence', COMMUNITY_LIMITS.minEvidenceLength, COMMUNITY_LIMITS.maxEvidenceLength
+    ),
+    supportingDocIds: Array.from(new Set(supportingDocIds.map((id: string) => id.trim()))),
+    submitterName: optionalName(body.submitterName),
+    submitterFingerprint: requireFingerprint(body.submitterFingerprint)
+  };
+}
+
+// ---- Rate limiting (per hashed fingerprint, counted from the stored rows) ----
+
+function enforceHourlyLimit(db: Database.Database, sql: string, params: unknown[], limit: number, what: string) {
+  const { count } = db.prepare(sql).get(...params) as { count: number };
+  if (count >= limit) {
+    throw new CommunityEditError(`Too many ${what} in the last hour, please try again later`, 429);
+  }
+}
+
+const LAST_HOUR = "datetime('now', '-1 hour')";
+
+function enforceNotBanned(db: Database.Database, fingerprintHash: string) {
+  if (db.prepare('SELECT 1 FROM banned_fingerprints WHERE fingerprint = ?').get(fingerprintHash)) {
+    throw new CommunityEditError('This browser has been blocked from contributing', 403);
+  }
+}
+
+// Content hidden by moderation is left out of every public read
+const VISIBLE_EDIT = `NOT EXISTS (
+  SELECT 1 FROM moderation_status ms WHERE ms.target_type = 'edit' AND ms.target_id = ep.id AND ms.hidden = 1
+)`;
+const VISIBLE_COMMENT = `NOT EXISTS (
+  SELECT 1 FROM moderation_status ms WHERE ms.target_type = 'comment' AND ms.target_id = c.id AND ms.hidden = 1
+)`;
+
+// ---- Edit proposals ----
+
+const EDIT_SELECT = `
+  SELECT
+    ep.id, ep.triple_id, ep.doc_id, ep.edit_type, ep.proposed_value, ep.original_value,
+    ep.evidence_text, ep.supporting_doc_ids, ep.submitter_name, ep.status,
+    ep.upvotes, ep.downvotes, ep.net_score, ep.created_at, ep.updated_at,
+    (SELECT COUNT(*) FROM edit_comments c WHERE c.edit_proposal_id = ep.id AND ${VISIBLE_COMMENT}) as comment_count,
+    (SELECT vote FROM edit_votes v WHERE v.edit_proposal_id = ep.id AND v.voter_fingerprint = ?) as user_vote
+  FROM edit_proposals ep`;
+
+function toEditProposal(row: any): EditProposal {
+  return {
+    ...row,
+    supporting_doc_ids: row.supporting_doc_ids ? JSON.parse(row.supporting_doc_ids) : []
+  };
+}
+
+/**
+ * Edits for one triple, best-voted first. Rejected edits are hidden unless requested.
+ */
+export function getEditsForTriple(
+  db: Database.Database,
+  tripleId: number,
+  fingerprintHash: string | null,
+  includeRejected: boolean = false
+): { edits: EditProposal[]; totalCount: number } {
+  const rows = db.prepare(`
+    ${EDIT_SELECT}
+    WHERE ep.triple_id = ? AND ${VISIBLE_EDIT}
+      ${includeRejected ? '' : "AND ep.status != 'rejected'"}
+    ORDER BY ep.net_score DESC, ep.created_at DESC
+  `).all(fingerprintHash, tripleId);
+
+  const { count } = db.prepare(
+    `SELECT COUNT(*) as count FROM edit_proposals ep WHERE ep.triple_id = ? AND ${VISIBLE_EDIT}`
+  ).get(tripleId) as { count: number };
+
+  return { edits: rows.map(toEditProposal), totalCount: count };
+}
+
+export function getEdit(db: Database.Database, editId: number, fingerprintHash: string | null = null): EditProposal {
+  const row = db.prepare(`${EDIT_SELECT} WHERE ep.id = ? AND ${VISIBLE_EDIT}`).get(fingerprintHash, editId);
+  if (!row) {
+    throw new CommunityEditError('Edit proposal not found', 404);
+  }
+  return toEditProposal(row);
+}
+
+export function createEditProposal(db: Database.Database, edit: NewEditProposal): EditProposal {
+  enforceNotBanned(db, edit.submitterFingerprint);
+  enforceHourlyLimit(db,
+    `SELECT COUNT(*) as count FROM edit_proposals WHERE submitter_fingerprint = ? AND created_at > ${LAST_HOUR}`,
+    [edit.submitterFingerprint], COMMUNITY_LIMITS.proposalsPerHour, 'edit proposals');
+
+  const result = db.prepare(`
+    INSERT INTO edit_proposals (
+      triple_id, doc_id, edit_type, proposed_value, original_value,
+      evidence_text, supporting_doc_ids, submitter_name, submitter_fingerprint
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    edit.tripleId,
+    edit.docId,
+    edit.editType,
+    edit.proposedValue,
+    edit.originalValue,
+    edit.evidenceText,
+    edit.supportingDocIds.length > 0 ? JSON.stringify(edit.supportingDocIds) : null,
+    edit.submitterName,
+    edit.submitterFingerprint
+  );
+
+  return getEdit(db, Number(result.lastInsertRowid), edit.submitterFingerprint);
+}
+
+/**
+ * Cast or change a vote. Counts and status are maintained by the schema triggers.
+ */
+export function voteOnEdit(db: Database.Database, editId: number, vote: 1 | -1, fingerprintHash: string): EditProposal {
+  getEdit(db, editId); // 404 if missing
+  enforceNotBanned(db, fingerprintHash);
+  enforceVoteLimit(db, fingerprintHash);
+
+  db.prepare(`
+    INSERT INTO edit_votes (edit_proposal_id, voter_fingerprint, vote)
+    VALUES (?, ?, ?)
+    ON CONFLICT(edit_proposal_id, voter_fingerprint) DO UPDATE SET vote = excluded.vote
+    WHERE vote != excluded.vote
+  `).run(editId, fingerprintHash, vote);
+
+  return getEdit(db, editId, fingerprintHash);
+}
+
+function enforceVoteLimit(db: Database.Database, fingerprintHash: string) {
+  enforceHourlyLimit(db, `
+    SELECT
+      (SELECT COUNT(*) FROM edit_votes WHERE voter_fingerprint = ? AND created_at > ${LAST_HOUR}) +
+      (SELECT COUNT(*) FROM comment_votes WHERE voter_fingerprint = ? AND created_at > ${LAST_HOUR}) as count
+  `, [fingerprintHash, fingerprintHash], COMMUNITY_LIMITS.votesPerHour, 'votes');
+}
+
+export interface EditSummary {
+  accepted: number;
+  pending: number;
+  disputed: number;
+  rejected: number;
+}
+
+/**
+ * Per-triple proposal counts by status, for the timeline badges. Triples without edits are omitted.
+ */
+export function getEditSummary(db: Database.Database, tripleIds: number[]): Record<number, EditSummary> {
+  const summary: Record<number, EditSummary> = {};
+  if (tripleIds.length === 0) return summary;
+
+  const rows = db.prepare(`
+    SELECT ep.triple_id, ep.status, COUNT(*) as count
+    FROM edit_proposals ep
+    WHERE ep.triple_id IN (SELECT value FROM json_each(?)) AND ${VISIBLE_EDIT}
+    GROUP BY ep.triple_id, ep.status
+  `).all(JSON.stringify(tripleIds)) as Array<{ triple_id: number; status: EditProposal['status']; count: number }>;
+
+  rows.forEach(row => {
+    summary[row.triple_id] ??= { accepted: 0, pending: 0, disputed: 0, rejected: 0 };
+    summary[row.triple_id][row.status] = row.count;
+  });
+  return summary;
+}
+
+// ---- Applying accepted edits ----
+
+export interface AppliedNameEdit {
+  edit_id: number;
+  original: string;
+  proposed: string;
+}
+
+// What accepted community edits change about one triple
+export interface TripleEditOverlay {
+  actor?: AppliedNameEdit;
+  target?: AppliedNameEdit;
+  dispute_edit_ids?: number[];
+}
+
+const ACTOR_EDIT_TYPES: EditType[] = ['identify_actor', 'correct_actor'];
+const TARGET_EDIT_TYPES: EditType[] = ['identify_target', 'correct_target'];
+
+/**
+ * Accepted name corrections and disputes, keyed by triple id. Where several accepted edits
+ * rename the same field, the best-voted (then newest) one wins. `original` is filled in when
+ * the overlay is applied to a result row.
+ */
+export function loadEditOverlay(db: Database.Database): Map<number, TripleEditOverlay> {
+  const rows = db.prepare(`
+    SELECT ep.id, ep.triple_id, ep.edit_type, ep.proposed_value
+    FROM edit_proposals ep
+    WHERE ep.status = 'accepted'
+      AND ep.edit_type IN ('identify_actor', 'correct_actor', 'identify_target', 'correct_target', 'dispute')
+      AND ${VISIBLE_EDIT}
+    ORDER BY ep.net_score DESC, ep.id DESC
+  `).all() as Array<{ id: number; triple_id: number; edit_type: EditType; proposed_value: string }>;
+
+  const overlay = new Map<number, TripleEditOverlay>();
+  rows.forEach(row => {
+    const entry = overlay.get(row.triple_id) ?? {};
+    const applied = { edit_id: row.id, original: '', proposed: row.proposed_value };
+    if (ACTOR_EDIT_TYPES.includes(row.edit_type)) {
+      entry.actor ??= applied;
+    } else if (TARGET_EDIT_TYPES.includes(row.edit_type)) {
+      entry.target ??= applied;
+    } else {
+      (entry.dispute_edit_ids ??= []).push(row.id);
+    }
+    overlay.set(row.triple_id, entry);
+  });
+  return overlay;
+}
+
+/**
+ * Rewrite a result row with its accepted edits. Rows without edits are returned unchanged;
+ * edited rows gain a `community_edits` field recording the served values they replaced.
+ */
+export function applyEditOverlay<T extends { id: number; actor: string; target: string }>(
+  overlay: Map<number, TripleEditOverlay>,
+  rel: T
+): T & { community_edits?: TripleEditOverlay } {
+  const entry = overlay.get(rel.id);
+  if (!entry) return rel;
+
+  const applied: TripleEditOverlay = {};
+  if (entry.actor) applied.actor = { ...entry.actor, original: rel.actor };
+  if (entry.target) applied.target = { ...entry.target, original: rel.target };
+  if (entry.dispute_edit_ids) applied.dispute_edit_ids = entry.dispute_edit_ids;
+
+  return {
+    ...rel,
+    actor: entry.actor ? entry.actor.proposed : rel.actor,
+    target: entry.target ? entry.target.proposed : rel.target,
+    community_edits: applied
+  };
+}
+
+// ---- Comments ----
+
+/**
+ * Comment thread for an edit: top-level comments with nested replies, best-voted first
+ */
+export function getComments(db: Database.Database, editId: number, fingerprintHash: string | null): EditComment[] {
+  getEdit(db, editId);
+
+  const rows = db.prepare(`
+    SELECT
+      c.id, c.edit_proposal_id, c.parent_comment_id, c.comment_text, c.commenter_name,
+      c.upvotes, c.downvotes, c.net_score, c.created_at,
+      (SELECT vote FROM comment_votes v WHERE v.comment_id = c.id AND v.voter_fingerprint = ?) as user_vote
+    FROM edit_comments c
+    WHERE c.edit_proposal_id = ? AND ${VISIBLE_COMMENT}
+    ORDER BY c.net_score DESC, c.created_at ASC
+  `).all(fingerprintHash, editId) as Omit<EditComment, 'replies'>[];
+
+  const byId = new Map<number, EditComment>();
+  rows.forEach(row => byId.set(row.id, { ...row, replies: [] }));
+
+  const roots: EditComment[] = [];
+  rows.forEach(row => {
+    const comment = byId.get(row.id)!;
+    if (row.parent_comment_id === null) {
+      roots.push(comment);
+    } else {
+      // Replies under a hidden comment are hidden with it
+      byId.get(row.parent_comment_id)?.replies.push(comment);
+    }
+  });
+  return roots;
+}
+
+export function createComment(db: Database.Database, editId: number, body: any): EditComment {
+  getEdit(db, editId);
+
+  const commentText = requireText(body?.commentText, 'Comment', 1, COMMUNITY_LIMITS.maxCommentLength);
+  const commenterName = optionalName(body?.commenterName);
+  const fingerprintHash = requireFingerprint(body?.commenterFingerprint);
+  const parentCommentId = body?.parentCommentId === undefined || body?.parentCommentId === null
+    ? null
+    : requireId(body.parentCommentId, 'parentCommentId');
+  enforceNotBanned(db, fingerprintHash);
+
+  if (parentCommentId !== null) {
+    const parent = db.prepare(
+      'SELECT edit_proposal_id FROM edit_comments WHERE id = ?'
+    ).get(parentCommentId) as { edit_proposal_id: number } | undefined;
+    if (!parent || parent.edit_proposal_id !== editId) {
+      throw new CommunityEditError('Parent comment not found on this edit', 404);
+    }
+  }
+
+  enforceHourlyLimit(db,
+    `SELECT COUNT(*) as count FROM edit_comments WHERE commenter_fingerprint = ? AND created_at > ${LAST_HOUR}`,
+    [fingerprintHash], COMMUNITY_LIMITS.commentsPerHour, 'comments');
+
+  const result = db.prepare(`
+    INSERT INTO edit_comments (edit_proposal_id, parent_comment_id, comment_text, commenter_name, commenter_fingerprint)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(editId, parentCommentId, commentText, commenterName, fingerprintHash);
+
+  return getComment(db, Number(result.lastInsertRowid), fingerprintHash);
+}
+
+function getComment(db: Database.Database, commentId: number, fingerprintHash: string | null): EditComment {
+  const row = db.prepare(`
+    SELECT
+      c.id, c.edit_proposal_id, c.parent_comment_id, c.comment_text, c.commenter_name,
+      c.upvotes, c.downvotes, c.net_score, c.created_at,
+      (SELECT vote FROM comment_votes v WHERE v.comment_id = c.id AND v.voter_fingerprint = ?) as user_vote
+    FROM edit_comments c
+    WHERE c.id = ? AND ${VISIBLE_COMMENT}
+  `).get(fingerprintHash, commentId) as Omit<EditComment, 'replies'> | undefined;
+  if (!row) {
+    throw new CommunityEditError('Comment not found', 404);
+  }
+  return { ...row, replies: [] };
+}
+
+export function voteOnComment(db: Database.Database, commentId: number, vote: 1 | -1, fingerprintHash: string): EditComment {
+  getComment(db, commentId, null); // 404 if missing
+  enforceNotBanned(db, fingerprintHash);
+  enforceVoteLimit(db, fingerprintHash);
+
+  db.prepare(`
+    INSERT INTO comment_votes (comment_id, voter_fingerprint, vote)
+    VALUES (?, ?, ?)
+    ON CONFLICT(comment_id, voter_fingerprint) DO UPDATE SET vote = excluded.vote
+    WHERE vote != excluded.vote
+  `).run(commentId, fingerprintHash, vote);
+
+  return getComment(db, commentId, fingerprintHash);
+}
+
+// ---- Moderation ----
+
+export function flagContent(db: Database.Database, body: any): { id: number; flagCount: number } {
+  const targetType = body?.targetType;
+  if (targetType !== 'edit' && targetType !== 'comment') {
+    throw new CommunityEditError("targetType must be 'edit' or 'comment'");
+  }
+  const targetId = requireId(body?.targetId, 'targetId');
+  if (!FLAG_REASONS.includes(body?.flagReason)) {
+    throw new CommunityEditError(`flagReason must be one of: ${FLAG_REASONS.join(', ')}`);
+  }
+  const fingerprintHash = requireFingerprint(body?.flaggerFingerprint);
+  enforceNotBanned(db, fingerprintHash);
+
+  const exists = targetType === 'edit'
+    ? db.prepare('SELECT 1 FROM edit_proposals WHERE id = ?').get(targetId)
+    : db.prepare('SELECT 1 FROM edit_comments WHERE id = ?').get(targetId);
+  if (!exists) {
+    throw new CommunityEditError(`${targetType === 'edit' ? 'Edit proposal' : 'Comment'} not found`, 404);
+  }
+
+  const result = db.prepare(`
+    INSERT INTO moderation_flags (target_type, target_id, flag_reason, flagger_fingerprint)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(target_type, target_id, flagger_fingerprint) DO NOTHING
+  `).run(targetType, targetId, body.flagReason, fingerprintHash);
+  if (result.changes === 0) {
+    throw new CommunityEditError('You have already flagged this item', 409);
+  }
+
+  const { count } = db.prepare(
+    'SELECT COUNT(*) as count FROM moderation_flags WHERE target_type = ? AND target_id = ?'
+  ).get(targetType, targetId) as { count: number };
+
+  // Hide pending review; content an admin has already reviewed keeps its decision
+  if (count >= COMMUNITY_LIMITS.autoHideFlagCount) {
+    db.prepare(`
+      INSERT INTO moderation_status (target_type, target_id, hidden)
+      VALUES (?, ?, 1)
+      ON CONFLICT(target_type, target_id) DO NOTHING
+    `).run(targetType, targetId);
+  }
+
+  return { id: Number(result.lastInsertRowid), flagCount: count };
+}
@@ -2,7 +2,7 @@
 -- Separate from main document_analysis.db to keep source data immutable
 
 -- Proposed edits to relationship data
-CREATE TABLE edit_proposals (
+CREATE TABLE IF NOT EXISTS edit_proposals (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
 
   -- What triple is being edited
@@ -46,13 +46,13 @@ CREATE TABLE edit_proposals (
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
-CREATE INDEX idx_edit_proposals_triple ON edit_proposals(triple_id);
-CREATE INDEX idx_edit_proposals_doc ON edit_proposals(doc_id);
-CREATE INDEX idx_edit_proposals_status ON edit_proposals(status);
-CREATE INDEX idx_edit_proposals_score ON edit_proposals(net_score DESC);
+CREATE INDEX IF NOT EXISTS idx_edit_proposals_triple ON edit_proposals(triple_id);
+CREATE INDEX IF NOT EXISTS idx_edit_proposals_doc ON edit_proposals(doc_id);
+CREATE INDEX IF NOT EXISTS idx_edit_proposals_status ON edit_proposals(status);
+CREATE INDEX IF NOT EXISTS idx_edit_proposals_score ON edit_proposals(net_score DESC);
 
 -- Votes on edit proposals
-CREATE TABLE edit_votes (
+CREATE TABLE IF NOT EXISTS edit_votes (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   edit_proposal_id INTEGER NOT NULL,
   voter_fingerprint TEXT NOT NULL,   -- Browser fingerprint
@@ -63,10 +63,10 @@ CREATE TABLE edit_votes (
   UNIQUE(edit_proposal_id, voter_fingerprint)  -- One vote per person per edit
 );
 
-CREATE INDEX idx_edit_votes_proposal ON edit_votes(edit_proposal_id);
+CREATE INDEX IF NOT EXISTS idx_edit_votes_proposal ON edit_votes(edit_proposal_id);
 
 -- Discussion threads on edit proposals
-CREATE TABLE edit_comments (
+CREATE TABLE IF NOT EXISTS edit_comments (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   edit_proposal_id INTEGER NOT NULL,
   parent_comment_id INTEGER,         -- NULL for top-level, or ID of parent comment
@@ -86,12 +86,12 @@ CREATE TABLE edit_comments (
   FOREIGN KEY (parent_comment_id) REFERENCES edit_comments(id) ON DELETE CASCADE
 );
 
-CREATE INDEX idx_edit_comments_proposal ON edit_comments(edit_proposal_id);
-CREATE INDEX idx_edit_comments_parent ON edit_comments(parent_comment_id);
-CREATE INDEX idx_edit_comments_score ON edit_comments(net_score DESC);
+CREATE INDEX IF NOT EXISTS idx_edit_comments_proposal ON edit_comments(edit_proposal_id);
+CREATE INDEX IF NOT EXISTS idx_edit_comments_parent ON edit_comments(parent_comment_id);
+CREATE INDEX IF NOT EXISTS idx_edit_comments_score ON edit_comments(net_score DESC);
 
 -- Votes on comments
-CREATE TABLE comment_votes (
+CREATE TABLE IF NOT EXISTS comment_votes (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   comment_id INTEGER NOT NULL,
   voter_fingerprint TEXT NOT NULL,
@@ -102,10 +102,10 @@ CREATE TABLE comment_votes (
   UNIQUE(comment_id, voter_fingerprint)
 );
 
-CREATE INDEX idx_comment_votes_comment ON comment_votes(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_votes_comment ON comment_votes(comment_id);
 
 -- Moderation flags (for spam/abuse reporting)
-CREATE TABLE moderation_flags (
+CREATE TABLE IF NOT EXISTS moderation_flags (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   target_type TEXT NOT NULL CHECK(target_type IN ('edit', 'comment')),
   target_id INTEGER NOT NULL,
@@ -121,17 +121,37 @@ CREATE TABLE moderation_flags (
   UNIQUE(target_type, target_id, flagger_fingerprint)
 );
 
-CREATE INDEX idx_moderation_flags_target ON moderation_flags(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_flags_target ON moderation_flags(target_type, target_id);
+
+-- Hidden/restored state of flagged or moderated content. A row appears when content is auto-hidden
+-- by flags or reviewed by an admin; once reviewed, further flags no longer change it.
+CREATE TABLE IF NOT EXISTS moderation_status (
+  target_type TEXT NOT NULL CHECK(target_type IN ('edit', 'comment')),
+  target_id INTEGER NOT NULL,
+  hidden INTEGER NOT NULL CHECK(hidden IN (0, 1)),
+  reviewed INTEGER NOT NULL DEFAULT 0 CHECK(reviewed IN (0, 1)),  -- 1 = decided by an admin
+  note TEXT,                          -- Admin note
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  PRIMARY KEY (target_type, target_id)
+);
+
+-- Fingerprints (hashed) barred from proposing, voting, commenting and flagging
+CREATE TABLE IF NOT EXISTS banned_fingerprints (
+  fingerprint TEXT PRIMARY KEY,
+  reason TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
 
 -- Trigger to update edit_proposals.updated_at
-CREATE TRIGGER update_edit_proposal_timestamp
+CREATE TRIGGER IF NOT EXISTS update_edit_proposal_timestamp
 AFTER UPDATE ON edit_proposals
 BEGIN
   UPDATE edit_proposals SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
 END;
 
 -- Trigger to update upvote/downvote counts on edit_proposals
-CREATE TRIGGER update_edit_vote_counts
+CREATE TRIGGER IF NOT EXISTS update_edit_vote_counts
 AFTER INSERT ON edit_votes
 BEGIN
   UPDATE edit_proposals
@@ -141,10 +161,21 @@ BEGIN
   WHERE id = NEW.edit_proposal_id;
 END;
 
--- Trigger to update status based on vote threshold
-CREATE TRIGGER update_edit_status
+-- Recount when a voter switches sides
+CREATE TRIGGER IF NOT EXISTS update_edit_vote_counts_on_change
+AFTER UPDATE OF vote ON edit_votes
+BEGIN
+  UPDATE edit_proposals
+  SET
+    upvotes = (SELECT COUNT(*) FROM edit_votes WHERE edit_proposal_id = NEW.edit_proposal_id AND vote = 1),
+    downvotes = (SELECT COUNT(*) FROM edit_votes WHERE edit_proposal_id = NEW.edit_proposal_id AND vote = -1)
+  WHERE id = NEW.edit_proposal_id;
+END;
+
+-- Trigger to update status based on vote threshold.
+-- Re-evaluated on every vote change so status follows the current consensus.
+CREATE TRIGGER IF NOT EXISTS update_edit_status
 AFTER UPDATE OF upvotes, downvotes ON edit_proposals
-WHEN NEW.status = 'pending'
 BEGIN
   UPDATE edit_proposals
   SET status = CASE
@@ -157,7 +188,7 @@ BEGIN
 END;
 
 -- Trigger to update comment vote counts
-CREATE TRIGGER update_comment_vote_counts
+CREATE TRIGGER IF NOT EXISTS update_comment_vote_counts
 AFTER INSERT ON comment_votes
 BEGIN
   UPDATE edit_comments
@@ -166,3 +197,13 @@ BEGIN
     downvotes = (SELECT COUNT(*) FROM comment_votes WHERE comment_id = NEW.comment_id AND vote = -1)
   WHERE id = NEW.comment_id;
 END;
+
+CREATE TRIGGER IF NOT EXISTS update_comment_vote_counts_on_change
+AFTER UPDATE OF vote ON comment_votes
+BEGIN
+  UPDATE edit_comments
+  SET
+    upvotes = (SELECT COUNT(*) FROM comment_votes WHERE comment_id = NEW.comment_id AND vote = 1),
+    downvotes = (SELECT COUNT(*) FROM comment_votes WHERE comment_id = NEW.comment_id AND vote = -1)
+  WHERE id = NEW.comment_id;
+END;
@@ -0,0 +1,321 @@
+#!/usr/bin/env node
+
+import Database from 'better-sqlite3';
+import { bumpContentVersion } from './db_version';
+
+// Precompute centrality and community metrics for every canonical entity.
+// Usage: npx tsx compute_entity_analytics.ts [db path] [--samples N]
+//   --samples N  approximate betweenness from N source nodes (default: exact up to 5,000 nodes, else 500)
+
+const args = process.argv.slice(2);
+let dbPath = 'document_analysis.db';
+let samplesArg: number | null = null;
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--samples') {
+    samplesArg = parseInt(args[++i]);
+    if (isNaN(samplesArg) || samplesArg < 1) {
+      console.error(`Invalid sample count: ${args[i]}`);
+      process.exit(1);
+    }
+  } else {
+    dbPath = args[i];
+  }
+}
+
+const EXACT_BETWEENNESS_MAX_NODES = 5000;
+const DEFAULT_BETWEENNESS_SAMPLES = 500;
+
+console.log('📊 Computing entity analytics (degree, PageRank, eigenvector, betweenness, Louvain)...\n');
+
+const db = new Database(dbPath);
+
+// Step 1: Create table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS entity_analytics (
+    canonical_name TEXT PRIMARY KEY,
+    degree INTEGER NOT NULL,
+    weighted_degree INTEGER NOT NULL,
+    betweenness REAL NOT NULL,
+    pagerank REAL NOT NULL,
+    eigenvector REAL NOT NULL,
+    community_id INTEGER NOT NULL,
+    computed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS idx_entity_analytics_community ON entity_analytics(community_id);
+  CREATE INDEX IF NOT EXISTS idx_entity_analytics_pagerank ON entity_analytics(pagerank);
+`);
+console.log('✓ entity_analytics table ready\n');
+
+// Step 2: Build the alias-resolved, undirected, weighted graph (weight = number of triples)
+console.log('Loading relationships...');
+const pairs = db.prepare(`
+  SELECT
+    COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+    COALESCE(ea_target.canonical_name, rt.target) as target,
+    COUNT(*) as weight
+  FROM rdf_triples rt
+  LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+  LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+  WHERE (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+  GROUP BY 1, 2
+`).all() as Array<{ actor: string; target: string; weight: number }>;
+
+const names = Array.from(new Set(pairs.flatMap(p => [p.actor, p.target]))).sort();
+const indexOf = new Map(names.map((name, i) => [name, i]));
+const n = names.length;
+
+// adjacency[i]: neighbor index -> edge weight (self-loops are dropped)
+const adjacency: Map<number, number>[] = names.map(() => new Map());
+pairs.forEach(({ actor, target, weight }) => {
+  if (actor === target) return;
+  const a = indexOf.get(actor)!;
+  const b = indexOf.get(target)!;
+  adjacency[a].set(b, (adjacency[a].get(b) || 0) + weight);
+  adjacency[b].set(a, (adjacency[b].get(a) || 0) + weight);
+});
+
+const degree = adjacency.map(neighbors => neighbors.size);
+const weightedDegree = adjacency.map(neighbors => Array.from(neighbors.values()).reduce((a, b) => a + b, 0));
+const edgeCount = degree.reduce((a, b) => a + b, 0) / 2;
+console.log(`✓ Graph has ${n} entities and ${edgeCount} distinct connections\n`);
+
+// Step 3: PageRank (weighted, damping 0.85)
+console.log('Calculating PageRank...');
+function pageRank(damping = 0.85, maxIterations = 100, tolerance = 1e-10): number[] {
+  let rank = new Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Array(n).fill(0);
+    let danglingRank = 0;
+    for (let i = 0; i < n; i++) {
+      if (weightedDegree[i] === 0) {
+        danglingRank += rank[i];
+        continue;
+      }
+      adjacency[i].forEach((weight, j) => {
+        next[j] += rank[i] * weight / weightedDegree[i];
+      });
+    }
+    let delta = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] = (1 - damping) / n + damping * (next[i] + danglingRank / n);
+      delta += Math.abs(next[i] - rank[i]);
+    }
+    rank = next;
+    if (delta < tolerance) break;
+  }
+  return rank;
+}
+const pagerank = pageRank();
+console.log('✓ PageRank done\n');
+
+// Step 4: Eigenvector centrality (power iteration on A + I so bipartite components converge)
+console.log('Calculating eigenvector centrality...');
+function eigenvectorCentrality(maxIterations = 200, tolerance = 1e-10): number[] {
+  let x = new Array(n).fill(1 / Math.sqrt(n || 1));
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = x.slice();
+    for (let i = 0; i < n; i++) {
+      adjacency[i].forEach((weight, j) => {
+        next[i] += weight * x[j];
+      });
+    }
+    const norm = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0)) || 1;
+    let delta = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] /= norm;
+      delta += Math.abs(next[i] - x[i]);
+    }
+    x = next;
+    if (delta < tolerance) break;
+  }
+  // Scale so the most central entity is 1
+  const max = x.reduce((a, b) => Math.max(a, b), 0) || 1;
+  return x.map(v => v / max);
+}
+const eigenvector = eigenvectorCentrality();
+console.log('✓ Eigenvector centrality done\n');
+
+// Step 5: Betweenness (Brandes, unweighted shortest paths; sampled for large graphs)
+const sampleCount = samplesArg ?? (n <= EXACT_BETWEENNESS_MAX_NODES ? n : DEFAULT_BETWEENNESS_SAMPLES);
+const sources = Math.min(sampleCount, n) === n
+  ? names.map((_, i) => i)
+  : deterministicSample(n, sampleCount);
+console.log(`Calculating betweenness from ${sources.length} of ${n} source nodes${sources.length < n ? ' (sampled)' : ''}...`);
+
+// Seeded Fisher-Yates so repeated runs give identical samples
+function deterministicSample(size: number, count: number): number[] {
+  const indices = Array.from({ length: size }, (_, i) => i);
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+  for (let i = size - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, count);
+}
+
+function betweennessCentrality(sourceNodes: number[]): number[] {
+  const centrality = new Array(n).fill(0);
+  const neighborLists = adjacency.map(neighbors => Array.from(neighbors.keys()));
+
+  sourceNodes.forEach((s, progress) => {
+    const stack: number[] = [];
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const sigma = new Array(n).fill(0);
+    const distance = new Array(n).fill(-1);
+    sigma[s] = 1;
+    distance[s] = 0;
+
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      for (const w of neighborLists[v]) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1;
+          queue.push(w);
+        }
+        if (distance[w] === distance[v] + 1) {
+          sigma[w] += sigma[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+
+    const dependency = new Array(n).fill(0);
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors[w]) {
+        dependency[v] += (sigma[v] / sigma[w]) * (1 + dependency[w]);
+      }
+      if (w !== s) centrality[w] += dependency[w];
+    }
+
+    if ((progress + 1) % 500 === 0) console.log(`  ${progress + 1}/${sourceNodes.length} sources`);
+  });
+
+  // Undirected pairs are counted twice; scale up samples and normalize to [0, 1]
+  const scale = (n / sourceNodes.length) / 2;
+  const normalizer = n > 2 ? ((n - 1) * (n - 2)) / 2 : 1;
+  return centrality.map(value => (value * scale) / normalizer);
+}
+const betweenness = betweennessCentrality(sources);
+console.log('✓ Betweenness done\n');
+
+// Step 6: Louvain community detection (weighted modularity)
+console.log('Detecting communities (Louvain)...');
+function louvain(): number[] {
+  // Working graph: adjacency with self-loops holding internal weight (counted twice, like A[i][i])
+  let graph: Map<number, number>[] = adjacency.map(neighbors => new Map(neighbors));
+  let membership = names.map((_, i) => i); // original node -> current super node
+
+  for (let level = 0; level < 20; level++) {
+    const size = graph.length;
+    const k = graph.map(neighbors => Array.from(neighbors.values()).reduce((a, b) => a + b, 0));
+    const twoM = k.reduce((a, b) => a + b, 0);
+    if (twoM === 0) break;
+
+    const community = graph.map((_, i) => i);
+    const total = k.slice(); // Sum of degrees per community
+
+    let improved = false;
+    for (let pass = 0; pass < 50; pass++) {
+      let moved = false;
+      for (let i = 0; i < size; i++) {
+        const current = community[i];
+        const linksTo = new Map<number, number>();
+        graph[i].forEach((weight, j) => {
+          if (j === i) return;
+          linksTo.set(community[j], (linksTo.get(community[j]) || 0) + weight);
+        });
+
+        total[current] -= k[i];
+        let best = current;
+        let bestGain = (linksTo.get(current) || 0) - total[current] * k[i] / twoM;
+        linksTo.forEach((weight, c) => {
+          const gain = weight - total[c] * k[i] / twoM;
+          if (gain > bestGain + 1e-12) {
+            bestGain = gain;
+            best = c;
+          }
+        });
+        total[best] += k[i];
+
+        if (best !== current) {
+          community[i] = best;
+          moved = true;
+          improved = true;
+        }
+      }
+      if (!moved) break;
+    }
+
+    if (!improved) break;
+
+    // Aggregate communities into super nodes
+    const relabel = new Map<number, number>();
+    community.forEach(c => { if (!relabel.has(c)) relabel.set(c, relabel.size); });
+    const aggregated: Map<number, number>[] = Array.from({ length: relabel.size }, () => new Map());
+    graph.forEach((neighbors, i) => {
+      const ci = relabel.get(community[i])!;
+      neighbors.forEach((weight, j) => {
+        const cj = relabel.get(community[j])!;
+        aggregated[ci].set(cj, (aggregated[ci].get(cj) || 0) + weight);
+      });
+    });
+
+    membership = membership.map(node => relabel.get(community[node])!);
+    graph = aggregated;
+  }
+
+  // Number communities by size, largest first
+  const sizes = new Map<number, number>();
+  membership.forEach(c => sizes.set(c, (sizes.get(c) || 0) + 1));
+  const order = Array.from(sizes.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([c]) => c);
+  const rank = new Map(order.map((c, i) => [c, i]));
+  return membership.map(c => rank.get(c)!);
+}
+const communityIds = louvain();
+const communityCount = new Set(communityIds).size;
+console.log(`✓ Found ${communityCount} communities\n`);
+
+// Step 7: Store results
+console.log('Writing entity_analytics...');
+const insert = db.prepare(`
+  INSERT INTO entity_analytics
+    (canonical_name, degree, weighted_degree, betweenness, pagerank, eigenvector, community_id, computed_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+`);
+db.transaction(() => {
+  db.exec('DELETE FROM entity_analytics');
+  names.forEach((name, i) => {
+    insert.run(name, degree[i], weightedDegree[i], betweenness[i], pagerank[i], eigenvector[i], communityIds[i]);
+  });
+})();
+bumpContentVersion(db, 'compute_entity_analytics');
+console.log(`✓ Stored analytics for ${n} entities\n`);
+
+// Step 8: Summary
+const top = (values: number[], label: string) => {
+  const best = names.map((name, i) => ({ name, value: values[i] }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 5);
+  console.log(`Top ${label}:`);
+  best.forEach(entry => console.log(`  ${entry.name}: ${entry.value.toFixed(6)}`));
+};
+top(pagerank, 'PageRank');
+top(betweenness, 'betweenness');
+
+const communitySizes = new Map<number, number>();
+communityIds.forEach(c => communitySizes.set(c, (communitySizes.get(c) || 0) + 1));
+console.log('\nLargest communities:');
+Array.from(communitySizes.entries()).sort((a, b) => a[0] - b[0]).slice(0, 10).forEach(([id, size]) => {
+  console.log(`  Community ${id}: ${size} entities`);
+});
+
+db.close();
+
+console.log('\n✅ Entity analytics complete!');
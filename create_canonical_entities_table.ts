@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from './db_version';
 
 const db = new Database('document_analysis.db');
 
@@ -53,6 +54,7 @@ for (const row of distribution) {
   }
 }
 
+bumpContentVersion(db, 'create_canonical_entities_table');
 console.log('\n✅ canonical_entities table created successfully!\n');
 
 db.close();
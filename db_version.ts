@@ -0,0 +1,44 @@
+import type Database from 'better-sqlite3';
+
+// Monotonic content version for document_analysis.db. Scripts that change what the API serves
+// bump it; the API server keys its response cache on it, so new data invalidates stale responses.
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS content_version (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      version INTEGER NOT NULL,
+      updated_at TEXT NOT NULL,
+      updated_by TEXT
+    )
+  `);
+}
+
+/**
+ * Current content version (0 if no script has bumped it yet)
+ */
+export function getContentVersion(db: Database.Database): number {
+  const hasTable = db.prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'content_version'"
+  ).get();
+  if (!hasTable) return 0;
+
+  const row = db.prepare('SELECT version FROM content_version WHERE id = 1').get() as { version: number } | undefined;
+  return row ? row.version : 0;
+}
+
+/**
+ * Record that the database content changed. Returns the new version.
+ */
+export function bumpContentVersion(db: Database.Database, updatedBy: string): number {
+  ensureVersionTable(db);
+  db.prepare(`
+    INSERT INTO content_version (id, version, updated_at, updated_by)
+    VALUES (1, 1, datetime('now'), ?)
+    ON CONFLICT(id) DO UPDATE SET
+      version = version + 1,
+      updated_at = excluded.updated_at,
+      updated_by = excluded.updated_by
+  `).run(updatedBy);
+  return getContentVersion(db);
+}
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from './db_version';
 
 const db = new Database('document_analysis.db');
 
@@ -71,6 +72,7 @@ for (const dup of duplicates) {
 }
 
 console.log(`✓ Deleted ${totalDeleted} duplicate triples\n`);
+bumpContentVersion(db, 'dedupe_triples');
 
 // Step 5: Count total triples after
 const afterCount = db.prepare('SELECT COUNT(*) as count FROM rdf_triples').get() as { count: number };
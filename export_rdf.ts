@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import { buildRdfDataset, serializeRdf, RDF_FORMATS, DEFAULT_RDF_BASE_IRI, type RdfFormat } from './rdf_export';
+
+interface CliArgs {
+  format: RdfFormat;
+  dbPath: string;
+  outPath: string | null;
+  baseIri: string;
+}
+
+/**
+ * Parse command-line arguments
+ */
+function parseArgs(): CliArgs {
+  const args = process.argv.slice(2);
+
+  let format: RdfFormat = 'turtle';
+  let dbPath = 'document_analysis.db';
+  let outPath: string | null = null;
+  let baseIri = DEFAULT_RDF_BASE_IRI;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--format' || args[i] === '-f') {
+      const val = args[i + 1] as RdfFormat;
+      if (!Object.hasOwn(RDF_FORMATS, val)) {
+        console.error(`Invalid format: ${args[i + 1]} (use ${Object.keys(RDF_FORMATS).join(', ')})`);
+        process.exit(1);
+      }
+      format = val;
+      i++; // Skip next arg
+    } else if (args[i] === '--db') {
+      dbPath = args[++i];
+    } else if (args[i] === '--out' || args[i] === '-o') {
+      outPath = args[++i];
+    } else if (args[i] === '--base') {
+      baseIri = args[++i];
+    } else if (args[i] === '--help' || args[i] === '-h') {
+      console.log(`
+RDF Export
+
+Serializes rdf_triples (alias-resolved, with reified provenance) as RDF.
+
+Usage:
+  npx tsx export_rdf.ts [options]
+
+Options:
+  --format, -f <fmt>   turtle (default), ntriples or jsonld
+  --out, -o <file>     Output file (default: stdout)
+  --db <path>          Database path (default: document_analysis.db)
+  --base <iri>         Base IRI for entities/documents (default: ${DEFAULT_RDF_BASE_IRI})
+  --help, -h           Show this help message
+`);
+      process.exit(0);
+    }
+  }
+
+  return { format, dbPath, outPath, baseIri };
+}
+
+const args = parseArgs();
+const db = new Database(args.dbPath, { readonly: true });
+
+// Progress goes to stderr so stdout can be piped straight into a triple store loader
+console.error(`📊 Exporting ${args.dbPath} as ${args.format}...`);
+const { quads, vocab } = buildRdfDataset(db, { baseIri: args.baseIri });
+const output = serializeRdf(quads, vocab, args.format);
+db.close();
+
+if (args.outPath) {
+  fs.writeFileSync(args.outPath, output);
+  console.error(`✅ Wrote ${quads.length} RDF statements to ${args.outPath}`);
+} else {
+  process.stdout.write(output);
+  console.error(`✅ Wrote ${quads.length} RDF statements`);
+}
@@ -0,0 +1,282 @@
+// Runtime schema for the JSON that analyze_documents.ts asks the model for. The model's output
+// is never trusted as-is: validateDocumentAnalysis() checks every field, repairs what can be
+// repaired without guessing (trimming, truncating summaries, dropping bad tags) and rejects the
+// rest, and reports each problem as an ExtractionIssue that is stored in extraction_issues.
+
+export const DOCUMENT_CATEGORIES = [
+  'court_filing', 'email', 'letter', 'memorandum', 'report', 'transcript', 'financial_document',
+  'media_article', 'book_excerpt', 'photo_caption', 'mixed_document', 'public record', 'other'
+] as const;
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+
+export const EXTRACTION_LIMITS = {
+  maxSentenceSummaryLength: 500,
+  maxParagraphSummaryLength: 5000,
+  // actor, target and action; longer values are rejected rather than cut mid-name
+  maxNameLength: 200,
+  // location, actor_likely_type and the topics
+  maxPhraseLength: 200,
+  maxTagLength: 80,
+  maxTags: 50,
+  maxTriples: 1000
+};
+
+// YYYY-MM-DD or YYYY-MM-DDTHH:MM, as the prompt asks for
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T([01]\d|2[0-3]):[0-5]\d)?$/;
+// Letters and digits joined by _ - . & or '
+const TAG_PATTERN = /^[\p{L}\p{N}]+(?:[_\-.&'][\p{L}\p{N}]+)*$/u;
+
+export interface RDFTriple {
+  timestamp?: string; // ISO format YYYY-MM-DDTHH:MM or date YYYY-MM-DD
+  actor: string;
+  action: string;
+  target: string;
+  location?: string; // Physical location where the action occurred
+  actor_likely_type?: string; // Type of unknown/redacted actor
+  tags: string[]; // Triple-level tags
+  explicit_topic?: string; // What the interaction directly says
+  implicit_topic?: string; // What it likely implies
+}
+
+export interface DocumentAnalysis {
+  doc_id: string;
+  one_sentence_summary: string;
+  paragraph_summary: string;
+  date_range_earliest?: string;
+  date_range_latest?: string;
+  category: string;
+  content_tags: string[];
+  rdf_triples: RDFTriple[];
+}
+
+export const ISSUE_CODES = [
+  'missing_field', 'wrong_type', 'invalid_category', 'invalid_date', 'invalid_tag', 'too_long', 'too_many'
+] as const;
+export type IssueCode = typeof ISSUE_CODES[number];
+
+export interface ExtractionIssue {
+  // Position in the model's rdf_triples array; null for document-level fields
+  triple_index: number | null;
+  field: string;
+  code: IssueCode;
+  // error: the value (or the whole triple) was discarded; warning: it was corrected and kept
+  severity: 'error' | 'warning';
+  message: string;
+  // The offending value, JSON-encoded unless it is a string, cut to 200 characters
+  value: string | null;
+}
+
+export interface ValidatedAnalysis {
+  // null when the document itself is unusable (not an object, or a summary is missing)
+  analysis: DocumentAnalysis | null;
+  issues: ExtractionIssue[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string | null {
+  if (value === undefined) return null;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+export function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Collects issues for one part of the analysis (the document or a single triple)
+ */
+function createReporter(issues: ExtractionIssue[], tripleIndex: number | null) {
+  const report = (severity: ExtractionIssue['severity'], field: string, code: IssueCode, message: string, value?: unknown) => {
+    issues.push({ triple_index: tripleIndex, field, code, severity, message, value: describeValue(value) });
+  };
+
+  // Trimmed non-empty string, or undefined (with an issue unless the field was simply absent)
+  const text = (record: Record<string, unknown>, field: string, severity: ExtractionIssue['severity']): string | undefined => {
+    const value = record[field];
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      if (severity === 'error') report(severity, field, 'missing_field', `${field} is required`);
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      report(severity, field, 'wrong_type', `${field} must be a string`, value);
+      return undefined;
+    }
+    return value.trim();
+  };
+
+  // Optional phrase: too long or the wrong type is dropped with a warning
+  const phrase = (record: Record<string, unknown>, field: string): string | undefined => {
+    const value = text(record, field, 'warning');
+    if (value !== undefined && value.length > EXTRACTION_LIMITS.maxPhraseLength) {
+      report('warning', field, 'too_long', `${field} is longer than ${EXTRACTION_LIMITS.maxPhraseLength} characters and was dropped`, value);
+      return undefined;
+    }
+    return value;
+  };
+
+  const date = (record: Record<string, unknown>, field: string): string | undefined => {
+    const value = text(record, field, 'warning');
+    if (value !== undefined && !isValidDate(value)) {
+      report('warning', field, 'invalid_date', `${field} must be YYYY-MM-DD or YYYY-MM-DDTHH:MM and was dropped`, value);
+      return undefined;
+    }
+    return value;
+  };
+
+  // Tags are snake_case by convention; spaces are turned into underscores, anything else invalid is dropped
+  const tags = (record: Record<string, unknown>, field: string): string[] => {
+    const value = record[field];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      report('warning', field, 'wrong_type', `${field} must be an array of strings`, value);
+      return [];
+    }
+
+    const kept: string[] = [];
+    value.forEach((tag, i) => {
+      const normalized = typeof tag === 'string' ? tag.trim().replace(/\s+/g, '_') : '';
+      if (typeof tag !== 'string') {
+        report('warning', `${field}[${i}]`, 'wrong_type', 'Tags must be strings', tag);
+      } else if (normalized.length > EXTRACTION_LIMITS.maxTagLength) {
+        report('warning', `${field}[${i}]`, 'too_long', `Tags must be at most ${EXTRACTION_LIMITS.maxTagLength} characters`, tag);
+      } else if (!TAG_PATTERN.test(normalized)) {
+        report('warning', `${field}[${i}]`, 'invalid_tag', 'Tags must be words joined by underscores', tag);
+      } else if (!kept.includes(normalized)) {
+        kept.push(normalized);
+      }
+    });
+
+    if (kept.length > EXTRACTION_LIMITS.maxTags) {
+      report('warning', field, 'too_many', `Only the first ${EXTRACTION_LIMITS.maxTags} of ${kept.length} tags were kept`);
+      return kept.slice(0, EXTRACTION_LIMITS.maxTags);
+    }
+    return kept;
+  };
+
+  return { report, text, phrase, date, tags };
+}
+
+/**
+ * A triple needs actor, action and target; without them (or with an overlong one) it is
+ * rejected. Problems with the optional fields only drop that field.
+ */
+function validateTriple(raw: unknown, index: number, issues: ExtractionIssue[]): RDFTriple | null {
+  const check = createReporter(issues, index);
+  if (!isRecord(raw)) {
+    check.report('error', 'triple', 'wrong_type', 'Triples must be objects', raw);
+    return null;
+  }
+
+  let rejected = false;
+  const required: Record<'actor' | 'action' | 'target', string> = { actor: '', action: '', target: '' };
+  for (const field of ['actor', 'action', 'target'] as const) {
+    const value = check.text(raw, field, 'error');
+    if (value === undefined) {
+      rejected = true;
+    } else if (value.length > EXTRACTION_LIMITS.maxNameLength) {
+      check.report('error', field, 'too_long', `${field} must be at most ${EXTRACTION_LIMITS.maxNameLength} characters`, value);
+      rejected = true;
+    } else {
+      required[field] = value;
+    }
+  }
+  if (rejected) return null;
+
+  const triple: RDFTriple = { ...required, tags: check.tags(raw, 'tags') };
+  const timestamp = check.date(raw, 'timestamp');
+  if (timestamp !== undefined) triple.timestamp = timestamp;
+  for (const field of ['location', 'actor_likely_type', 'explicit_topic', 'implicit_topic'] as const) {
+    const value = check.phrase(raw, field);
+    if (value !== undefined) triple[field] = value;
+  }
+  for (const field of ['explicit_topic', 'implicit_topic'] as const) {
+    if (raw[field] === undefined || raw[field] === null) {
+      check.report('warning', field, 'missing_field', `${field} is missing`);
+    }
+  }
+  return triple;
+}
+
+/**
+ * Check a parsed model response against the DocumentAnalysis schema
+ */
+export function validateDocumentAnalysis(raw: unknown, docId: string): ValidatedAnalysis {
+  const issues: ExtractionIssue[] = [];
+  const check = createReporter(issues, null);
+
+  if (!isRecord(raw)) {
+    check.report('error', 'analysis', 'wrong_type', 'The response must be a JSON object', raw);
+    return { analysis: null, issues };
+  }
+
+  const summaries: Array<[field: 'one_sentence_summary' | 'paragraph_summary', max: number]> = [
+    ['one_sentence_summary', EXTRACTION_LIMITS.maxSentenceSummaryLength],
+    ['paragraph_summary', EXTRACTION_LIMITS.maxParagraphSummaryLength]
+  ];
+  const summary: Record<string, string> = {};
+  for (const [field, max] of summaries) {
+    const value = check.text(raw, field, 'error');
+    if (value !== undefined && value.length > max) {
+      check.report('warning', field, 'too_long', `${field} was cut to ${max} characters`, value);
+      summary[field] = value.slice(0, max);
+    } else if (value !== undefined) {
+      summary[field] = value;
+    }
+  }
+
+  let category: string = 'other';
+  const rawCategory = check.text(raw, 'category', 'warning');
+  // "Public Record" and "public_record" both mean the enum's "public record"
+  const match = rawCategory !== undefined
+    ? DOCUMENT_CATEGORIES.find(c => c.replace(/_/g, ' ') === rawCategory.toLowerCase().replace(/[_\s]+/g, ' '))
+    : undefined;
+  if (match) {
+    category = match;
+  } else {
+    check.report('warning', 'category', rawCategory === undefined ? 'missing_field' : 'invalid_category',
+      `category must be one of: ${DOCUMENT_CATEGORIES.join(', ')}; stored as "other"`, rawCategory);
+  }
+
+  const earliest = check.date(raw, 'date_range_earliest');
+  const latest = check.date(raw, 'date_range_latest');
+  const contentTags = check.tags(raw, 'content_tags');
+
+  let rawTriples: unknown[] = [];
+  if (Array.isArray(raw.rdf_triples)) {
+    rawTriples = raw.rdf_triples;
+  } else if (raw.rdf_triples !== undefined && raw.rdf_triples !== null) {
+    check.report('error', 'rdf_triples', 'wrong_type', 'rdf_triples must be an array', raw.rdf_triples);
+  }
+  if (rawTriples.length > EXTRACTION_LIMITS.maxTriples) {
+    check.report('error', 'rdf_triples', 'too_many',
+      `Only the first ${EXTRACTION_LIMITS.maxTriples} of ${rawTriples.length} triples were kept`);
+    rawTriples = rawTriples.slice(0, EXTRACTION_LIMITS.maxTriples);
+  }
+  const triples = rawTriples
+    .map((triple, index) => validateTriple(triple, index, issues))
+    .filter((triple): triple is RDFTriple => triple !== null);
+
+  if (summary.one_sentence_summary === undefined || summary.paragraph_summary === undefined) {
+    return { analysis: null, issues };
+  }
+
+  const analysis: DocumentAnalysis = {
+    doc_id: docId,
+    one_sentence_summary: summary.one_sentence_summary,
+    paragraph_summary: summary.paragraph_summary,
+    category,
+    content_tags: contentTags,
+    rdf_triples: triples
+  };
+  if (earliest !== undefined) analysis.date_range_earliest = earliest;
+  if (latest !== undefined) analysis.date_range_latest = latest;
+  return { analysis, issues };
+}
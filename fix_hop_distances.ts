@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { bumpContentVersion } from './db_version';
 
 const db = new Database('document_analysis.db');
 
@@ -76,40 +77,48 @@ for (const rel of relationshipsResult) {
 
 console.log(`✓ Built graph with ${adjacencyList.size} nodes and ${relationshipsResult.length} edges\n`);
 
-// Step 5: BFS from Jeffrey Epstein to calculate hop distances
-console.log('Calculating hop distances from Jeffrey Epstein using BFS...');
-const PRINCIPAL = 'Jeffrey Epstein';
+// Step 5: BFS from the principal(s) to calculate hop distances
+// PRINCIPAL_NAMES is a comma-separated list; every principal is at distance 0
+const PRINCIPALS = (process.env.PRINCIPAL_NAMES || 'Jeffrey Epstein')
+  .split(',')
+  .map(p => p.trim())
+  .filter(p => p.length > 0);
+console.log(`Calculating hop distances from ${PRINCIPALS.join(', ')} using BFS...`);
 const DISCONNECTED_HOP_DISTANCE = 1000;
 
 const hopDistances = new Map<string, number>();
 const queue: { name: string; distance: number }[] = [];
 const visited = new Set<string>();
 
-// Find canonical name for Jeffrey Epstein
-const principalCanonical = canonicalMap.get(PRINCIPAL) || PRINCIPAL;
+// Find canonical names for the principals
+for (const principal of PRINCIPALS) {
+  const principalCanonical = canonicalMap.get(principal) || principal;
+
+  if (!adjacencyList.has(principalCanonical)) {
+    console.log(`⚠️  Warning: Principal "${principal}" not found in graph`);
+    continue;
+  }
+  if (visited.has(principalCanonical)) continue;
 
-if (adjacencyList.has(principalCanonical)) {
   visited.add(principalCanonical);
   hopDistances.set(principalCanonical, 0);
   queue.push({ name: principalCanonical, distance: 0 });
+}
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const neighbors = adjacencyList.get(current.name);
-
-    if (neighbors) {
-      for (const neighbor of neighbors) {
-        if (!visited.has(neighbor)) {
-          visited.add(neighbor);
-          const newDistance = current.distance + 1;
-          hopDistances.set(neighbor, newDistance);
-          queue.push({ name: neighbor, distance: newDistance });
-        }
+while (queue.length > 0) {
+  const current = queue.shift()!;
+  const neighbors = adjacencyList.get(current.name);
+
+  if (neighbors) {
+    for (const neighbor of neighbors) {
+      if (!visited.has(neighbor)) {
+        visited.add(neighbor);
+        const newDistance = current.distance + 1;
+        hopDistances.set(neighbor, newDistance);
+        queue.push({ name: neighbor, distance: newDistance });
       }
     }
   }
-} else {
-  console.log(`⚠️  Warning: Principal "${PRINCIPAL}" not found in graph`);
 }
 
 console.log(`✓ Calculated distances for ${hopDistances.size} connected actors\n`);
@@ -156,6 +165,7 @@ for (const [distance, count] of sortedDistances) {
   }
 }
 
+bumpContentVersion(db, 'fix_hop_distances');
 console.log('\n✅ Hop distance fix complete!\n');
 
 db.close();
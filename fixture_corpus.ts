@@ -0,0 +1,479 @@
+import type Database from 'better-sqlite3';
+import { initAnalysisSchema, initDerivedSchema } from './analysis_schema';
+import { createGraphStore } from './graph_store';
+import type { TagCluster } from './routes/clusters';
+
+// Synthetic document_analysis.db contents for development without the real corpus. Every
+// name, document and relationship is invented; the same seed and options always produce the
+// same rows. See generate_fixture_db.ts for the command-line entry point.
+
+export const CORPUS_SHAPES = ['hub', 'uniform', 'communities'] as const;
+export type CorpusShape = typeof CORPUS_SHAPES[number];
+
+export interface FixtureCorpusOptions {
+  seed: number;
+  documents: number;
+  entities: number;
+  // Average relationships per document (each document has at least one)
+  triplesPerDocument: number;
+  // Tag clusters to generate, at most CORPUS_THEMES.length
+  clusters: number;
+  // hub: a few heavily connected entities; uniform: random pairs; communities: dense groups with few bridges
+  shape: CorpusShape;
+  communities: number;
+  // Share of entities that also appear under a variant name (resolved through entity_aliases)
+  aliasRate: number;
+  // Share of entities in small groups with no path to the principal (hop distance 1000)
+  disconnectedRate: number;
+  // Share of documents without dates
+  undatedRate: number;
+  // Share of relationships whose actor is an unnamed person ("unknown person C")
+  unknownRate: number;
+  principal: string;
+  yearMin: number;
+  yearMax: number;
+}
+
+export const DEFAULT_CORPUS_OPTIONS: FixtureCorpusOptions = {
+  seed: 1,
+  documents: 500,
+  entities: 300,
+  triplesPerDocument: 6,
+  clusters: 12,
+  shape: 'hub',
+  communities: 6,
+  aliasRate: 0.2,
+  disconnectedRate: 0.05,
+  undatedRate: 0.1,
+  unknownRate: 0.05,
+  principal: 'Jeffrey Epstein',
+  yearMin: 1995,
+  yearMax: 2019
+};
+
+export interface FixtureCorpus {
+  clusters: TagCluster[];
+  stats: {
+    documents: number;
+    triples: number;
+    entities: number;
+    aliases: number;
+    tags: number;
+    disconnected: number;
+  };
+}
+
+interface CorpusTheme {
+  name: string;
+  tags: string[];
+  actions: string[];
+  topics: string[];
+}
+
+// One theme per tag cluster: its tags, and the actions and topics of relationships about it
+export const CORPUS_THEMES: CorpusTheme[] = [
+  { name: 'Travel', tags: ['flight', 'private_jet', 'travel_arrangements', 'flight_manifest', 'itinerary', 'airport_transfer'], actions: ['flew with', 'traveled with', 'booked travel for', 'arrived with'], topics: ['flight logistics', 'travel itinerary planning', 'passenger arrangements'] },
+  { name: 'Finance', tags: ['wire_transfer', 'payment', 'bank_account', 'invoice', 'loan', 'offshore_banking'], actions: ['paid', 'wired funds to', 'invoiced', 'loaned money to'], topics: ['payment records', 'account transfers', 'loan repayment terms'] },
+  { name: 'Legal Proceedings', tags: ['deposition', 'subpoena', 'court_hearing', 'plea_agreement', 'motion_filing', 'legal_counsel'], actions: ['deposed', 'subpoenaed', 'represented', 'filed motion against'], topics: ['deposition scheduling', 'court filing strategy', 'plea negotiations'] },
+  { name: 'Social Events', tags: ['dinner_party', 'gala', 'social_gathering', 'birthday_party', 'reception', 'guest_list'], actions: ['hosted', 'dined with', 'attended event with', 'invited'], topics: ['dinner invitation', 'event guest list', 'party arrangements'] },
+  { name: 'Correspondence', tags: ['email_exchange', 'phone_call', 'letter', 'scheduling', 'message_relay', 'follow_up'], actions: ['emailed', 'called', 'wrote to', 'messaged'], topics: ['meeting scheduling', 'personal correspondence', 'relayed messages'] },
+  { name: 'Business', tags: ['business_meeting', 'investment', 'board_position', 'partnership', 'consulting', 'deal_negotiation'], actions: ['met with', 'invested with', 'hired', 'negotiated with'], topics: ['investment discussion', 'board appointment', 'partnership terms'] },
+  { name: 'Media', tags: ['press_coverage', 'interview', 'media_pressure', 'public_statement', 'publication', 'press_inquiry'], actions: ['interviewed', 'gave statement to', 'wrote about', 'contacted'], topics: ['press inquiry response', 'published interview', 'media coverage'] },
+  { name: 'Investigation', tags: ['police_report', 'investigation', 'witness_interview', 'evidence_collection', 'search_warrant', 'grand_jury'], actions: ['investigated', 'questioned', 'reported to', 'testified before'], topics: ['witness statement', 'evidence review', 'grand jury testimony'] },
+  { name: 'Philanthropy', tags: ['charity', 'foundation_grant', 'scholarship', 'fundraising', 'endowment', 'donation'], actions: ['funded', 'pledged to', 'raised funds with', 'donated to'], topics: ['foundation grant', 'charity fundraiser', 'endowment pledge'] },
+  { name: 'Politics', tags: ['political_fundraising', 'campaign', 'lobbying', 'government_meeting', 'policy_discussion', 'diplomatic_contact'], actions: ['lobbied', 'campaigned with', 'advised', 'briefed'], topics: ['campaign contribution', 'policy briefing', 'government meeting'] },
+  { name: 'Property', tags: ['real_estate', 'property_purchase', 'residence', 'renovation', 'estate_management', 'island_property'], actions: ['sold property to', 'stayed at residence of', 'managed estate for', 'leased to'], topics: ['property sale', 'residence visit', 'estate renovation'] },
+  { name: 'Staff', tags: ['household_staff', 'employment', 'recruitment', 'personal_assistant', 'payroll', 'staff_scheduling'], actions: ['employed', 'recruited', 'scheduled', 'supervised'], topics: ['staff hiring', 'household schedule', 'employment terms'] },
+  { name: 'Science', tags: ['research_collaboration', 'academic_conference', 'science_funding', 'lecture', 'university_visit', 'peer_review'], actions: ['collaborated with', 'lectured with', 'visited', 'sponsored research by'], topics: ['research funding', 'conference attendance', 'academic collaboration'] },
+  { name: 'Security', tags: ['security_detail', 'surveillance', 'bodyguard', 'access_control', 'background_check', 'threat_assessment'], actions: ['guarded', 'screened', 'escorted', 'monitored'], topics: ['security arrangements', 'visitor screening', 'threat review'] },
+  { name: 'Health', tags: ['medical_appointment', 'wellness', 'massage_services', 'fitness', 'medical_referral', 'health_records'], actions: ['treated', 'referred', 'examined', 'trained with'], topics: ['medical appointment', 'wellness session', 'health referral'] },
+  { name: 'Arts and Culture', tags: ['art_acquisition', 'museum_visit', 'concert', 'book_launch', 'film_screening', 'auction'], actions: ['bought art from', 'toured museum with', 'performed for', 'screened film with'], topics: ['art purchase', 'book launch event', 'gallery opening'] }
+];
+
+const CATEGORIES = [
+  'email', 'email', 'email', 'letter', 'memorandum', 'court_filing', 'court_filing', 'transcript',
+  'financial_document', 'report', 'media_article', 'book_excerpt', 'photo_caption', 'public record', 'other'
+];
+
+const IMPLICIT_TOPICS = [
+  'relationship cultivation', 'reputation management', 'legal strategy coordination', 'power networking',
+  'financial concealment', 'influence building', 'access brokering', 'damage control'
+];
+
+const LOCATIONS = [
+  'New York', 'Palm Beach', 'London', 'Paris', 'Santa Fe', 'Washington, D.C.', 'Boston', 'Los Angeles',
+  'Miami', 'Geneva', 'Cambridge', 'Las Vegas', 'Monaco', 'Aspen', 'Chicago'
+];
+
+const LIKELY_TYPES = ['witness', 'staff member', 'business associate', 'legal counsel', 'journalist', 'employee'];
+
+const FIRST_NAMES = [
+  'Adrian', 'Beatrice', 'Calvin', 'Delia', 'Edmund', 'Fiona', 'Gideon', 'Harriet', 'Ivan', 'Juliet',
+  'Kendrick', 'Lorraine', 'Marcus', 'Nadia', 'Oscar', 'Priscilla', 'Quentin', 'Rosalind', 'Silas', 'Tamsin',
+  'Ulric', 'Vivian', 'Wendell', 'Xenia', 'Yusuf', 'Zelda', 'Anton', 'Blythe', 'Cyrus', 'Daphne',
+  'Emil', 'Flora', 'Gregor', 'Hazel', 'Ingrid', 'Jasper', 'Kira', 'Leopold', 'Mirela', 'Nathaniel',
+  'Odette', 'Percival', 'Rhea', 'Soren', 'Theodora', 'Umberto', 'Valentina', 'Winston', 'Yvette', 'Zane'
+];
+
+const LAST_NAMES = [
+  'Abernathy', 'Blackwood', 'Castellano', 'Delacroix', 'Ellsworth', 'Fairbanks', 'Grimsby', 'Hollister',
+  'Ingersoll', 'Jablonski', 'Kettering', 'Lindqvist', 'Montague', 'Northcott', 'Okonkwo', 'Pemberton',
+  'Quimby', 'Ravensworth', 'Sinclair', 'Thorncroft', 'Underhill', 'Vasquez', 'Whitlock', 'Yardley',
+  'Zimmerman', 'Ashcombe', 'Brightwater', 'Carrington', 'Dunmore', 'Everly', 'Fenwick', 'Galloway',
+  'Hargreave', 'Iverson', 'Kingsley', 'Lockhart', 'Marchetti', 'Nakamura', 'Oyelaran', 'Prescott',
+  'Rutherford', 'Stavros', 'Templeton', 'Valdivia', 'Wexford', 'Achterberg', 'Bellweather', 'Cromwell'
+];
+
+// Fixed so that rows are identical across runs
+const GENERATED_AT = '2025-01-01T00:00:00.000Z';
+const EMBEDDING_DIMENSIONS = 32;
+const EMBEDDING_MODEL = 'synthetic-32d';
+const DISCONNECTED_HOP_DISTANCE = 1000;
+
+// mulberry32: small, fast and good enough for test data
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return {
+    next,
+    int,
+    chance: (probability: number) => next() < probability,
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+    shuffle: <T>(items: T[]): T[] => {
+      for (let i = items.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [items[i], items[j]] = [items[j], items[i]];
+      }
+      return items;
+    },
+    gaussian: () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next())
+  };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function entityNames(random: Random, count: number, principal: string): string[] {
+  const names = new Set<string>([principal]);
+  const pairs = random.shuffle(FIRST_NAMES.flatMap(first => LAST_NAMES.map(last => [first, last])));
+  // Middle initials once the plain combinations run out
+  for (let round = 0; names.size < count; round++) {
+    const initial = round === 0 ? '' : `${String.fromCharCode(64 + ((round - 1) % 26) + 1)}. `;
+    const suffix = round > 26 ? ` ${Math.ceil(round / 26)}` : '';
+    for (const [first, last] of pairs) {
+      if (names.size >= count) break;
+      names.add(`${first} ${initial}${last}${suffix}`);
+    }
+  }
+  return [...names];
+}
+
+// Other ways a document might refer to the same person
+function nameVariants(name: string): string[] {
+  const parts = name.split(' ');
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  return [`${first[0]}. ${last}`, last, `${first} ${last}`.toUpperCase()];
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0)) || 1;
+  return vector.map(x => Number((x / length).toFixed(6)));
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Fill an empty database with a synthetic corpus: documents, triples, aliases, canonical
+ * entities with hop distances, tag embeddings and cluster assignments. Returns the matching
+ * tag_clusters.json contents.
+ */
+export function generateFixtureCorpus(db: Database.Database, overrides: Partial<FixtureCorpusOptions> = {}): FixtureCorpus {
+  const options: FixtureCorpusOptions = { ...DEFAULT_CORPUS_OPTIONS, ...overrides };
+  if (options.clusters < 1 || options.clusters > CORPUS_THEMES.length) {
+    throw new Error(`clusters must be between 1 and ${CORPUS_THEMES.length}`);
+  }
+  if (options.entities < 2 || options.documents < 1) {
+    throw new Error('At least 2 entities and 1 document are required');
+  }
+
+  const random = createRandom(options.seed);
+  initAnalysisSchema(db);
+  initDerivedSchema(db);
+
+  // ---- Tag clusters ----
+
+  const themes = CORPUS_THEMES.slice(0, options.clusters);
+  const clusters: TagCluster[] = themes.map((theme, id) => ({
+    id,
+    name: theme.name,
+    exemplars: theme.tags.slice(0, 3),
+    tags: theme.tags
+  }));
+  const tagCluster = new Map<string, number>();
+  clusters.forEach(cluster => cluster.tags.forEach(tag => tagCluster.set(tag, cluster.id)));
+
+  // ---- Entities and the relationship graph ----
+
+  const names = entityNames(random, options.entities, options.principal);
+  const isolatedWanted = Math.min(names.length - 2, Math.round(names.length * options.disconnectedRate));
+  const isolatedCount = isolatedWanted < 2 ? 0 : isolatedWanted; // An island needs at least two members
+  const connectedCount = names.length - isolatedCount;
+  const community = (entity: number) => entity % Math.max(1, options.communities);
+
+  const edges: Array<[number, number]> = [];
+  // Endpoint multiset: sampling from it favours well-connected entities (preferential attachment)
+  const endpoints: number[] = [0];
+  const addEdge = (a: number, b: number) => {
+    edges.push(random.chance(0.5) ? [a, b] : [b, a]);
+    endpoints.push(a, b);
+  };
+
+  const sampleTarget = (from: number, below: number): number => {
+    switch (options.shape) {
+      case 'hub': {
+        // The principal is the biggest hub, as in the real corpus
+        if (random.chance(0.05)) return 0;
+        const candidate = random.chance(0.8) ? random.pick(endpoints) : random.int(0, below - 1);
+        return candidate < below ? candidate : random.int(0, below - 1);
+      }
+      case 'communities': {
+        const peers = Math.floor((below - 1 - community(from)) / options.communities) + 1;
+        if (peers > 0 && community(from) < below && random.chance(0.9)) {
+          return community(from) + options.communities * random.int(0, peers - 1);
+        }
+        return random.int(0, below - 1);
+      }
+      default:
+        return random.int(0, below - 1);
+    }
+  };
+
+  // Every connected entity is introduced through an earlier one, so all reach the principal
+  for (let entity = 1; entity < connectedCount; entity++) {
+    addEdge(entity, sampleTarget(entity, entity));
+  }
+
+  // The rest form small islands of two to five entities
+  for (let start = connectedCount; start < names.length;) {
+    const remaining = names.length - start;
+    let size = Math.min(random.int(2, 5), remaining);
+    if (remaining - size === 1) size++;
+    for (let i = 1; i < size; i++) addEdge(start + i - 1, start + i);
+    start += size;
+  }
+  const structuralEdges = edges.length;
+
+  const documentSizes = Array.from({ length: options.documents }, () =>
+    1 + random.int(0, Math.max(0, Math.round(2 * (options.triplesPerDocument - 1))))
+  );
+  let plannedTriples = documentSizes.reduce((sum, size) => sum + size, 0);
+  if (plannedTriples < structuralEdges) {
+    documentSizes[documentSizes.length - 1] += structuralEdges - plannedTriples;
+    plannedTriples = structuralEdges;
+  }
+
+  while (edges.length < plannedTriples) {
+    const actor = random.int(0, connectedCount - 1);
+    const target = sampleTarget(actor, connectedCount);
+    if (target !== actor) addEdge(actor, target);
+  }
+  // Only the extra edges may be given to an unnamed actor; the structural ones keep the graph connected
+  const unknownActor = new Set<number>();
+  for (let i = structuralEdges; i < edges.length; i++) {
+    if (random.chance(options.unknownRate)) unknownActor.add(i);
+  }
+  const order = random.shuffle(edges.map((_, i) => i));
+
+  // ---- Aliases ----
+
+  const usedNames = new Set(names);
+  const variantsOf = new Map<number, string[]>();
+  names.forEach((name, entity) => {
+    if (entity === 0 || !random.chance(options.aliasRate)) return;
+    const variants = random.shuffle(nameVariants(name))
+      .slice(0, random.int(1, 2))
+      .filter(variant => !usedNames.has(variant));
+    variants.forEach(variant => usedNames.add(variant));
+    if (variants.length > 0) variantsOf.set(entity, variants);
+  });
+  const mention = (entity: number) => {
+    const variants = variantsOf.get(entity);
+    return variants && random.chance(0.35) ? random.pick(variants) : names[entity];
+  };
+
+  // ---- Documents and triples ----
+
+  const insertDocument = db.prepare(`
+    INSERT INTO documents (
+      doc_id, file_path, one_sentence_summary, paragraph_summary, date_range_earliest, date_range_latest,
+      category, content_tags, full_text, analysis_timestamp, input_tokens, output_tokens, cache_read_tokens,
+      cost_usd, error, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+  `);
+  const insertTriple = db.prepare(`
+    INSERT INTO rdf_triples (
+      doc_id, timestamp, actor, action, target, location, actor_likely_type, triple_tags,
+      explicit_topic, implicit_topic, sequence_order, top_cluster_ids, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const pickTags = (theme: number): string[] => {
+    const tags = new Set<string>();
+    const count = random.int(1, 3);
+    while (tags.size < count) {
+      const source = random.chance(0.75) ? themes[theme] : random.pick(themes);
+      tags.add(random.pick(source.tags));
+    }
+    return [...tags];
+  };
+
+  // Same rule as update_top_clusters.ts: up to three clusters, by number of matching tags
+  const topClusters = (tags: string[]): number[] => {
+    const counts = new Map<number, number>();
+    tags.forEach(tag => {
+      const id = tagCluster.get(tag);
+      if (id !== undefined) counts.set(id, (counts.get(id) || 0) + 1);
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3).map(([id]) => id);
+  };
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const yearStart = Date.UTC(options.yearMin, 0, 1);
+  const yearSpan = Date.UTC(options.yearMax + 1, 0, 1) - yearStart;
+  let nextEdge = 0;
+  let unknownCount = 0;
+  let tripleCount = 0;
+
+  db.transaction(() => {
+    documentSizes.forEach((size, index) => {
+      const docId = `SYNTH_${String(index + 1).padStart(6, '0')}`;
+      const theme = random.int(0, themes.length - 1);
+      const category = random.pick(CATEGORIES);
+      const dated = !random.chance(options.undatedRate);
+      const earliest = new Date(yearStart + Math.floor(random.next() * yearSpan / dayMs) * dayMs);
+      const latest = new Date(earliest.getTime() + random.int(0, 30) * dayMs);
+
+      const lines: string[] = [];
+      const people = new Set<string>();
+      // Inserted after the document row they reference
+      const triples: unknown[][] = [];
+      for (let sequence = 0; sequence < size; sequence++) {
+        const edgeIndex = order[nextEdge++];
+        const [actorEntity, targetEntity] = edges[edgeIndex];
+        const unknown = unknownActor.has(edgeIndex);
+        const actor = unknown ? `unknown person ${String.fromCharCode(65 + (unknownCount++ % 26))}` : mention(actorEntity);
+        const target = mention(targetEntity);
+        const timestamp = dated && random.chance(0.9)
+          ? isoDate(new Date(earliest.getTime() + random.int(0, Math.round((latest.getTime() - earliest.getTime()) / dayMs)) * dayMs))
+          : null;
+        const action = random.pick(themes[theme].actions);
+        const location = random.chance(0.5) ? random.pick(LOCATIONS) : null;
+        const tags = pickTags(theme);
+        const topic = random.pick(themes[theme].topics);
+
+        triples.push([
+          docId, timestamp, actor, action, target, location, unknown ? random.pick(LIKELY_TYPES) : null,
+          JSON.stringify(tags), topic, random.pick(IMPLICIT_TOPICS), sequence, JSON.stringify(topClusters(tags)), GENERATED_AT
+        ]);
+        people.add(actor).add(target);
+        lines.push(`${timestamp ?? 'Undated'}: ${actor} ${action} ${target}${location ? ` in ${location}` : ''} regarding ${topic}.`);
+      }
+
+      const cast = [...people].slice(0, 3);
+      const label = category.replace(/_/g, ' ');
+      const summary = `A ${label} involving ${cast.join(', ')} about ${themes[theme].topics[0]}.`;
+      const inputTokens = random.int(1500, 20000);
+      const outputTokens = random.int(300, 3000);
+      insertDocument.run(
+        docId,
+        `data/synthetic/${docId}.txt`,
+        summary,
+        `${summary} The ${label} records ${size} interaction${size === 1 ? '' : 's'} related to ${themes[theme].name.toLowerCase()}. ` +
+          'It is part of a synthetic corpus generated for development and contains no real information.',
+        dated ? isoDate(earliest) : null,
+        dated ? isoDate(latest) : null,
+        category,
+        JSON.stringify(random.shuffle([...themes[theme].tags]).slice(0, random.int(3, 5))),
+        [`SYNTHETIC ${label.toUpperCase()} ${docId}`, '', ...lines].join('\n'),
+        GENERATED_AT,
+        inputTokens,
+        outputTokens,
+        random.int(0, inputTokens),
+        Number(((inputTokens * 1 + outputTokens * 5) / 1_000_000).toFixed(6)),
+        GENERATED_AT
+      );
+      triples.forEach(row => insertTriple.run(...row));
+      tripleCount += triples.length;
+    });
+
+    const insertAlias = db.prepare(`
+      INSERT INTO entity_aliases (original_name, canonical_name, reasoning, created_at, created_by)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    variantsOf.forEach((variants, entity) => variants.forEach(variant =>
+      insertAlias.run(variant, names[entity], 'Synthetic name variant', GENERATED_AT, 'llm_dedupe')
+    ));
+  })();
+
+  // ---- Hop distances (as fix_hop_distances.ts and create_canonical_entities_table.ts write them) ----
+
+  const distances = createGraphStore(db, { defaultPrincipals: [options.principal] }).getHopDistances([options.principal]);
+  const canonicalNames = db.prepare(`
+    SELECT COALESCE(ea.canonical_name, endpoints.name) as name
+    FROM (SELECT actor as name FROM rdf_triples UNION SELECT target FROM rdf_triples) endpoints
+    LEFT JOIN entity_aliases ea ON ea.original_name = endpoints.name
+    GROUP BY 1
+    ORDER BY 1
+  `).all() as Array<{ name: string }>;
+
+  let disconnected = 0;
+  db.transaction(() => {
+    const insertSelf = db.prepare(`
+      INSERT OR IGNORE INTO entity_aliases (original_name, canonical_name, created_at, created_by)
+      VALUES (?, ?, ?, 'hop_fix')
+    `);
+    const setHops = db.prepare('UPDATE entity_aliases SET hop_distance_from_principal = ? WHERE canonical_name = ?');
+    const insertCanonical = db.prepare(`
+      INSERT INTO canonical_entities (canonical_name, hop_distance_from_principal, created_at) VALUES (?, ?, ?)
+    `);
+    canonicalNames.forEach(({ name }) => {
+      const hops = distances.get(name) ?? DISCONNECTED_HOP_DISTANCE;
+      if (hops === DISCONNECTED_HOP_DISTANCE) disconnected++;
+      insertSelf.run(name, name, GENERATED_AT);
+      setHops.run(hops, name);
+      insertCanonical.run(name, hops, GENERATED_AT);
+    });
+
+    // ---- Tag embeddings: each cluster's tags scattered around a random centroid ----
+
+    const insertEmbedding = db.prepare('INSERT INTO tag_embeddings (tag, embedding, model, created_at) VALUES (?, ?, ?, ?)');
+    clusters.forEach(cluster => {
+      const centroid = Array.from({ length: EMBEDDING_DIMENSIONS }, () => random.gaussian());
+      cluster.tags.forEach(tag => {
+        const embedding = normalize(centroid.map(x => x + 0.35 * random.gaussian()));
+        insertEmbedding.run(tag, JSON.stringify(embedding), EMBEDDING_MODEL, GENERATED_AT);
+      });
+    });
+  })();
+
+  return {
+    clusters,
+    stats: {
+      documents: options.documents,
+      triples: tripleCount,
+      entities: canonicalNames.length,
+      aliases: [...variantsOf.values()].reduce((sum, variants) => sum + variants.length, 0),
+      tags: tagCluster.size,
+      disconnected
+    }
+  };
+}
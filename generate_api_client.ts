@@ -0,0 +1,247 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+import { API_ROUTES } from './api_routes';
+import type { FieldSchema, FieldSet, RouteSchema } from './api_schema';
+
+const HELP = `
+API Client Generator
+
+Writes network-ui/src/api.ts from the route schemas in api_routes.ts, so the frontend's
+request parameters are checked against the server's at compile time.
+
+Usage:
+  npx tsx generate_api_client.ts [options]
+
+Options:
+  --out <path>   Output file (default: network-ui/src/api.ts)
+  --check        Exit with an error if the file is out of date instead of writing it
+  --help, -h     Show this help message
+`;
+
+// Global type names that must not be imported from types.ts
+const BUILTIN_TYPES = new Set(['Record', 'Partial', 'Array', 'Promise']);
+
+function clientType(field: FieldSchema): string {
+  switch (field.type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'string';
+    case 'enum':
+      return field.values.map(value => `'${value}'`).join(' | ');
+    case 'boolean':
+      return 'boolean';
+    case 'integer[]':
+      return 'number[]';
+    case 'string[]':
+      return 'string[]';
+    case 'json':
+      return 'unknown';
+  }
+}
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function routeFields(route: RouteSchema): FieldSet {
+  return { ...route.params, ...route.query, ...route.body };
+}
+
+function hasParams(route: RouteSchema): boolean {
+  return Object.keys(routeFields(route)).length > 0 || !!route.rawBody;
+}
+
+function paramsInterface(route: RouteSchema): string {
+  const lines = Object.entries(routeFields(route)).flatMap(([name, field]) => {
+    const required = !!field.required || !!route.params?.[name];
+    return [
+      ...(field.description ? [`  // ${field.description}`] : []),
+      `  ${name}${required ? '' : '?'}: ${clientType(field)};`
+    ];
+  });
+  if (route.rawBody) lines.push('  body: unknown;');
+  return `export interface ${pascalCase(route.operationId)}Params {\n${lines.join('\n')}\n}`;
+}
+
+// `/api/actor/:name/count` -> `/actor/${encodeURIComponent(params.name)}/count` (relative to API_BASE)
+function pathExpression(route: RouteSchema): string {
+  const relative = route.path.replace(/^\/api/, '');
+  return '`' + relative.replace(/:(\w+)/g, (_, name) => `\${encodeURIComponent(params.${name})}`) + '`';
+}
+
+// Object literal copying the given fields out of `params`, one per line once it gets long
+function pickExpression(fields: FieldSet | undefined): string {
+  const entries = Object.keys(fields || {}).map(name => `${name}: params.${name}`);
+  const inline = `{ ${entries.join(', ')} }`;
+  return inline.length <= 60 ? inline : `{\n${entries.map(entry => `    ${entry}`).join(',\n')}\n  }`;
+}
+
+function urlExpression(route: RouteSchema): string {
+  const pathExpr = pathExpression(route);
+  return route.query ? `${pathExpr} + buildQuery(${pickExpression(route.query)})` : pathExpr;
+}
+
+function clientFunction(route: RouteSchema): string {
+  const name = route.operationId;
+  const paramsType = `${pascalCase(name)}Params`;
+  const anyRequired = Object.values(routeFields(route)).some(field => field.required) || !!route.params || !!route.rawBody;
+  const paramsArg = !hasParams(route) ? '' : anyRequired ? `params: ${paramsType}` : `params: ${paramsType} = {}`;
+
+  if (route.response.download) {
+    const auth = route.auth ? ` Requires an API key with the ${route.auth} scope.` : '';
+    return [
+      `// ${route.summary}. Download URL for the browser to fetch directly.${auth}`,
+      `export function ${name}Url(${paramsArg}): string {`,
+      `  return API_BASE + ${urlExpression(route)};`,
+      '}'
+    ].join('\n');
+  }
+
+  const args = [paramsArg, 'options: RequestOptions = {}'].filter(Boolean).join(', ');
+  const body = route.rawBody ? 'params.body' : route.body ? pickExpression(route.body) : 'undefined';
+  return [
+    `// ${route.summary}`,
+    `export function ${name}(${args}): Promise<${route.response.type}> {`,
+    `  return request('${route.method.toUpperCase()}', ${urlExpression(route)}, ${body}, options);`,
+    '}'
+  ].join('\n');
+}
+
+function referencedTypes(routes: RouteSchema[]): string[] {
+  const names = new Set<string>();
+  routes.forEach(route => {
+    for (const match of route.response.type.matchAll(/\b[A-Z]\w*/g)) {
+      if (!BUILTIN_TYPES.has(match[0])) names.add(match[0]);
+    }
+  });
+  return [...names].sort();
+}
+
+const RUNTIME = `// Use relative path in production (served from same domain), localhost in development
+export const API_BASE: string = import.meta.env.VITE_API_BASE_URL ||
+  (import.meta.env.DEV ? 'http://localhost:3001/api' : '/api');
+
+export interface ApiValidationIssue {
+  in: 'path' | 'query' | 'body';
+  name: string;
+  message: string;
+}
+
+// A non-2xx response. \`issues\` lists every invalid parameter of a 400.
+export class ApiError extends Error {
+  status: number;
+  issues: ApiValidationIssue[];
+  body: unknown;
+
+  constructor(status: number, body: unknown) {
+    const data = (body ?? {}) as { error?: string; issues?: ApiValidationIssue[] };
+    super(data.error || \`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.issues = data.issues ?? [];
+    this.body = body;
+  }
+}
+
+export interface RequestOptions {
+  // API key (edx_...) or, for admin routes, the admin token; sent as a bearer token
+  token?: string;
+  signal?: AbortSignal;
+}
+
+type QueryValue = string | number | boolean | string[] | number[] | undefined;
+
+// Lists are sent comma-separated; unset values and empty lists are left out
+function buildQuery(params: Record<string, QueryValue>): string {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.append(name, value.join(','));
+    } else {
+      search.append(name, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? \`?\${query}\` : '';
+}
+
+async function request<T>(method: string, url: string, body: unknown, options: RequestOptions): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.token) headers.Authorization = \`Bearer \${options.token}\`;
+
+  const response = await fetch(API_BASE + url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: options.signal
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new ApiError(response.status, data);
+  return data as T;
+}`;
+
+function generateApiClient(routes: Record<string, RouteSchema>): string {
+  const list = Object.values(routes);
+  const sections: string[] = [];
+
+  // Grouped by tag, in order of each tag's first route
+  const tags = [...new Set(list.map(route => route.tag))];
+  for (const tag of tags) {
+    sections.push(`// ---- ${tag} ----`);
+    for (const route of list.filter(r => r.tag === tag)) {
+      if (hasParams(route)) sections.push(paramsInterface(route));
+      sections.push(clientFunction(route));
+    }
+  }
+
+  return [
+    '// Generated by generate_api_client.ts from api_routes.ts - do not edit by hand.',
+    '// Run `npx tsx generate_api_client.ts` after changing a route schema.',
+    '',
+    `import type { ${referencedTypes(list).join(', ')} } from './types';`,
+    '',
+    RUNTIME,
+    '',
+    sections.join('\n\n'),
+    ''
+  ].join('\n');
+}
+
+const args = process.argv.slice(2);
+let outPath = path.join('network-ui', 'src', 'api.ts');
+let check = false;
+
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--out') {
+    outPath = args[++i];
+  } else if (args[i] === '--check') {
+    check = true;
+  } else if (args[i] === '--help' || args[i] === '-h') {
+    console.log(HELP);
+    process.exit(0);
+  } else {
+    console.error(`❌ Unknown option: ${args[i]}`);
+    process.exit(1);
+  }
+}
+
+const source = generateApiClient(API_ROUTES);
+
+if (check) {
+  const current = fs.existsSync(outPath) ? fs.readFileSync(outPath, 'utf-8') : '';
+  if (current !== source) {
+    console.error(`❌ ${outPath} is out of date. Run: npx tsx generate_api_client.ts`);
+    process.exit(1);
+  }
+  console.log(`✅ ${outPath} is up to date`);
+} else {
+  fs.writeFileSync(outPath, source);
+  console.log(`✅ Wrote ${Object.keys(API_ROUTES).length} API functions to ${outPath}`);
+}
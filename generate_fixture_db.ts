@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { bumpContentVersion } from './db_version';
+import {
+  generateFixtureCorpus,
+  DEFAULT_CORPUS_OPTIONS,
+  CORPUS_SHAPES,
+  CORPUS_THEMES,
+  type CorpusShape,
+  type FixtureCorpusOptions
+} from './fixture_corpus';
+
+const HELP = `
+Synthetic Fixture Generator
+
+Builds a fake document_analysis.db (with entity aliases, canonical entities, tag embeddings
+and cluster assignments) and a matching tag_clusters.json, so the API, UI and pipeline
+scripts can run without the real database. Output is deterministic for a given seed.
+
+Usage:
+  npx tsx generate_fixture_db.ts [options]
+
+Options:
+  --out <dir>              Output directory (default: fixture)
+  --seed <n>               Random seed (default: ${DEFAULT_CORPUS_OPTIONS.seed})
+  --documents <n>          Number of documents (default: ${DEFAULT_CORPUS_OPTIONS.documents})
+  --entities <n>           Number of named people (default: ${DEFAULT_CORPUS_OPTIONS.entities})
+  --triples-per-doc <n>    Average relationships per document (default: ${DEFAULT_CORPUS_OPTIONS.triplesPerDocument})
+  --clusters <n>           Tag clusters, 1-${CORPUS_THEMES.length} (default: ${DEFAULT_CORPUS_OPTIONS.clusters})
+  --shape <shape>          Graph shape: ${CORPUS_SHAPES.join(', ')} (default: ${DEFAULT_CORPUS_OPTIONS.shape})
+  --communities <n>        Groups for --shape communities (default: ${DEFAULT_CORPUS_OPTIONS.communities})
+  --alias-rate <0-1>       Share of people also named by a variant (default: ${DEFAULT_CORPUS_OPTIONS.aliasRate})
+  --disconnected <0-1>     Share of people unreachable from the principal (default: ${DEFAULT_CORPUS_OPTIONS.disconnectedRate})
+  --undated <0-1>          Share of undated documents (default: ${DEFAULT_CORPUS_OPTIONS.undatedRate})
+  --unknown <0-1>          Share of relationships with an unnamed actor (default: ${DEFAULT_CORPUS_OPTIONS.unknownRate})
+  --principal <name>       Center for hop distances (default: first of PRINCIPAL_NAMES, or ${DEFAULT_CORPUS_OPTIONS.principal})
+  --force                  Replace an existing database in the output directory
+  --help, -h               Show this help message
+`;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function positiveInteger(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed < 1) fail(`${flag} needs a positive integer`);
+  return parsed;
+}
+
+function fraction(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || isNaN(parsed) || parsed < 0 || parsed > 1) fail(`${flag} needs a number between 0 and 1`);
+  return parsed;
+}
+
+const options: Partial<FixtureCorpusOptions> = {
+  principal: (process.env.PRINCIPAL_NAMES || '').split(',')[0].trim() || DEFAULT_CORPUS_OPTIONS.principal
+};
+let outDir = 'fixture';
+let force = false;
+
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--out') {
+    outDir = args[++i] || fail('--out needs a directory');
+  } else if (args[i] === '--seed') {
+    options.seed = positiveInteger('--seed', args[++i]);
+  } else if (args[i] === '--documents') {
+    options.documents = positiveInteger('--documents', args[++i]);
+  } else if (args[i] === '--entities') {
+    options.entities = positiveInteger('--entities', args[++i]);
+  } else if (args[i] === '--triples-per-doc') {
+    options.triplesPerDocument = positiveInteger('--triples-per-doc', args[++i]);
+  } else if (args[i] === '--clusters') {
+    options.clusters = positiveInteger('--clusters', args[++i]);
+    if (options.clusters > CORPUS_THEMES.length) fail(`--clusters can be at most ${CORPUS_THEMES.length}`);
+  } else if (args[i] === '--shape') {
+    const shape = args[++i] as CorpusShape;
+    if (!CORPUS_SHAPES.includes(shape)) fail(`--shape must be one of: ${CORPUS_SHAPES.join(', ')}`);
+    options.shape = shape;
+  } else if (args[i] === '--communities') {
+    options.communities = positiveInteger('--communities', args[++i]);
+  } else if (args[i] === '--alias-rate') {
+    options.aliasRate = fraction('--alias-rate', args[++i]);
+  } else if (args[i] === '--disconnected') {
+    options.disconnectedRate = fraction('--disconnected', args[++i]);
+  } else if (args[i] === '--undated') {
+    options.undatedRate = fraction('--undated', args[++i]);
+  } else if (args[i] === '--unknown') {
+    options.unknownRate = fraction('--unknown', args[++i]);
+  } else if (args[i] === '--principal') {
+    options.principal = args[++i]?.trim() || fail('--principal needs a name');
+  } else if (args[i] === '--force') {
+    force = true;
+  } else if (args[i] === '--help' || args[i] === '-h') {
+    console.log(HELP);
+    process.exit(0);
+  } else {
+    fail(`Unknown option: ${args[i]} (see --help)`);
+  }
+}
+if (options.entities !== undefined && options.entities < 2) fail('--entities must be at least 2');
+
+const dbPath = path.join(outDir, 'document_analysis.db');
+const clustersPath = path.join(outDir, 'tag_clusters.json');
+
+if (fs.existsSync(dbPath)) {
+  if (!force) fail(`${dbPath} already exists (use --force to replace it)`);
+  [dbPath, `${dbPath}-wal`, `${dbPath}-shm`].forEach(file => fs.rmSync(file, { force: true }));
+}
+fs.mkdirSync(outDir, { recursive: true });
+
+console.log(`🧪 Generating synthetic corpus in ${outDir}/ (seed ${options.seed ?? DEFAULT_CORPUS_OPTIONS.seed})...\n`);
+
+const db = new Database(dbPath);
+const corpus = generateFixtureCorpus(db, options);
+bumpContentVersion(db, 'generate_fixture_db');
+db.close();
+
+fs.writeFileSync(clustersPath, JSON.stringify(corpus.clusters, null, 2) + '\n');
+
+const { stats } = corpus;
+console.log(`✓ ${stats.documents} documents, ${stats.triples} triples`);
+console.log(`✓ ${stats.entities} canonical entities (${stats.disconnected} disconnected), ${stats.aliases} aliases`);
+console.log(`✓ ${corpus.clusters.length} tag clusters, ${stats.tags} tag embeddings`);
+console.log(`✓ Wrote ${dbPath} and ${clustersPath}\n`);
+
+console.log('Next steps:');
+console.log(`  npx tsx compute_entity_analytics.ts ${dbPath}`);
+console.log(`  DB_PATH=${dbPath} TAG_CLUSTERS_PATH=${clustersPath} npx tsx api_server.ts`);
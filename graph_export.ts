@@ -0,0 +1,181 @@
+// Serializers for exporting the relationship graph to Gephi / Cytoscape friendly formats
+
+export interface ExportNode {
+  id: string;
+  degree: number;
+  hopDistance: number | null; // null = not reachable from the principal(s)
+}
+
+export interface ExportEdge {
+  id: number;
+  source: string;
+  target: string;
+  action: string;
+  timestamp: string | null;
+  location: string | null;
+  tags: string[];
+  topClusterIds: number[];
+  docId: string;
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+  principals: string[];
+}
+
+export type GraphExportFormat = 'gexf' | 'graphml' | 'cyjs' | 'csv';
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { contentType: string; extension: string }> = {
+  gexf: { contentType: 'application/gexf+xml', extension: 'gexf' },
+  graphml: { contentType: 'application/graphml+xml', extension: 'graphml' },
+  cyjs: { contentType: 'application/json', extension: 'cyjs' },
+  csv: { contentType: 'text/csv', extension: 'csv' }
+};
+
+function escapeXml(value: string): string {
+  return value
+    // Strip control characters that are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// GEXF 1.3 (Gephi). Multiple relationships between the same pair become parallel edges.
+export function toGexf(graph: ExportGraph): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    `  <meta><creator>Epstein Document Network Explorer</creator><description>Principals: ${escapeXml(graph.principals.join(', '))}</description></meta>`,
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    '      <attribute id="degree" title="degree" type="integer"/>',
+    '      <attribute id="hop_distance" title="hop_distance" type="integer"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="action" title="action" type="string"/>',
+    '      <attribute id="timestamp" title="timestamp" type="string"/>',
+    '      <attribute id="location" title="location" type="string"/>',
+    '      <attribute id="tags" title="tags" type="string"/>',
+    '      <attribute id="top_cluster_ids" title="top_cluster_ids" type="string"/>',
+    '      <attribute id="doc_id" title="doc_id" type="string"/>',
+    '    </attributes>',
+    '    <nodes>'
+  ];
+
+  graph.nodes.forEach(node => {
+    const hop = node.hopDistance === null ? '' : `<attvalue for="hop_distance" value="${node.hopDistance}"/>`;
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.id)}"><attvalues><attvalue for="degree" value="${node.degree}"/>${hop}</attvalues></node>`);
+  });
+
+  lines.push('    </nodes>', '    <edges>');
+
+  graph.edges.forEach(edge => {
+    const values = [
+      `<attvalue for="action" value="${escapeXml(edge.action)}"/>`,
+      edge.timestamp ? `<attvalue for="timestamp" value="${escapeXml(edge.timestamp)}"/>` : '',
+      edge.location ? `<attvalue for="location" value="${escapeXml(edge.location)}"/>` : '',
+      `<attvalue for="tags" value="${escapeXml(edge.tags.join(';'))}"/>`,
+      `<attvalue for="top_cluster_ids" value="${edge.topClusterIds.join(';')}"/>`,
+      `<attvalue for="doc_id" value="${escapeXml(edge.docId)}"/>`
+    ].join('');
+    lines.push(`      <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.action)}"><attvalues>${values}</attvalues></edge>`);
+  });
+
+  lines.push('    </edges>', '  </graph>', '</gexf>', '');
+  return lines.join('\n');
+}
+
+// GraphML (Cytoscape, Gephi, yEd, networkx)
+export function toGraphml(graph: ExportGraph): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="degree" for="node" attr.name="degree" attr.type="int"/>',
+    '  <key id="hop_distance" for="node" attr.name="hop_distance" attr.type="int"/>',
+    '  <key id="action" for="edge" attr.name="action" attr.type="string"/>',
+    '  <key id="timestamp" for="edge" attr.name="timestamp" attr.type="string"/>',
+    '  <key id="location" for="edge" attr.name="location" attr.type="string"/>',
+    '  <key id="tags" for="edge" attr.name="tags" attr.type="string"/>',
+    '  <key id="top_cluster_ids" for="edge" attr.name="top_cluster_ids" attr.type="string"/>',
+    '  <key id="doc_id" for="edge" attr.name="doc_id" attr.type="string"/>',
+    '  <graph id="G" edgedefault="directed">'
+  ];
+
+  graph.nodes.forEach(node => {
+    const hop = node.hopDistance === null ? '' : `<data key="hop_distance">${node.hopDistance}</data>`;
+    lines.push(`    <node id="${escapeXml(node.id)}"><data key="degree">${node.degree}</data>${hop}</node>`);
+  });
+
+  graph.edges.forEach(edge => {
+    const values = [
+      `<data key="action">${escapeXml(edge.action)}</data>`,
+      edge.timestamp ? `<data key="timestamp">${escapeXml(edge.timestamp)}</data>` : '',
+      edge.location ? `<data key="location">${escapeXml(edge.location)}</data>` : '',
+      `<data key="tags">${escapeXml(edge.tags.join(';'))}</data>`,
+      `<data key="top_cluster_ids">${edge.topClusterIds.join(';')}</data>`,
+      `<data key="doc_id">${escapeXml(edge.docId)}</data>`
+    ].join('');
+    lines.push(`    <edge id="e${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">${values}</edge>`);
+  });
+
+  lines.push('  </graph>', '</graphml>', '');
+  return lines.join('\n');
+}
+
+// Cytoscape.js / Cytoscape desktop JSON (elements format)
+export function toCytoscapeJson(graph: ExportGraph): string {
+  return JSON.stringify({
+    data: { principals: graph.principals },
+    elements: {
+      nodes: graph.nodes.map(node => ({
+        data: { id: node.id, name: node.id, degree: node.degree, hop_distance: node.hopDistance }
+      })),
+      edges: graph.edges.map(edge => ({
+        data: {
+          id: `e${edge.id}`,
+          source: edge.source,
+          target: edge.target,
+          action: edge.action,
+          timestamp: edge.timestamp,
+          location: edge.location,
+          tags: edge.tags,
+          top_cluster_ids: edge.topClusterIds,
+          doc_id: edge.docId
+        }
+      }))
+    }
+  });
+}
+
+// CSV edge list (Gephi "Source,Target" convention) or node table
+export function toCsv(graph: ExportGraph, table: 'edges' | 'nodes' = 'edges'): string {
+  if (table === 'nodes') {
+    const rows = graph.nodes.map(node =>
+      [node.id, node.id, node.degree, node.hopDistance].map(escapeCsv).join(',')
+    );
+    return ['Id,Label,degree,hop_distance', ...rows, ''].join('\r\n');
+  }
+
+  const rows = graph.edges.map(edge => [
+    edge.source,
+    edge.target,
+    edge.id,
+    edge.action,
+    edge.timestamp,
+    edge.location,
+    edge.tags.join(';'),
+    edge.topClusterIds.join(';'),
+    edge.docId
+  ].map(escapeCsv).join(','));
+  return ['Source,Target,Id,action,timestamp,location,tags,top_cluster_ids,doc_id', ...rows, ''].join('\r\n');
+}
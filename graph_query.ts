@@ -0,0 +1,677 @@
+// A small Cypher-like pattern language over alias-resolved triples, compiled to SQL.
+//
+//   MATCH (p)-[:met]->("Jeffrey Epstein"), (p)-[r:paid]->(y)
+//   WHERE r.year BETWEEN 2002 AND 2005 AND r.tag = "financial"
+//   RETURN p, y, r
+//   LIMIT 50
+//
+// Nodes are (var), ("Entity Name") or () and match canonical entity names. Edges are
+// -[var:action|action]-> (actor to target), <-[...]- (reversed) or -[...]- (either direction);
+// actions match as case-insensitive substrings. WHERE takes AND-ed predicates on edge fields
+// (action, tag, year, location, category, doc) and node variables (p = "Name", p != q).
+// Every edge becomes a materialized CTE over rdf_triples + entity_aliases; shared variables become joins.
+// To keep multi-hop joins cheap, every node variable shared between edges must be named itself or sit next
+// to a named node; edges are then built outward from the named ones, each restricted to the bindings of
+// the edges before it, and capped at maxEdgeRows triples (reported as truncated).
+
+import type Database from 'better-sqlite3';
+
+export const GRAPH_QUERY_LIMITS = {
+  maxQueryLength: 2000,
+  maxEdges: 4,
+  maxConditions: 20,
+  maxEdgeRows: 10000,
+  defaultRows: 100,
+  maxRows: 1000
+};
+
+export class GraphQueryError extends Error {
+  position: number | null;
+
+  constructor(message: string, position: number | null = null) {
+    super(message);
+    this.name = 'GraphQueryError';
+    this.position = position;
+  }
+}
+
+// ---- Lexer ----
+
+type TokenType = 'ident' | 'string' | 'number' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const TWO_CHAR_PUNCT = new Set(['!=', '>=', '<=']);
+const ONE_CHAR_PUNCT = new Set(['(', ')', '[', ']', ',', ':', '|', '.', '-', '>', '<', '=']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) throw new GraphQueryError('Unterminated string', start);
+      i++; // Closing quote
+      tokens.push({ type: 'string', value, position: start });
+    } else if (/[0-9]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[0-9]/.test(source[i])) i++;
+      tokens.push({ type: 'number', value: source.slice(start, i), position: start });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: 'ident', value: source.slice(start, i), position: start });
+    } else if (TWO_CHAR_PUNCT.has(source.slice(i, i + 2))) {
+      tokens.push({ type: 'punct', value: source.slice(i, i + 2), position: i });
+      i += 2;
+    } else if (ONE_CHAR_PUNCT.has(ch)) {
+      tokens.push({ type: 'punct', value: ch, position: i });
+      i++;
+    } else {
+      throw new GraphQueryError(`Unexpected character '${ch}'`, i);
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ---- Parser ----
+
+interface NodeRef {
+  variable: string | null;
+  name: string | null; // Constant entity name
+}
+
+interface EdgePattern {
+  variable: string | null;
+  actions: string[];
+  direction: 'out' | 'in' | 'any';
+  left: NodeRef;
+  right: NodeRef;
+}
+
+type EdgeField = 'action' | 'tag' | 'year' | 'location' | 'category' | 'doc';
+type Operator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'contains' | 'between';
+
+type Condition =
+  | { kind: 'edge'; variable: string; field: EdgeField; op: Operator; value: string | number; value2?: number; position: number }
+  | { kind: 'node'; variable: string; op: '=' | '!='; value: string; isVariable: boolean; position: number };
+
+export interface GraphQuery {
+  edges: EdgePattern[];
+  conditions: Condition[];
+  returns: string[];
+  limit: number | null;
+}
+
+const EDGE_FIELDS = new Set<EdgeField>(['action', 'tag', 'year', 'location', 'category', 'doc']);
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private isKeyword(word: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'ident' && token.value.toUpperCase() === word;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private expectKeyword(word: string): Token {
+    if (!this.isKeyword(word)) this.fail(`Expected ${word}`);
+    return this.next();
+  }
+
+  private expectPunct(value: string): Token {
+    if (!this.isPunct(value)) this.fail(`Expected '${value}'`);
+    return this.next();
+  }
+
+  private expectIdent(what: string): Token {
+    const token = this.peek();
+    if (token.type !== 'ident') this.fail(`Expected ${what}`);
+    return this.next();
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const found = token.type === 'eof' ? 'end of query' : `'${token.value}'`;
+    throw new GraphQueryError(`${message} but found ${found}`, token.position);
+  }
+
+  parse(): GraphQuery {
+    this.expectKeyword('MATCH');
+    const edges: EdgePattern[] = [];
+    do {
+      edges.push(...this.parsePath());
+    } while (this.isPunct(',') && this.next());
+
+    const conditions: Condition[] = [];
+    if (this.isKeyword('WHERE')) {
+      this.next();
+      do {
+        conditions.push(this.parseCondition());
+      } while (this.isKeyword('AND') && this.next());
+    }
+
+    const returns: string[] = [];
+    if (this.isKeyword('RETURN')) {
+      this.next();
+      do {
+        returns.push(this.expectIdent('a variable to return').value);
+      } while (this.isPunct(',') && this.next());
+    }
+
+    let limit: number | null = null;
+    if (this.isKeyword('LIMIT')) {
+      this.next();
+      const token = this.peek();
+      if (token.type !== 'number') this.fail('Expected a number after LIMIT');
+      limit = parseInt(this.next().value);
+    }
+
+    if (this.peek().type !== 'eof') this.fail('Expected end of query');
+    return { edges, conditions, returns, limit };
+  }
+
+  // (a)-[..]->(b)<-[..]-(c) ...
+  private parsePath(): EdgePattern[] {
+    const edges: EdgePattern[] = [];
+    let left = this.parseNode();
+
+    while (this.isPunct('-') || this.isPunct('<')) {
+      let direction: EdgePattern['direction'] = 'any';
+      if (this.isPunct('<')) {
+        this.next();
+        direction = 'in';
+      }
+      this.expectPunct('-');
+      this.expectPunct('[');
+
+      let variable: string | null = null;
+      if (this.peek().type === 'ident') variable = this.next().value;
+
+      const actions: string[] = [];
+      if (this.isPunct(':')) {
+        this.next();
+        do {
+          const token = this.peek();
+          if (token.type !== 'ident' && token.type !== 'string') this.fail('Expected an action');
+          actions.push(this.next().value);
+        } while (this.isPunct('|') && this.next());
+      }
+
+      this.expectPunct(']');
+      this.expectPunct('-');
+      if (this.isPunct('>')) {
+        if (direction === 'in') this.fail("Edge can't point both ways");
+        this.next();
+        direction = 'out';
+      }
+
+      const right = this.parseNode();
+      edges.push({ variable, actions, direction, left, right });
+      left = right;
+    }
+
+    if (edges.length === 0) this.fail('Expected an edge pattern like -[:action]->');
+    return edges;
+  }
+
+  private parseNode(): NodeRef {
+    this.expectPunct('(');
+    const node: NodeRef = { variable: null, name: null };
+    const token = this.peek();
+    if (token.type === 'ident') {
+      node.variable = this.next().value;
+    } else if (token.type === 'string') {
+      node.name = this.next().value.trim();
+      if (!node.name) this.fail('Entity name must not be empty');
+    }
+    this.expectPunct(')');
+    return node;
+  }
+
+  private parseCondition(): Condition {
+    const variableToken = this.expectIdent('a variable');
+    const variable = variableToken.value;
+
+    // Edge field predicate: r.year >= 2002
+    if (this.isPunct('.')) {
+      this.next();
+      const fieldToken = this.expectIdent('a field name');
+      const field = fieldToken.value.toLowerCase() as EdgeField;
+      if (!EDGE_FIELDS.has(field)) {
+        throw new GraphQueryError(`Unknown field '${fieldToken.value}' (use ${Array.from(EDGE_FIELDS).join(', ')})`, fieldToken.position);
+      }
+
+      if (this.isKeyword('BETWEEN')) {
+        this.next();
+        const low = this.parseValue(field);
+        this.expectKeyword('AND');
+        const high = this.parseValue(field);
+        if (typeof low !== 'number' || typeof high !== 'number') {
+          throw new GraphQueryError('BETWEEN is only supported for year', variableToken.position);
+        }
+        return { kind: 'edge', variable, field, op: 'between', value: low, value2: high, position: variableToken.position };
+      }
+
+      const op = this.parseOperator(true);
+      if (op === 'contains' && field === 'year') {
+        throw new GraphQueryError('CONTAINS is not supported for year', variableToken.position);
+      }
+      if (field !== 'year' && !['=', '!=', 'contains'].includes(op)) {
+        throw new GraphQueryError(`Operator ${op} is only supported for year`, variableToken.position);
+      }
+      return { kind: 'edge', variable, field, op, value: this.parseValue(field), position: variableToken.position };
+    }
+
+    // Node predicate: p = "Name", p != q
+    const op = this.parseOperator(false);
+    if (op !== '=' && op !== '!=') {
+      throw new GraphQueryError('Node variables only support = and !=', variableToken.position);
+    }
+    const token = this.peek();
+    if (token.type === 'string') {
+      return { kind: 'node', variable, op, value: this.next().value.trim(), isVariable: false, position: variableToken.position };
+    }
+    if (token.type === 'ident') {
+      return { kind: 'node', variable, op, value: this.next().value, isVariable: true, position: variableToken.position };
+    }
+    this.fail('Expected an entity name or variable');
+  }
+
+  private parseOperator(allowContains: boolean): Operator {
+    if (allowContains && this.isKeyword('CONTAINS')) {
+      this.next();
+      return 'contains';
+    }
+    const token = this.peek();
+    if (token.type === 'punct' && ['=', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.next();
+      return token.value as Operator;
+    }
+    this.fail('Expected an operator');
+  }
+
+  private parseValue(field: EdgeField): string | number {
+    const token = this.peek();
+    if (field === 'year') {
+      if (token.type !== 'number') this.fail('Expected a year');
+      return parseInt(this.next().value);
+    }
+    if (token.type !== 'string' && token.type !== 'ident' && token.type !== 'number') this.fail('Expected a value');
+    return this.next().value;
+  }
+}
+
+export function parseGraphQuery(source: string): GraphQuery {
+  if (source.length > GRAPH_QUERY_LIMITS.maxQueryLength) {
+    throw new GraphQueryError(`Query is too long (max ${GRAPH_QUERY_LIMITS.maxQueryLength} characters)`);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+// ---- Compiler ----
+
+interface Occurrence {
+  edge: number;
+  side: 'left' | 'right';
+}
+
+export interface CompiledGraphQuery {
+  sql: string;
+  params: (string | number)[];
+  columns: Array<{ name: string; kind: 'node' | 'edge' }>;
+  rowLimit: number;
+}
+
+function sharesVariable(a: EdgePattern, b: EdgePattern): boolean {
+  const variables = [a.left.variable, a.right.variable].filter(Boolean);
+  return [b.left.variable, b.right.variable].some(variable => variable !== null && variables.includes(variable));
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, ch => `\\${ch}`);
+}
+
+export function compileGraphQuery(
+  query: GraphQuery,
+  resolveName: (name: string) => string,
+  requestedLimit?: number
+): CompiledGraphQuery {
+  const { edges, conditions } = query;
+
+  if (edges.length > GRAPH_QUERY_LIMITS.maxEdges) {
+    throw new GraphQueryError(`Too many edges in pattern (max ${GRAPH_QUERY_LIMITS.maxEdges})`);
+  }
+  if (conditions.length > GRAPH_QUERY_LIMITS.maxConditions) {
+    throw new GraphQueryError(`Too many WHERE conditions (max ${GRAPH_QUERY_LIMITS.maxConditions})`);
+  }
+
+  // Collect variables
+  const nodeOccurrences = new Map<string, Occurrence[]>();
+  const edgeVariables = new Map<string, number>();
+  edges.forEach((edge, i) => {
+    ([['left', edge.left], ['right', edge.right]] as const).forEach(([side, node]) => {
+      if (!node.variable) return;
+      if (!nodeOccurrences.has(node.variable)) nodeOccurrences.set(node.variable, []);
+      nodeOccurrences.get(node.variable)!.push({ edge: i, side });
+    });
+    if (edge.variable) {
+      if (edgeVariables.has(edge.variable)) throw new GraphQueryError(`Edge variable '${edge.variable}' is used twice`);
+      edgeVariables.set(edge.variable, i);
+    }
+  });
+
+  edgeVariables.forEach((_, name) => {
+    if (nodeOccurrences.has(name)) throw new GraphQueryError(`'${name}' is used as both a node and an edge variable`);
+  });
+
+  // All edges must be connected through shared node variables, otherwise the join is a cross product
+  const component = edges.map((_, i) => i);
+  const find = (i: number): number => (component[i] === i ? i : (component[i] = find(component[i])));
+  nodeOccurrences.forEach(occurrences => {
+    occurrences.slice(1).forEach(o => { component[find(o.edge)] = find(occurrences[0].edge); });
+  });
+  if (new Set(edges.map((_, i) => find(i))).size > 1) {
+    throw new GraphQueryError('All patterns must be connected through shared node variables');
+  }
+
+  // Constant names per node variable (from WHERE p = "Name")
+  const constantNames = new Map<string, string>();
+  const nodeConditions: Array<Extract<Condition, { kind: 'node' }>> = [];
+  const edgeConditions = new Map<number, Array<Extract<Condition, { kind: 'edge' }>>>();
+
+  conditions.forEach(condition => {
+    if (condition.kind === 'edge') {
+      const edgeIndex = edgeVariables.get(condition.variable);
+      if (edgeIndex === undefined) {
+        throw new GraphQueryError(`Unknown edge variable '${condition.variable}'`, condition.position);
+      }
+      if (!edgeConditions.has(edgeIndex)) edgeConditions.set(edgeIndex, []);
+      edgeConditions.get(edgeIndex)!.push(condition);
+      return;
+    }
+
+    if (!nodeOccurrences.has(condition.variable)) {
+      throw new GraphQueryError(`Unknown node variable '${condition.variable}'`, condition.position);
+    }
+    if (condition.isVariable && !nodeOccurrences.has(condition.value)) {
+      throw new GraphQueryError(`Unknown node variable '${condition.value}'`, condition.position);
+    }
+    if (condition.op === '=' && !condition.isVariable) {
+      const name = resolveName(condition.value);
+      const existing = constantNames.get(condition.variable);
+      if (existing !== undefined && existing !== name) {
+        throw new GraphQueryError(`'${condition.variable}' can't equal two different entities`, condition.position);
+      }
+      constantNames.set(condition.variable, name);
+    } else {
+      nodeConditions.push(condition);
+    }
+  });
+
+  // A shared variable with no named node on either side joins two unbounded edges (e.g. the middle of
+  // (a)-[]-(b)-[]-(c)-[]-(d)-[]-(e) with only a and e named), which blows up combinatorially
+  const isNamed = (node: NodeRef) => node.name !== null || (node.variable !== null && constantNames.has(node.variable));
+  if (edges.length > 1) {
+    nodeOccurrences.forEach((occurrences, name) => {
+      if (occurrences.length < 2 || constantNames.has(name)) return;
+      const nextToNamed = occurrences.some(o => isNamed(o.side === 'left' ? edges[o.edge].right : edges[o.edge].left));
+      if (!nextToNamed) {
+        throw new GraphQueryError(
+          `'${name}' links edges but neither it nor a node next to it is named; add WHERE ${name} = "Name" or name a neighboring node`
+        );
+      }
+    });
+  }
+
+  const column = (o: Occurrence) => `e${o.edge}.${o.side}_name`;
+  const params: (string | number)[] = [];
+  const actorExpr = 'COALESCE(ea_actor.canonical_name, rt.actor)';
+  const targetExpr = 'COALESCE(ea_target.canonical_name, rt.target)';
+
+  // Edges with a named node come first; every later edge is reached through a variable it shares with
+  // an earlier one, whose bindings restrict it (so the per-edge cap only bites on genuinely huge edges)
+  const order: number[] = [];
+  const pending = edges.map((_, i) => i);
+  const take = (i: number) => { order.push(i); pending.splice(pending.indexOf(i), 1); };
+  edges.forEach((edge, i) => { if (isNamed(edge.left) || isNamed(edge.right)) take(i); });
+  while (pending.length > 0) {
+    const next = pending.find(i => order.some(j => sharesVariable(edges[i], edges[j])));
+    take(next ?? pending[0]);
+  }
+
+  // One materialized CTE per edge, with every edge-local predicate pushed down
+  const ctes = order.map((i, position) => {
+    const edge = edges[i];
+    const where: string[] = ["(rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')"];
+    const whereParams: (string | number)[] = [];
+
+    if (edge.actions.length > 0) {
+      where.push(`(${edge.actions.map(() => "rt.action LIKE ? ESCAPE '\\'").join(' OR ')})`);
+      whereParams.push(...edge.actions.map(action => `%${escapeLike(action)}%`));
+    }
+
+    (edgeConditions.get(i) || []).forEach(condition => {
+      const { field, op, value } = condition;
+      if (field === 'year') {
+        const year = 'CAST(substr(rt.timestamp, 1, 4) AS INTEGER)';
+        if (op === 'between') {
+          where.push(`(rt.timestamp IS NOT NULL AND ${year} BETWEEN ? AND ?)`);
+          whereParams.push(value, condition.value2!);
+        } else {
+          where.push(`(rt.timestamp IS NOT NULL AND ${year} ${op} ?)`);
+          whereParams.push(value);
+        }
+        return;
+      }
+
+      if (field === 'tag') {
+        const match = op === 'contains' ? "json_each.value LIKE ? ESCAPE '\\'" : 'json_each.value = ?';
+        const exists = `(CASE WHEN json_valid(rt.triple_tags) THEN EXISTS (SELECT 1 FROM json_each(rt.triple_tags) WHERE ${match}) ELSE 0 END)`;
+        where.push(op === '!=' ? `NOT ${exists}` : exists);
+        whereParams.push(op === 'contains' ? `%${escapeLike(String(value))}%` : String(value));
+        return;
+      }
+
+      const column = { action: 'rt.action', location: 'rt.location', category: 'd.category', doc: 'rt.doc_id' }[field];
+      if (op === 'contains') {
+        where.push(`${column} LIKE ? ESCAPE '\\'`);
+        whereParams.push(`%${escapeLike(String(value))}%`);
+      } else {
+        where.push(`${column} ${op === '!=' ? 'IS NOT' : '='} ? COLLATE NOCASE`);
+        whereParams.push(String(value));
+      }
+    });
+
+    // Orientation-specific constraints on constant nodes
+    const oriented = (leftExpr: string, rightExpr: string) => {
+      const sideWhere: string[] = [];
+      const sideParams: string[] = [];
+      ([[edge.left, leftExpr], [edge.right, rightExpr]] as const).forEach(([node, expr]) => {
+        const name = node.name !== null ? resolveName(node.name) : node.variable ? constantNames.get(node.variable) : undefined;
+        if (name !== undefined) {
+          sideWhere.push(`${expr} = ?`);
+          sideParams.push(name);
+          return;
+        }
+        const earlier = node.variable && (nodeOccurrences.get(node.variable) || [])
+          .find(o => order.indexOf(o.edge) < position);
+        if (earlier) sideWhere.push(`${expr} IN (SELECT ${column(earlier)} FROM e${earlier.edge})`);
+      });
+
+      const select = `
+        SELECT rt.id, rt.doc_id, rt.timestamp, ${actorExpr} AS actor, rt.action, ${targetExpr} AS target,
+               rt.location, rt.triple_tags, ${leftExpr} AS left_name, ${rightExpr} AS right_name
+        FROM rdf_triples rt
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        LEFT JOIN documents d ON rt.doc_id = d.doc_id
+        WHERE ${[...where, ...sideWhere].join(' AND ')}`;
+      params.push(...whereParams, ...sideParams);
+      return select;
+    };
+
+    const body = edge.direction === 'out' ? oriented(actorExpr, targetExpr)
+      : edge.direction === 'in' ? oriented(targetExpr, actorExpr)
+      : `${oriented(actorExpr, targetExpr)}\n        UNION ALL${oriented(targetExpr, actorExpr)}`;
+
+    // One row past the cap tells us the edge was cut short
+    params.push(GRAPH_QUERY_LIMITS.maxEdgeRows + 1);
+    return `e${i} AS MATERIALIZED (${body}\n        LIMIT ?\n    )`;
+  });
+
+  // Joins: every occurrence of a node variable must equal its first occurrence
+  const joins: string[] = [];
+  nodeOccurrences.forEach(occurrences => {
+    occurrences.slice(1).forEach(o => joins.push(`${column(o)} = ${column(occurrences[0])}`));
+  });
+
+  // Distinct edges must bind distinct triples
+  for (let a = 0; a < edges.length; a++) {
+    for (let b = a + 1; b < edges.length; b++) joins.push(`e${a}.id != e${b}.id`);
+  }
+
+  nodeConditions.forEach(condition => {
+    const left = column(nodeOccurrences.get(condition.variable)![0]);
+    if (condition.isVariable) {
+      joins.push(`${left} ${condition.op} ${column(nodeOccurrences.get(condition.value)![0])}`);
+    } else {
+      joins.push(`${left} != ?`);
+      params.push(resolveName(condition.value));
+    }
+  });
+
+  // Returned columns (default: every named variable, nodes first)
+  const returns = query.returns.length > 0
+    ? query.returns
+    : [...nodeOccurrences.keys(), ...edgeVariables.keys()];
+
+  const columns: CompiledGraphQuery['columns'] = [];
+  const selects: string[] = [];
+  returns.forEach((name, i) => {
+    if (nodeOccurrences.has(name)) {
+      selects.push(`${column(nodeOccurrences.get(name)![0])} AS c${i}`);
+      columns.push({ name, kind: 'node' });
+    } else if (edgeVariables.has(name)) {
+      const e = `e${edgeVariables.get(name)}`;
+      selects.push(['id', 'doc_id', 'timestamp', 'actor', 'action', 'target', 'location', 'triple_tags']
+        .map(field => `${e}.${field} AS c${i}_${field}`).join(', '));
+      columns.push({ name, kind: 'edge' });
+    } else {
+      throw new GraphQueryError(`Unknown variable '${name}' in RETURN`);
+    }
+  });
+  if (columns.length === 0) {
+    throw new GraphQueryError('Nothing to return; name at least one node or edge variable');
+  }
+
+  const rowLimit = Math.max(1, Math.min(
+    query.limit ?? requestedLimit ?? GRAPH_QUERY_LIMITS.defaultRows,
+    requestedLimit ?? GRAPH_QUERY_LIMITS.maxRows,
+    GRAPH_QUERY_LIMITS.maxRows
+  ));
+
+  // The capped check rides along as a single row, so it is reported even when nothing matches
+  const sql = `
+    WITH ${ctes.join(',\n    ')},
+    matches AS (
+      SELECT DISTINCT 1 AS matched, ${selects.join(', ')}
+      FROM ${edges.map((_, i) => `e${i}`).join(', ')}
+      ${joins.length > 0 ? `WHERE ${joins.join('\n        AND ')}` : ''}
+      LIMIT ?
+    )
+    SELECT matches.*, capped.edge_capped
+    FROM (SELECT ${edges.map((_, i) => `(SELECT COUNT(*) FROM e${i}) > ?`).join(' OR ')} AS edge_capped) capped
+    LEFT JOIN matches ON 1
+  `;
+  params.push(rowLimit + 1); // One extra row tells us whether results were truncated
+  params.push(...edges.map(() => GRAPH_QUERY_LIMITS.maxEdgeRows));
+
+  return { sql, params, columns, rowLimit };
+}
+
+export interface GraphQueryResult {
+  columns: Array<{ name: string; kind: 'node' | 'edge' }>;
+  rows: Array<Record<string, any>>;
+  truncated: boolean;
+  elapsedMs: number;
+}
+
+export function runGraphQuery(
+  db: Database.Database,
+  source: string,
+  resolveName: (name: string) => string,
+  requestedLimit?: number
+): GraphQueryResult {
+  const started = Date.now();
+  const compiled = compileGraphQuery(parseGraphQuery(source), resolveName, requestedLimit);
+  const results = db.prepare(compiled.sql).all(...compiled.params) as Array<Record<string, any>>;
+  const rawRows = results.filter(raw => raw.matched !== null);
+  const edgeCapped = results.some(raw => raw.edge_capped === 1);
+
+  const rows = rawRows.slice(0, compiled.rowLimit).map(raw => {
+    const row: Record<string, any> = {};
+    compiled.columns.forEach((col, i) => {
+      if (col.kind === 'node') {
+        row[col.name] = raw[`c${i}`];
+      } else {
+        const tags = raw[`c${i}_triple_tags`];
+        row[col.name] = {
+          id: raw[`c${i}_id`],
+          doc_id: raw[`c${i}_doc_id`],
+          timestamp: raw[`c${i}_timestamp`],
+          actor: raw[`c${i}_actor`],
+          action: raw[`c${i}_action`],
+          target: raw[`c${i}_target`],
+          location: raw[`c${i}_location`],
+          tags: tags ? JSON.parse(tags) : []
+        };
+      }
+    });
+    return row;
+  });
+
+  return {
+    columns: compiled.columns,
+    rows,
+    truncated: rawRows.length > compiled.rowLimit || edgeCapped,
+    elapsedMs: Date.now() - started
+  };
+}
@@ -0,0 +1,381 @@
+import type Database from 'better-sqlite3';
+import { getContentVersion } from './db_version';
+
+// Alias-resolved graph access shared by the API routers: the cluster/category/year filters,
+// keyword matching against triples_fts and entity names, hop distances from the principal entities and path search.
+
+export interface TripleFilters {
+  clusterIds: number[];
+  categories: string[];
+  yearRange: [number, number] | null;
+  includeUndated: boolean;
+}
+
+export interface GraphTriple {
+  id: number;
+  doc_id: string;
+  timestamp: string | null;
+  actor: string;
+  action: string;
+  target: string;
+  location: string | null;
+  triple_tags: string | null;
+}
+
+export interface GraphStore {
+  // Whether the triple_clusters join table exists (otherwise cluster filters parse top_cluster_ids)
+  hasTripleClusters: boolean;
+  // Whether the entity_names index exists (otherwise keywords only match triples_fts)
+  hasEntityNames: boolean;
+  // Entities that hop distances are measured from when a request names none
+  defaultPrincipals: string[];
+  buildTripleFilterSql: (filters: TripleFilters) => { where: string; params: (string | number)[] };
+  buildKeywordJoin: (keywords: string[]) => { join: string; select: string; params: string[] };
+  resolveCanonicalName: (name: string) => string;
+  resolvePrincipals: (principal: string[]) => string[];
+  isDefaultPrincipals: (principals: string[]) => boolean;
+  getHopDistances: (principals: string[]) => Map<string, number>;
+  loadFilteredTriples: (filters: TripleFilters) => GraphTriple[];
+}
+
+// A year filter applies only when both bounds are given and in order
+function toYearRange(yearMin: number | undefined, yearMax: number | undefined): [number, number] | null {
+  if (yearMin === undefined || yearMax === undefined || yearMin > yearMax) return null;
+  return [yearMin, yearMax];
+}
+
+// The cluster/category/year filters shared by the graph endpoints, from validated input
+export function toTripleFilters(input: { clusters: number[]; categories: string[]; yearMin?: number; yearMax?: number; includeUndated: boolean }): TripleFilters {
+  return {
+    clusterIds: input.clusters,
+    categories: input.categories,
+    yearRange: toYearRange(input.yearMin, input.yearMax),
+    includeUndated: input.includeUndated
+  };
+}
+
+export function normalizeKeywords(keywords: string[]): string[] {
+  return keywords
+    .map(k => k.replace(/"/g, '').trim().toLowerCase()) // Quotes would break the FTS expression
+    .filter(k => k.length > 0);
+}
+
+// Relevance added for each end (actor, target) of a triple whose name matches a keyword
+const NAME_MATCH_SCORE = 1;
+
+// The trigram tokenizer cannot match anything shorter than three characters
+const MIN_NAME_KEYWORD_LENGTH = 3;
+
+// Multi-source BFS over an adjacency map; unreachable nodes are absent from the result
+function bfsDistances(adjacency: Map<string, Iterable<string>>, sources: string[]): Map<string, number> {
+  const distances = new Map<string, number>();
+  const queue: string[] = [];
+
+  sources.forEach(source => {
+    if (adjacency.has(source) && !distances.has(source)) {
+      distances.set(source, 0);
+      queue.push(source);
+    }
+  });
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    const currentDistance = distances.get(current)!;
+    for (const neighbor of adjacency.get(current) ?? []) {
+      if (!distances.has(neighbor)) {
+        distances.set(neighbor, currentDistance + 1);
+        queue.push(neighbor);
+      }
+    }
+  }
+
+  return distances;
+}
+
+// Undirected adjacency: node -> neighbor -> supporting triples
+export function buildAdjacency(triples: GraphTriple[]): Map<string, Map<string, GraphTriple[]>> {
+  const adjacency = new Map<string, Map<string, GraphTriple[]>>();
+  const link = (from: string, to: string, triple: GraphTriple) => {
+    if (!adjacency.has(from)) adjacency.set(from, new Map());
+    const neighbors = adjacency.get(from)!;
+    if (!neighbors.has(to)) neighbors.set(to, []);
+    neighbors.get(to)!.push(triple);
+  };
+
+  triples.forEach(triple => {
+    if (triple.actor === triple.target) return; // Self-loops never help a path
+    link(triple.actor, triple.target, triple);
+    link(triple.target, triple.actor, triple);
+  });
+
+  return adjacency;
+}
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|||${b}` : `${b}|||${a}`;
+}
+
+// BFS shortest path avoiding the given nodes and edges; null if unreachable
+function shortestPath(
+  adjacency: Map<string, Map<string, GraphTriple[]>>,
+  source: string,
+  target: string,
+  removedNodes: Set<string>,
+  removedEdges: Set<string>
+): string[] | null {
+  const previous = new Map<string, string | null>([[source, null]]);
+  const queue: string[] = [source];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    if (current === target) {
+      const path: string[] = [];
+      for (let node: string | null = target; node !== null; node = previous.get(node)!) {
+        path.unshift(node);
+      }
+      return path;
+    }
+
+    for (const neighbor of adjacency.get(current)?.keys() ?? []) {
+      if (previous.has(neighbor) || removedNodes.has(neighbor)) continue;
+      if (removedEdges.has(edgeKey(current, neighbor))) continue;
+      previous.set(neighbor, current);
+      queue.push(neighbor);
+    }
+  }
+
+  return null;
+}
+
+// Yen's algorithm: up to k loopless shortest paths, shortest first
+export function kShortestPaths(
+  adjacency: Map<string, Map<string, GraphTriple[]>>,
+  source: string,
+  target: string,
+  k: number
+): string[][] {
+  const first = shortestPath(adjacency, source, target, new Set(), new Set());
+  if (!first) return [];
+
+  const found: string[][] = [first];
+  const candidates: string[][] = [];
+  const seen = new Set<string>([first.join('|||')]);
+
+  for (let i = 1; i < k; i++) {
+    const previousPath = found[i - 1];
+
+    for (let j = 0; j < previousPath.length - 1; j++) {
+      const spurNode = previousPath[j];
+      const rootPath = previousPath.slice(0, j + 1);
+
+      // Remove edges already used by found paths that share this root
+      const removedEdges = new Set<string>();
+      for (const path of found) {
+        if (path.length > j + 1 && path.slice(0, j + 1).join('|||') === rootPath.join('|||')) {
+          removedEdges.add(edgeKey(path[j], path[j + 1]));
+        }
+      }
+      // Remove root nodes (except the spur node) so paths stay loopless
+      const removedNodes = new Set(rootPath.slice(0, -1));
+
+      const spurPath = shortestPath(adjacency, spurNode, target, removedNodes, removedEdges);
+      if (!spurPath) continue;
+
+      const candidate = [...rootPath.slice(0, -1), ...spurPath];
+      const key = candidate.join('|||');
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(candidate);
+      }
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.length - b.length);
+    found.push(candidates.shift()!);
+  }
+
+  return found;
+}
+
+// Hop distance maps kept per store, keyed on content version and principal set
+const HOP_CACHE_MAX_ENTRIES = 20;
+
+export function createGraphStore(db: Database.Database, options: { defaultPrincipals: string[] }): GraphStore {
+  const { defaultPrincipals } = options;
+  const hasTripleClusters = !!db.prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'triple_clusters'"
+  ).get();
+  const hasEntityNames = !!db.prepare(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'entity_names_fts'"
+  ).get();
+  const hopDistanceCache = new Map<string, Map<string, number>>();
+
+  // Build a join for keyword filtering. Each keyword is a prefix match against triples_fts and
+  // keywords are ORed; bm25() supplies corpus-level IDF and field-length statistics, negated so
+  // that higher relevance is better. Keywords also match any part of an entity name, so a
+  // triple is found by its canonical name even when it only uses an alias ("jeffrey" finds
+  // actor "JE") and by part of a word ("stein" finds "Epstein").
+  function buildKeywordJoin(keywords: string[]): { join: string; select: string; params: string[] } {
+    if (keywords.length === 0) {
+      return { join: '', select: 'NULL as relevance', params: [] };
+    }
+
+    const textMatch = keywords.map(k => `"${k}"*`).join(' OR ');
+    const nameKeywords = hasEntityNames ? keywords.filter(k => k.length >= MIN_NAME_KEYWORD_LENGTH) : [];
+    if (nameKeywords.length === 0) {
+      return {
+        join: `
+      JOIN (
+        SELECT rowid as triple_id, -bm25(triples_fts) as score
+        FROM triples_fts
+        WHERE triples_fts MATCH ?
+      ) kw ON kw.triple_id = rt.id`,
+        select: 'kw.score as relevance',
+        params: [textMatch]
+      };
+    }
+
+    // Raw names matching a keyword, plus every alias of a matching canonical name
+    return {
+      join: `
+      JOIN (
+        WITH kw_names AS (
+          SELECT en.name FROM entity_names_fts
+          JOIN entity_names en ON en.rowid = entity_names_fts.rowid
+          WHERE entity_names_fts MATCH ?
+        ),
+        kw_raw_names AS (
+          SELECT name FROM kw_names
+          UNION
+          SELECT original_name FROM entity_aliases WHERE canonical_name IN (SELECT name FROM kw_names)
+        )
+        SELECT triple_id, SUM(score) as score FROM (
+          SELECT rowid as triple_id, -bm25(triples_fts) as score
+          FROM triples_fts
+          WHERE triples_fts MATCH ?
+          UNION ALL
+          SELECT id, ${NAME_MATCH_SCORE} FROM rdf_triples WHERE actor IN (SELECT name FROM kw_raw_names)
+          UNION ALL
+          SELECT id, ${NAME_MATCH_SCORE} FROM rdf_triples WHERE target IN (SELECT name FROM kw_raw_names)
+        ) GROUP BY triple_id
+      ) kw ON kw.triple_id = rt.id`,
+      select: 'kw.score as relevance',
+      params: [nameKeywords.map(k => `"${k}"`).join(' OR '), textMatch]
+    };
+  }
+
+  // Build SQL conditions for TripleFilters. Expects rdf_triples aliased as rt and documents as d.
+  function buildTripleFilterSql(filters: TripleFilters): { where: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filters.clusterIds.length > 0) {
+      // Include if any of the materialized top 3 clusters are selected.
+      // Falls back to parsing top_cluster_ids when the triple_clusters join table is missing.
+      const placeholders = filters.clusterIds.map(() => '?').join(',');
+      conditions.push(hasTripleClusters
+        ? `EXISTS (
+        SELECT 1 FROM triple_clusters tc
+        WHERE tc.triple_id = rt.id AND tc.cluster_id IN (${placeholders})
+      )`
+        : `EXISTS (
+        SELECT 1 FROM json_each(rt.top_cluster_ids)
+        WHERE json_each.value IN (${placeholders})
+      )`);
+      params.push(...filters.clusterIds);
+    }
+
+    if (filters.categories.length > 0) {
+      conditions.push(`d.category IN (${filters.categories.map(() => '?').join(',')})`);
+      params.push(...filters.categories);
+    }
+
+    if (filters.yearRange) {
+      const yearCondition = `CAST(substr(rt.timestamp, 1, 4) AS INTEGER) >= ? AND CAST(substr(rt.timestamp, 1, 4) AS INTEGER) <= ?`;
+      conditions.push(filters.includeUndated
+        ? `(rt.timestamp IS NULL OR (${yearCondition}))`
+        : `(rt.timestamp IS NOT NULL AND ${yearCondition})`);
+      params.push(filters.yearRange[0], filters.yearRange[1]);
+    }
+
+    return {
+      where: conditions.map(c => `AND ${c}`).join('\n'),
+      params
+    };
+  }
+
+  // Resolve any name (alias or canonical) to its canonical entity name
+  function resolveCanonicalName(name: string): string {
+    const row = db.prepare(
+      'SELECT canonical_name FROM entity_aliases WHERE original_name = ?'
+    ).get(name) as { canonical_name: string } | undefined;
+    return row ? row.canonical_name : name;
+  }
+
+  function resolvePrincipals(principal: string[]): string[] {
+    const names = principal.map(resolveCanonicalName);
+    return names.length > 0 ? Array.from(new Set(names)) : defaultPrincipals;
+  }
+
+  // The materialized canonical_entities.hop_distance_from_principal column is only valid
+  // for the configured default principals; anything else is computed on demand.
+  function isDefaultPrincipals(principals: string[]): boolean {
+    return principals.length === defaultPrincipals.length &&
+      principals.every(p => defaultPrincipals.includes(p));
+  }
+
+  // Load alias-resolved triples matching the shared filters
+  function loadFilteredTriples(filters: TripleFilters): GraphTriple[] {
+    const filterSql = buildTripleFilterSql(filters);
+    return db.prepare(`
+      SELECT
+        rt.id,
+        rt.doc_id,
+        rt.timestamp,
+        COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+        rt.action,
+        COALESCE(ea_target.canonical_name, rt.target) as target,
+        rt.location,
+        rt.triple_tags
+      FROM rdf_triples rt
+      LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+      LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+      LEFT JOIN documents d ON rt.doc_id = d.doc_id
+      WHERE (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+      ${filterSql.where}
+    `).all(...filterSql.params) as GraphTriple[];
+  }
+
+  // Hop distances over the full (unfiltered) alias-resolved graph, cached per content version and principal set
+  function getHopDistances(principals: string[]): Map<string, number> {
+    const cacheKey = [getContentVersion(db), ...[...principals].sort()].join('|||');
+    const cached = hopDistanceCache.get(cacheKey);
+    if (cached) return cached;
+
+    const emptyFilters: TripleFilters = { clusterIds: [], categories: [], yearRange: null, includeUndated: true };
+    const adjacency = buildAdjacency(loadFilteredTriples(emptyFilters));
+    const neighborSets = new Map<string, Iterable<string>>();
+    adjacency.forEach((neighbors, node) => neighborSets.set(node, neighbors.keys()));
+    const distances = bfsDistances(neighborSets, principals);
+
+    // Evict the oldest entry (Map preserves insertion order)
+    if (hopDistanceCache.size >= HOP_CACHE_MAX_ENTRIES) {
+      hopDistanceCache.delete(hopDistanceCache.keys().next().value!);
+    }
+    hopDistanceCache.set(cacheKey, distances);
+    return distances;
+  }
+
+  return {
+    hasTripleClusters,
+    hasEntityNames,
+    defaultPrincipals,
+    buildTripleFilterSql,
+    buildKeywordJoin,
+    resolveCanonicalName,
+    resolvePrincipals,
+    isDefaultPrincipals,
+    getHopDistances,
+    loadFilteredTriples
+  };
+}
@@ -0,0 +1,267 @@
+// Local repair for almost-JSON model output. Before spending a second model call on a response
+// that JSON.parse rejects, repairJson() rebuilds it token by token, fixing the mistakes models
+// actually make: comments copied from the prompt, trailing or missing commas, unescaped quotes
+// and raw newlines inside strings, unterminated strings, and output cut off mid-array. The same
+// input always gives the same result, so reruns stay reproducible.
+
+// How a document's response became JSON, stored in documents.parse_method
+export const PARSE_METHODS = ['direct', 'local_repair', 'llm_repair', 'failed'] as const;
+export type ParseMethod = typeof PARSE_METHODS[number];
+
+export interface RepairedJson {
+  value: unknown;
+  // What was fixed, e.g. ['trailing commas', 'truncated input']
+  fixes: string[];
+}
+
+interface Frame {
+  type: 'object' | 'array';
+  expect: 'key' | 'colon' | 'value' | 'comma';
+}
+
+const LITERAL = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)$/;
+const VALID_ESCAPES = '"\\/bfnrt';
+
+/**
+ * Repair and parse text that JSON.parse rejects. Returns null when the text cannot be turned
+ * into JSON without guessing (e.g. bare words, mismatched brackets).
+ */
+export function repairJson(text: string): RepairedJson | null {
+  const fixes = new Set<string>();
+  const frames: Frame[] = [];
+  let out = '';
+  // Length of `out` after the last complete value or opening bracket; input that is cut off
+  // is rolled back to here before the open containers are closed
+  let safe = 0;
+  let done = false;
+
+  let i = text.search(/[{[]/);
+  if (i < 0) return null;
+  if (text.slice(0, i).trim()) fixes.add('surrounding text');
+
+  const top = () => frames[frames.length - 1];
+  const nextNonSpace = (from: number) => {
+    while (from < text.length && /\s/.test(text[from])) from++;
+    return from;
+  };
+
+  const valueDone = () => {
+    safe = out.length;
+    if (frames.length === 0) {
+      done = true;
+    } else {
+      top().expect = 'comma';
+    }
+  };
+
+  // A value or key where a comma belongs means the comma was left out
+  const beforeValue = () => {
+    const frame = top();
+    if (frame?.expect === 'comma') {
+      out += ',';
+      frame.expect = frame.type === 'object' ? 'key' : 'value';
+      fixes.add('missing commas');
+    }
+  };
+
+  // Whether the quote at `at` ends the current string, judged by what follows it
+  const closesString = (at: number, isKey: boolean): boolean => {
+    const next = nextNonSpace(at + 1);
+    if (next >= text.length) return true;
+    const ch = text[next];
+    if (isKey) return ch === ':';
+    const frame = top();
+    if (!frame) return true;
+    // A line break and then the next member: the comma after this value was left out
+    if (/[\r\n]/.test(text.slice(at + 1, next)) && /^(?:"[^"\n]*"\s*:|[{[])/.test(text.slice(next, next + 200))) return true;
+    if (ch === '/') return true;
+    if (frame.type === 'array') return ch === ']' || ch === ',';
+    if (ch === '}') return true;
+    if (ch !== ',') return false;
+    const after = nextNonSpace(next + 1);
+    return after >= text.length || text[after] === '"' || text[after] === '}' || text[after] === '/';
+  };
+
+  // A raw line break followed by what looks like the next member means the string was never closed
+  const startsNewMember = (at: number) => /^\s*(?:"[^"\n]*"\s*:|[}\]])/.test(text.slice(at, at + 200));
+
+  const readString = (isKey: boolean): boolean => {
+    let content = '';
+    let j = i + 1;
+
+    while (j < text.length) {
+      const ch = text[j];
+      if (ch === '\\') {
+        const escaped = text[j + 1];
+        if (escaped === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(j + 2, j + 6))) {
+          content += text.slice(j, j + 6);
+          j += 6;
+        } else if (escaped !== undefined && VALID_ESCAPES.includes(escaped)) {
+          content += ch + escaped;
+          j += 2;
+        } else {
+          // \' and friends: keep the character, drop the backslash
+          fixes.add('invalid escapes');
+          j++;
+        }
+        continue;
+      }
+      if (ch === '"') {
+        if (closesString(j, isKey)) {
+          out += `"${content}"`;
+          i = j + 1;
+          return true;
+        }
+        content += '\\"';
+        fixes.add('unescaped quotes');
+        j++;
+        continue;
+      }
+      if (ch === '\n' || ch === '\r') {
+        if (startsNewMember(j)) {
+          // Close it before the line break; a trailing comma belongs outside the string
+          out += `"${content.replace(/\s*,\s*$/, '').trimEnd()}"`;
+          fixes.add('unterminated strings');
+          i = j;
+          return true;
+        }
+        content += ch === '\n' ? '\\n' : '\\r';
+        fixes.add('raw control characters');
+        j++;
+        continue;
+      }
+      if (ch < ' ') {
+        content += JSON.stringify(ch).slice(1, -1);
+        fixes.add('raw control characters');
+        j++;
+        continue;
+      }
+      content += ch;
+      j++;
+    }
+
+    // Input ended inside the string: keep a cut-off value, drop a cut-off key
+    if (!isKey) out += `"${content}"`;
+    fixes.add('truncated input');
+    i = text.length;
+    return !isKey;
+  };
+
+  while (i < text.length && !done) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end;
+      fixes.add('comments');
+      continue;
+    }
+    if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end < 0 ? text.length : end + 2;
+      fixes.add('comments');
+      continue;
+    }
+
+    const frame = top();
+
+    if (ch === '{' || ch === '[') {
+      if (frame?.expect === 'key' || frame?.expect === 'colon') return null;
+      beforeValue();
+      out += ch;
+      frames.push({ type: ch === '{' ? 'object' : 'array', expect: ch === '{' ? 'key' : 'value' });
+      safe = out.length;
+      i++;
+      continue;
+    }
+
+    if (ch === '}' || ch === ']') {
+      if (!frame || frame.type !== (ch === '}' ? 'object' : 'array')) return null;
+      if (frame.expect === 'colon' || (frame.type === 'object' && frame.expect === 'value')) return null;
+      if (out.endsWith(',')) {
+        out = out.slice(0, -1);
+        fixes.add('trailing commas');
+      }
+      frames.pop();
+      out += ch;
+      i++;
+      valueDone();
+      continue;
+    }
+
+    if (ch === ',') {
+      if (!frame) return null;
+      if (frame.expect === 'comma') {
+        out += ',';
+        frame.expect = frame.type === 'object' ? 'key' : 'value';
+      } else {
+        // ",," or "[," - nothing to separate
+        fixes.add('trailing commas');
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === ':') {
+      if (frame?.expect !== 'colon') return null;
+      out += ':';
+      frame.expect = 'value';
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const isKey = frame?.type === 'object' && (frame.expect === 'key' || frame.expect === 'comma');
+      beforeValue();
+      if (!readString(isKey)) break;
+      if (isKey) {
+        frame!.expect = 'colon';
+      } else {
+        valueDone();
+      }
+      continue;
+    }
+
+    // Numbers, true, false, null
+    const match = /^[^\s,:\]}/"]+/.exec(text.slice(i));
+    const literal = match ? match[0] : ch;
+    if (frame?.type === 'object' && frame.expect !== 'value') return null;
+    if (!LITERAL.test(literal)) {
+      // A literal cut off by the end of the input is dropped; anything else is a bare word
+      if (i + literal.length >= text.length) {
+        fixes.add('truncated input');
+        break;
+      }
+      return null;
+    }
+    beforeValue();
+    out += literal;
+    i += literal.length;
+    valueDone();
+  }
+
+  if (done && text.slice(i).replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, '').trim()) {
+    fixes.add('surrounding text');
+  }
+
+  if (frames.length > 0) {
+    fixes.add('truncated input');
+    out = out.slice(0, safe);
+    // Rolling back can leave a dangling comma before the brackets are closed
+    out = out.replace(/,$/, '');
+    for (let f = frames.length - 1; f >= 0; f--) {
+      out += frames[f].type === 'object' ? '}' : ']';
+    }
+  }
+
+  try {
+    return { value: JSON.parse(out), fixes: [...fixes] };
+  } catch {
+    return null;
+  }
+}
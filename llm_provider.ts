@@ -0,0 +1,349 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { query } from '@anthropic-ai/claude-agent-sdk';
+import Anthropic from '@anthropic-ai/sdk';
+import { OpenRouter } from '@openrouter/sdk';
+
+// One interface over the LLM backends the pipeline scripts can use. Scripts call
+// llmProviderFromEnv() and never import an SDK themselves, so the same run can go through
+// a Max plan (Agent SDK), the Messages API, OpenRouter, a local OpenAI-compatible server,
+// or recorded responses without touching the scripts.
+
+export const LLM_PROVIDERS = ['agent-sdk', 'anthropic', 'openrouter', 'openai-compatible', 'replay'] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LLMRequest {
+  prompt: string;
+  maxTokens: number;
+}
+
+export interface LLMUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage | null;
+  costUsd: number;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  /** Defaults per provider (see DEFAULT_MODELS); required for openai-compatible */
+  model?: string;
+  /** openai-compatible: server root including /v1 */
+  baseUrl?: string;
+  /** Overrides the provider's own key variable (ANTHROPIC_API_KEY, OPENROUTER_API_KEY) */
+  apiKey?: string;
+  /** Save every response here so the run can be replayed later */
+  recordDir?: string;
+  /** replay: directory written by an earlier recorded run */
+  replayDir?: string;
+}
+
+export const DEFAULT_MODELS: Partial<Record<LLMProviderName, string>> = {
+  'agent-sdk': 'claude-haiku-4-5',
+  'anthropic': 'claude-haiku-4-5',
+  'openrouter': 'anthropic/claude-haiku-4.5'
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_RECORDINGS_DIR = 'llm_recordings';
+
+// USD per million tokens, for providers that report usage but not cost
+const MODEL_PRICES: Record<string, { input: number; output: number; cacheRead: number }> = {
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1 },
+  'claude-sonnet-4-5': { input: 3, output: 15, cacheRead: 0.3 },
+  'claude-opus-4-1': { input: 15, output: 75, cacheRead: 1.5 }
+};
+
+/**
+ * Cost of a call from its token counts. Accepts OpenRouter ids ("anthropic/claude-haiku-4.5")
+ * and dated snapshots; unknown models (e.g. local ones) cost 0.
+ */
+export function estimateCostUsd(model: string, usage: LLMUsage | null): number {
+  if (!usage) return 0;
+  const normalized = model.replace(/^.*\//, '').replace(/\./g, '-');
+  const key = Object.keys(MODEL_PRICES).find(name => normalized.startsWith(name));
+  if (!key) return 0;
+
+  const price = MODEL_PRICES[key];
+  return (
+    usage.input_tokens * price.input +
+    usage.output_tokens * price.output +
+    (usage.cache_read_input_tokens || 0) * price.cacheRead
+  ) / 1_000_000;
+}
+
+/**
+ * Read the provider settings from LLM_* environment variables
+ */
+export function llmConfigFromEnv(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || 'agent-sdk') as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')} (got "${provider}")`);
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || undefined,
+    baseUrl: env.LLM_BASE_URL || undefined,
+    apiKey: env.LLM_API_KEY || undefined,
+    recordDir: env.LLM_RECORD_DIR || undefined,
+    replayDir: env.LLM_REPLAY_DIR || undefined
+  };
+}
+
+/**
+ * Recordings are keyed by the prompt alone, so a replay works whichever model recorded it
+ * and a changed prompt shows up as a missing recording rather than a stale answer.
+ */
+export function promptHash(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+interface Recording {
+  prompt_hash: string;
+  provider: LLMProviderName;
+  model: string;
+  recorded_at: string;
+  prompt: string;
+  text: string;
+  usage: LLMUsage | null;
+  cost_usd: number;
+}
+
+function createAgentSdkProvider(model: string): LLMProvider {
+  return {
+    name: 'agent-sdk',
+    model,
+    // The Agent SDK has no output limit option, so maxTokens is not passed on
+    async complete({ prompt }) {
+      const agent = query({
+        prompt,
+        options: {
+          model,
+          // No tools are allowed, so the model answers in its first turn
+          maxTurns: 5,
+          allowedTools: [],
+        }
+      });
+
+      let text = '';
+      let usage: LLMUsage | null = null;
+      let costUsd = 0;
+
+      for await (const message of agent) {
+        if (message.type === 'result') {
+          if (message.subtype === 'success') text = message.result;
+          usage = {
+            input_tokens: message.usage.input_tokens,
+            output_tokens: message.usage.output_tokens,
+            cache_read_input_tokens: message.usage.cache_read_input_tokens ?? undefined
+          };
+          costUsd = message.total_cost_usd;
+        } else if (message.type === 'assistant') {
+          for (const block of message.message.content) {
+            if (block.type === 'text') text += block.text;
+          }
+        }
+      }
+
+      return { text, usage, costUsd, model };
+    }
+  };
+}
+
+function createAnthropicProvider(model: string, apiKey?: string): LLMProvider {
+  const client = new Anthropic(apiKey ? { apiKey } : {});
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete({ prompt, maxTokens }) {
+      const message = await client.messages.create({
+        model,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: prompt }]
+      });
+
+      const text = message.content
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('');
+      const usage: LLMUsage = {
+        input_tokens: message.usage.input_tokens,
+        output_tokens: message.usage.output_tokens,
+        cache_read_input_tokens: message.usage.cache_read_input_tokens ?? undefined
+      };
+
+      return { text, usage, costUsd: estimateCostUsd(model, usage), model: message.model };
+    }
+  };
+}
+
+function createOpenRouterProvider(model: string, apiKey?: string): LLMProvider {
+  const key = apiKey || process.env.OPENROUTER_API_KEY;
+  if (!key) throw new Error('OPENROUTER_API_KEY (or LLM_API_KEY) is required for the openrouter provider');
+  const client = new OpenRouter({ apiKey: key });
+
+  return {
+    name: 'openrouter',
+    model,
+    async complete({ prompt, maxTokens }) {
+      const response = await client.chat.send({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens,
+        stream: false
+      });
+
+      const content = response.choices[0]?.message.content;
+      const text = typeof content === 'string'
+        ? content
+        : (content || []).map(item => item.type === 'text' ? item.text : '').join('');
+      const usage: LLMUsage | null = response.usage ? {
+        input_tokens: response.usage.promptTokens,
+        output_tokens: response.usage.completionTokens,
+        cache_read_input_tokens: response.usage.promptTokensDetails?.cachedTokens
+      } : null;
+
+      return { text, usage, costUsd: estimateCostUsd(model, usage), model: response.model || model };
+    }
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (Ollama, llama.cpp, vLLM, LM Studio)
+ */
+function createOpenAICompatibleProvider(model: string, baseUrl: string, apiKey?: string): LLMProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    model,
+    async complete({ prompt, maxTokens }) {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          messages: [{ role: 'user', content: prompt }]
+        })
+      });
+      if (!res.ok) {
+        throw new Error(`${url} returned ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      }
+
+      const body = await res.json() as {
+        model?: string;
+        choices?: Array<{ message?: { content?: string | null } }>;
+        usage?: { prompt_tokens: number; completion_tokens: number };
+      };
+      const usage: LLMUsage | null = body.usage ? {
+        input_tokens: body.usage.prompt_tokens,
+        output_tokens: body.usage.completion_tokens
+      } : null;
+
+      return {
+        text: body.choices?.[0]?.message?.content || '',
+        usage,
+        costUsd: estimateCostUsd(model, usage),
+        model: body.model || model
+      };
+    }
+  };
+}
+
+/**
+ * Answers from recordings made with LLM_RECORD_DIR. Nothing is sent anywhere and nothing
+ * is charged; a prompt without a recording is an error.
+ */
+function createReplayProvider(dir: string, model?: string): LLMProvider {
+  if (!fs.existsSync(dir)) throw new Error(`Replay directory ${dir} does not exist`);
+
+  return {
+    name: 'replay',
+    model: model || 'replay',
+    async complete({ prompt }) {
+      const hash = promptHash(prompt);
+      const file = path.join(dir, `${hash}.json`);
+      if (!fs.existsSync(file)) {
+        throw new Error(`No recorded response for prompt ${hash.slice(0, 12)} in ${dir}`);
+      }
+
+      const recording = JSON.parse(fs.readFileSync(file, 'utf-8')) as Recording;
+      return { text: recording.text, usage: recording.usage, costUsd: 0, model: recording.model };
+    }
+  };
+}
+
+function withRecording(provider: LLMProvider, dir: string): LLMProvider {
+  fs.mkdirSync(dir, { recursive: true });
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const response = await provider.complete(request);
+      const hash = promptHash(request.prompt);
+      const recording: Recording = {
+        prompt_hash: hash,
+        provider: provider.name,
+        model: response.model,
+        recorded_at: new Date().toISOString(),
+        prompt: request.prompt,
+        text: response.text,
+        usage: response.usage,
+        cost_usd: response.costUsd
+      };
+      fs.writeFileSync(path.join(dir, `${hash}.json`), JSON.stringify(recording, null, 2) + '\n');
+      return response;
+    }
+  };
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  let provider: LLMProvider;
+  switch (config.provider) {
+    case 'agent-sdk':
+      provider = createAgentSdkProvider(model!);
+      break;
+    case 'anthropic':
+      provider = createAnthropicProvider(model!, config.apiKey);
+      break;
+    case 'openrouter':
+      provider = createOpenRouterProvider(model!, config.apiKey);
+      break;
+    case 'openai-compatible':
+      if (!model) throw new Error('LLM_MODEL is required for the openai-compatible provider');
+      provider = createOpenAICompatibleProvider(model, config.baseUrl || DEFAULT_OPENAI_BASE_URL, config.apiKey);
+      break;
+    case 'replay':
+      provider = createReplayProvider(config.replayDir || DEFAULT_RECORDINGS_DIR, model);
+      break;
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+
+  return config.recordDir ? withRecording(provider, config.recordDir) : provider;
+}
+
+export function llmProviderFromEnv(): LLMProvider {
+  return createLLMProvider(llmConfigFromEnv());
+}
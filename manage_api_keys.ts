@@ -0,0 +1,137 @@
+#!/usr/bin/env node
+
+import {
+  openApiKeysDb,
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  getApiKeyUsage,
+  parseScopes,
+  API_KEY_SCOPES,
+  DEFAULT_KEY_QUOTA
+} from './api_keys';
+
+const HELP = `
+API Key Management
+
+Issues, lists and revokes API keys for api_server.ts. Keys are stored hashed; the
+plaintext is printed once when issued.
+
+Usage:
+  npx tsx manage_api_keys.ts issue --name <name> [--scopes read,export] [options]
+  npx tsx manage_api_keys.ts list [--all]
+  npx tsx manage_api_keys.ts revoke <id | key prefix>
+  npx tsx manage_api_keys.ts usage <id>
+
+Issue options:
+  --name <name>        Who the key is for (required)
+  --scopes <list>      Comma-separated: ${API_KEY_SCOPES.join(', ')} (default: read)
+  --burst <n>          Requests that can be made at once (default: ${DEFAULT_KEY_QUOTA.burst})
+  --per-min <n>        Sustained requests per minute (default: ${DEFAULT_KEY_QUOTA.perMinute})
+  --daily <n>          Requests per UTC day (default: unlimited)
+
+Common options:
+  --db <path>          Key database (default: API_KEYS_DB_PATH or api_keys.db)
+  --all                Include revoked keys in the listing
+  --help, -h           Show this help message
+`;
+
+function fail(message: string): never {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+function positiveNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || isNaN(parsed) || parsed <= 0) fail(`${flag} needs a positive number`);
+  return parsed;
+}
+
+const args = process.argv.slice(2);
+const command = args[0];
+if (!command || command === '--help' || command === '-h') {
+  console.log(HELP);
+  process.exit(0);
+}
+
+let dbPath = process.env.API_KEYS_DB_PATH || 'api_keys.db';
+let name: string | null = null;
+let scopes = 'read';
+let burst: number | undefined;
+let perMinute: number | undefined;
+let dailyQuota: number | null = null;
+let includeRevoked = false;
+const positional: string[] = [];
+
+for (let i = 1; i < args.length; i++) {
+  if (args[i] === '--db') {
+    dbPath = args[++i];
+  } else if (args[i] === '--name') {
+    name = args[++i];
+  } else if (args[i] === '--scopes') {
+    scopes = args[++i] || '';
+  } else if (args[i] === '--burst') {
+    burst = Math.round(positiveNumber('--burst', args[++i]));
+  } else if (args[i] === '--per-min') {
+    perMinute = positiveNumber('--per-min', args[++i]);
+  } else if (args[i] === '--daily') {
+    dailyQuota = Math.round(positiveNumber('--daily', args[++i]));
+  } else if (args[i] === '--all') {
+    includeRevoked = true;
+  } else if (args[i] === '--help' || args[i] === '-h') {
+    console.log(HELP);
+    process.exit(0);
+  } else if (args[i].startsWith('--')) {
+    fail(`Unknown option: ${args[i]}`);
+  } else {
+    positional.push(args[i]);
+  }
+}
+
+const db = openApiKeysDb(dbPath);
+
+try {
+  if (command === 'issue') {
+    if (!name || !name.trim()) fail('--name is required');
+    const { key, apiKey } = issueApiKey(db, {
+      name: name.trim(),
+      scopes: parseScopes(scopes),
+      burst,
+      perMinute,
+      dailyQuota
+    });
+    console.log(`✅ Issued key #${apiKey.id} for "${apiKey.name}" (${apiKey.scopes.join(', ')})`);
+    console.log(`   Quota: burst ${apiKey.burst}, ${apiKey.per_minute}/min${apiKey.daily_quota ? `, ${apiKey.daily_quota}/day` : ''}`);
+    console.log(`\n   ${key}\n`);
+    console.log('   Store it now - only its hash is kept. Send it as `Authorization: Bearer <key>` or `X-API-Key: <key>`.');
+  } else if (command === 'list') {
+    const keys = listApiKeys(db, includeRevoked);
+    if (keys.length === 0) {
+      console.log('No API keys.');
+    }
+    for (const key of keys) {
+      const quota = `${key.burst} burst, ${key.per_minute}/min${key.daily_quota ? `, ${key.daily_quota}/day` : ''}`;
+      const state = key.revoked_at ? `revoked ${key.revoked_at}` : `last used ${key.last_used_at || 'never'}`;
+      console.log(`#${key.id}  ${key.key_prefix}…  ${key.name}  [${key.scopes.join(', ')}]  ${quota}  ${state}`);
+    }
+  } else if (command === 'revoke') {
+    if (positional.length !== 1) fail('Usage: revoke <id | key prefix>');
+    const revoked = revokeApiKey(db, positional[0]);
+    if (!revoked) fail(`No active key matches "${positional[0]}"`);
+    console.log(`✅ Revoked key #${revoked.id} (${revoked.key_prefix}…, "${revoked.name}")`);
+  } else if (command === 'usage') {
+    const keyId = parseInt(positional[0]);
+    if (isNaN(keyId)) fail('Usage: usage <id>');
+    const usage = getApiKeyUsage(db, keyId);
+    if (usage.length === 0) console.log(`No recorded requests for key #${keyId}.`);
+    for (const { day, requests } of usage) {
+      console.log(`${day}  ${requests}`);
+    }
+  } else {
+    fail(`Unknown command: ${command} (use issue, list, revoke or usage)`);
+  }
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+} finally {
+  db.close();
+}
@@ -1,10 +1,11 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import NetworkGraph from './components/NetworkGraph';
 import Sidebar from './components/Sidebar';
 import RightSidebar from './components/RightSidebar';
 import MobileBottomNav from './components/MobileBottomNav';
 import { WelcomeModal } from './components/WelcomeModal';
-import { fetchStats, fetchRelationships, fetchActorRelationships, fetchTagClusters, fetchActorCounts } from './api';
+import { fetchStats, fetchRelationships, fetchActorRelationships, fetchTagClusters, fetchActorCounts, fetchEntityCommunities, fetchActorNeighborhood } from './api';
+import { graphFilterParams } from './graphFilters';
 import type { Stats, Relationship, TagCluster } from './types';
 
 function App() {
@@ -27,7 +28,15 @@ function App() {
   const [yearRange, setYearRange] = useState<[number, number]>([1980, 2025]);
   const [includeUndated, setIncludeUndated] = useState(false);
   const [keywords, setKeywords] = useState('');
+  const [principalOverride, setPrincipalOverride] = useState<string[]>([]); // Empty = server default
+  const [principals, setPrincipals] = useState<string[]>([]); // Principals the server actually used
+  const [colorMode, setColorMode] = useState<'distance' | 'community'>('distance');
+  const [communities, setCommunities] = useState<Record<string, number> | null>(null);
+  const [communitiesUnavailable, setCommunitiesUnavailable] = useState(false);
+  const [applyEdits, setApplyEdits] = useState(false); // Overlay accepted community edits
   const [actorTotalCounts, setActorTotalCounts] = useState<Record<string, number>>({});
+  const [expandedRelationships, setExpandedRelationships] = useState<Relationship[]>([]); // Added by node expansion
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set()); // Kept regardless of density
   const [showWelcome, setShowWelcome] = useState(() => {
     // Check if user has seen the welcome message before
     return !localStorage.getItem('hasSeenWelcome');
@@ -60,24 +69,33 @@ function App() {
     initializeApp();
   }, []);
 
-  // Load data when limit, enabled clusters, enabled categories, year range, includeUndated, keywords, or maxHops change (but only after initialization)
+  // Load data when limit, enabled clusters, enabled categories, year range, includeUndated, keywords, maxHops, or principal change (but only after initialization)
   useEffect(() => {
     if (isInitialized) {
       loadData();
     }
-  }, [isInitialized, limit, enabledClusterIds, enabledCategories, yearRange, includeUndated, keywords, maxHops]);
+  }, [isInitialized, limit, enabledClusterIds, enabledCategories, yearRange, includeUndated, keywords, maxHops, principalOverride, applyEdits]);
 
   const loadData = async () => {
     try {
       setLoading(true);
-      const clusterIds = Array.from(enabledClusterIds);
-      const categories = Array.from(enabledCategories);
       const [relationshipsResponse, actorCounts] = await Promise.all([
-        fetchRelationships(limit, clusterIds, categories, yearRange, includeUndated, keywords, maxHops),
-        fetchActorCounts(300)
+        fetchRelationships({
+          limit,
+          ...graphFilterParams({
+            clusterIds: enabledClusterIds, categories: enabledCategories, yearRange, includeUndated, keywords, maxHops, principals: principalOverride
+          }),
+          // With keywords, keep the most relevant edges rather than the densest ones
+          sort: keywords.trim() ? 'relevance' : 'timestamp',
+          applyEdits
+        }),
+        fetchActorCounts({ limit: 300 })
       ]);
       setRelationships(relationshipsResponse.relationships);
-      setTotalBeforeLimit(relationshipsResponse.totalBeforeLimit);
+      setTotalBeforeLimit(relationshipsResponse.totalBeforeLimit ?? 0);
+      setExpandedRelationships([]); // Expansions belong to the previous view
+      setExpandedNodes(new Set());
+      setPrincipals(relationshipsResponse.principals ?? []);
       setActorTotalCounts(actorCounts);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -90,6 +108,59 @@ function App() {
     setSelectedActor(prev => prev === actorName ? null : actorName);
   }, []);
 
+  // Re-center the graph (hop distances and coloring) on a different actor; null restores the default
+  const handleCenterOnActor = useCallback((actorName: string | null) => {
+    setPrincipalOverride(actorName ? [actorName] : []);
+  }, []);
+
+  // Grow the graph outward from an actor without reloading the global view
+  const handleExpandNode = useCallback(async (actorName: string) => {
+    try {
+      const neighborhood = await fetchActorNeighborhood({
+        name: actorName,
+        depth: 1,
+        maxNodes: 100,
+        ...graphFilterParams({ clusterIds: enabledClusterIds, categories: enabledCategories, yearRange, includeUndated })
+      });
+      setExpandedRelationships(prev => [...prev, ...neighborhood.relationships]);
+      setExpandedNodes(prev => new Set([...prev, ...neighborhood.nodes.map(n => n.name)]));
+    } catch (error) {
+      console.error('Error expanding actor neighborhood:', error);
+    }
+  }, [enabledClusterIds, enabledCategories, yearRange, includeUndated]);
+
+  const handleClearExpansions = useCallback(() => {
+    setExpandedRelationships([]);
+    setExpandedNodes(new Set());
+  }, []);
+
+  // Global view plus expanded neighborhoods, deduplicated by triple id
+  const graphRelationships = useMemo(() => {
+    if (expandedRelationships.length === 0) return relationships;
+    const seen = new Set(relationships.map(rel => rel.id));
+    const merged = [...relationships];
+    expandedRelationships.forEach(rel => {
+      if (!seen.has(rel.id)) {
+        seen.add(rel.id);
+        merged.push(rel);
+      }
+    });
+    return merged;
+  }, [relationships, expandedRelationships]);
+
+  // Load community ids the first time community coloring is chosen
+  useEffect(() => {
+    if (colorMode !== 'community' || communities) return;
+
+    fetchEntityCommunities()
+      .then(setCommunities)
+      .catch(error => {
+        console.error('Error loading communities:', error);
+        setCommunitiesUnavailable(true);
+        setColorMode('distance');
+      });
+  }, [colorMode, communities]);
+
   // Toggle tag cluster
   const toggleCluster = useCallback((clusterId: number) => {
     setEnabledClusterIds(prev => {
@@ -122,7 +193,7 @@ function App() {
     setShowWelcome(false);
   }, []);
 
-  // Fetch actor-specific relationships when an actor is selected or clusters/categories/year range/includeUndated/keywords/maxHops change
+  // Fetch actor-specific relationships when an actor is selected or clusters/categories/year range/includeUndated/keywords/maxHops/principal change
   useEffect(() => {
     if (!selectedActor) {
       setActorRelationships([]);
@@ -132,9 +203,13 @@ function App() {
 
     const loadActorRelationships = async () => {
       try {
-        const clusterIds = Array.from(enabledClusterIds);
-        const categories = Array.from(enabledCategories);
-        const response = await fetchActorRelationships(selectedActor, clusterIds, categories, yearRange, includeUndated, keywords, maxHops);
+        const response = await fetchActorRelationships({
+          name: selectedActor,
+          ...graphFilterParams({
+            clusterIds: enabledClusterIds, categories: enabledCategories, yearRange, includeUndated, keywords, maxHops, principals: principalOverride
+          }),
+          applyEdits
+        });
         setActorRelationships(response.relationships);
         setActorTotalBeforeFilter(response.totalBeforeFilter);
       } catch (error) {
@@ -145,7 +220,7 @@ function App() {
     };
 
     loadActorRelationships();
-  }, [selectedActor, enabledClusterIds, enabledCategories, yearRange, includeUndated, keywords, maxHops]);
+  }, [selectedActor, enabledClusterIds, enabledCategories, yearRange, includeUndated, keywords, maxHops, principalOverride, applyEdits]);
 
   return (
     <div className="flex h-screen bg-gray-900 text-white">
@@ -172,6 +247,14 @@ function App() {
           onIncludeUndatedChange={setIncludeUndated}
           keywords={keywords}
           onKeywordsChange={setKeywords}
+          principals={principals}
+          isDefaultPrincipal={principalOverride.length === 0}
+          onCenterOnActor={handleCenterOnActor}
+          colorMode={colorMode}
+          onColorModeChange={setColorMode}
+          communitiesUnavailable={communitiesUnavailable}
+          applyEdits={applyEdits}
+          onApplyEditsChange={setApplyEdits}
         />
       </div>
 
@@ -186,11 +269,17 @@ function App() {
           </div>
         ) : (
           <NetworkGraph
-            relationships={relationships}
+            relationships={graphRelationships}
             selectedActor={selectedActor}
             onActorClick={handleActorClick}
             minDensity={minDensity}
             actorTotalCounts={actorTotalCounts}
+            principals={principals}
+            colorMode={colorMode}
+            communities={communities}
+            expandedNodes={expandedNodes}
+            onExpandNode={handleExpandNode}
+            onClearExpansions={handleClearExpansions}
           />
         )}
       </div>
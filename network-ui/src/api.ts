@@ -1,99 +1,658 @@
-import type { Stats, Relationship, Actor, TagCluster } from './types';
+// Generated by generate_api_client.ts from api_routes.ts - do not edit by hand.
+// Run `npx tsx generate_api_client.ts` after changing a route schema.
+
+import type { Actor, ActorNeighborhood, ActorRelationshipsResponse, BannedFingerprint, Document, DocumentSearchResult, EditComment, EditProposal, EditSummary, EntityAnalytics, GraphQueryResult, ModerationQueueItem, PathResponse, RelationshipsResponse, Stats, TagCluster } from './types';
 
 // Use relative path in production (served from same domain), localhost in development
-const API_BASE = import.meta.env.VITE_API_BASE_URL ||
+export const API_BASE: string = import.meta.env.VITE_API_BASE_URL ||
   (import.meta.env.DEV ? 'http://localhost:3001/api' : '/api');
 
-export async function fetchStats(): Promise<Stats> {
-  const response = await fetch(`${API_BASE}/stats`);
-  if (!response.ok) throw new Error('Failed to fetch stats');
-  return response.json();
+export interface ApiValidationIssue {
+  in: 'path' | 'query' | 'body';
+  name: string;
+  message: string;
 }
 
-export async function fetchTagClusters(): Promise<TagCluster[]> {
-  const response = await fetch(`${API_BASE}/tag-clusters`);
-  if (!response.ok) throw new Error('Failed to fetch tag clusters');
-  return response.json();
-}
+// A non-2xx response. `issues` lists every invalid parameter of a 400.
+export class ApiError extends Error {
+  status: number;
+  issues: ApiValidationIssue[];
+  body: unknown;
 
-export async function fetchRelationships(limit: number = 500, clusterIds: number[] = [], categories: string[] = [], yearRange?: [number, number], includeUndated: boolean = true, keywords: string = '', maxHops?: number | null): Promise<{ relationships: Relationship[], totalBeforeLimit: number, totalBeforeFilter: number }> {
-  const params = new URLSearchParams({ limit: limit.toString() });
-  if (clusterIds.length > 0) {
-    params.append('clusters', clusterIds.join(','));
-  }
-  if (categories.length > 0) {
-    params.append('categories', categories.join(','));
-  }
-  if (yearRange) {
-    params.append('yearMin', yearRange[0].toString());
-    params.append('yearMax', yearRange[1].toString());
-  }
-  params.append('includeUndated', includeUndated.toString());
-  if (keywords.trim()) {
-    params.append('keywords', keywords.trim());
+  constructor(status: number, body: unknown) {
+    const data = (body ?? {}) as { error?: string; issues?: ApiValidationIssue[] };
+    super(data.error || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.issues = data.issues ?? [];
+    this.body = body;
   }
-  if (maxHops !== undefined && maxHops !== null) {
-    params.append('maxHops', maxHops.toString());
-  }
-  const response = await fetch(`${API_BASE}/relationships?${params}`);
-  if (!response.ok) throw new Error('Failed to fetch relationships');
-  return response.json();
 }
 
-export async function fetchActorRelationships(name: string, clusterIds: number[] = [], categories: string[] = [], yearRange?: [number, number], includeUndated: boolean = true, keywords: string = '', maxHops?: number | null): Promise<{ relationships: Relationship[], totalBeforeFilter: number }> {
-  const params = new URLSearchParams();
-  if (clusterIds.length > 0) {
-    params.append('clusters', clusterIds.join(','));
-  }
-  if (categories.length > 0) {
-    params.append('categories', categories.join(','));
-  }
-  if (yearRange) {
-    params.append('yearMin', yearRange[0].toString());
-    params.append('yearMax', yearRange[1].toString());
-  }
-  params.append('includeUndated', includeUndated.toString());
-  if (keywords.trim()) {
-    params.append('keywords', keywords.trim());
-  }
-  if (maxHops !== undefined && maxHops !== null) {
-    params.append('maxHops', maxHops.toString());
+export interface RequestOptions {
+  // API key (edx_...) or, for admin routes, the admin token; sent as a bearer token
+  token?: string;
+  signal?: AbortSignal;
+}
+
+type QueryValue = string | number | boolean | string[] | number[] | undefined;
+
+// Lists are sent comma-separated; unset values and empty lists are left out
+function buildQuery(params: Record<string, QueryValue>): string {
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.append(name, value.join(','));
+    } else {
+      search.append(name, String(value));
+    }
   }
-  const url = `${API_BASE}/actor/${encodeURIComponent(name)}/relationships${params.toString() ? '?' + params : ''}`;
-  const response = await fetch(url);
-  if (!response.ok) throw new Error('Failed to fetch actor relationships');
-  return response.json();
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+async function request<T>(method: string, url: string, body: unknown, options: RequestOptions): Promise<T> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+
+  const response = await fetch(API_BASE + url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: options.signal
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new ApiError(response.status, data);
+  return data as T;
+}
+
+// ---- Entities ----
+
+// The 100 most connected actors
+export function fetchActors(options: RequestOptions = {}): Promise<Actor[]> {
+  return request('GET', `/actors`, undefined, options);
+}
+
+export interface FetchActorRelationshipsParams {
+  // Entity name (alias or canonical)
+  name: string;
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+  // Prefix-matched keywords (ORed) over actor, action, target, location and topics
+  keywords?: string[];
+  // Keep only entities within this many hops of the principals
+  maxHops?: number;
+  // Entities hop distances are measured from (default: PRINCIPAL_NAMES)
+  principal?: string[];
+  // relevance ranks keyword matches by bm25
+  sort?: 'timestamp' | 'relevance';
+  // Overlay accepted community edits
+  applyEdits?: boolean;
+}
+
+// Every relationship involving an entity or its aliases
+export function fetchActorRelationships(params: FetchActorRelationshipsParams, options: RequestOptions = {}): Promise<ActorRelationshipsResponse> {
+  return request('GET', `/actor/${encodeURIComponent(params.name)}/relationships` + buildQuery({
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated,
+    keywords: params.keywords,
+    maxHops: params.maxHops,
+    principal: params.principal,
+    sort: params.sort,
+    applyEdits: params.applyEdits
+  }), undefined, options);
+}
+
+export interface FetchActorCountParams {
+  // Entity name (alias or canonical)
+  name: string;
+}
+
+// Unfiltered relationship count for an entity
+export function fetchActorCount(params: FetchActorCountParams, options: RequestOptions = {}): Promise<{ count: number }> {
+  return request('GET', `/actor/${encodeURIComponent(params.name)}/count`, undefined, options);
+}
+
+export interface FetchActorCountsParams {
+  limit?: number;
+}
+
+// Unfiltered relationship totals for the top N entities
+export function fetchActorCounts(params: FetchActorCountsParams = {}, options: RequestOptions = {}): Promise<Record<string, number>> {
+  return request('GET', `/actor-counts` + buildQuery({ limit: params.limit }), undefined, options);
+}
+
+export interface SearchActorsParams {
+  q?: string;
+}
+
+// Entity name substring search
+export function searchActors(params: SearchActorsParams = {}, options: RequestOptions = {}): Promise<Actor[]> {
+  return request('GET', `/search` + buildQuery({ q: params.q }), undefined, options);
+}
+
+// ---- Graph ----
+
+export interface FetchRelationshipsParams {
+  // Unique edges to return (at most 20000 without an API key)
+  limit?: number;
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+  // Prefix-matched keywords (ORed) over actor, action, target, location and topics
+  keywords?: string[];
+  // Keep only entities within this many hops of the principals
+  maxHops?: number;
+  // Entities hop distances are measured from (default: PRINCIPAL_NAMES)
+  principal?: string[];
+  // relevance ranks keyword matches by bm25
+  sort?: 'timestamp' | 'relevance';
+  // Overlay accepted community edits
+  applyEdits?: boolean;
+  // ndjson streams every filtered triple in id order; limit and sort are rejected
+  format?: 'json' | 'ndjson';
+  // Resume after this cursor (switches to id-ordered pages; limit and sort are rejected)
+  cursor?: string;
+  // Page size for cursor pagination (default 1000; limit and sort are rejected)
+  pageSize?: number;
+}
+
+// Relationship network with density pruning, or cursor pages / NDJSON of every filtered triple
+export function fetchRelationships(params: FetchRelationshipsParams = {}, options: RequestOptions = {}): Promise<RelationshipsResponse> {
+  return request('GET', `/relationships` + buildQuery({
+    limit: params.limit,
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated,
+    keywords: params.keywords,
+    maxHops: params.maxHops,
+    principal: params.principal,
+    sort: params.sort,
+    applyEdits: params.applyEdits,
+    format: params.format,
+    cursor: params.cursor,
+    pageSize: params.pageSize
+  }), undefined, options);
+}
+
+export interface FetchActorNeighborhoodParams {
+  // Entity name (alias or canonical)
+  name: string;
+  depth?: number;
+  maxNodes?: number;
+  // Minimum supporting triples per edge
+  minWeight?: number;
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+}
+
+// N-hop ego graph around an entity
+export function fetchActorNeighborhood(params: FetchActorNeighborhoodParams, options: RequestOptions = {}): Promise<ActorNeighborhood> {
+  return request('GET', `/actor/${encodeURIComponent(params.name)}/neighborhood` + buildQuery({
+    depth: params.depth,
+    maxNodes: params.maxNodes,
+    minWeight: params.minWeight,
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated
+  }), undefined, options);
+}
+
+export interface FindPathsParams {
+  from: string;
+  to: string;
+  k?: number;
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+}
+
+// Up to k shortest connection paths between two entities
+export function findPaths(params: FindPathsParams, options: RequestOptions = {}): Promise<PathResponse> {
+  return request('GET', `/path` + buildQuery({
+    from: params.from,
+    to: params.to,
+    k: params.k,
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated
+  }), undefined, options);
+}
+
+export interface RunGraphQueryParams {
+  query: string;
+  limit?: number;
+}
+
+// Run a graph pattern query (see graph_query.ts)
+export function runGraphQuery(params: RunGraphQueryParams, options: RequestOptions = {}): Promise<GraphQueryResult> {
+  return request('POST', `/query`, { query: params.query, limit: params.limit }, options);
+}
+
+// ---- Export ----
+
+export interface ExportGraphParams {
+  format?: 'gexf' | 'graphml' | 'cyjs' | 'csv';
+  // Which CSV table to export
+  table?: 'edges' | 'nodes';
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+  // Prefix-matched keywords (ORed) over actor, action, target, location and topics
+  keywords?: string[];
+  // Keep only entities within this many hops of the principals
+  maxHops?: number;
+  // Entities hop distances are measured from (default: PRINCIPAL_NAMES)
+  principal?: string[];
+}
+
+// Filtered relationship graph for Gephi / Cytoscape. Download URL for the browser to fetch directly.
+export function exportGraphUrl(params: ExportGraphParams = {}): string {
+  return API_BASE + `/export/graph` + buildQuery({
+    format: params.format,
+    table: params.table,
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated,
+    keywords: params.keywords,
+    maxHops: params.maxHops,
+    principal: params.principal
+  });
+}
+
+export interface ExportRdfParams {
+  format?: 'turtle' | 'ntriples' | 'jsonld';
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+}
+
+// Filtered triple store as RDF. Download URL for the browser to fetch directly.
+export function exportRdfUrl(params: ExportRdfParams = {}): string {
+  return API_BASE + `/export/rdf` + buildQuery({
+    format: params.format,
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated
+  });
+}
+
+export interface ExportTriplesParams {
+  // Tag cluster ids; a triple matches if any of its top 3 clusters is listed
+  clusters?: number[];
+  // Document categories
+  categories?: string[];
+  // First year (applies only together with yearMax)
+  yearMin?: number;
+  // Last year (applies only together with yearMin)
+  yearMax?: number;
+  // Keep undated triples when filtering by year
+  includeUndated?: boolean;
+}
+
+// Every triple as NDJSON (bulk export). Download URL for the browser to fetch directly. Requires an API key with the export scope.
+export function exportTriplesUrl(params: ExportTriplesParams = {}): string {
+  return API_BASE + `/export/triples` + buildQuery({
+    clusters: params.clusters,
+    categories: params.categories,
+    yearMin: params.yearMin,
+    yearMax: params.yearMax,
+    includeUndated: params.includeUndated
+  });
+}
+
+// ---- Analytics ----
+
+export interface FetchEntityAnalyticsParams {
+  sort?: 'degree' | 'weighted_degree' | 'betweenness' | 'pagerank' | 'eigenvector' | 'community_id';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+  // Only entities in this community
+  community?: number;
+  // Name substring
+  q?: string;
+}
+
+// Centrality metrics and community ids per canonical entity
+export function fetchEntityAnalytics(params: FetchEntityAnalyticsParams = {}, options: RequestOptions = {}): Promise<{ entities: EntityAnalytics[]; total: number }> {
+  return request('GET', `/analytics/entities` + buildQuery({
+    sort: params.sort,
+    order: params.order,
+    limit: params.limit,
+    offset: params.offset,
+    community: params.community,
+    q: params.q
+  }), undefined, options);
+}
+
+// Community id for every canonical entity
+export function fetchEntityCommunities(options: RequestOptions = {}): Promise<Record<string, number>> {
+  return request('GET', `/analytics/communities`, undefined, options);
+}
+
+// ---- Documents ----
+
+// Document, triple and actor counts
+export function fetchStats(options: RequestOptions = {}): Promise<Stats> {
+  return request('GET', `/stats`, undefined, options);
+}
+
+export interface SearchDocumentsParams {
+  // Words or "quoted phrases" (all must match)
+  q?: string;
+  limit?: number;
+  // Document categories
+  categories?: string[];
+}
+
+// Full-text document search
+export function searchDocuments(params: SearchDocumentsParams = {}, options: RequestOptions = {}): Promise<{ results: DocumentSearchResult[]; total: number }> {
+  return request('GET', `/documents/search` + buildQuery({
+    q: params.q,
+    limit: params.limit,
+    categories: params.categories
+  }), undefined, options);
+}
+
+export interface FetchDocumentParams {
+  docId: string;
+}
+
+// Document metadata
+export function fetchDocument(params: FetchDocumentParams, options: RequestOptions = {}): Promise<Document> {
+  return request('GET', `/document/${encodeURIComponent(params.docId)}`, undefined, options);
+}
+
+export interface FetchDocumentTextParams {
+  docId: string;
+}
+
+// Full document text
+export function fetchDocumentText(params: FetchDocumentTextParams, options: RequestOptions = {}): Promise<{ text: string }> {
+  return request('GET', `/document/${encodeURIComponent(params.docId)}/text`, undefined, options);
+}
+
+// Tag clusters with names and exemplars
+export function fetchTagClusters(options: RequestOptions = {}): Promise<TagCluster[]> {
+  return request('GET', `/tag-clusters`, undefined, options);
+}
+
+// ---- Community edits ----
+
+export interface FetchTripleEditsParams {
+  tripleId: number;
+  // Anonymous browser fingerprint
+  fingerprint?: string;
+  includeRejected?: boolean;
+}
+
+// Edit proposals for a triple, best-voted first
+export function fetchTripleEdits(params: FetchTripleEditsParams, options: RequestOptions = {}): Promise<{ edits: EditProposal[]; totalCount: number }> {
+  return request('GET', `/edits/triple/${encodeURIComponent(params.tripleId)}` + buildQuery({
+    fingerprint: params.fingerprint,
+    includeRejected: params.includeRejected
+  }), undefined, options);
+}
+
+export interface FetchEditSummaryParams {
+  tripleIds: number[];
+}
+
+// Proposal counts by status for many triples
+export function fetchEditSummary(params: FetchEditSummaryParams, options: RequestOptions = {}): Promise<{ summary: Record<number, EditSummary> }> {
+  return request('POST', `/edits/summary`, { tripleIds: params.tripleIds }, options);
+}
+
+export interface CreateEditParams {
+  tripleId: number;
+  docId: string;
+  editType: 'identify_actor' | 'identify_target' | 'correct_actor' | 'correct_target' | 'add_context' | 'dispute';
+  proposedValue: string;
+  originalValue: string;
+  evidenceText: string;
+  supportingDocIds?: string[];
+  submitterName?: string;
+  // Anonymous browser fingerprint
+  submitterFingerprint: string;
+}
+
+// Propose an edit to a triple
+export function createEdit(params: CreateEditParams, options: RequestOptions = {}): Promise<EditProposal> {
+  return request('POST', `/edits`, {
+    tripleId: params.tripleId,
+    docId: params.docId,
+    editType: params.editType,
+    proposedValue: params.proposedValue,
+    originalValue: params.originalValue,
+    evidenceText: params.evidenceText,
+    supportingDocIds: params.supportingDocIds,
+    submitterName: params.submitterName,
+    submitterFingerprint: params.submitterFingerprint
+  }, options);
+}
+
+export interface VoteOnEditParams {
+  editId: number;
+  // 1 = upvote, -1 = downvote
+  vote: number;
+  // Anonymous browser fingerprint
+  voterFingerprint: string;
+}
+
+// Vote on an edit proposal
+export function voteOnEdit(params: VoteOnEditParams, options: RequestOptions = {}): Promise<EditProposal> {
+  return request('POST', `/edits/${encodeURIComponent(params.editId)}/vote`, {
+    vote: params.vote,
+    voterFingerprint: params.voterFingerprint
+  }, options);
+}
+
+export interface FetchEditCommentsParams {
+  editId: number;
+  // Anonymous browser fingerprint
+  fingerprint?: string;
+}
+
+// Threaded discussion for an edit
+export function fetchEditComments(params: FetchEditCommentsParams, options: RequestOptions = {}): Promise<{ comments: EditComment[] }> {
+  return request('GET', `/edits/${encodeURIComponent(params.editId)}/comments` + buildQuery({ fingerprint: params.fingerprint }), undefined, options);
+}
+
+export interface PostEditCommentParams {
+  editId: number;
+  commentText: string;
+  parentCommentId?: number;
+  commenterName?: string;
+  // Anonymous browser fingerprint
+  commenterFingerprint: string;
+}
+
+// Comment on an edit
+export function postEditComment(params: PostEditCommentParams, options: RequestOptions = {}): Promise<EditComment> {
+  return request('POST', `/edits/${encodeURIComponent(params.editId)}/comments`, {
+    commentText: params.commentText,
+    parentCommentId: params.parentCommentId,
+    commenterName: params.commenterName,
+    commenterFingerprint: params.commenterFingerprint
+  }, options);
+}
+
+export interface VoteOnCommentParams {
+  commentId: number;
+  // 1 = upvote, -1 = downvote
+  vote: number;
+  // Anonymous browser fingerprint
+  voterFingerprint: string;
+}
+
+// Vote on a comment
+export function voteOnComment(params: VoteOnCommentParams, options: RequestOptions = {}): Promise<EditComment> {
+  return request('POST', `/comments/${encodeURIComponent(params.commentId)}/vote`, {
+    vote: params.vote,
+    voterFingerprint: params.voterFingerprint
+  }, options);
+}
+
+export interface FlagContentParams {
+  targetType: 'edit' | 'comment';
+  targetId: number;
+  flagReason: 'spam' | 'abuse' | 'misinformation' | 'duplicate';
+  // Anonymous browser fingerprint
+  flaggerFingerprint: string;
+}
+
+// Flag an edit or comment for moderators
+export function flagContent(params: FlagContentParams, options: RequestOptions = {}): Promise<{ id: number; flagCount: number }> {
+  return request('POST', `/moderation/flag`, {
+    targetType: params.targetType,
+    targetId: params.targetId,
+    flagReason: params.flagReason,
+    flaggerFingerprint: params.flaggerFingerprint
+  }, options);
+}
+
+// ---- Moderation ----
+
+export interface FetchModerationQueueParams {
+  includeReviewed?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+// Flagged content, most-flagged first
+export function fetchModerationQueue(params: FetchModerationQueueParams = {}, options: RequestOptions = {}): Promise<{ items: ModerationQueueItem[]; total: number }> {
+  return request('GET', `/admin/flags` + buildQuery({
+    includeReviewed: params.includeReviewed,
+    limit: params.limit,
+    offset: params.offset
+  }), undefined, options);
+}
+
+export interface SetContentModerationParams {
+  targetType: 'edit' | 'comment';
+  targetId: number;
+  action: 'hide' | 'restore';
+  note?: string;
+}
+
+// Hide or restore an edit or comment
+export function setContentModeration(params: SetContentModerationParams, options: RequestOptions = {}): Promise<{ target_type: 'edit' | 'comment'; target_id: number; hidden: boolean }> {
+  return request('POST', `/admin/content/${encodeURIComponent(params.targetType)}/${encodeURIComponent(params.targetId)}/${encodeURIComponent(params.action)}`, { note: params.note }, options);
+}
+
+export interface DeleteContentParams {
+  targetType: 'edit' | 'comment';
+  targetId: number;
+}
+
+// Delete an edit or comment with everything under it
+export function deleteContent(params: DeleteContentParams, options: RequestOptions = {}): Promise<{ deleted: number }> {
+  return request('DELETE', `/admin/content/${encodeURIComponent(params.targetType)}/${encodeURIComponent(params.targetId)}`, undefined, options);
+}
+
+// Banned fingerprints
+export function fetchBans(options: RequestOptions = {}): Promise<{ bans: BannedFingerprint[] }> {
+  return request('GET', `/admin/bans`, undefined, options);
+}
+
+export interface BanFingerprintParams {
+  // Stored fingerprint hash
+  fingerprint: string;
+  reason?: string;
+  // Also hide everything it posted
+  hideContent?: boolean;
+}
+
+// Ban a fingerprint from contributing
+export function banFingerprint(params: BanFingerprintParams, options: RequestOptions = {}): Promise<{ fingerprint: string; hidden: number }> {
+  return request('POST', `/admin/bans`, {
+    fingerprint: params.fingerprint,
+    reason: params.reason,
+    hideContent: params.hideContent
+  }, options);
 }
 
-export async function searchActors(query: string): Promise<Actor[]> {
-  const response = await fetch(`${API_BASE}/search?q=${encodeURIComponent(query)}`);
-  if (!response.ok) throw new Error('Failed to search actors');
-  return response.json();
+export interface UnbanFingerprintParams {
+  // Stored fingerprint hash
+  fingerprint: string;
 }
 
-export async function fetchDocument(docId: string): Promise<import('./types').Document> {
-  const response = await fetch(`${API_BASE}/document/${encodeURIComponent(docId)}`);
-  if (!response.ok) throw new Error('Failed to fetch document');
-  return response.json();
+// Lift a ban
+export function unbanFingerprint(params: UnbanFingerprintParams, options: RequestOptions = {}): Promise<void> {
+  return request('DELETE', `/admin/bans/${encodeURIComponent(params.fingerprint)}`, undefined, options);
 }
 
-export async function fetchDocumentText(docId: string): Promise<{ text: string }> {
-  const response = await fetch(`${API_BASE}/document/${encodeURIComponent(docId)}/text`);
-  if (!response.ok) throw new Error('Failed to fetch document text');
-  return response.json();
+// JSON backup of all community data
+export function exportCommunityData(options: RequestOptions = {}): Promise<unknown> {
+  return request('GET', `/admin/export`, undefined, options);
 }
 
-export async function fetchActorCounts(limit: number = 300): Promise<Record<string, number>> {
-  const params = new URLSearchParams({ limit: limit.toString() });
-  const response = await fetch(`${API_BASE}/actor-counts?${params}`);
-  if (!response.ok) throw new Error('Failed to fetch actor counts');
-  return response.json();
+export interface ImportCommunityDataParams {
+  body: unknown;
 }
 
-export async function fetchActorCount(name: string): Promise<number> {
-  const url = `${API_BASE}/actor/${encodeURIComponent(name)}/count`;
-  const response = await fetch(url);
-  if (!response.ok) throw new Error('Failed to fetch actor count');
-  const data = await response.json();
-  return data.count;
+// Replace all community data with a backup
+export function importCommunityData(params: ImportCommunityDataParams, options: RequestOptions = {}): Promise<{ imported: Record<string, number> }> {
+  return request('POST', `/admin/import`, params.body, options);
 }
@@ -0,0 +1,19 @@
+import type { EditType, FlagReason } from './types';
+
+// Display labels for community edit enums, shared by the edit components
+
+export const EDIT_TYPE_LABELS: Record<EditType, string> = {
+  identify_actor: 'Identify unknown actor',
+  identify_target: 'Identify unknown target',
+  correct_actor: 'Correct misidentified actor',
+  correct_target: 'Correct misidentified target',
+  add_context: 'Add context',
+  dispute: 'Dispute this relationship'
+};
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  spam: 'Spam',
+  abuse: 'Abusive',
+  misinformation: 'Misinformation',
+  duplicate: 'Duplicate'
+};
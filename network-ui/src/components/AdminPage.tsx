@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchModerationQueue,
+  setContentModeration,
+  deleteContent,
+  fetchBans,
+  banFingerprint,
+  unbanFingerprint,
+  exportCommunityData,
+  importCommunityData
+} from '../api';
+import type { ModerationQueueItem, BannedFingerprint } from '../types';
+
+type AdminTab = 'queue' | 'bans' | 'backup';
+
+// Moderation dashboard at /admin, backed by the token-protected /api/admin routes
+export default function AdminPage() {
+  const [token, setToken] = useState(() => sessionStorage.getItem('adminToken') || '');
+  const [tokenInput, setTokenInput] = useState('');
+  const [tab, setTab] = useState<AdminTab>('queue');
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [queueTotal, setQueueTotal] = useState(0);
+  const [includeReviewed, setIncludeReviewed] = useState(false);
+  const [bans, setBans] = useState<BannedFingerprint[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const reload = () => setReloadKey(k => k + 1);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    Promise.all([fetchModerationQueue({ includeReviewed, limit: 200 }, { token }), fetchBans({ token })])
+      .then(([queueData, banData]) => {
+        if (cancelled) return;
+        setQueue(queueData.items);
+        setQueueTotal(queueData.total);
+        setBans(banData.bans);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load moderation data');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, includeReviewed, reloadKey]);
+
+  // Run an admin action, then refresh the queue and ban list. An action may return its own status message.
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      const result = await action();
+      setMessage(typeof result === 'string' ? result : success);
+      setError(null);
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    sessionStorage.setItem('adminToken', tokenInput.trim());
+    setToken(tokenInput.trim());
+  };
+
+  const handleSignOut = () => {
+    sessionStorage.removeItem('adminToken');
+    setToken('');
+    setQueue([]);
+    setBans([]);
+  };
+
+  const handleExport = () => run(async () => {
+    const data = await exportCommunityData({ token });
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `community_edits-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, 'Export downloaded');
+
+  const handleImport = (file: File) => {
+    if (!window.confirm('Replace ALL community edits, votes, comments, flags and bans with this file?')) return;
+    run(async () => {
+      const { imported } = await importCommunityData({ body: JSON.parse(await file.text()) }, { token });
+      return `Imported ${Object.entries(imported).map(([table, count]) => `${count} ${table}`).join(', ')}`;
+    }, 'Import complete');
+  };
+
+  if (!token) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-gray-900 text-white">
+        <form onSubmit={handleSignIn} className="bg-gray-800 rounded-lg p-6 w-80 space-y-3">
+          <h1 className="text-lg font-semibold text-blue-400">Moderation</h1>
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Admin token"
+            className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!tokenInput.trim()}
+            className="w-full px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded text-sm font-medium transition-colors"
+          >
+            Sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-semibold text-blue-400">Community moderation</h1>
+          <div className="flex gap-3 text-sm">
+            <a href="/" className="text-gray-400 hover:text-white">← Explorer</a>
+            <button onClick={handleSignOut} className="text-gray-400 hover:text-white">Sign out</button>
+          </div>
+        </div>
+
+        <div className="flex gap-1.5 mb-4">
+          {([['queue', `Flag queue (${queueTotal})`], ['bans', `Bans (${bans.length})`], ['backup', 'Backup']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1.5 rounded text-sm transition-colors ${
+                tab === id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-700/50 rounded p-2 mb-3 text-sm text-red-300">{error}</div>
+        )}
+        {message && !error && (
+          <div className="bg-green-900/30 border border-green-700/50 rounded p-2 mb-3 text-sm text-green-300">{message}</div>
+        )}
+
+        {tab === 'queue' && (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              <input
+                type="checkbox"
+                checked={includeReviewed}
+                onChange={(e) => setIncludeReviewed(e.target.checked)}
+              />
+              Include reviewed items
+            </label>
+            {queue.length === 0 && <p className="text-gray-500 text-sm">Nothing flagged.</p>}
+            {queue.map(item => (
+              <div key={`${item.target_type}-${item.target_id}`} className="bg-gray-800 border border-gray-700 rounded p-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+                  <span className="px-1.5 py-0.5 rounded bg-gray-700">{item.target_type} #{item.target_id}</span>
+                  <span className="text-red-300">⚑ {item.flag_count}</span>
+                  {Object.entries(item.reasons).map(([reason, count]) => (
+                    <span key={reason} className="text-gray-400">{reason} ×{count}</span>
+                  ))}
+                  <span className="text-gray-500">triple {item.triple_id} · edit {item.edit_proposal_id}</span>
+                  {item.hidden && <span className="px-1.5 py-0.5 rounded bg-yellow-900/40 text-yellow-300">hidden</span>}
+                  {item.reviewed && <span className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300">reviewed</span>}
+                </div>
+                <p className="text-sm text-gray-200 whitespace-pre-wrap">{item.text}</p>
+                <div className="text-xs text-gray-500 mt-1">
+                  {item.author_name || 'Anonymous'} · {item.created_at.slice(0, 10)}
+                  {item.author_banned && <span className="ml-2 text-red-400">author banned</span>}
+                </div>
+                <div className="flex gap-2 mt-2 text-xs">
+                  <button
+                    onClick={() => run(() => setContentModeration({
+                      targetType: item.target_type,
+                      targetId: item.target_id,
+                      action: item.hidden ? 'restore' : 'hide'
+                    }, { token }), item.hidden ? 'Restored' : 'Hidden')}
+                    className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded"
+                  >
+                    {item.hidden ? 'Restore' : 'Hide'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Permanently delete this ${item.target_type}${item.target_type === 'edit' ? ' and its discussion' : ' and its replies'}?`)) {
+                        run(() => deleteContent({ targetType: item.target_type, targetId: item.target_id }, { token }), 'Deleted');
+                      }
+                    }}
+                    className="px-2 py-1 bg-red-900/60 hover:bg-red-800 rounded"
+                  >
+                    Delete
+                  </button>
+                  {item.author_fingerprint && !item.author_banned && (
+                    <button
+                      onClick={() => {
+                        const reason = window.prompt('Ban reason (also hides everything this author posted)');
+                        if (reason !== null) {
+                          run(() => banFingerprint({ fingerprint: item.author_fingerprint!, reason, hideContent: true }, { token }), 'Author banned');
+                        }
+                      }}
+                      className="px-2 py-1 bg-red-900/60 hover:bg-red-800 rounded"
+                    >
+                      Ban author
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {tab === 'bans' && (
+          <div className="space-y-2">
+            {bans.length === 0 && <p className="text-gray-500 text-sm">No banned fingerprints.</p>}
+            {bans.map(ban => (
+              <div key={ban.fingerprint} className="flex items-center justify-between bg-gray-800 border border-gray-700 rounded p-2 text-sm">
+                <div>
+                  <div className="font-mono text-xs text-gray-300">{ban.fingerprint}</div>
+                  <div className="text-xs text-gray-500">{ban.reason || 'No reason given'} · {ban.created_at.slice(0, 10)}</div>
+                </div>
+                <button
+                  onClick={() => run(() => unbanFingerprint({ fingerprint: ban.fingerprint }, { token }), 'Ban lifted')}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+                >
+                  Lift ban
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {tab === 'backup' && (
+          <div className="bg-gray-800 border border-gray-700 rounded p-4 space-y-4 text-sm">
+            <div>
+              <button onClick={handleExport} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded font-medium">
+                Export JSON
+              </button>
+              <p className="text-xs text-gray-500 mt-1">All proposals, votes, comments, flags, moderation decisions and bans.</p>
+            </div>
+            <div>
+              <label className="block text-gray-400 mb-1">Import (replaces everything)</label>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+                className="text-xs text-gray-400"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { fetchEditComments, postEditComment, voteOnComment } from '../api';
+import { getFingerprint } from '../fingerprint';
+import FlagButton from './FlagButton';
+import type { EditComment } from '../types';
+
+interface CommentThreadProps {
+  editId: number;
+  onCommentPosted: () => void;
+}
+
+interface CommentFormProps {
+  onSubmit: (text: string) => Promise<void>;
+  onCancel?: () => void;
+  placeholder: string;
+}
+
+function CommentForm({ onSubmit, onCancel, placeholder }: CommentFormProps) {
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(text.trim());
+      setText('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={2}
+        maxLength={2000}
+        placeholder={placeholder}
+        className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+      />
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-2 py-1 text-xs text-gray-400 hover:text-white">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={!text.trim() || isSubmitting}
+          className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded text-xs transition-colors"
+        >
+          {isSubmitting ? 'Posting...' : 'Post'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  comment: EditComment;
+  depth: number;
+  onReply: (parentId: number, text: string) => Promise<void>;
+  onVote: (commentId: number, vote: 1 | -1) => void;
+}
+
+function CommentItem({ comment, depth, onReply, onVote }: CommentItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+
+  return (
+    <div className={depth > 0 ? 'ml-4 pl-3 border-l border-gray-700' : ''}>
+      <div className="py-1.5">
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span className="text-gray-300">{comment.commenter_name || 'Anonymous'}</span>
+          <span>{comment.created_at.slice(0, 10)}</span>
+        </div>
+        <p className="text-sm text-gray-200 whitespace-pre-wrap mt-0.5">{comment.comment_text}</p>
+        <div className="flex items-center gap-3 mt-1 text-xs">
+          <button
+            onClick={() => onVote(comment.id, 1)}
+            className={comment.user_vote === 1 ? 'text-green-400' : 'text-gray-500 hover:text-green-400'}
+          >
+            ↑
+          </button>
+          <span className="text-gray-400">{comment.net_score}</span>
+          <button
+            onClick={() => onVote(comment.id, -1)}
+            className={comment.user_vote === -1 ? 'text-red-400' : 'text-gray-500 hover:text-red-400'}
+          >
+            ↓
+          </button>
+          <button onClick={() => setIsReplying(!isReplying)} className="text-gray-500 hover:text-white">
+            Reply
+          </button>
+          <FlagButton targetType="comment" targetId={comment.id} />
+        </div>
+        {isReplying && (
+          <div className="mt-1.5">
+            <CommentForm
+              placeholder="Write a reply..."
+              onCancel={() => setIsReplying(false)}
+              onSubmit={async (text) => {
+                await onReply(comment.id, text);
+                setIsReplying(false);
+              }}
+            />
+          </div>
+        )}
+      </div>
+      {comment.replies.map(reply => (
+        <CommentItem key={reply.id} comment={reply} depth={depth + 1} onReply={onReply} onVote={onVote} />
+      ))}
+    </div>
+  );
+}
+
+// Threaded discussion for one edit proposal
+export default function CommentThread({ editId, onCommentPosted }: CommentThreadProps) {
+  const [comments, setComments] = useState<EditComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFingerprint()
+      .then(fingerprint => fetchEditComments({ editId, fingerprint }))
+      .then(data => {
+        if (cancelled) return;
+        setComments(data.comments);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load comments');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [editId, reloadKey]);
+
+  const handlePost = async (text: string, parentCommentId?: number) => {
+    const commenterName = localStorage.getItem('communityName') || undefined;
+    await postEditComment({
+      editId,
+      commentText: text,
+      parentCommentId,
+      commenterName,
+      commenterFingerprint: await getFingerprint()
+    });
+    setReloadKey(k => k + 1);
+    onCommentPosted();
+  };
+
+  const handleVote = async (commentId: number, vote: 1 | -1) => {
+    try {
+      await voteOnComment({ commentId, vote, voterFingerprint: await getFingerprint() });
+      setReloadKey(k => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to vote');
+    }
+  };
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700 space-y-2">
+      {loading && <div className="text-xs text-gray-500">Loading discussion...</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {!loading && comments.length === 0 && (
+        <div className="text-xs text-gray-500">No comments yet.</div>
+      )}
+      {comments.map(comment => (
+        <CommentItem
+          key={comment.id}
+          comment={comment}
+          depth={0}
+          onReply={(parentId, text) => handlePost(text, parentId)}
+          onVote={handleVote}
+        />
+      ))}
+      <CommentForm placeholder="Add to the discussion..." onSubmit={(text) => handlePost(text)} />
+    </div>
+  );
+}
@@ -41,8 +41,8 @@ export default function DocumentModal({ docId, highlightTerm, secondaryHighlight
 
       try {
         const [doc, textData] = await Promise.all([
-          fetchDocument(docId),
-          fetchDocumentText(docId)
+          fetchDocument({ docId }),
+          fetchDocumentText({ docId })
         ]);
 
         setDocument(doc);
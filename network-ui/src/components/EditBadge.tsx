@@ -0,0 +1,26 @@
+import type { EditSummary } from '../types';
+
+interface EditBadgeProps {
+  summary: EditSummary | undefined;
+  onClick: () => void;
+}
+
+// Accepted / pending / disputed proposal counts for a timeline row (rejected ones stay hidden)
+export default function EditBadge({ summary, onClick }: EditBadgeProps) {
+  if (!summary || summary.accepted + summary.pending + summary.disputed === 0) return null;
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      title="View community edits"
+      className="inline-flex items-center gap-1.5 px-1.5 py-0.5 rounded bg-gray-700/60 hover:bg-gray-700 text-xs transition-colors"
+    >
+      {summary.accepted > 0 && <span className="text-green-400">✓ {summary.accepted}</span>}
+      {summary.pending > 0 && <span className="text-gray-300">📝 {summary.pending}</span>}
+      {summary.disputed > 0 && <span className="text-yellow-400">⚠️ {summary.disputed}</span>}
+    </button>
+  );
+}
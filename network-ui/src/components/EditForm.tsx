@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { createEdit, searchDocuments } from '../api';
+import { getFingerprint } from '../fingerprint';
+import { EDIT_TYPE_LABELS } from '../communityEdits';
+import type { Relationship, EditType, EditProposal, DocumentSearchResult } from '../types';
+
+interface EditFormProps {
+  relationship: Relationship;
+  initialEditType?: EditType;
+  onSubmitted: (edit: EditProposal) => void;
+  onCancel: () => void;
+}
+
+const MIN_EVIDENCE_LENGTH = 20;
+const MAX_EVIDENCE_LENGTH = 5000;
+const MAX_SUPPORTING_DOCS = 20;
+
+// The value an edit type replaces or comments on
+function originalValueFor(editType: EditType, rel: Relationship): string {
+  if (editType === 'identify_actor' || editType === 'correct_actor') return rel.actor;
+  if (editType === 'identify_target' || editType === 'correct_target') return rel.target;
+  return `${rel.actor} ${rel.action} ${rel.target}`;
+}
+
+export default function EditForm({ relationship, initialEditType, onSubmitted, onCancel }: EditFormProps) {
+  const [editType, setEditType] = useState<EditType>(
+    initialEditType ?? (/unknown|redacted|\?/i.test(relationship.actor) ? 'identify_actor' : 'correct_actor')
+  );
+  const [proposedValue, setProposedValue] = useState('');
+  const [evidenceText, setEvidenceText] = useState('');
+  const [submitterName, setSubmitterName] = useState(() => localStorage.getItem('communityName') || '');
+  const [supportingDocIds, setSupportingDocIds] = useState<string[]>([]);
+  const [docQuery, setDocQuery] = useState('');
+  const [docResults, setDocResults] = useState<DocumentSearchResult[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const originalValue = originalValueFor(editType, relationship);
+  const isFreeText = editType === 'add_context' || editType === 'dispute';
+  const evidenceLength = evidenceText.trim().length;
+  const canSubmit = proposedValue.trim().length > 0
+    && evidenceLength >= MIN_EVIDENCE_LENGTH
+    && evidenceLength <= MAX_EVIDENCE_LENGTH
+    && !isSubmitting;
+
+  // Supporting document picker backed by full-text document search
+  useEffect(() => {
+    if (docQuery.trim().length < 2) return;
+
+    const timeoutId = setTimeout(() => {
+      searchDocuments({ q: docQuery, limit: 8 })
+        .then(data => setDocResults(data.results))
+        .catch(err => {
+          console.error('Document search error:', err);
+          setDocResults([]);
+        });
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [docQuery]);
+
+  const addSupportingDoc = (docId: string) => {
+    setSupportingDocIds(prev =>
+      prev.includes(docId) || prev.length >= MAX_SUPPORTING_DOCS ? prev : [...prev, docId]
+    );
+    setDocQuery('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (submitterName.trim()) {
+        localStorage.setItem('communityName', submitterName.trim());
+      }
+      const edit = await createEdit({
+        tripleId: relationship.id,
+        docId: relationship.doc_id,
+        editType,
+        proposedValue: proposedValue.trim(),
+        originalValue,
+        evidenceText: evidenceText.trim(),
+        supportingDocIds,
+        submitterName: submitterName.trim() || undefined,
+        submitterFingerprint: await getFingerprint()
+      });
+      onSubmitted(edit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit edit');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 bg-gray-900/50 border border-gray-700 rounded p-3">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Edit type</label>
+        <select
+          value={editType}
+          onChange={(e) => setEditType(e.target.value as EditType)}
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+        >
+          {(Object.keys(EDIT_TYPE_LABELS) as EditType[]).map(type => (
+            <option key={type} value={type}>{EDIT_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Currently says</label>
+        <div className="px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-gray-300">
+          {originalValue}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">
+          {isFreeText ? (editType === 'dispute' ? 'What is wrong' : 'Context') : 'Should be'}
+        </label>
+        {isFreeText ? (
+          <textarea
+            value={proposedValue}
+            onChange={(e) => setProposedValue(e.target.value)}
+            rows={2}
+            maxLength={500}
+            className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+          />
+        ) : (
+          <input
+            type="text"
+            value={proposedValue}
+            onChange={(e) => setProposedValue(e.target.value)}
+            maxLength={500}
+            placeholder="e.g., Jeffrey Epstein"
+            className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+          />
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Evidence (required)</label>
+        <textarea
+          value={evidenceText}
+          onChange={(e) => setEvidenceText(e.target.value)}
+          rows={4}
+          placeholder="Explain how you know, citing documents where possible"
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+        />
+        <div className={`text-xs mt-0.5 ${evidenceLength < MIN_EVIDENCE_LENGTH || evidenceLength > MAX_EVIDENCE_LENGTH ? 'text-yellow-500' : 'text-gray-500'}`}>
+          {evidenceLength}/{MIN_EVIDENCE_LENGTH} characters minimum
+        </div>
+      </div>
+
+      <div className="relative">
+        <label className="block text-xs text-gray-400 mb-1">Supporting documents (optional)</label>
+        {supportingDocIds.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-1.5">
+            {supportingDocIds.map(docId => (
+              <span key={docId} className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-blue-900/40 border border-blue-700/50 rounded text-xs text-blue-300">
+                {docId}
+                <button
+                  type="button"
+                  onClick={() => setSupportingDocIds(prev => prev.filter(id => id !== docId))}
+                  className="text-blue-400 hover:text-white"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <input
+          type="text"
+          value={docQuery}
+          onChange={(e) => setDocQuery(e.target.value)}
+          placeholder="Search documents..."
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+        />
+        {docQuery.trim().length >= 2 && docResults.length > 0 && (
+          <div className="absolute z-10 w-full mt-1 bg-gray-700 border border-gray-600 rounded shadow-lg max-h-48 overflow-y-auto">
+            {docResults.map(doc => (
+              <button
+                type="button"
+                key={doc.doc_id}
+                onClick={() => addSupportingDoc(doc.doc_id)}
+                className="w-full px-2 py-1 text-left text-xs hover:bg-gray-600 border-b border-gray-600 last:border-b-0"
+              >
+                <div className="font-medium text-blue-300">{doc.doc_id}</div>
+                <div className="text-gray-400 truncate">{doc.one_sentence_summary}</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Pseudonym (optional)</label>
+        <input
+          type="text"
+          value={submitterName}
+          onChange={(e) => setSubmitterName(e.target.value)}
+          maxLength={100}
+          className="w-full px-2 py-1.5 bg-gray-700 border border-gray-600 rounded text-sm focus:outline-none focus:border-blue-500"
+        />
+      </div>
+
+      {error && (
+        <div className="bg-red-900/30 border border-red-700/50 rounded p-2 text-xs text-red-300">{error}</div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded text-sm transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded text-sm font-medium transition-colors"
+        >
+          {isSubmitting ? 'Submitting...' : 'Submit edit'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { fetchTripleEdits, voteOnEdit } from '../api';
+import { getFingerprint } from '../fingerprint';
+import { EDIT_TYPE_LABELS } from '../communityEdits';
+import EditForm from './EditForm';
+import CommentThread from './CommentThread';
+import FlagButton from './FlagButton';
+import type { Relationship, EditProposal, EditStatus, EditType } from '../types';
+
+interface EditModalProps {
+  relationship: Relationship;
+  initialEditType?: EditType | null;
+  focusEditId?: number; // Proposal to highlight, e.g. the accepted edit behind a corrected name
+  onViewDocument: (docId: string) => void;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<EditStatus, string> = {
+  accepted: 'bg-green-900/40 text-green-300 border-green-700/50',
+  pending: 'bg-gray-700 text-gray-300 border-gray-600',
+  disputed: 'bg-yellow-900/40 text-yellow-300 border-yellow-700/50',
+  rejected: 'bg-red-900/40 text-red-300 border-red-700/50'
+};
+
+export default function EditModal({ relationship, initialEditType, focusEditId, onViewDocument, onChanged, onClose }: EditModalProps) {
+  const [edits, setEdits] = useState<EditProposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(!!initialEditType);
+  const [showRejected, setShowRejected] = useState(false);
+  const [openThreads, setOpenThreads] = useState<Set<number>>(new Set());
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const reloadEdits = () => setReloadKey(k => k + 1);
+
+  useEffect(() => {
+    let cancelled = false;
+    getFingerprint()
+      .then(fingerprint => fetchTripleEdits({ tripleId: relationship.id, fingerprint, includeRejected: showRejected }))
+      .then(data => {
+        if (cancelled) return;
+        setEdits(data.edits);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load edits');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [relationship.id, showRejected, reloadKey]);
+
+  const handleVote = async (editId: number, vote: 1 | -1) => {
+    try {
+      await voteOnEdit({ editId, vote, voterFingerprint: await getFingerprint() });
+      reloadEdits();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to vote');
+    }
+  };
+
+  const toggleThread = (editId: number) => {
+    setOpenThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(editId)) next.delete(editId);
+      else next.add(editId);
+      return next;
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header: the original relationship */}
+        <div className="p-6 border-b border-gray-700 flex justify-between items-start">
+          <div className="flex-1">
+            <h2 className="text-xl font-semibold text-blue-400 mb-2">Community edits</h2>
+            <div className="text-sm">
+              <span className="font-medium text-blue-300">{relationship.actor}</span>
+              <span className="text-gray-400 mx-1">{relationship.action}</span>
+              <span className="font-medium text-blue-300">{relationship.target}</span>
+            </div>
+            <div className="flex gap-3 mt-1 text-xs text-gray-500">
+              {relationship.timestamp && <span>{relationship.timestamp}</span>}
+              {relationship.location && <span>📍 {relationship.location}</span>}
+              <button
+                onClick={() => onViewDocument(relationship.doc_id)}
+                className="text-blue-400 hover:text-blue-300 underline"
+              >
+                {relationship.doc_id}
+              </button>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="ml-4 text-gray-400 hover:text-white text-2xl leading-none transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {showForm ? (
+            <EditForm
+              relationship={relationship}
+              initialEditType={initialEditType ?? undefined}
+              onSubmitted={() => {
+                setShowForm(false);
+                reloadEdits();
+                onChanged();
+              }}
+              onCancel={() => setShowForm(false)}
+            />
+          ) : (
+            <div className="flex justify-between items-center">
+              <button
+                onClick={() => setShowForm(true)}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium transition-colors"
+              >
+                Propose new edit
+              </button>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={showRejected}
+                  onChange={(e) => setShowRejected(e.target.checked)}
+                />
+                Show rejected
+              </label>
+            </div>
+          )}
+
+          {loading && <div className="text-sm text-gray-500">Loading proposals...</div>}
+          {error && (
+            <div className="bg-red-900/30 border border-red-700/50 rounded p-2 text-xs text-red-300">{error}</div>
+          )}
+          {!loading && edits.length === 0 && !showForm && (
+            <div className="text-sm text-gray-500">No edits proposed for this relationship yet.</div>
+          )}
+
+          {/* Proposals arrive sorted by net score */}
+          {edits.map(edit => (
+            <div
+              key={edit.id}
+              className={`bg-gray-900/50 border rounded p-3 ${edit.id === focusEditId ? 'border-blue-500' : 'border-gray-700'}`}
+            >
+              <div className="flex gap-3">
+                <div className="flex flex-col items-center text-sm">
+                  <button
+                    onClick={() => handleVote(edit.id, 1)}
+                    className={edit.user_vote === 1 ? 'text-green-400' : 'text-gray-500 hover:text-green-400'}
+                    title="Upvote"
+                  >
+                    ▲
+                  </button>
+                  <span className="font-medium">{edit.net_score}</span>
+                  <button
+                    onClick={() => handleVote(edit.id, -1)}
+                    className={edit.user_vote === -1 ? 'text-red-400' : 'text-gray-500 hover:text-red-400'}
+                    title="Downvote"
+                  >
+                    ▼
+                  </button>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-1.5 py-0.5 rounded border text-xs ${STATUS_STYLES[edit.status]}`}>
+                      {edit.status}
+                    </span>
+                    <span className="text-xs text-gray-400">{EDIT_TYPE_LABELS[edit.edit_type]}</span>
+                  </div>
+                  <div className="text-sm">
+                    <span className="text-gray-500 line-through">{edit.original_value}</span>
+                    <span className="text-gray-500 mx-1">→</span>
+                    <span className="text-gray-100">{edit.proposed_value}</span>
+                  </div>
+                  <p className="text-sm text-gray-300 whitespace-pre-wrap mt-2">{edit.evidence_text}</p>
+                  {edit.supporting_doc_ids.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {edit.supporting_doc_ids.map(docId => (
+                        <button
+                          key={docId}
+                          onClick={() => onViewDocument(docId)}
+                          className="px-1.5 py-0.5 bg-blue-900/40 border border-blue-700/50 rounded text-xs text-blue-300 hover:text-white"
+                        >
+                          {docId}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
+                    <span>
+                      {edit.submitter_name || 'Anonymous'} · {edit.created_at.slice(0, 10)} · ↑{edit.upvotes} ↓{edit.downvotes}
+                    </span>
+                    <button onClick={() => toggleThread(edit.id)} className="hover:text-white">
+                      💬 {edit.comment_count} {openThreads.has(edit.id) ? '▲' : '▼'}
+                    </button>
+                    <FlagButton targetType="edit" targetId={edit.id} />
+                  </div>
+                  {openThreads.has(edit.id) && (
+                    <CommentThread editId={edit.id} onCommentPosted={reloadEdits} />
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { flagContent } from '../api';
+import { getFingerprint } from '../fingerprint';
+import { FLAG_REASON_LABELS } from '../communityEdits';
+import type { FlagReason } from '../types';
+
+interface FlagButtonProps {
+  targetType: 'edit' | 'comment';
+  targetId: number;
+}
+
+// Report an edit or comment to moderators
+export default function FlagButton({ targetType, targetId }: FlagButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleFlag = async (reason: FlagReason) => {
+    setIsOpen(false);
+    try {
+      await flagContent({ targetType, targetId, flagReason: reason, flaggerFingerprint: await getFingerprint() });
+      setStatus('Flagged');
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to flag');
+    }
+  };
+
+  if (status) {
+    return <span className="text-xs text-gray-500">{status}</span>;
+  }
+
+  return (
+    <span className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+        title="Report to moderators"
+      >
+        ⚑ Flag
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 bg-gray-700 border border-gray-600 rounded shadow-lg">
+          {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map(reason => (
+            <button
+              key={reason}
+              onClick={() => handleFlag(reason)}
+              className="block w-full px-3 py-1 text-left text-xs whitespace-nowrap hover:bg-gray-600"
+            >
+              {FLAG_REASON_LABELS[reason]}
+            </button>
+          ))}
+        </div>
+      )}
+    </span>
+  );
+}
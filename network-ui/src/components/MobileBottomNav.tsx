@@ -77,7 +77,7 @@ export default function MobileBottomNav({
 
     setIsSearching(true);
     try {
-      const results = await searchActors(query);
+      const results = await searchActors({ q: query });
       setSearchResults(results);
     } catch (error) {
       console.error('Search error:', error);
@@ -3,12 +3,21 @@ import * as d3 from 'd3';
 import type { Relationship, GraphNode, GraphLink } from '../types';
 import { fetchActorCount } from '../api';
 
+// Categorical palette for community coloring (community ids are ordered by size, largest first)
+const COMMUNITY_COLORS = [...d3.schemeTableau10, ...d3.schemeSet3];
+
 interface NetworkGraphProps {
   relationships: Relationship[];
   selectedActor: string | null;
   onActorClick: (actorName: string) => void;
   minDensity: number;
   actorTotalCounts: Record<string, number>;
+  principals: string[];
+  colorMode: 'distance' | 'community';
+  communities: Record<string, number> | null;
+  expandedNodes: Set<string>;
+  onExpandNode: (actorName: string) => Promise<void>;
+  onClearExpansions: () => void;
 }
 
 export default function NetworkGraph({
@@ -16,7 +25,13 @@ export default function NetworkGraph({
   selectedActor,
   onActorClick,
   minDensity,
-  actorTotalCounts
+  actorTotalCounts,
+  principals,
+  colorMode,
+  communities,
+  expandedNodes,
+  onExpandNode,
+  onClearExpansions
 }: NetworkGraphProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const simulationRef = useRef<d3.Simulation<GraphNode, GraphLink> | null>(null);
@@ -25,11 +40,21 @@ export default function NetworkGraph({
   const nodeGroupRef = useRef<d3.Selection<SVGGElement, GraphNode, SVGGElement, unknown> | null>(null);
   const linkGroupRef = useRef<d3.Selection<SVGLineElement, GraphLink, SVGGElement, unknown> | null>(null);
   const [onDemandCounts, setOnDemandCounts] = useState<Record<string, number>>({});
+  const [expandingActor, setExpandingActor] = useState<string | null>(null);
+
+  const expandNode = async (actorName: string) => {
+    setExpandingActor(actorName);
+    try {
+      await onExpandNode(actorName);
+    } finally {
+      setExpandingActor(null);
+    }
+  };
 
   const graphData = useMemo(() => {
     const nodeMap = new Map<string, GraphNode>();
     const links: GraphLink[] = [];
-    const EPSTEIN_NAME = 'Jeffrey Epstein';
+    const principalSet = new Set(principals);
 
     // First pass: build complete graph and deduplicate edges
     const edgeMap = new Map<string, GraphLink & { count: number }>();
@@ -82,14 +107,16 @@ export default function NetworkGraph({
     // Convert edge map to array
     links.push(...Array.from(edgeMap.values()));
 
-    // BFS to calculate distances from Jeffrey Epstein
+    // BFS to calculate distances from the principal(s)
     const distances = new Map<string, number>();
     const queue: string[] = [];
 
-    if (nodeMap.has(EPSTEIN_NAME)) {
-      distances.set(EPSTEIN_NAME, 0);
-      queue.push(EPSTEIN_NAME);
-    }
+    principalSet.forEach(principal => {
+      if (nodeMap.has(principal)) {
+        distances.set(principal, 0);
+        queue.push(principal);
+      }
+    });
 
     // Build adjacency list
     const adjacency = new Map<string, Set<string>>();
@@ -104,7 +131,7 @@ export default function NetworkGraph({
       adjacency.get(targetId)!.add(sourceId);
     });
 
-    // BFS from Epstein
+    // BFS from the principal(s)
     while (queue.length > 0) {
       const current = queue.shift()!;
       const currentDistance = distances.get(current)!;
@@ -118,21 +145,21 @@ export default function NetworkGraph({
       });
     }
 
-    // Count direct connections TO Epstein for each node
-    const directConnectionsToEpstein = new Map<string, number>();
+    // Count direct connections TO a principal for each node
+    const directConnectionsToPrincipal = new Map<string, number>();
     links.forEach(link => {
       const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target.id;
 
-      if (sourceId === EPSTEIN_NAME) {
-        directConnectionsToEpstein.set(targetId, (directConnectionsToEpstein.get(targetId) || 0) + 1);
+      if (principalSet.has(sourceId)) {
+        directConnectionsToPrincipal.set(targetId, (directConnectionsToPrincipal.get(targetId) || 0) + 1);
       }
-      if (targetId === EPSTEIN_NAME) {
-        directConnectionsToEpstein.set(sourceId, (directConnectionsToEpstein.get(sourceId) || 0) + 1);
+      if (principalSet.has(targetId)) {
+        directConnectionsToPrincipal.set(sourceId, (directConnectionsToPrincipal.get(sourceId) || 0) + 1);
       }
     });
 
-    const maxDirectToEpstein = Math.max(...Array.from(directConnectionsToEpstein.values()), 1);
+    const maxDirectToPrincipal = Math.max(...Array.from(directConnectionsToPrincipal.values()), 1);
 
     // Calculate average connections per hop distance for density filtering
     const connectionsByHop = new Map<number, number[]>();
@@ -156,8 +183,11 @@ export default function NetworkGraph({
     const densityThreshold = minDensity / 100;
     const nodesToKeep = new Set<string>();
 
-    // Always keep Epstein
-    nodesToKeep.add(EPSTEIN_NAME);
+    // Always keep the principal(s) and anything pulled in by expanding a node
+    principalSet.forEach(principal => nodesToKeep.add(principal));
+    expandedNodes.forEach(name => {
+      if (nodeMap.has(name)) nodesToKeep.add(name);
+    });
 
     // Keep nodes above density threshold
     for (const node of nodeMap.values()) {
@@ -199,22 +229,26 @@ export default function NetworkGraph({
       filteredConnectionsMap.set(targetId, (filteredConnectionsMap.get(targetId) || 0) + count);
     });
 
-    // Color nodes based on direct connections to Epstein and distance
+    // Color nodes based on direct connections to a principal and distance
     const nodes = Array.from(nodeMap.values())
       .filter(node => nodesToKeep.has(node.id))
       .map(node => {
       const distance = distances.get(node.id) ?? Infinity;
-      const directCount = directConnectionsToEpstein.get(node.id) || 0;
+      const directCount = directConnectionsToPrincipal.get(node.id) || 0;
+      const community = communities?.[node.id];
       let color: string;
 
-      if (node.id === EPSTEIN_NAME) {
-        // Epstein himself - red
+      if (colorMode === 'community' && communities) {
+        // Detected community - categorical palette, gray when the entity has no analytics row
+        color = community === undefined ? '#6b7280' : COMMUNITY_COLORS[community % COMMUNITY_COLORS.length];
+      } else if (principalSet.has(node.id)) {
+        // The principal(s) - red
         color = '#dc2626'; // red-600
       } else if (directCount > 0) {
-        // Has direct connections to Epstein - seamless hue gradient based on count
+        // Has direct connections to a principal - seamless hue gradient based on count
         // ratio 1.0 (max connections) → hue 15 (orange-red)
         // ratio 0.0 (min connections) → hue 45 (yellow)
-        const ratio = directCount / maxDirectToEpstein;
+        const ratio = directCount / maxDirectToPrincipal;
         const hue = 45 - (ratio * 30); // Smooth gradient from yellow to orange-red
         color = `hsl(${hue}, 80%, 60%)`; // constant saturation
       } else if (distance === 2 || distance === 3) {
@@ -238,7 +272,7 @@ export default function NetworkGraph({
       nodes,
       links: filteredLinks
     };
-  }, [relationships, minDensity]);
+  }, [relationships, minDensity, principals, colorMode, communities, expandedNodes]);
 
   useEffect(() => {
     if (!svgRef.current) return;
@@ -283,9 +317,6 @@ export default function NetworkGraph({
       .range([minRadius, maxRadius])
       .clamp(true);
 
-    // Find Epstein node to center around
-    const epsteinNode = graphData.nodes.find(n => n.id === 'Jeffrey Epstein');
-
     // Create simulation
     const simulation = d3.forceSimulation(graphData.nodes as any)
       .force('link', d3.forceLink(graphData.links as any)
@@ -357,6 +388,11 @@ export default function NetworkGraph({
       .on('click', (event, d) => {
         event.stopPropagation();
         onActorClick(d.id);
+      })
+      .on('contextmenu', (event, d) => {
+        // Right-click grows the graph outward from this node
+        event.preventDefault();
+        expandNode(d.id);
       });
 
     // Add labels
@@ -396,7 +432,7 @@ export default function NetworkGraph({
 
         // Fetch on-demand
         try {
-          const count = await fetchActorCount(d.name);
+          const { count } = await fetchActorCount({ name: d.name });
           setOnDemandCounts(prev => ({ ...prev, [d.name]: count }));
           totalCount = count;
 
@@ -506,10 +542,34 @@ export default function NetworkGraph({
         ref={svgRef}
         className="w-full h-full bg-gray-950"
       />
+      {/* Expand controls */}
+      {(selectedActor || expandedNodes.size > 0) && (
+        <div className="absolute top-3 right-3 flex gap-2">
+          {selectedActor && (
+            <button
+              onClick={() => expandNode(selectedActor)}
+              disabled={expandingActor !== null}
+              className="px-3 py-1.5 bg-gray-800/90 hover:bg-gray-700 disabled:opacity-50 border border-gray-600 rounded text-xs text-gray-200 transition-colors"
+            >
+              {expandingActor ? `Expanding ${expandingActor}...` : `Expand ${selectedActor}`}
+            </button>
+          )}
+          {expandedNodes.size > 0 && (
+            <button
+              onClick={onClearExpansions}
+              className="px-3 py-1.5 bg-gray-800/90 hover:bg-gray-700 border border-gray-600 rounded text-xs text-gray-200 transition-colors"
+            >
+              Clear expansions
+            </button>
+          )}
+        </div>
+      )}
       {/* Instructions Overlay Banner */}
       <div className="absolute bottom-0 left-0 right-0 bg-gray-900/50 backdrop-blur-sm px-4 py-2 text-xs text-gray-300 text-center">
         <span>Click nodes to explore relationships</span>
         <span className="mx-3">•</span>
+        <span>Right-click to expand</span>
+        <span className="mx-3">•</span>
         <span>Scroll to zoom</span>
         <span className="mx-3">•</span>
         <span>Drag to pan</span>
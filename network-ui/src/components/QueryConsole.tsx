@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { runGraphQuery } from '../api';
+import type { GraphQueryResult, Relationship } from '../types';
+
+interface QueryConsoleProps {
+  onClose: () => void;
+  onActorSelect: (actor: string) => void;
+  onDocumentClick: (docId: string) => void;
+}
+
+const EXAMPLE_QUERIES = [
+  'MATCH (p)-[:met]->("Jeffrey Epstein"), (p)-[r:paid]->(y)\nWHERE r.year BETWEEN 2002 AND 2005\nRETURN p, y, r',
+  'MATCH (a)-[:flew]->(b)-[:flew]->(c)\nWHERE a != c\nRETURN a, b, c\nLIMIT 50',
+  'MATCH (p)-[r]-("Jeffrey Epstein")\nWHERE r.tag CONTAINS "financial" AND r.category = "court_filing"\nRETURN p, r'
+];
+
+export default function QueryConsole({ onClose, onActorSelect, onDocumentClick }: QueryConsoleProps) {
+  const [query, setQuery] = useState(EXAMPLE_QUERIES[0]);
+  const [result, setResult] = useState<GraphQueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    if (!query.trim() || isRunning) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await runGraphQuery({ query }));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to run query');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const renderEdge = (rel: Relationship) => (
+    <div className="text-xs">
+      <span className="text-gray-300">{rel.actor}</span>{' '}
+      <span className="text-yellow-300">{rel.action}</span>{' '}
+      <span className="text-gray-300">{rel.target}</span>
+      <div className="text-gray-500">
+        {rel.timestamp || 'undated'}
+        {rel.location && ` · ${rel.location}`}
+        {' · '}
+        <button
+          onClick={() => onDocumentClick(rel.doc_id)}
+          className="text-blue-400 hover:text-blue-300 underline"
+        >
+          {rel.doc_id}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <h2 className="text-xl font-semibold text-blue-400">Query Console</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white text-2xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Editor */}
+        <div className="p-4 border-b border-gray-700 space-y-2">
+          <textarea
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                handleRun();
+              }
+            }}
+            rows={5}
+            spellCheck={false}
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded font-mono text-sm text-white focus:outline-none focus:border-blue-500"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex gap-1.5">
+              {EXAMPLE_QUERIES.map((example, i) => (
+                <button
+                  key={i}
+                  onClick={() => setQuery(example)}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs transition-colors"
+                >
+                  Example {i + 1}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 rounded text-sm font-medium transition-colors"
+            >
+              {isRunning ? 'Running...' : 'Run (Ctrl+Enter)'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Nodes: (p), ("Name"), (). Edges: -[r:action|action]-&gt;, &lt;-[...]-, -[...]-.
+            WHERE: r.year BETWEEN a AND b, r.tag / r.action / r.location / r.category / r.doc = or CONTAINS, p != q.
+          </p>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && (
+            <div className="bg-red-900/30 border border-red-700/50 rounded p-3 text-sm text-red-300">
+              {error}
+            </div>
+          )}
+          {result && (
+            <>
+              <div className="text-xs text-gray-500 mb-2">
+                {result.rows.length} row{result.rows.length === 1 ? '' : 's'}
+                {result.truncated && ' (truncated)'} in {result.elapsedMs} ms
+              </div>
+              {result.rows.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-700">
+                      {result.columns.map(col => (
+                        <th key={col.name} className="py-1 pr-3 font-mono font-normal">{col.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.map((row, i) => (
+                      <tr key={i} className="border-b border-gray-700/50 align-top">
+                        {result.columns.map(col => (
+                          <td key={col.name} className="py-1.5 pr-3">
+                            {col.kind === 'node' ? (
+                              <button
+                                onClick={() => onActorSelect(row[col.name] as string)}
+                                className="text-blue-300 hover:text-blue-200 text-left"
+                              >
+                                {row[col.name] as string}
+                              </button>
+                            ) : (
+                              renderEdge(row[col.name] as Relationship)
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
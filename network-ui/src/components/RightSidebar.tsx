@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { searchActors, fetchDocument } from '../api';
-import type { Relationship, Document, Actor } from '../types';
+import { searchActors, fetchDocument, fetchEditSummary } from '../api';
+import type { Relationship, Document, Actor, EditSummary, EditType } from '../types';
 import DocumentModal from './DocumentModal';
+import EditBadge from './EditBadge';
+import EditModal from './EditModal';
 
 interface RightSidebarProps {
   selectedActor: string | null;
@@ -19,6 +21,24 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Actor[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [editSummary, setEditSummary] = useState<Record<number, EditSummary>>({});
+  const [editSummaryVersion, setEditSummaryVersion] = useState(0);
+  const [editTarget, setEditTarget] = useState<{ rel: Relationship; editType: EditType | null; focusEditId?: number } | null>(null);
+
+  // Community edit counts for every triple in the timeline
+  useEffect(() => {
+    if (relationships.length === 0) return;
+
+    let cancelled = false;
+    fetchEditSummary({ tripleIds: relationships.slice(0, 10000).map(rel => rel.id) })
+      .then(data => {
+        if (!cancelled) setEditSummary(data.summary);
+      })
+      .catch(err => console.error('Failed to fetch edit summary:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [relationships, editSummaryVersion]);
 
   if (!selectedActor) return null;
 
@@ -32,7 +52,7 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
 
       setIsSearching(true);
       try {
-        const results = await searchActors(searchQuery);
+        const results = await searchActors({ q: searchQuery });
         setSearchResults(results);
       } catch (error) {
         console.error('Search error:', error);
@@ -72,7 +92,7 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
     if (documentCache.has(rel.doc_id)) return;
 
     // Fetch document metadata using centralized API
-    fetchDocument(rel.doc_id)
+    fetchDocument({ docId: rel.doc_id })
       .then((doc: Document) => {
         setDocumentCache(prev => new Map(prev).set(rel.doc_id, doc));
       })
@@ -83,6 +103,24 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
     setExpandedTripleId(expandedTripleId === id ? null : id);
   };
 
+  // Marks a name that an accepted community edit replaced; links to the proposal
+  const renderCorrection = (rel: Relationship, field: 'actor' | 'target') => {
+    const applied = rel.community_edits?.[field];
+    if (!applied) return null;
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setEditTarget({ rel, editType: null, focusEditId: applied.edit_id });
+        }}
+        title={`Community correction (was "${applied.original}") - view proposal`}
+        className="text-xs text-green-400 hover:text-green-300 align-super ml-0.5"
+      >
+        ✎
+      </button>
+    );
+  };
+
   return (
     <>
       <div className="w-96 bg-gray-800 border-l border-gray-700 flex flex-col h-full overflow-hidden">
@@ -190,9 +228,15 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
                   }`}
                 >
                   <div className="flex items-start justify-between mb-1">
-                    <span className="text-xs text-gray-400">
-                      {rel.timestamp || 'No date'}
-                    </span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-400">
+                        {rel.timestamp || 'No date'}
+                      </span>
+                      <EditBadge
+                        summary={editSummary[rel.id]}
+                        onClick={() => setEditTarget({ rel, editType: null })}
+                      />
+                    </div>
                     {rel.location && (
                       <span className="text-xs text-gray-500">📍 {rel.location}</span>
                     )}
@@ -202,10 +246,24 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
                       <span className={`font-medium ${rel.actor === selectedActor ? 'text-green-400' : 'text-red-400'}`}>
                         {rel.actor}
                       </span>
+                      {renderCorrection(rel, 'actor')}
                       <span className="text-gray-300 mx-1">{rel.action}</span>
                       <span className={`font-medium ${rel.target === selectedActor ? 'text-green-400' : 'text-red-400'}`}>
                         {rel.target}
                       </span>
+                      {renderCorrection(rel, 'target')}
+                      {rel.community_edits?.dispute_edit_ids && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditTarget({ rel, editType: null, focusEditId: rel.community_edits!.dispute_edit_ids![0] });
+                          }}
+                          title="The community has disputed this relationship - view proposal"
+                          className="ml-1.5 px-1 rounded bg-yellow-900/40 text-yellow-300 text-xs"
+                        >
+                          ⚠️ Disputed
+                        </button>
+                      )}
                     </div>
                     <span className="text-gray-500 text-xs ml-2">
                       {expandedTripleId === rel.id ? '▼' : '▶'}
@@ -239,6 +297,34 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
                         </div>
                       )}
                     </button>
+
+                    {/* Community edits */}
+                    <div className="flex gap-3 mt-2 text-xs">
+                      <button
+                        onClick={() => setEditTarget({ rel, editType: 'correct_actor' })}
+                        className="text-blue-400 hover:text-blue-300"
+                      >
+                        ✎ Suggest edit
+                      </button>
+                      <button
+                        onClick={() => setEditTarget({
+                          rel,
+                          editType: rel.actor === selectedActor ? 'correct_target' : 'correct_actor'
+                        })}
+                        className="text-yellow-500 hover:text-yellow-400"
+                        title="Propose the correct name for a misidentified actor"
+                      >
+                        ⚑ Flag misidentified actor
+                      </button>
+                      {editSummary[rel.id] && (
+                        <button
+                          onClick={() => setEditTarget({ rel, editType: null })}
+                          className="text-gray-400 hover:text-white"
+                        >
+                          View edits
+                        </button>
+                      )}
+                    </div>
                   </div>
                 )}
 
@@ -252,21 +338,33 @@ export default function RightSidebar({ selectedActor, relationships, totalRelati
         </div>
       </div>
 
-      {/* Document Modal */}
+      {/* Edit Modal */}
+      {editTarget && (
+        <EditModal
+          relationship={editTarget.rel}
+          initialEditType={editTarget.editType}
+          focusEditId={editTarget.focusEditId}
+          onViewDocument={setDocumentToView}
+          onChanged={() => setEditSummaryVersion(v => v + 1)}
+          onClose={() => setEditTarget(null)}
+        />
+      )}
+
+      {/* Document Modal (supporting documents cited in edits may not be in the timeline) */}
       {documentToView && (() => {
         const rel = sortedRelationships.find(r => r.doc_id === documentToView);
-        return rel ? (
+        return (
           <DocumentModal
             docId={documentToView}
             highlightTerm={selectedActor}
             secondaryHighlightTerm={
-              rel.actor === selectedActor
-                ? rel.target
-                : rel.actor
+              rel
+                ? (rel.actor === selectedActor ? rel.target : rel.actor)
+                : null
             }
             onClose={() => setDocumentToView(null)}
           />
-        ) : null;
+        );
       })()}
     </>
   );
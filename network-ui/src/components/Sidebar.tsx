@@ -1,6 +1,18 @@
 import { useState, useEffect, useRef } from 'react';
-import { searchActors } from '../api';
-import type { Stats, Actor, TagCluster } from '../types';
+import { searchActors, searchDocuments, exportGraphUrl, type ExportGraphParams } from '../api';
+import { graphFilterParams } from '../graphFilters';
+import type { Stats, Actor, TagCluster, DocumentSearchResult } from '../types';
+import DocumentModal from './DocumentModal';
+import QueryConsole from './QueryConsole';
+
+// Render an FTS snippet, turning <mark> markers into highlighted spans (text stays escaped)
+function renderSnippet(snippet: string) {
+  return snippet.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+    part.startsWith('<mark>')
+      ? <mark key={i} className="bg-yellow-500/40 text-yellow-100 rounded px-0.5">{part.slice(6, -7)}</mark>
+      : <span key={i}>{part}</span>
+  );
+}
 
 interface SidebarProps {
   stats: Stats | null;
@@ -23,6 +35,14 @@ interface SidebarProps {
   onIncludeUndatedChange: (include: boolean) => void;
   keywords: string;
   onKeywordsChange: (keywords: string) => void;
+  principals: string[];
+  isDefaultPrincipal: boolean;
+  onCenterOnActor: (actor: string | null) => void;
+  colorMode: 'distance' | 'community';
+  onColorModeChange: (mode: 'distance' | 'community') => void;
+  communitiesUnavailable: boolean;
+  applyEdits: boolean;
+  onApplyEditsChange: (apply: boolean) => void;
 }
 
 export default function Sidebar({
@@ -45,15 +65,31 @@ export default function Sidebar({
   includeUndated,
   onIncludeUndatedChange,
   keywords,
-  onKeywordsChange
+  onKeywordsChange,
+  principals,
+  isDefaultPrincipal,
+  onCenterOnActor,
+  colorMode,
+  onColorModeChange,
+  communitiesUnavailable,
+  applyEdits,
+  onApplyEditsChange
 }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Actor[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  const [docQuery, setDocQuery] = useState('');
+  const [docResults, setDocResults] = useState<DocumentSearchResult[]>([]);
+  const [docTotal, setDocTotal] = useState(0);
+  const [isSearchingDocs, setIsSearchingDocs] = useState(false);
+  const [documentToView, setDocumentToView] = useState<string | null>(null);
   const [categoriesExpanded, setCategoriesExpanded] = useState(false);
   const [contentFiltersExpanded, setContentFiltersExpanded] = useState(false);
   const [graphSettingsExpanded, setGraphSettingsExpanded] = useState(false);
   const [filtersExpanded, setFiltersExpanded] = useState(true);
+  const [exportExpanded, setExportExpanded] = useState(false);
+  const [exportFormat, setExportFormat] = useState<NonNullable<ExportGraphParams['format']>>('gexf');
+  const [showQueryConsole, setShowQueryConsole] = useState(false);
   const [localYearRange, setLocalYearRange] = useState<[number, number]>(yearRange);
   const [localLimit, setLocalLimit] = useState(limit);
   const [localKeywords, setLocalKeywords] = useState(keywords);
@@ -71,7 +107,7 @@ export default function Sidebar({
 
       setIsSearching(true);
       try {
-        const results = await searchActors(searchQuery);
+        const results = await searchActors({ q: searchQuery });
         setSearchResults(results);
       } catch (error) {
         console.error('Search error:', error);
@@ -85,6 +121,32 @@ export default function Sidebar({
     return () => clearTimeout(timeoutId);
   }, [searchQuery]);
 
+  useEffect(() => {
+    const performDocSearch = async () => {
+      if (docQuery.trim().length < 3) {
+        setDocResults([]);
+        setDocTotal(0);
+        return;
+      }
+
+      setIsSearchingDocs(true);
+      try {
+        const response = await searchDocuments({ q: docQuery });
+        setDocResults(response.results);
+        setDocTotal(response.total);
+      } catch (error) {
+        console.error('Document search error:', error);
+        setDocResults([]);
+        setDocTotal(0);
+      } finally {
+        setIsSearchingDocs(false);
+      }
+    };
+
+    const timeoutId = setTimeout(performDocSearch, 400);
+    return () => clearTimeout(timeoutId);
+  }, [docQuery]);
+
   // Sync external yearRange changes to local state
   useEffect(() => {
     setLocalYearRange(yearRange);
@@ -170,6 +232,7 @@ export default function Sidebar({
   };
 
   return (
+    <>
     <div className="w-80 bg-gray-800 border-r border-gray-700 flex flex-col h-screen overflow-hidden">
       {/* Header */}
       <div className="px-6 py-3 border-b border-gray-700 flex-shrink-0">
@@ -223,12 +286,23 @@ export default function Sidebar({
               <div className="text-xs text-gray-400 mb-1">Selected actor:</div>
               <div className="font-medium text-blue-300">{selectedActor}</div>
             </div>
-            <button
-              onClick={() => onActorSelect(null)}
-              className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-xs font-medium transition-colors"
-            >
-              Clear
-            </button>
+            <div className="flex gap-2">
+              {!principals.includes(selectedActor) && (
+                <button
+                  onClick={() => onCenterOnActor(selectedActor)}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs font-medium transition-colors"
+                  title="Measure hop distances from this actor"
+                >
+                  Center
+                </button>
+              )}
+              <button
+                onClick={() => onActorSelect(null)}
+                className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-xs font-medium transition-colors"
+              >
+                Clear
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -265,8 +339,16 @@ export default function Sidebar({
               {/* Hop Distance Slider */}
               <div className="mb-4">
                 <label className="block text-sm text-gray-400 mb-2">
-                  Maximum hops from Jeffrey Epstein: {maxHops === null ? 'Any' : maxHops}
+                  Maximum hops from {principals.length > 0 ? principals.join(', ') : 'principal'}: {maxHops === null ? 'Any' : maxHops}
                 </label>
+                {!isDefaultPrincipal && (
+                  <button
+                    onClick={() => onCenterOnActor(null)}
+                    className="text-xs text-blue-400 hover:text-blue-300 mb-2"
+                  >
+                    Reset to default center
+                  </button>
+                )}
                 <div className="flex items-center gap-2">
                   <input
                     type="range"
@@ -291,6 +373,44 @@ export default function Sidebar({
                 </div>
               </div>
 
+              {/* Node Coloring */}
+              <div className="mb-4">
+                <label className="block text-sm text-gray-400 mb-2">Color nodes by</label>
+                <div className="flex gap-1.5">
+                  {(['distance', 'community'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => onColorModeChange(mode)}
+                      disabled={mode === 'community' && communitiesUnavailable}
+                      className={`flex-1 px-2 py-1 rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        colorMode === mode
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {mode === 'distance' ? 'Hop distance' : 'Community'}
+                    </button>
+                  ))}
+                </div>
+                {communitiesUnavailable && (
+                  <p className="text-xs text-gray-500 mt-1">Community data not computed on the server</p>
+                )}
+              </div>
+
+              {/* Community edits overlay */}
+              <div className="mb-4 flex items-center">
+                <input
+                  type="checkbox"
+                  id="applyEdits"
+                  checked={applyEdits}
+                  onChange={(e) => onApplyEditsChange(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+                />
+                <label htmlFor="applyEdits" className="ml-2 text-sm text-gray-400 cursor-pointer">
+                  Apply accepted community edits
+                </label>
+              </div>
+
               {/* Network Density Slider */}
               <div className="mb-0">
                 <label className="block text-sm text-gray-400 mb-2">
@@ -452,6 +572,59 @@ export default function Sidebar({
                 )}
               </div>
 
+              {/* Document Text Search */}
+              <div className="mb-4">
+                <label className="block text-sm text-gray-400 mb-2">
+                  Search document text:
+                </label>
+                <input
+                  type="text"
+                  value={docQuery}
+                  onChange={(e) => setDocQuery(e.target.value)}
+                  placeholder='e.g., "wire transfer" foundation'
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm focus:outline-none focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Use quotes for exact phrases
+                </p>
+
+                {/* Document Results */}
+                {docQuery.trim().length >= 3 && (
+                  <div className="mt-2 bg-gray-700 border border-gray-600 rounded-lg max-h-72 overflow-y-auto">
+                    {isSearchingDocs ? (
+                      <div className="px-3 py-2 text-sm text-gray-400">
+                        Searching...
+                      </div>
+                    ) : docResults.length > 0 ? (
+                      <>
+                        <div className="px-3 py-1 text-xs text-gray-400 border-b border-gray-600">
+                          {docResults.length} of {docTotal.toLocaleString()} documents
+                        </div>
+                        {docResults.map((doc) => (
+                          <button
+                            key={doc.doc_id}
+                            onClick={() => setDocumentToView(doc.doc_id)}
+                            className="w-full px-3 py-2 text-left hover:bg-gray-600 transition-colors border-b border-gray-600 last:border-b-0"
+                          >
+                            <div className="flex justify-between items-baseline">
+                              <span className="text-sm font-medium text-blue-400">{doc.doc_id}</span>
+                              <span className="text-xs text-gray-500 capitalize">{doc.category.replace(/_/g, ' ')}</span>
+                            </div>
+                            <div className="text-xs text-gray-300 mt-1">
+                              {renderSnippet(doc.snippet)}
+                            </div>
+                          </button>
+                        ))}
+                      </>
+                    ) : (
+                      <div className="px-3 py-2 text-sm text-gray-400">
+                        No documents found
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Keyword Filter */}
               <form onSubmit={handleKeywordSubmit} className="mb-0">
                 <label className="block text-sm text-gray-400 mb-2">
@@ -474,7 +647,7 @@ export default function Sidebar({
                   </button>
                 </div>
                 <p className="text-xs text-gray-500 mt-1">
-                  Comma-separated keywords (fuzzy match)
+                  Comma-separated keywords (prefix match, ranked by relevance)
                 </p>
               </form>
             </>
@@ -611,7 +784,78 @@ export default function Sidebar({
           )}
           </div>
         )}
+
+        {/* Query Console */}
+        <div className="p-4 border-t border-gray-700">
+          <button
+            onClick={() => setShowQueryConsole(true)}
+            className="w-full px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm font-medium transition-colors"
+          >
+            Open Query Console
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="p-4 border-t border-gray-700">
+          <button
+            onClick={() => setExportExpanded(!exportExpanded)}
+            className="w-full flex items-center justify-between text-base font-semibold mb-3 hover:text-blue-400 transition-colors"
+          >
+            <span>Export Graph</span>
+            <span className="text-sm">{exportExpanded ? '▼' : '▶'}</span>
+          </button>
+          {exportExpanded && (
+            <div className="space-y-2">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as NonNullable<ExportGraphParams['format']>)}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-white focus:outline-none focus:border-blue-500"
+              >
+                <option value="gexf">GEXF (Gephi)</option>
+                <option value="graphml">GraphML</option>
+                <option value="cyjs">Cytoscape JSON</option>
+                <option value="csv">CSV edge list</option>
+              </select>
+              <a
+                href={exportGraphUrl({
+                  format: exportFormat,
+                  ...graphFilterParams({
+                    clusterIds: enabledClusterIds, categories: enabledCategories, yearRange, includeUndated, keywords, maxHops, principals
+                  })
+                })}
+                download
+                className="block w-full text-center px-3 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium transition-colors"
+              >
+                Download
+              </a>
+              <p className="text-xs text-gray-500">
+                Uses the current filters. Nodes include degree and hop distance; edges include action, date, location, tags, clusters and document.
+              </p>
+            </div>
+          )}
+        </div>
       </div>
     </div>
+
+    {showQueryConsole && (
+      <QueryConsole
+        onClose={() => setShowQueryConsole(false)}
+        onActorSelect={(actor) => {
+          onActorSelect(actor);
+          setShowQueryConsole(false);
+        }}
+        onDocumentClick={setDocumentToView}
+      />
+    )}
+
+    {/* Document Modal for text search results and query console */}
+    {documentToView && (
+      <DocumentModal
+        docId={documentToView}
+        highlightTerm={docQuery.replace(/"/g, '').trim() || null}
+        onClose={() => setDocumentToView(null)}
+      />
+    )}
+    </>
   );
 }
@@ -0,0 +1,51 @@
+// Anonymous browser fingerprint for community edits (one vote per browser, spam limits).
+// The server only stores a salted hash of it.
+
+const STORAGE_KEY = 'communityFingerprint';
+
+let pending: Promise<string> | null = null;
+
+function canvasSignal(): string {
+  try {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return '';
+    ctx.textBaseline = 'top';
+    ctx.font = '14px Arial';
+    ctx.fillStyle = '#f60';
+    ctx.fillRect(0, 0, 80, 20);
+    ctx.fillStyle = '#069';
+    ctx.fillText('epstein-doc-explorer', 2, 2);
+    return canvas.toDataURL();
+  } catch {
+    return '';
+  }
+}
+
+async function computeFingerprint(): Promise<string> {
+  const signals = [
+    navigator.userAgent,
+    navigator.language,
+    `${screen.width}x${screen.height}x${screen.colorDepth}`,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+    canvasSignal()
+  ].join('|');
+
+  if (crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(signals));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  // Insecure contexts have no SubtleCrypto - fall back to a random per-browser ID
+  return crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function getFingerprint(): Promise<string> {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) return Promise.resolve(stored);
+
+  pending ??= computeFingerprint().then(fingerprint => {
+    localStorage.setItem(STORAGE_KEY, fingerprint);
+    return fingerprint;
+  });
+  return pending;
+}
@@ -0,0 +1,24 @@
+// The sidebar's filter state as API parameters, shared by the graph fetches and the export link
+
+export interface GraphFilterState {
+  clusterIds: Set<number>;
+  categories: Set<string>;
+  yearRange?: [number, number];
+  includeUndated: boolean;
+  keywords?: string; // Comma-separated, as typed
+  maxHops?: number | null;
+  principals?: string[];
+}
+
+export function graphFilterParams(filters: GraphFilterState) {
+  return {
+    clusters: Array.from(filters.clusterIds),
+    categories: Array.from(filters.categories),
+    yearMin: filters.yearRange?.[0],
+    yearMax: filters.yearRange?.[1],
+    includeUndated: filters.includeUndated,
+    keywords: (filters.keywords ?? '').split(',').map(k => k.trim()).filter(k => k.length > 0),
+    maxHops: filters.maxHops ?? undefined,
+    principal: filters.principals ?? []
+  };
+}
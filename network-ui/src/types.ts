@@ -7,6 +7,23 @@ export interface Relationship {
   target: string;
   location: string | null;
   tags: string[];
+  relevance?: number | null; // bm25 keyword relevance (only set when filtering by keywords)
+  community_edits?: TripleEditOverlay; // Only set when fetched with applyEdits and the triple has accepted edits
+}
+
+// GET /api/relationships. Cursor pages (cursor/pageSize) carry nextCursor instead of the totals.
+export interface RelationshipsResponse {
+  relationships: Relationship[];
+  totalBeforeLimit?: number; // Unique edges before the limit was applied
+  totalBeforeFilter?: number;
+  nextCursor?: string | null;
+  principals: string[];
+}
+
+export interface ActorRelationshipsResponse {
+  relationships: Relationship[];
+  totalBeforeFilter: number;
+  principals: string[];
 }
 
 export interface Actor {
@@ -54,3 +71,148 @@ export interface TagCluster {
   exemplars: string[];
   tagCount: number;
 }
+
+export interface DocumentSearchResult {
+  doc_id: string;
+  category: string;
+  one_sentence_summary: string;
+  date_range_earliest: string | null;
+  date_range_latest: string | null;
+  snippet: string;
+  rank: number;
+}
+
+export interface GraphQueryColumn {
+  name: string;
+  kind: 'node' | 'edge';
+}
+
+export interface GraphQueryResult {
+  columns: GraphQueryColumn[];
+  rows: Record<string, string | Relationship>[];
+  truncated: boolean;
+  elapsedMs: number;
+}
+
+export interface PathHop {
+  source: string;
+  target: string;
+  totalRelationships: number;
+  doc_ids: string[];
+  relationships: Relationship[]; // At most 50 per hop
+}
+
+export interface EntityPath {
+  length: number;
+  nodes: string[];
+  hops: PathHop[];
+}
+
+export interface PathResponse {
+  from: string;
+  to: string;
+  paths: EntityPath[];
+}
+
+export interface EntityAnalytics {
+  name: string;
+  degree: number;
+  weighted_degree: number;
+  betweenness: number;
+  pagerank: number;
+  eigenvector: number;
+  community_id: number;
+  computed_at: string;
+}
+
+export interface NeighborhoodNode {
+  name: string;
+  depth: number; // Hops from the center
+  weight: number; // Supporting triples linking it to the previous level
+}
+
+export interface ActorNeighborhood {
+  center: string;
+  depth: number;
+  nodes: NeighborhoodNode[];
+  relationships: Relationship[];
+  truncated: boolean;
+}
+
+export type EditType = 'identify_actor' | 'identify_target' | 'correct_actor' | 'correct_target' | 'add_context' | 'dispute';
+export type EditStatus = 'pending' | 'accepted' | 'disputed' | 'rejected';
+export type FlagReason = 'spam' | 'abuse' | 'misinformation' | 'duplicate';
+
+export interface EditProposal {
+  id: number;
+  triple_id: number;
+  doc_id: string;
+  edit_type: EditType;
+  proposed_value: string;
+  original_value: string;
+  evidence_text: string;
+  supporting_doc_ids: string[];
+  submitter_name: string | null;
+  status: EditStatus;
+  upvotes: number;
+  downvotes: number;
+  net_score: number;
+  comment_count: number;
+  user_vote: number | null; // The current browser's vote, if any
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EditComment {
+  id: number;
+  edit_proposal_id: number;
+  parent_comment_id: number | null;
+  comment_text: string;
+  commenter_name: string | null;
+  upvotes: number;
+  downvotes: number;
+  net_score: number;
+  user_vote: number | null;
+  created_at: string;
+  replies: EditComment[];
+}
+
+// An accepted community edit that replaced a served name
+export interface AppliedNameEdit {
+  edit_id: number;
+  original: string;
+  proposed: string;
+}
+
+export interface TripleEditOverlay {
+  actor?: AppliedNameEdit;
+  target?: AppliedNameEdit;
+  dispute_edit_ids?: number[];
+}
+
+// Proposal counts by status for one triple
+export type EditSummary = Record<EditStatus, number>;
+
+export interface ModerationQueueItem {
+  target_type: 'edit' | 'comment';
+  target_id: number;
+  flag_count: number;
+  reasons: Partial<Record<FlagReason, number>>;
+  last_flagged_at: string;
+  hidden: boolean;
+  reviewed: boolean;
+  note: string | null;
+  triple_id: number;
+  edit_proposal_id: number;
+  text: string;
+  author_name: string | null;
+  author_fingerprint: string | null; // Stored hash; used to ban the author
+  author_banned: boolean;
+  created_at: string;
+}
+
+export interface BannedFingerprint {
+  fingerprint: string;
+  reason: string | null;
+  created_at: string;
+}
@@ -0,0 +1,206 @@
+import type { FieldSchema, FieldSet, RouteSchema } from './api_schema';
+
+// OpenAPI 3.1 document built from the route schemas in api_routes.ts, served at /api/openapi.json
+
+function fieldToJsonSchema(field: FieldSchema): Record<string, unknown> {
+  const schema: Record<string, unknown> = {};
+  switch (field.type) {
+    case 'integer':
+    case 'number':
+      schema.type = field.type;
+      if (field.minimum !== undefined) schema.minimum = field.minimum;
+      if (field.maximum !== undefined) schema.maximum = field.maximum;
+      if (field.default !== undefined) schema.default = field.default;
+      break;
+    case 'string':
+      schema.type = 'string';
+      if (field.minLength !== undefined) schema.minLength = field.minLength;
+      if (field.maxLength !== undefined) schema.maxLength = field.maxLength;
+      if (field.pattern !== undefined) schema.pattern = field.pattern;
+      if (field.default !== undefined) schema.default = field.default;
+      break;
+    case 'enum':
+      schema.type = 'string';
+      schema.enum = [...field.values];
+      if (field.default !== undefined) schema.default = field.default;
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      if (field.default !== undefined) schema.default = field.default;
+      break;
+    case 'integer[]':
+      schema.type = 'array';
+      schema.items = field.minimum !== undefined ? { type: 'integer', minimum: field.minimum } : { type: 'integer' };
+      if (field.maxItems !== undefined) schema.maxItems = field.maxItems;
+      break;
+    case 'string[]':
+      schema.type = 'array';
+      schema.items = field.maxLength !== undefined ? { type: 'string', maxLength: field.maxLength } : { type: 'string' };
+      if (field.maxItems !== undefined) schema.maxItems = field.maxItems;
+      break;
+    case 'json':
+      break;
+  }
+  // Values outside the range are clamped rather than rejected
+  if ((field.type === 'integer' || field.type === 'number') && field.clamp) {
+    schema['x-clamped'] = true;
+  }
+  return schema;
+}
+
+function parameters(fields: FieldSet | undefined, location: 'path' | 'query') {
+  return Object.entries(fields || {}).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === 'path' || !!field.required,
+    ...(field.description ? { description: field.description } : {}),
+    schema: fieldToJsonSchema(field),
+    // Lists are sent comma-separated: ?clusters=1,2,3
+    ...(field.type === 'integer[]' || field.type === 'string[]' ? { style: 'form', explode: false } : {})
+  }));
+}
+
+function objectSchema(fields: FieldSet) {
+  const required = Object.entries(fields).filter(([, field]) => field.required).map(([name]) => name);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(fields).map(([name, field]) => [
+      name,
+      field.description ? { ...fieldToJsonSchema(field), description: field.description } : fieldToJsonSchema(field)
+    ])),
+    ...(required.length > 0 ? { required } : {})
+  };
+}
+
+const ERROR_RESPONSES = {
+  400: { $ref: '#/components/responses/ValidationError' },
+  429: { $ref: '#/components/responses/RateLimited' },
+  500: { $ref: '#/components/responses/InternalError' }
+};
+
+function operation(route: RouteSchema) {
+  const status = route.response.status ?? 200;
+  const content = route.response.download
+    ? { 'application/octet-stream': { schema: { type: 'string' } } }
+    : { 'application/json': { schema: {} } };
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    parameters: [...parameters(route.params, 'path'), ...parameters(route.query, 'query')],
+    ...(route.body ? {
+      requestBody: {
+        required: Object.values(route.body).some(field => field.required),
+        content: { 'application/json': { schema: objectSchema(route.body) } }
+      }
+    } : {}),
+    ...(route.rawBody ? {
+      requestBody: { required: true, content: { 'application/json': { schema: { type: 'object' } } } }
+    } : {}),
+    ...(route.auth ? { security: route.auth === 'admin' ? [{ apiKey: [] }, { bearer: [] }] : [{ apiKey: [] }] } : {}),
+    responses: {
+      [status]: {
+        description: route.response.description,
+        ...(status === 204 ? {} : { content }),
+        // Response bodies are typed in TypeScript (network-ui/src/types.ts) rather than JSON Schema
+        'x-typescript-type': route.response.type
+      },
+      ...(route.auth ? {
+        401: { $ref: '#/components/responses/Unauthorized' },
+        403: { $ref: '#/components/responses/Forbidden' }
+      } : {}),
+      ...ERROR_RESPONSES
+    }
+  };
+}
+
+// `/api/actor/:name/count` -> `/api/actor/{name}/count`
+function openApiPath(expressPath: string): string {
+  return expressPath.replace(/:(\w+)/g, '{$1}');
+}
+
+export function buildOpenApiDocument(routes: Record<string, RouteSchema>, info: { title: string; version: string }) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of Object.values(routes)) {
+    const path = openApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: operation(route) };
+  }
+
+  const errorBody = (description: string) => ({
+    description,
+    content: {
+      'application/json': {
+        schema: { type: 'object', properties: { error: { type: 'string' } }, required: ['error'] }
+      }
+    }
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      ...info,
+      description: 'Relationship graph and document search over the analyzed corpus. ' +
+        'Anonymous access is rate limited; API keys (manage_api_keys.ts) raise the limits and unlock bulk exports.'
+    },
+    servers: [{ url: '/' }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearer: { type: 'http', scheme: 'bearer', description: 'An API key (edx_...) or, for /api/admin, the ADMIN_TOKEN' }
+      },
+      schemas: {
+        ValidationError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', description: 'The first problem, e.g. Invalid query parameter "limit": must be an integer' },
+            issues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  in: { type: 'string', enum: ['path', 'query', 'body'] },
+                  name: { type: 'string' },
+                  message: { type: 'string' }
+                },
+                required: ['in', 'name', 'message']
+              }
+            }
+          },
+          required: ['error']
+        }
+      },
+      responses: {
+        ValidationError: {
+          description: 'Invalid parameters',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } }
+        },
+        Unauthorized: errorBody('Missing or invalid credentials'),
+        Forbidden: errorBody('The credentials lack the required scope'),
+        RateLimited: errorBody('Rate limit or daily quota exceeded (see Retry-After)'),
+        InternalError: errorBody('Unexpected server error')
+      }
+    }
+  };
+}
+
+// Swagger UI page for the document, loaded from a CDN so nothing extra is bundled
+export function renderApiDocsPage(specUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>API documentation</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js" crossorigin></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui' });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,194 @@
+import Database from 'better-sqlite3';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// Token-bucket rate limiting with named budgets and a pluggable bucket store.
+// Each client gets one bucket per budget: it holds up to `burst` tokens, refills at `perMinute`,
+// and every request takes one token. Buckets that have refilled completely carry no state and
+// are swept, so idle clients cost nothing.
+
+export interface RateLimitBudget {
+  burst: number;
+  perMinute: number;
+}
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the bucket is full again (allowed) or holds enough tokens for the request (denied)
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  consume: (key: string, budget: RateLimitBudget, cost: number, now: number) => BucketResult;
+  sweep: (now: number) => void;
+  close: () => void;
+}
+
+export interface RateLimiterOptions {
+  store: RateLimitStore;
+  budgets: Record<string, RateLimitBudget>;
+  // Named budget for a request, a per-client budget (e.g. an API key's own quota), or null to skip limiting
+  budgetFor: (req: Request) => string | { name: string; budget: RateLimitBudget } | null;
+  // Bucket owner; defaults to the client IP as resolved by Express's `trust proxy` setting
+  clientKey?: (req: Request) => string;
+  sweepIntervalMs?: number;
+}
+
+export interface RateLimiter {
+  middleware: RequestHandler;
+  close: () => void;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+const refillPerMs = (budget: RateLimitBudget) => budget.perMinute / 60_000;
+
+// Shared bucket arithmetic: refill since the last update, then try to take `cost` tokens
+function takeTokens(state: BucketState | undefined, budget: RateLimitBudget, cost: number, now: number) {
+  const rate = refillPerMs(budget);
+  const tokens = state
+    ? Math.min(budget.burst, state.tokens + Math.max(0, now - state.updatedAt) * rate)
+    : budget.burst;
+  const allowed = tokens >= cost;
+  const left = allowed ? tokens - cost : tokens;
+  const fullAt = now + Math.ceil((budget.burst - left) / rate);
+
+  return {
+    state: { tokens: left, updatedAt: now },
+    fullAt,
+    result: {
+      allowed,
+      remaining: Math.floor(left),
+      resetMs: allowed ? fullAt - now : Math.ceil((cost - left) / rate)
+    }
+  };
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState & { fullAt: number }>();
+
+  return {
+    consume: (key, budget, cost, now) => {
+      const { state, fullAt, result } = takeTokens(buckets.get(key), budget, cost, now);
+      buckets.set(key, { ...state, fullAt });
+      return result;
+    },
+    sweep: (now) => {
+      for (const [key, bucket] of buckets) {
+        if (bucket.fullAt <= now) buckets.delete(key);
+      }
+    },
+    close: () => buckets.clear()
+  };
+}
+
+// Buckets persist across restarts and are shared by every process using the same file
+export function createSqliteRateLimitStore(dbPath: string): RateLimitStore {
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 1000');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+      key TEXT PRIMARY KEY,
+      tokens REAL NOT NULL,
+      updated_at INTEGER NOT NULL,  -- ms since epoch
+      full_at INTEGER NOT NULL      -- when the bucket will have refilled completely
+    );
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_full_at ON rate_limit_buckets(full_at);
+  `);
+
+  const selectBucket = db.prepare('SELECT tokens, updated_at AS updatedAt FROM rate_limit_buckets WHERE key = ?');
+  const upsertBucket = db.prepare(`
+    INSERT INTO rate_limit_buckets (key, tokens, updated_at, full_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at, full_at = excluded.full_at
+  `);
+  const deleteFull = db.prepare('DELETE FROM rate_limit_buckets WHERE full_at <= ?');
+
+  const consume = db.transaction((key: string, budget: RateLimitBudget, cost: number, now: number) => {
+    const { state, fullAt, result } = takeTokens(selectBucket.get(key) as BucketState | undefined, budget, cost, now);
+    upsertBucket.run(key, state.tokens, state.updatedAt, fullAt);
+    return result;
+  });
+
+  return {
+    consume: (key, budget, cost, now) => consume.immediate(key, budget, cost, now),
+    sweep: (now) => {
+      deleteFull.run(now);
+    },
+    close: () => db.close()
+  };
+}
+
+// Parse TRUST_PROXY for Express's `trust proxy` setting: true/false, a hop count,
+// or a comma-separated list of addresses, subnets or presets (loopback, linklocal, uniquelocal)
+export function parseTrustProxy(value: string | undefined, fallback: boolean | number | string[]): boolean | number | string[] {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return fallback;
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed);
+  return trimmed.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Read a budget from <PREFIX>_BURST and <PREFIX>_PER_MIN, keeping the defaults for unset or invalid values
+export function budgetFromEnv(prefix: string, defaults: RateLimitBudget): RateLimitBudget {
+  return {
+    burst: parseInt(process.env[`${prefix}_BURST`] || '') || defaults.burst,
+    perMinute: parseFloat(process.env[`${prefix}_PER_MIN`] || '') || defaults.perMinute
+  };
+}
+
+// Sets the IETF draft RateLimit-* headers and answers 429 with Retry-After once a bucket is empty
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const clientKey = options.clientKey || ((req: Request) => req.ip || req.socket.remoteAddress || 'unknown');
+
+  const sweepTimer = setInterval(() => {
+    try {
+      options.store.sweep(Date.now());
+    } catch (error) {
+      console.error('Rate limit sweep failed:', error);
+    }
+  }, options.sweepIntervalMs ?? 5 * 60 * 1000);
+  sweepTimer.unref();
+
+  const middleware: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    const selected = options.budgetFor(req);
+    if (!selected) return next();
+    const budgetName = typeof selected === 'string' ? selected : selected.name;
+    const budget = typeof selected === 'string' ? options.budgets[selected] : selected.budget;
+    if (!budget) return next();
+
+    let result: BucketResult;
+    try {
+      result = options.store.consume(`${budgetName}:${clientKey(req)}`, budget, 1, Date.now());
+    } catch (error) {
+      // A store failure (e.g. a locked database) should not take the API down with it
+      console.error('Rate limit store error:', error);
+      return next();
+    }
+
+    const windowSeconds = Math.ceil((budget.burst / budget.perMinute) * 60);
+    const resetSeconds = Math.ceil(result.resetMs / 1000);
+    res.setHeader('RateLimit-Policy', `${budget.burst};w=${windowSeconds};name="${budgetName}"`);
+    res.setHeader('RateLimit-Limit', String(budget.burst));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (!result.allowed) {
+      res.setHeader('Retry-After', String(resetSeconds));
+      return res.status(429).json({ error: 'Too many requests, please try again later' });
+    }
+    next();
+  };
+
+  return {
+    middleware,
+    close: () => {
+      clearInterval(sweepTimer);
+      options.store.close();
+    }
+  };
+}
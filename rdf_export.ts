@@ -0,0 +1,324 @@
+// RDF serialization of the triple store (Turtle, N-Triples, JSON-LD)
+//
+// Every extracted relationship becomes a direct statement  <actor> <action> <target>
+// plus an rdf:Statement (standard reification) carrying its provenance: source document,
+// timestamp, location, tags and top clusters. Aliases link to their canonical entity via owl:sameAs.
+
+import type Database from 'better-sqlite3';
+
+export type RdfFormat = 'turtle' | 'ntriples' | 'jsonld';
+
+export const RDF_FORMATS: Record<RdfFormat, { contentType: string; extension: string }> = {
+  turtle: { contentType: 'text/turtle', extension: 'ttl' },
+  ntriples: { contentType: 'application/n-triples', extension: 'nt' },
+  jsonld: { contentType: 'application/ld+json', extension: 'jsonld' }
+};
+
+// Base for all minted IRIs (RDF_BASE_IRI env var). Keep it fixed so IRIs stay stable across exports.
+export const DEFAULT_RDF_BASE_IRI = process.env.RDF_BASE_IRI || 'https://epstein-doc-explorer-1.onrender.com/';
+
+type Term =
+  | { kind: 'iri'; value: string }
+  | { kind: 'literal'; value: string; datatype?: string };
+
+interface Quad {
+  subject: string;
+  predicate: string;
+  object: Term;
+}
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+const OWL = 'http://www.w3.org/2002/07/owl#';
+const DCTERMS = 'http://purl.org/dc/terms/';
+const PROV = 'http://www.w3.org/ns/prov#';
+
+export interface RdfVocabulary {
+  entity: string;
+  document: string;
+  statement: string;
+  action: string;
+  vocab: string;
+}
+
+export function buildVocabulary(baseIri: string = DEFAULT_RDF_BASE_IRI): RdfVocabulary {
+  const base = baseIri.endsWith('/') || baseIri.endsWith('#') ? baseIri : `${baseIri}/`;
+  return {
+    entity: `${base}entity/`,
+    document: `${base}document/`,
+    statement: `${base}triple/`,
+    action: `${base}action/`,
+    vocab: `${base}vocab#`
+  };
+}
+
+// Stable IRI-safe local name: whitespace collapsed to underscores, everything else percent-encoded
+function localName(value: string): string {
+  return encodeURIComponent(value.trim().replace(/\s+/g, '_'));
+}
+
+function iri(value: string): Term {
+  return { kind: 'iri', value };
+}
+
+function literal(value: string | number, datatype?: string): Term {
+  return { kind: 'literal', value: String(value), datatype };
+}
+
+// Timestamps are free-form; only full dates get an xsd:date type
+function dateLiteral(timestamp: string): Term {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(timestamp)) return literal(timestamp, `${XSD}date`);
+  if (/^\d{4}-\d{2}$/.test(timestamp)) return literal(timestamp, `${XSD}gYearMonth`);
+  if (/^\d{4}$/.test(timestamp)) return literal(timestamp, `${XSD}gYear`);
+  return literal(timestamp);
+}
+
+export interface RdfExportOptions {
+  baseIri?: string;
+  where?: string; // Extra SQL conditions; rdf_triples is aliased rt and documents d
+  params?: (string | number)[];
+  limit?: number;
+}
+
+interface TripleRow {
+  id: number;
+  doc_id: string;
+  timestamp: string | null;
+  actor: string;
+  action: string;
+  target: string;
+  location: string | null;
+  triple_tags: string | null;
+  top_cluster_ids: string | null;
+}
+
+// Load triples, documents and aliases from the database and convert them to quads
+export function buildRdfDataset(db: Database.Database, options: RdfExportOptions = {}): { quads: Quad[]; vocab: RdfVocabulary } {
+  const vocab = buildVocabulary(options.baseIri);
+  const quads: Quad[] = [];
+  const add = (subject: string, predicate: string, object: Term) => quads.push({ subject, predicate, object });
+
+  const triples = db.prepare(`
+    SELECT
+      rt.id,
+      rt.doc_id,
+      rt.timestamp,
+      COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+      rt.action,
+      COALESCE(ea_target.canonical_name, rt.target) as target,
+      rt.location,
+      rt.triple_tags,
+      rt.top_cluster_ids
+    FROM rdf_triples rt
+    LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+    LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+    LEFT JOIN documents d ON rt.doc_id = d.doc_id
+    WHERE 1 = 1
+    ${options.where || ''}
+    ORDER BY rt.id
+    ${options.limit ? 'LIMIT ?' : ''}
+  `).all(...(options.params || []), ...(options.limit ? [options.limit] : [])) as TripleRow[];
+
+  const entities = new Set<string>();
+  const docIds = new Set<string>();
+  const actions = new Set<string>();
+
+  triples.forEach(t => {
+    const subject = vocab.entity + localName(t.actor);
+    const object = vocab.entity + localName(t.target);
+    const predicate = vocab.action + localName(t.action.toLowerCase());
+    const statement = vocab.statement + t.id;
+
+    entities.add(t.actor);
+    entities.add(t.target);
+    docIds.add(t.doc_id);
+    actions.add(t.action.toLowerCase());
+
+    add(subject, predicate, iri(object));
+
+    add(statement, `${RDF}type`, iri(`${RDF}Statement`));
+    add(statement, `${RDF}subject`, iri(subject));
+    add(statement, `${RDF}predicate`, iri(predicate));
+    add(statement, `${RDF}object`, iri(object));
+    add(statement, `${RDFS}label`, literal(t.action));
+    add(statement, `${PROV}wasDerivedFrom`, iri(vocab.document + localName(t.doc_id)));
+    if (t.timestamp) add(statement, `${DCTERMS}date`, dateLiteral(t.timestamp));
+    if (t.location) add(statement, `${vocab.vocab}location`, literal(t.location));
+    (t.triple_tags ? JSON.parse(t.triple_tags) as string[] : []).forEach(tag =>
+      add(statement, `${vocab.vocab}tag`, literal(tag))
+    );
+    (t.top_cluster_ids ? JSON.parse(t.top_cluster_ids) as number[] : []).forEach(clusterId =>
+      add(statement, `${vocab.vocab}topCluster`, literal(clusterId, `${XSD}integer`))
+    );
+  });
+
+  actions.forEach(action => {
+    const predicate = vocab.action + localName(action);
+    add(predicate, `${RDF}type`, iri(`${RDF}Property`));
+    add(predicate, `${RDFS}label`, literal(action));
+  });
+
+  entities.forEach(name => {
+    const entity = vocab.entity + localName(name);
+    add(entity, `${RDF}type`, iri(`${vocab.vocab}Entity`));
+    add(entity, `${RDFS}label`, literal(name));
+  });
+
+  // Alias links for every exported canonical entity
+  const aliasRows = db.prepare(`
+    SELECT original_name, canonical_name FROM entity_aliases
+    WHERE original_name != canonical_name
+    ORDER BY canonical_name, original_name
+  `).all() as Array<{ original_name: string; canonical_name: string }>;
+
+  aliasRows
+    .filter(row => entities.has(row.canonical_name))
+    .forEach(row => {
+      const alias = vocab.entity + localName(row.original_name);
+      if (alias === vocab.entity + localName(row.canonical_name)) return; // Differs only by whitespace
+      add(alias, `${RDFS}label`, literal(row.original_name));
+      add(alias, `${OWL}sameAs`, iri(vocab.entity + localName(row.canonical_name)));
+    });
+
+  // Document metadata for every referenced document
+  const getDocument = db.prepare(`
+    SELECT doc_id, category, one_sentence_summary, date_range_earliest, date_range_latest
+    FROM documents WHERE doc_id = ?
+  `);
+
+  Array.from(docIds).sort().forEach(docId => {
+    const document = vocab.document + localName(docId);
+    add(document, `${RDF}type`, iri(`${vocab.vocab}Document`));
+    add(document, `${DCTERMS}identifier`, literal(docId));
+
+    const doc = getDocument.get(docId) as {
+      category: string;
+      one_sentence_summary: string;
+      date_range_earliest: string | null;
+      date_range_latest: string | null;
+    } | undefined;
+    if (!doc) return;
+
+    add(document, `${vocab.vocab}category`, literal(doc.category));
+    add(document, `${DCTERMS}abstract`, literal(doc.one_sentence_summary));
+    if (doc.date_range_earliest) add(document, `${vocab.vocab}earliestDate`, dateLiteral(doc.date_range_earliest));
+    if (doc.date_range_latest) add(document, `${vocab.vocab}latestDate`, dateLiteral(doc.date_range_latest));
+  });
+
+  return { quads, vocab };
+}
+
+function escapeString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+function escapeIri(value: string): string {
+  // Characters not allowed inside <...> in N-Triples / Turtle
+  return value.replace(/[\u0000- <>"{}|^`\\]/g, ch => encodeURIComponent(ch));
+}
+
+function formatLiteral(term: Extract<Term, { kind: 'literal' }>, formatIri: (value: string) => string): string {
+  const quoted = `"${escapeString(term.value)}"`;
+  return term.datatype ? `${quoted}^^${formatIri(term.datatype)}` : quoted;
+}
+
+export function toNTriples(quads: Quad[]): string {
+  const formatIri = (value: string) => `<${escapeIri(value)}>`;
+  return quads.map(q => {
+    const object = q.object.kind === 'iri' ? formatIri(q.object.value) : formatLiteral(q.object, formatIri);
+    return `${formatIri(q.subject)} ${formatIri(q.predicate)} ${object} .`;
+  }).join('\n') + '\n';
+}
+
+function prefixes(vocab: RdfVocabulary): Record<string, string> {
+  return {
+    rdf: RDF,
+    rdfs: RDFS,
+    xsd: XSD,
+    owl: OWL,
+    dcterms: DCTERMS,
+    prov: PROV,
+    ent: vocab.entity,
+    doc: vocab.document,
+    triple: vocab.statement,
+    act: vocab.action,
+    edv: vocab.vocab
+  };
+}
+
+// Shorten an IRI to prefix:local when the local part is a plain Turtle name
+function compactIri(value: string, prefixMap: Record<string, string>): string | null {
+  for (const [prefix, namespace] of Object.entries(prefixMap)) {
+    if (!value.startsWith(namespace)) continue;
+    const local = value.slice(namespace.length);
+    if (/^[A-Za-z0-9_]([A-Za-z0-9_-]*[A-Za-z0-9_])?$/.test(local)) return `${prefix}:${local}`;
+  }
+  return null;
+}
+
+export function toTurtle(quads: Quad[], vocab: RdfVocabulary): string {
+  const prefixMap = prefixes(vocab);
+  const formatIri = (value: string) =>
+    value === `${RDF}type` ? 'a' : compactIri(value, prefixMap) ?? `<${escapeIri(value)}>`;
+  const formatObject = (term: Term) =>
+    term.kind === 'iri' ? (compactIri(term.value, prefixMap) ?? `<${escapeIri(term.value)}>`) : formatLiteral(term, formatIri);
+
+  const lines = Object.entries(prefixMap).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+  lines.push('');
+
+  // Group consecutive quads that share a subject into one block
+  let i = 0;
+  while (i < quads.length) {
+    const subject = quads[i].subject;
+    const block: string[] = [];
+    while (i < quads.length && quads[i].subject === subject) {
+      block.push(`${formatIri(quads[i].predicate)} ${formatObject(quads[i].object)}`);
+      i++;
+    }
+    const subjectTerm = compactIri(subject, prefixMap) ?? `<${escapeIri(subject)}>`;
+    lines.push(`${subjectTerm} ${block.join(' ;\n    ')} .`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function toJsonLd(quads: Quad[], vocab: RdfVocabulary): string {
+  const prefixMap = prefixes(vocab);
+  const compact = (value: string) => compactIri(value, prefixMap) ?? value;
+  const nodes = new Map<string, Record<string, any>>();
+
+  quads.forEach(q => {
+    const subject = compact(q.subject);
+    if (!nodes.has(subject)) nodes.set(subject, { '@id': subject });
+    const node = nodes.get(subject)!;
+
+    const key = q.predicate === `${RDF}type` ? '@type' : compact(q.predicate);
+    const value = q.predicate === `${RDF}type`
+      ? compact(q.object.value)
+      : q.object.kind === 'iri'
+        ? { '@id': compact(q.object.value) }
+        : q.object.datatype
+          ? { '@value': q.object.value, '@type': compact(q.object.datatype) }
+          : q.object.value;
+
+    if (!(key in node)) node[key] = [];
+    node[key].push(value);
+  });
+
+  return JSON.stringify({
+    '@context': prefixMap,
+    '@graph': Array.from(nodes.values())
+  }, null, 2);
+}
+
+export function serializeRdf(quads: Quad[], vocab: RdfVocabulary, format: RdfFormat): string {
+  if (format === 'ntriples') return toNTriples(quads);
+  if (format === 'jsonld') return toJsonLd(quads, vocab);
+  return toTurtle(quads, vocab);
+}
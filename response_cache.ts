@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// In-process LRU cache for JSON API responses, optionally mirrored to disk so it survives restarts.
+// Entries are keyed on the route and normalized query string and are dropped whenever the
+// database content version changes.
+
+export interface ResponseCacheOptions {
+  getVersion: () => number;
+  maxEntries?: number;
+  maxBytes?: number;
+  diskDir?: string | null;
+}
+
+export interface ResponseCache {
+  middleware: RequestHandler;
+  stats: () => { version: number; entries: number; bytes: number; hits: number; misses: number };
+  clear: () => void;
+}
+
+interface CacheEntry {
+  etag: string;
+  body: string;
+}
+
+const entrySize = (entry: CacheEntry) => Buffer.byteLength(entry.body);
+
+// Comma-separated list parameters whose order does not change the result
+const LIST_PARAMS = new Set(['clusters', 'categories', 'keywords', 'principal']);
+
+// Path plus sorted query parameters, so equivalent requests share an entry
+export function normalizeCacheKey(req: Request): string {
+  const params = Object.entries(req.query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      let normalized = Array.isArray(value) ? value.map(String).join(',') : String(value);
+      if (LIST_PARAMS.has(key)) {
+        normalized = normalized.split(',').map(v => v.trim()).filter(Boolean).sort().join(',');
+      }
+      return [key, normalized] as const;
+    })
+    .sort((a, b) => a[0].localeCompare(b[0]));
+
+  return `${req.path}?${new URLSearchParams(params as [string, string][]).toString()}`;
+}
+
+function hash(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  return header.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+}
+
+export function createResponseCache(options: ResponseCacheOptions): ResponseCache {
+  const maxEntries = options.maxEntries ?? 200;
+  const maxBytes = options.maxBytes ?? 256 * 1024 * 1024;
+  const diskDir = options.diskDir || null;
+
+  const entries = new Map<string, CacheEntry>();
+  let bytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let version = options.getVersion();
+
+  if (diskDir) fs.mkdirSync(diskDir, { recursive: true });
+
+  const diskPath = (key: string) => path.join(diskDir!, `${hash(`${version}|${key}`)}.json`);
+
+  const evict = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    bytes -= entrySize(entry);
+    entries.delete(key);
+  };
+
+  const remember = (key: string, entry: CacheEntry) => {
+    evict(key);
+    if (entrySize(entry) > maxBytes) return;
+    entries.set(key, entry);
+    bytes += entrySize(entry);
+    // Map iteration order is insertion order, so the first key is the least recently used
+    while (entries.size > maxEntries || bytes > maxBytes) {
+      evict(entries.keys().next().value!);
+    }
+  };
+
+  const clear = () => {
+    entries.clear();
+    bytes = 0;
+    if (diskDir) {
+      for (const file of fs.readdirSync(diskDir)) {
+        if (file.endsWith('.json')) fs.rmSync(path.join(diskDir, file), { force: true });
+      }
+    }
+  };
+
+  const lookup = (key: string): CacheEntry | undefined => {
+    const entry = entries.get(key);
+    if (entry) {
+      // Move to the most recently used position
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    }
+    if (!diskDir) return undefined;
+
+    try {
+      const fromDisk = JSON.parse(fs.readFileSync(diskPath(key), 'utf-8')) as CacheEntry;
+      remember(key, fromDisk);
+      return fromDisk;
+    } catch {
+      return undefined; // Not on disk (or unreadable) - treat as a miss
+    }
+  };
+
+  const send = (req: Request, res: Response, entry: CacheEntry, status: 'HIT' | 'MISS') => {
+    res.setHeader('ETag', entry.etag);
+    res.setHeader('Cache-Control', 'no-cache'); // Browsers revalidate with If-None-Match
+    res.setHeader('X-Cache', status);
+    if (matchesIfNoneMatch(req.headers['if-none-match'], entry.etag)) {
+      return res.status(304).end();
+    }
+    return res.type('application/json').send(entry.body);
+  };
+
+  const middleware: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    const currentVersion = options.getVersion();
+    if (currentVersion !== version) {
+      console.log(`🔄 Database content version ${version} -> ${currentVersion}, clearing response cache`);
+      clear();
+      version = currentVersion;
+    }
+
+    const key = normalizeCacheKey(req);
+    const cached = lookup(key);
+    if (cached) {
+      hits++;
+      send(req, res, cached, 'HIT');
+      return;
+    }
+    misses++;
+
+    // Capture successful JSON responses; streamed and error responses pass through untouched
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      if (res.statusCode !== 200) return originalJson(body);
+
+      const serialized = JSON.stringify(body);
+      const entry: CacheEntry = { etag: `"${version}-${hash(serialized).slice(0, 20)}"`, body: serialized };
+      remember(key, entry);
+      if (diskDir) {
+        try {
+          fs.writeFileSync(diskPath(key), JSON.stringify(entry));
+        } catch (error) {
+          console.error('Failed to write response cache entry:', error);
+        }
+      }
+      return send(req, res, entry, 'MISS');
+    };
+
+    next();
+  };
+
+  return {
+    middleware,
+    stats: () => ({ version, entries: entries.size, bytes, hits, misses }),
+    clear
+  };
+}
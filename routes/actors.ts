@@ -0,0 +1,189 @@
+import express from 'express';
+import { validateRequest, routeInput } from '../api_schema';
+import { API_ROUTES } from '../api_routes';
+import type { ApiContext } from './context';
+
+// Actor lists, name search, relationship counts and the precomputed entity analytics
+
+export function createActorsRouter({ db, cached }: ApiContext): express.Router {
+  const router = express.Router();
+
+  // Get all actors (nodes) with alias resolution
+  router.get('/api/actors', (req, res) => {
+    try {
+      const actors = db.prepare(`
+        SELECT DISTINCT
+          COALESCE(ea.canonical_name, rt.actor) as name,
+          COUNT(*) as connection_count
+        FROM rdf_triples rt
+        LEFT JOIN entity_aliases ea ON rt.actor = ea.original_name
+        GROUP BY COALESCE(ea.canonical_name, rt.actor)
+        ORDER BY connection_count DESC
+        LIMIT 100
+      `).all();
+      res.json(actors);
+    } catch (error) {
+      console.error('Error in /api/actors:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Search actors with alias resolution
+  router.get('/api/search', validateRequest(API_ROUTES.searchActors), (req, res) => {
+    try {
+      const query = routeInput(res, API_ROUTES.searchActors).q;
+      if (!query) {
+        return res.json([]);
+      }
+
+      const results = db.prepare(`
+        SELECT DISTINCT
+          COALESCE(ea.canonical_name, rt.actor) as name,
+          COUNT(*) as connection_count
+        FROM rdf_triples rt
+        LEFT JOIN entity_aliases ea ON rt.actor = ea.original_name
+        WHERE COALESCE(ea.canonical_name, rt.actor) LIKE ?
+        GROUP BY COALESCE(ea.canonical_name, rt.actor)
+        ORDER BY connection_count DESC
+        LIMIT 20
+      `).all(`%${query}%`);
+
+      res.json(results);
+    } catch (error) {
+      console.error('Error in /api/search:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Get total relationship counts for top N actors (unfiltered totals)
+  router.get('/api/actor-counts', validateRequest(API_ROUTES.fetchActorCounts), cached, (req, res) => {
+    try {
+      const { limit } = routeInput(res, API_ROUTES.fetchActorCounts);
+
+      // Fetch all relationships WITHOUT filters to get true totals
+      const allRelationships = db.prepare(`
+        SELECT
+          COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+          COALESCE(ea_target.canonical_name, rt.target) as target
+        FROM rdf_triples rt
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        WHERE (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+      `).all() as Array<{
+        actor: string;
+        target: string;
+      }>;
+
+      // Count relationships per actor
+      const actorCounts = new Map<string, number>();
+      allRelationships.forEach(rel => {
+        actorCounts.set(rel.actor, (actorCounts.get(rel.actor) || 0) + 1);
+        actorCounts.set(rel.target, (actorCounts.get(rel.target) || 0) + 1);
+      });
+
+      // Get top N actors
+      const topActors = Array.from(actorCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .reduce((acc, [name, count]) => {
+          acc[name] = count;
+          return acc;
+        }, {} as Record<string, number>);
+
+      res.json(topActors);
+    } catch (error) {
+      console.error('Error in /api/actor-counts:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Get total relationship count for a specific actor (unfiltered total)
+  router.get('/api/actor/:name/count', validateRequest(API_ROUTES.fetchActorCount), (req, res) => {
+    try {
+      const { name } = routeInput(res, API_ROUTES.fetchActorCount);
+
+      // Count total relationships for this actor WITHOUT filters
+      const result = db.prepare(`
+        SELECT COUNT(*) as count
+        FROM rdf_triples rt
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        WHERE (COALESCE(ea_actor.canonical_name, rt.actor) = ? OR COALESCE(ea_target.canonical_name, rt.target) = ?)
+        AND (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+      `).get(name, name) as { count: number };
+
+      res.json({ count: result.count });
+    } catch (error) {
+      console.error('Error in /api/actor/:name/count:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Entity analytics are precomputed by compute_entity_analytics.ts
+  function hasEntityAnalytics(): boolean {
+    return !!db.prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'entity_analytics'"
+    ).get();
+  }
+
+  // Get centrality metrics and community ids for canonical entities
+  router.get('/api/analytics/entities', validateRequest(API_ROUTES.fetchEntityAnalytics), cached, (req, res) => {
+    try {
+      if (!hasEntityAnalytics()) {
+        return res.status(503).json({ error: 'Entity analytics have not been computed. Run compute_entity_analytics.ts' });
+      }
+
+      const { sort, order, limit, offset, community, q } = routeInput(res, API_ROUTES.fetchEntityAnalytics);
+
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      if (community !== undefined) {
+        conditions.push('community_id = ?');
+        params.push(community);
+      }
+      if (q) {
+        conditions.push('canonical_name LIKE ?');
+        params.push(`%${q}%`);
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const total = db.prepare(`SELECT COUNT(*) as count FROM entity_analytics ${where}`).get(...params) as { count: number };
+      const entities = db.prepare(`
+        SELECT canonical_name as name, degree, weighted_degree, betweenness, pagerank, eigenvector, community_id, computed_at
+        FROM entity_analytics
+        ${where}
+        ORDER BY ${sort} ${order === 'asc' ? 'ASC' : 'DESC'}, canonical_name
+        LIMIT ? OFFSET ?
+      `).all(...params, limit, offset);
+
+      res.json({ entities, total: total.count });
+    } catch (error) {
+      console.error('Error in /api/analytics/entities:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Community id for every canonical entity (used to color the graph by community)
+  router.get('/api/analytics/communities', cached, (req, res) => {
+    try {
+      if (!hasEntityAnalytics()) {
+        return res.status(503).json({ error: 'Entity analytics have not been computed. Run compute_entity_analytics.ts' });
+      }
+
+      const rows = db.prepare('SELECT canonical_name, community_id FROM entity_analytics').all() as Array<{
+        canonical_name: string;
+        community_id: number;
+      }>;
+
+      res.json(rows.reduce((acc, row) => {
+        acc[row.canonical_name] = row.community_id;
+        return acc;
+      }, {} as Record<string, number>));
+    } catch (error) {
+      console.error('Error in /api/analytics/communities:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,127 @@
+import express from 'express';
+import crypto from 'crypto';
+import {
+  getModerationQueue,
+  setContentHidden,
+  deleteContent,
+  listBans,
+  banFingerprint,
+  unbanFingerprint,
+  exportCommunityData,
+  importCommunityData
+} from '../community_admin';
+import { validateRequest, routeInput } from '../api_schema';
+import { API_ROUTES } from '../api_routes';
+import { handleCommunityError } from './community';
+import { hasScope, requestApiKey, type ApiContext } from './context';
+
+// Moderation API. Every /api/admin route requires an API key with the admin scope or
+// `Authorization: Bearer <ADMIN_TOKEN>`; without ADMIN_TOKEN only admin keys get in.
+
+// The import route parses its own body with this limit (the app-wide JSON parser skips it)
+const ADMIN_IMPORT_LIMIT = '100mb';
+
+function tokensMatch(given: string, expected: string): boolean {
+  // Compare digests so the check takes the same time whatever the input length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+export function createAdminRouter({ communityDb, config }: ApiContext): express.Router {
+  const { adminToken } = config;
+  const router = express.Router();
+
+  // Either an API key with the admin scope or the ADMIN_TOKEN bearer token
+  router.use('/api/admin', (req, res, next) => {
+    if (hasScope(res, 'admin')) return next();
+    if (requestApiKey(res)) {
+      return res.status(403).json({ error: 'This API key lacks the admin scope' });
+    }
+    if (!adminToken) {
+      return res.status(503).json({ error: 'Admin API is disabled (ADMIN_TOKEN is not set)' });
+    }
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    if (!token || !tokensMatch(token, adminToken)) {
+      return res.status(401).json({ error: 'Invalid admin token' });
+    }
+    next();
+  });
+
+  // Flagged content queue, most-flagged first
+  router.get('/api/admin/flags', validateRequest(API_ROUTES.fetchModerationQueue), (req, res) => {
+    try {
+      res.json(getModerationQueue(communityDb, routeInput(res, API_ROUTES.fetchModerationQueue)));
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/flags', error);
+    }
+  });
+
+  // Hide or restore an edit or comment ({ note? })
+  router.post('/api/admin/content/:targetType/:targetId/:action', validateRequest(API_ROUTES.setContentModeration), (req, res) => {
+    try {
+      const { targetType, targetId, action, note } = routeInput(res, API_ROUTES.setContentModeration);
+      res.json(setContentHidden(communityDb, targetType, targetId, action === 'hide', note || null));
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/content/:targetType/:targetId/:action', error);
+    }
+  });
+
+  router.delete('/api/admin/content/:targetType/:targetId', validateRequest(API_ROUTES.deleteContent), (req, res) => {
+    try {
+      const { targetType, targetId } = routeInput(res, API_ROUTES.deleteContent);
+      res.json(deleteContent(communityDb, targetType, targetId));
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/content/:targetType/:targetId', error);
+    }
+  });
+
+  router.get('/api/admin/bans', (req, res) => {
+    try {
+      res.json({ bans: listBans(communityDb) });
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/bans', error);
+    }
+  });
+
+  // Ban a stored fingerprint hash ({ fingerprint, reason?, hideContent? })
+  router.post('/api/admin/bans', validateRequest(API_ROUTES.banFingerprint), (req, res) => {
+    try {
+      const { fingerprint, reason, hideContent } = routeInput(res, API_ROUTES.banFingerprint);
+      res.status(201).json(banFingerprint(communityDb, fingerprint, reason || null, hideContent));
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/bans', error);
+    }
+  });
+
+  router.delete('/api/admin/bans/:fingerprint', validateRequest(API_ROUTES.unbanFingerprint), (req, res) => {
+    try {
+      unbanFingerprint(communityDb, routeInput(res, API_ROUTES.unbanFingerprint).fingerprint);
+      res.status(204).end();
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/bans/:fingerprint', error);
+    }
+  });
+
+  // Full JSON backup of community_edits.db
+  router.get('/api/admin/export', (req, res) => {
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Disposition', `attachment; filename="community_edits-${date}.json"`);
+      res.json(exportCommunityData(communityDb));
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/export', error);
+    }
+  });
+
+  // Replace all community data with an export (larger body limit than the rest of the API)
+  router.post('/api/admin/import', express.json({ limit: ADMIN_IMPORT_LIMIT }), validateRequest(API_ROUTES.importCommunityData), (req, res) => {
+    try {
+      res.json({ imported: importCommunityData(communityDb, routeInput(res, API_ROUTES.importCommunityData).body) });
+    } catch (error) {
+      handleCommunityError(res, '/api/admin/import', error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,33 @@
+import express from 'express';
+
+// Tag clusters from tag_clusters.json (written by cluster_tags.ts)
+
+export interface TagCluster {
+  id: number;
+  name: string;
+  exemplars: string[];
+  tags: string[];
+}
+
+export function createClustersRouter(tagClusters: TagCluster[]): express.Router {
+  const router = express.Router();
+
+  // Get tag clusters
+  router.get('/api/tag-clusters', (req, res) => {
+    try {
+      // Return just the cluster metadata (id, name, exemplars) without all tags
+      const clusters = tagClusters.map((cluster: any) => ({
+        id: cluster.id,
+        name: cluster.name,
+        exemplars: cluster.exemplars,
+        tagCount: cluster.tags.length
+      }));
+      res.json(clusters);
+    } catch (error) {
+      console.error('Error in /api/tag-clusters:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  return router;
+}
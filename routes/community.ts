@@ -0,0 +1,127 @@
+import express from 'express';
+import {
+  parseNewEditProposal,
+  getEditsForTriple,
+  getEditSummary,
+  createEditProposal,
+  voteOnEdit,
+  getComments,
+  createComment,
+  voteOnComment,
+  flagContent,
+  requireFingerprint,
+  requireVote,
+  CommunityEditError
+} from '../community_edits';
+import { validateRequest, routeInput } from '../api_schema';
+import { API_ROUTES } from '../api_routes';
+import type { ApiContext } from './context';
+
+// Community edits (see COMMUNITY_EDITS_DESIGN.md): proposals, votes, comments and flags
+
+// Validation, not-found and rate-limit errors carry their own status
+export function handleCommunityError(res: express.Response, route: string, error: unknown) {
+  if (error instanceof CommunityEditError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`Error in ${route}:`, error);
+  res.status(500).json({ error: 'An internal error occurred' });
+}
+
+// Optional ?fingerprint= so the caller's own votes can be highlighted
+function optionalFingerprint(value: string | undefined): string | null {
+  return value ? requireFingerprint(value) : null;
+}
+
+export function createCommunityRouter({ db, communityDb }: ApiContext): express.Router {
+  const router = express.Router();
+
+  // Edit proposals for a triple, best-voted first
+  router.get('/api/edits/triple/:tripleId', validateRequest(API_ROUTES.fetchTripleEdits), (req, res) => {
+    try {
+      const { tripleId, fingerprint, includeRejected } = routeInput(res, API_ROUTES.fetchTripleEdits);
+      res.json(getEditsForTriple(communityDb, tripleId, optionalFingerprint(fingerprint), includeRejected));
+    } catch (error) {
+      handleCommunityError(res, '/api/edits/triple/:tripleId', error);
+    }
+  });
+
+  // Proposal counts by status for many triples at once (timeline badges).
+  // POST because an actor timeline can hold thousands of triple IDs.
+  router.post('/api/edits/summary', validateRequest(API_ROUTES.fetchEditSummary), (req, res) => {
+    try {
+      const { tripleIds } = routeInput(res, API_ROUTES.fetchEditSummary);
+      res.json({ summary: getEditSummary(communityDb, tripleIds) });
+    } catch (error) {
+      handleCommunityError(res, '/api/edits/summary', error);
+    }
+  });
+
+  // Propose an edit to a triple
+  router.post('/api/edits', validateRequest(API_ROUTES.createEdit), (req, res) => {
+    try {
+      const edit = parseNewEditProposal(routeInput(res, API_ROUTES.createEdit));
+
+      const triple = db.prepare('SELECT doc_id FROM rdf_triples WHERE id = ?').get(edit.tripleId) as { doc_id: string } | undefined;
+      if (!triple) {
+        return res.status(404).json({ error: 'Relationship not found' });
+      }
+      if (triple.doc_id !== edit.docId) {
+        return res.status(400).json({ error: 'docId does not match the relationship' });
+      }
+
+      res.status(201).json(createEditProposal(communityDb, edit));
+    } catch (error) {
+      handleCommunityError(res, '/api/edits', error);
+    }
+  });
+
+  // Vote on an edit (voting again with the other value switches sides)
+  router.post('/api/edits/:editId/vote', validateRequest(API_ROUTES.voteOnEdit), (req, res) => {
+    try {
+      const { editId, vote, voterFingerprint } = routeInput(res, API_ROUTES.voteOnEdit);
+      res.json(voteOnEdit(communityDb, editId, requireVote(vote), requireFingerprint(voterFingerprint)));
+    } catch (error) {
+      handleCommunityError(res, '/api/edits/:editId/vote', error);
+    }
+  });
+
+  // Threaded discussion for an edit
+  router.get('/api/edits/:editId/comments', validateRequest(API_ROUTES.fetchEditComments), (req, res) => {
+    try {
+      const { editId, fingerprint } = routeInput(res, API_ROUTES.fetchEditComments);
+      res.json({ comments: getComments(communityDb, editId, optionalFingerprint(fingerprint)) });
+    } catch (error) {
+      handleCommunityError(res, '/api/edits/:editId/comments', error);
+    }
+  });
+
+  router.post('/api/edits/:editId/comments', validateRequest(API_ROUTES.postEditComment), (req, res) => {
+    try {
+      const { editId, ...comment } = routeInput(res, API_ROUTES.postEditComment);
+      res.status(201).json(createComment(communityDb, editId, comment));
+    } catch (error) {
+      handleCommunityError(res, 'POST /api/edits/:editId/comments', error);
+    }
+  });
+
+  router.post('/api/comments/:commentId/vote', validateRequest(API_ROUTES.voteOnComment), (req, res) => {
+    try {
+      const { commentId, vote, voterFingerprint } = routeInput(res, API_ROUTES.voteOnComment);
+      res.json(voteOnComment(communityDb, commentId, requireVote(vote), requireFingerprint(voterFingerprint)));
+    } catch (error) {
+      handleCommunityError(res, '/api/comments/:commentId/vote', error);
+    }
+  });
+
+  // Flag an edit or comment as spam, abuse, misinformation or a duplicate
+  router.post('/api/moderation/flag', validateRequest(API_ROUTES.flagContent), (req, res) => {
+    try {
+      res.status(201).json(flagContent(communityDb, routeInput(res, API_ROUTES.flagContent)));
+    } catch (error) {
+      handleCommunityError(res, '/api/moderation/flag', error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,66 @@
+import type express from 'express';
+import type Database from 'better-sqlite3';
+import type { ApiKey, ApiKeyScope } from '../api_keys';
+import type { GraphStore } from '../graph_store';
+import type { ApiConfig } from '../api_app';
+import { ANONYMOUS_MAX_LIMIT, KEYED_MAX_LIMIT } from '../api_routes';
+
+// Everything a router needs from the app; built once per createApp() call
+
+export interface ApiContext {
+  db: Database.Database;
+  communityDb: Database.Database;
+  graph: GraphStore;
+  config: ApiConfig;
+  // Response cache for the heavy read endpoints
+  cached: express.RequestHandler;
+  // The cache, except for responses that change with every vote or exceed the anonymous row ceiling
+  cachedUnlessApplyingEdits: express.RequestHandler;
+}
+
+export function requestApiKey(res: express.Response): ApiKey | null {
+  return (res.locals.apiKey as ApiKey | undefined) || null;
+}
+
+export function hasScope(res: express.Response, scope: ApiKeyScope): boolean {
+  return requestApiKey(res)?.scopes.includes(scope) ?? false;
+}
+
+export function requireScope(scope: ApiKeyScope): express.RequestHandler {
+  return (req, res, next) => {
+    if (!requestApiKey(res)) {
+      return res.status(401).json({ error: `An API key with the ${scope} scope is required` });
+    }
+    if (!hasScope(res, scope)) {
+      return res.status(403).json({ error: `This API key lacks the ${scope} scope` });
+    }
+    next();
+  };
+}
+
+// Row ceiling for `limit`; keys with the read scope may ask for more than anonymous clients
+export function limitCeiling(res: express.Response): number {
+  return hasScope(res, 'read') ? KEYED_MAX_LIMIT : ANONYMOUS_MAX_LIMIT;
+}
+
+// Graph and RDF exports stop at this many triples unless the key has the export scope
+const ANONYMOUS_MAX_EXPORT_TRIPLES = 100000;
+
+export function exportTripleCap(res: express.Response): number | null {
+  return hasScope(res, 'export') ? null : ANONYMOUS_MAX_EXPORT_TRIPLES;
+}
+
+export const STREAM_BATCH_SIZE = 1000;
+
+// Resolve once the socket can take more data (or the client has gone away)
+export function waitForDrain(res: express.Response): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
@@ -0,0 +1,149 @@
+import express from 'express';
+import { validateRequest, routeInput } from '../api_schema';
+import { API_ROUTES } from '../api_routes';
+import type { ApiContext } from './context';
+
+// Corpus statistics, full-text document search and single documents
+
+// Convert free text into a safe FTS5 MATCH expression.
+// "quoted phrases" are kept together; every other word becomes its own quoted term (implicit AND).
+function buildFtsQuery(text: string | undefined): string | null {
+  if (!text) return null;
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null && terms.length < 20) {
+    const term = (match[1] ?? match[2]).replace(/"/g, '').trim();
+    if (term.length > 0) {
+      terms.push(`"${term}"`);
+    }
+  }
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
+export function createDocumentsRouter({ db, cached }: ApiContext): express.Router {
+  const router = express.Router();
+
+  // Get statistics with alias resolution
+  router.get('/api/stats', cached, (req, res) => {
+    try {
+      const stats = {
+        totalDocuments: db.prepare('SELECT COUNT(*) as count FROM documents').get(),
+        totalTriples: db.prepare('SELECT COUNT(*) as count FROM rdf_triples').get(),
+        totalActors: db.prepare(`
+          SELECT COUNT(DISTINCT COALESCE(ea.canonical_name, rt.actor)) as count
+          FROM rdf_triples rt
+          LEFT JOIN entity_aliases ea ON rt.actor = ea.original_name
+        `).get(),
+        categories: db.prepare(`
+          SELECT category, COUNT(*) as count
+          FROM documents
+          GROUP BY category
+          ORDER BY count DESC
+        `).all(),
+      };
+      res.json(stats);
+    } catch (error) {
+      console.error('Error in /api/stats:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Full-text search over document bodies and summaries (FTS5, ranked by bm25)
+  router.get('/api/documents/search', validateRequest(API_ROUTES.searchDocuments), (req, res) => {
+    try {
+      const { q, limit, categories } = routeInput(res, API_ROUTES.searchDocuments);
+      const ftsQuery = buildFtsQuery(q);
+      if (!ftsQuery) {
+        return res.json({ results: [], total: 0 });
+      }
+
+      let categoryWhere = '';
+      if (categories.length > 0) {
+        categoryWhere = `AND d.category IN (${categories.map(() => '?').join(',')})`;
+      }
+
+      const total = db.prepare(`
+        SELECT COUNT(*) as count
+        FROM documents_fts
+        JOIN documents d ON d.id = documents_fts.rowid
+        WHERE documents_fts MATCH ?
+        ${categoryWhere}
+      `).get(ftsQuery, ...categories) as { count: number };
+
+      // snippet() column -1 picks whichever column matched best
+      const results = db.prepare(`
+        SELECT
+          d.doc_id,
+          d.category,
+          d.one_sentence_summary,
+          d.date_range_earliest,
+          d.date_range_latest,
+          snippet(documents_fts, -1, '<mark>', '</mark>', '…', 32) as snippet,
+          bm25(documents_fts) as rank
+        FROM documents_fts
+        JOIN documents d ON d.id = documents_fts.rowid
+        WHERE documents_fts MATCH ?
+        ${categoryWhere}
+        ORDER BY rank
+        LIMIT ?
+      `).all(ftsQuery, ...categories, limit);
+
+      res.json({ results, total: total.count });
+    } catch (error) {
+      console.error('Error in /api/documents/search:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Get document by doc_id
+  router.get('/api/document/:docId', validateRequest(API_ROUTES.fetchDocument), (req, res) => {
+    try {
+      const { docId } = routeInput(res, API_ROUTES.fetchDocument);
+      const doc = db.prepare(`
+        SELECT
+          doc_id,
+          file_path,
+          one_sentence_summary,
+          paragraph_summary,
+          category,
+          date_range_earliest,
+          date_range_latest
+        FROM documents
+        WHERE doc_id = ?
+      `).get(docId);
+
+      if (!doc) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      res.json(doc);
+    } catch (error) {
+      console.error('Error in /api/document/:docId:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Get document text from database
+  router.get('/api/document/:docId/text', validateRequest(API_ROUTES.fetchDocumentText), (req, res) => {
+    try {
+      const { docId } = routeInput(res, API_ROUTES.fetchDocumentText);
+      const doc = db.prepare('SELECT full_text FROM documents WHERE doc_id = ?').get(docId) as { full_text: string | null } | undefined;
+
+      if (!doc) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+
+      if (!doc.full_text) {
+        return res.status(404).json({ error: 'Document text not available' });
+      }
+
+      res.json({ text: doc.full_text });
+    } catch (error) {
+      console.error('Error in /api/document/:docId/text:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,718 @@
+import express from 'express';
+import {
+  GRAPH_EXPORT_FORMATS,
+  toGexf,
+  toGraphml,
+  toCytoscapeJson,
+  toCsv,
+  type ExportGraph,
+  type ExportNode,
+  type ExportEdge
+} from '../graph_export';
+import { buildRdfDataset, serializeRdf, RDF_FORMATS } from '../rdf_export';
+import { runGraphQuery, GraphQueryError } from '../graph_query';
+import { loadEditOverlay, applyEditOverlay } from '../community_edits';
+import { validateRequest, routeInput } from '../api_schema';
+import { API_ROUTES } from '../api_routes';
+import {
+  toTripleFilters,
+  normalizeKeywords,
+  buildAdjacency,
+  kShortestPaths,
+  type GraphTriple
+} from '../graph_store';
+import {
+  requireScope,
+  limitCeiling,
+  exportTripleCap,
+  waitForDrain,
+  STREAM_BATCH_SIZE,
+  type ApiContext
+} from './context';
+
+// The relationship graph: filtered edges, actor timelines, paths, neighborhoods, exports and pattern queries
+
+// Keyset pagination cursor: opaque encoding of the last triple id on the previous page
+function encodeCursor(id: number): string {
+  return Buffer.from(String(id)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+  const id = Number(Buffer.from(cursor, 'base64url').toString());
+  return Number.isInteger(id) && id >= 0 ? id : null;
+}
+
+export function createRelationshipsRouter(ctx: ApiContext): express.Router {
+  const { db, communityDb, graph, cached, cachedUnlessApplyingEdits } = ctx;
+  const router = express.Router();
+
+  // Get all relationships (edges) with distance-based pruning
+  router.get('/api/relationships', validateRequest(API_ROUTES.fetchRelationships), cachedUnlessApplyingEdits, async (req, res) => {
+    try {
+      const input = routeInput(res, API_ROUTES.fetchRelationships);
+      const limit = Math.min(input.limit, limitCeiling(res));
+      const filters = toTripleFilters(input);
+      const keywords = normalizeKeywords(input.keywords);
+      const maxHops = input.maxHops ?? null;
+      const sort = input.sort;
+      const principals = graph.resolvePrincipals(input.principal);
+      const streaming = input.format === 'ndjson';
+      const paged = input.cursor !== undefined || input.pageSize !== undefined;
+      const editOverlay = input.applyEdits ? loadEditOverlay(communityDb) : null;
+
+      // Bulk modes return every filtered triple in id order, so a row limit or another order can't apply
+      if (streaming || paged) {
+        const ignored = (['limit', 'sort'] as const).filter(name => req.query[name] !== undefined);
+        if (ignored.length > 0) {
+          const message = 'does not apply to cursor pages or NDJSON, which return every triple in id order (use pageSize)';
+          return res.status(400).json({
+            error: `Invalid query parameter "${ignored[0]}": ${message}`,
+            issues: ignored.map(name => ({ in: 'query', name, message }))
+          });
+        }
+      }
+
+      let afterId = 0;
+      if (input.cursor !== undefined) {
+        const decoded = decodeCursor(input.cursor);
+        if (decoded === null) {
+          return res.status(400).json({ error: 'Invalid cursor' });
+        }
+        afterId = decoded;
+      }
+
+      // Cluster, category and year filters (cluster membership via the triple_clusters index)
+      const filterSql = graph.buildTripleFilterSql(filters);
+
+      // Build WHERE clause for hop distance using canonical_entities table.
+      // For non-default principals the distances are computed on demand and applied below.
+      const useMaterializedHops = graph.isDefaultPrincipals(principals);
+      const hopDistances = maxHops !== null && !useMaterializedHops ? graph.getHopDistances(principals) : null;
+      let hopJoins = '';
+      let hopWhere = '';
+      let hopParams: number[] = [];
+      if (maxHops !== null && useMaterializedHops) {
+        hopJoins = `
+        LEFT JOIN canonical_entities ce_actor ON COALESCE(ea_actor.canonical_name, rt.actor) = ce_actor.canonical_name
+        LEFT JOIN canonical_entities ce_target ON COALESCE(ea_target.canonical_name, rt.target) = ce_target.canonical_name`;
+        hopWhere = `AND ce_actor.hop_distance_from_principal <= ?
+                    AND ce_target.hop_distance_from_principal <= ?`;
+        hopParams = [maxHops, maxHops];
+      }
+
+      // Keyword filtering and relevance scoring via the triples_fts index
+      const keywordJoin = graph.buildKeywordJoin(keywords);
+      const orderBy = sort === 'relevance' && keywords.length > 0 ? 'kw.score DESC' : 'rt.timestamp';
+
+      // Fetch relationships with alias resolution and triple_tags
+      const selectSql = `
+        SELECT
+          rt.id,
+          rt.doc_id,
+          rt.timestamp,
+          COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+          rt.action,
+          COALESCE(ea_target.canonical_name, rt.target) as target,
+          rt.location,
+          rt.triple_tags,
+          rt.top_cluster_ids,
+          ${keywordJoin.select}
+        FROM rdf_triples rt
+        ${keywordJoin.join}
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        ${hopJoins}
+        LEFT JOIN documents d ON rt.doc_id = d.doc_id
+        WHERE (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+        ${filterSql.where}
+        ${hopWhere}`;
+      const selectParams = [...keywordJoin.params, ...filterSql.params, ...hopParams];
+
+      type RelationshipRow = {
+        id: number;
+        doc_id: string;
+        timestamp: string | null;
+        actor: string;
+        action: string;
+        target: string;
+        location: string | null;
+        triple_tags: string | null;
+        top_cluster_ids: string | null;
+        relevance: number | null;
+      };
+
+      // On-demand hop distances for non-default principals
+      const withinHops = (rel: RelationshipRow) => {
+        if (!hopDistances || maxHops === null) return true;
+        return (hopDistances.get(rel.actor) ?? Infinity) <= maxHops
+          && (hopDistances.get(rel.target) ?? Infinity) <= maxHops;
+      };
+
+      // Accepted community edits rewrite names after the hop filter, so corrected edges group together below
+      const withEdits = (rel: RelationshipRow) => editOverlay ? applyEditOverlay(editOverlay, rel) : rel;
+
+      const toResponse = ({ triple_tags, ...rel }: RelationshipRow) => ({
+        ...rel,
+        tags: triple_tags ? JSON.parse(triple_tags) : []
+      });
+
+      // Paged and streaming modes walk the filtered triples in id order (keyset pagination),
+      // so each page costs the same regardless of corpus size. No density pruning is applied.
+      if (streaming || paged) {
+        const pageStmt = db.prepare(`${selectSql} AND rt.id > ? ORDER BY rt.id LIMIT ?`);
+        const loadPage = (after: number, size: number) => {
+          const rows = pageStmt.all(...selectParams, after, size) as RelationshipRow[];
+          return {
+            relationships: rows.filter(withinHops).map(withEdits).map(toResponse),
+            // Based on the rows scanned, so pages thinned by the hop filter still advance
+            lastId: rows.length === size ? rows[rows.length - 1].id : null
+          };
+        };
+
+        if (streaming) {
+          res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+          let cursorId: number | null = afterId;
+          while (cursorId !== null && !res.destroyed) {
+            const page = loadPage(cursorId, STREAM_BATCH_SIZE);
+            for (const rel of page.relationships) {
+              if (!res.write(JSON.stringify(rel) + '\n')) await waitForDrain(res);
+            }
+            cursorId = page.lastId;
+          }
+          return res.end();
+        }
+
+        const page = loadPage(afterId, input.pageSize ?? 1000);
+        return res.json({
+          relationships: page.relationships,
+          nextCursor: page.lastId === null ? null : encodeCursor(page.lastId),
+          principals
+        });
+      }
+
+      // Apply database-level LIMIT to prevent memory exhaustion
+      const MAX_DB_LIMIT = 100000; // Maximum rows to fetch from database
+      const allRelationships = db.prepare(`${selectSql}
+        ORDER BY ${orderBy}
+        LIMIT ?
+      `).all(...selectParams, MAX_DB_LIMIT) as RelationshipRow[];
+
+      const filteredRelationships = allRelationships.filter(withinHops).map(withEdits);
+
+      // First, deduplicate edges by grouping relationships between same actor pairs
+      const edgeMap = new Map<string, any[]>();
+
+      filteredRelationships.forEach(rel => {
+        const edgeKey = `${rel.actor}|||${rel.target}`;
+        if (!edgeMap.has(edgeKey)) {
+          edgeMap.set(edgeKey, []);
+        }
+        edgeMap.get(edgeKey)!.push(rel);
+      });
+
+      // Convert to array of unique edges (each edge represents all relationships between that pair)
+      const uniqueEdges = Array.from(edgeMap.entries()).map(([key, rels]) => ({
+        edgeKey: key,
+        relationships: rels,
+        // Use first relationship as representative
+        representative: rels[0]
+      }));
+
+      // Calculate node degrees based on UNIQUE edges
+      const nodeDegrees = new Map<string, number>();
+      uniqueEdges.forEach(edge => {
+        const rel = edge.representative;
+        nodeDegrees.set(rel.actor, (nodeDegrees.get(rel.actor) || 0) + 1);
+        nodeDegrees.set(rel.target, (nodeDegrees.get(rel.target) || 0) + 1);
+      });
+
+      // Assign density score to each unique edge
+      const edgesWithDensity = uniqueEdges.map(edge => {
+        const rel = edge.representative;
+        const actorDegree = nodeDegrees.get(rel.actor) || 0;
+        const targetDegree = nodeDegrees.get(rel.target) || 0;
+        const densityScore = actorDegree + targetDegree;
+
+        return {
+          ...edge,
+          _density: densityScore
+        };
+      });
+
+      // Sort unique edges by density (highest first) and take top limit.
+      // When sorting by relevance, the best-scoring relationship on each edge decides instead.
+      const edgeRelevance = (edge: typeof edgesWithDensity[number]) =>
+        Math.max(...edge.relationships.map(rel => rel.relevance ?? 0));
+      if (sort === 'relevance' && keywords.length > 0) {
+        edgesWithDensity.sort((a, b) => edgeRelevance(b) - edgeRelevance(a) || b._density - a._density);
+      } else {
+        edgesWithDensity.sort((a, b) => b._density - a._density);
+      }
+      const prunedEdges = edgesWithDensity.slice(0, limit);
+
+      // Expand back to all relationships for the kept edges
+      const prunedRelationships = prunedEdges.flatMap(edge => edge.relationships);
+      if (sort === 'relevance' && keywords.length > 0) {
+        prunedRelationships.sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
+      }
+
+      // Parse tags before sending
+      const relationships = prunedRelationships.map(toResponse);
+
+      // Return both the relationships and metadata
+      res.json({
+        relationships,
+        totalBeforeLimit: uniqueEdges.length, // Count of unique edges, not total triples
+        totalBeforeFilter: allRelationships.length,
+        principals
+      });
+    } catch (error) {
+      console.error('Error in /api/relationships:', error);
+      if (res.headersSent) return res.end(); // Mid-stream: just terminate the response
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Get relationships for specific actor with alias resolution and cluster filtering
+  router.get('/api/actor/:name/relationships', validateRequest(API_ROUTES.fetchActorRelationships), cachedUnlessApplyingEdits, (req, res) => {
+    try {
+      const input = routeInput(res, API_ROUTES.fetchActorRelationships);
+      const { name } = input;
+      const filters = toTripleFilters(input);
+      const keywords = normalizeKeywords(input.keywords);
+      const maxHops = input.maxHops ?? null;
+      const sort = input.sort;
+      const principals = graph.resolvePrincipals(input.principal);
+
+      // Find all aliases for this name (if it's a canonical name)
+      // OR find the canonical name if this is an alias
+      const aliasQuery = db.prepare(`
+        SELECT original_name FROM entity_aliases WHERE canonical_name = ?
+        UNION
+        SELECT canonical_name FROM entity_aliases WHERE original_name = ?
+        UNION
+        SELECT ? as name
+      `).all(name, name, name);
+
+      const allNames = aliasQuery.map((row: any) => row.original_name || row.canonical_name || row.name);
+      const placeholders = allNames.map(() => '?').join(',');
+
+      // With community edits applied, triples whose accepted correction names this actor are included too
+      const editOverlay = input.applyEdits ? loadEditOverlay(communityDb) : null;
+      const correctedTripleIds = editOverlay
+        ? [...editOverlay.entries()]
+          .filter(([, edit]) => allNames.includes(edit.actor?.proposed) || allNames.includes(edit.target?.proposed))
+          .map(([tripleId]) => tripleId)
+        : [];
+
+      // First, get the total count WITHOUT any filters (for the "X of Y" display)
+      const totalRelationships = db.prepare(`
+        SELECT COUNT(*) as count
+        FROM rdf_triples rt
+        WHERE (rt.actor IN (${placeholders}) OR rt.target IN (${placeholders}) OR rt.id IN (SELECT value FROM json_each(?)))
+          AND (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+      `).get(...allNames, ...allNames, JSON.stringify(correctedTripleIds)) as { count: number };
+
+      // Cluster, category and year filters (cluster membership via the triple_clusters index)
+      const filterSql = graph.buildTripleFilterSql(filters);
+
+      // Build WHERE clause for hop distance using canonical_entities table.
+      // For non-default principals the distances are computed on demand and applied below.
+      const useMaterializedHops = graph.isDefaultPrincipals(principals);
+      const hopDistances = maxHops !== null && !useMaterializedHops ? graph.getHopDistances(principals) : null;
+      let hopJoins = '';
+      let hopWhere = '';
+      let hopParams: number[] = [];
+      if (maxHops !== null && useMaterializedHops) {
+        hopJoins = `
+        LEFT JOIN canonical_entities ce_actor ON COALESCE(ea_actor.canonical_name, rt.actor) = ce_actor.canonical_name
+        LEFT JOIN canonical_entities ce_target ON COALESCE(ea_target.canonical_name, rt.target) = ce_target.canonical_name`;
+        hopWhere = `AND ce_actor.hop_distance_from_principal <= ?
+                    AND ce_target.hop_distance_from_principal <= ?`;
+        hopParams = [maxHops, maxHops];
+      }
+
+      // Keyword filtering and relevance scoring via the triples_fts index
+      const keywordJoin = graph.buildKeywordJoin(keywords);
+      const orderBy = sort === 'relevance' && keywords.length > 0 ? 'kw.score DESC' : 'rt.timestamp';
+
+      const allRelationships = db.prepare(`
+        SELECT
+          rt.id,
+          rt.doc_id,
+          rt.timestamp,
+          COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+          rt.action,
+          COALESCE(ea_target.canonical_name, rt.target) as target,
+          rt.location,
+          rt.triple_tags,
+          rt.top_cluster_ids,
+          ${keywordJoin.select}
+        FROM rdf_triples rt
+        ${keywordJoin.join}
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        ${hopJoins}
+        LEFT JOIN documents d ON rt.doc_id = d.doc_id
+        WHERE (rt.actor IN (${placeholders}) OR rt.target IN (${placeholders}) OR rt.id IN (SELECT value FROM json_each(?)))
+          AND (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+          ${filterSql.where}
+          ${hopWhere}
+        ORDER BY ${orderBy}
+      `).all(...keywordJoin.params, ...allNames, ...allNames, JSON.stringify(correctedTripleIds), ...filterSql.params, ...hopParams) as Array<{
+        id: number;
+        doc_id: string;
+        timestamp: string | null;
+        actor: string;
+        action: string;
+        target: string;
+        location: string | null;
+        triple_tags: string | null;
+        top_cluster_ids: string | null;
+        relevance: number | null;
+      }>;
+
+      // Filter by on-demand hop distances if specified
+      const filteredRelationships = allRelationships.filter(rel => {
+        if (hopDistances && maxHops !== null) {
+          if ((hopDistances.get(rel.actor) ?? Infinity) > maxHops) return false;
+          if ((hopDistances.get(rel.target) ?? Infinity) > maxHops) return false;
+        }
+        return true;
+      });
+
+      const relationships = filteredRelationships
+        .map(rel => editOverlay ? applyEditOverlay(editOverlay, rel) : rel)
+        // Drop triples whose accepted correction moved them away from this actor
+        .filter(rel => !editOverlay || allNames.includes(rel.actor) || allNames.includes(rel.target))
+        .map((rel) => ({
+          id: rel.id,
+          doc_id: rel.doc_id,
+          timestamp: rel.timestamp,
+          actor: rel.actor,
+          action: rel.action,
+          target: rel.target,
+          location: rel.location,
+          tags: rel.triple_tags ? JSON.parse(rel.triple_tags) : [],
+          relevance: rel.relevance,
+          ...('community_edits' in rel ? { community_edits: rel.community_edits } : {})
+        }));
+
+      res.json({
+        relationships,
+        totalBeforeFilter: totalRelationships.count,
+        principals
+      });
+    } catch (error) {
+      console.error('Error in /api/actor/:name/relationships:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Find the k shortest connection paths between two entities
+  router.get('/api/path', validateRequest(API_ROUTES.findPaths), (req, res) => {
+    try {
+      const input = routeInput(res, API_ROUTES.findPaths);
+      const { k } = input;
+      const MAX_TRIPLES_PER_HOP = 50;
+
+      const source = graph.resolveCanonicalName(input.from);
+      const target = graph.resolveCanonicalName(input.to);
+
+      const adjacency = buildAdjacency(graph.loadFilteredTriples(toTripleFilters(input)));
+
+      if (!adjacency.has(source) || !adjacency.has(target)) {
+        return res.status(404).json({
+          error: `Entity not found with the current filters: ${!adjacency.has(source) ? source : target}`
+        });
+      }
+
+      const paths = source === target ? [[source]] : kShortestPaths(adjacency, source, target, k);
+
+      res.json({
+        from: source,
+        to: target,
+        paths: paths.map(nodes => ({
+          length: nodes.length - 1,
+          nodes,
+          hops: nodes.slice(0, -1).map((node, i) => {
+            const triples = adjacency.get(node)!.get(nodes[i + 1])!;
+            return {
+              source: node,
+              target: nodes[i + 1],
+              totalRelationships: triples.length,
+              doc_ids: Array.from(new Set(triples.map(t => t.doc_id))),
+              relationships: triples.slice(0, MAX_TRIPLES_PER_HOP).map(({ triple_tags, ...t }) => ({
+                ...t,
+                tags: triple_tags ? JSON.parse(triple_tags) : []
+              }))
+            };
+          })
+        }))
+      });
+    } catch (error) {
+      console.error('Error in /api/path:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // N-hop ego graph around an entity, keeping the most strongly connected neighbors at each level
+  router.get('/api/actor/:name/neighborhood', validateRequest(API_ROUTES.fetchActorNeighborhood), cached, (req, res) => {
+    try {
+      const input = routeInput(res, API_ROUTES.fetchActorNeighborhood);
+      const { depth, maxNodes, minWeight } = input;
+      const MAX_NEIGHBORHOOD_TRIPLES = 20000;
+
+      const center = graph.resolveCanonicalName(input.name);
+      const adjacency = buildAdjacency(graph.loadFilteredTriples(toTripleFilters(input)));
+
+      if (!adjacency.has(center)) {
+        return res.status(404).json({ error: `Entity not found with the current filters: ${center}` });
+      }
+
+      // Grow level by level. Edge weight is the number of supporting triples; candidates are ranked
+      // by their total weight to the previous level and only the strongest fill the node budget.
+      const nodeDepth = new Map<string, number>([[center, 0]]);
+      const nodeWeight = new Map<string, number>([[center, 0]]);
+      let frontier = [center];
+      let truncated = false;
+
+      for (let level = 1; level <= depth && frontier.length > 0; level++) {
+        const candidates = new Map<string, number>();
+        frontier.forEach(node => {
+          adjacency.get(node)!.forEach((triples, neighbor) => {
+            if (nodeDepth.has(neighbor) || triples.length < minWeight) return;
+            candidates.set(neighbor, (candidates.get(neighbor) || 0) + triples.length);
+          });
+        });
+
+        const ranked = Array.from(candidates.entries())
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        const room = maxNodes - nodeDepth.size;
+        if (ranked.length > room) truncated = true;
+
+        frontier = ranked.slice(0, Math.max(0, room)).map(([neighbor, weight]) => {
+          nodeDepth.set(neighbor, level);
+          nodeWeight.set(neighbor, weight);
+          return neighbor;
+        });
+      }
+
+      // Every edge between kept nodes, strongest first
+      const edges: GraphTriple[][] = [];
+      nodeDepth.forEach((_, node) => {
+        adjacency.get(node)!.forEach((triples, neighbor) => {
+          if (node < neighbor && nodeDepth.has(neighbor) && triples.length >= minWeight) {
+            edges.push(triples);
+          }
+        });
+      });
+      edges.sort((a, b) => b.length - a.length);
+
+      const relationships: GraphTriple[] = [];
+      for (const triples of edges) {
+        if (relationships.length + triples.length > MAX_NEIGHBORHOOD_TRIPLES) {
+          truncated = true;
+          break;
+        }
+        relationships.push(...triples);
+      }
+
+      res.json({
+        center,
+        depth,
+        nodes: Array.from(nodeDepth.entries()).map(([node, d]) => ({
+          name: node,
+          depth: d,
+          weight: nodeWeight.get(node)!
+        })),
+        relationships: relationships.map(({ triple_tags, ...t }) => ({
+          ...t,
+          tags: triple_tags ? JSON.parse(triple_tags) : []
+        })),
+        truncated
+      });
+    } catch (error) {
+      console.error('Error in /api/actor/:name/neighborhood:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Export the filtered relationship graph for Gephi / Cytoscape
+  router.get('/api/export/graph', validateRequest(API_ROUTES.exportGraph), (req, res) => {
+    try {
+      const input = routeInput(res, API_ROUTES.exportGraph);
+      const { format, table: csvTable } = input;
+      const filters = toTripleFilters(input);
+      const keywords = normalizeKeywords(input.keywords);
+      const maxHops = input.maxHops ?? null;
+      const principals = graph.resolvePrincipals(input.principal);
+      const maxTriples = exportTripleCap(res);
+
+      const filterSql = graph.buildTripleFilterSql(filters);
+      const keywordJoin = graph.buildKeywordJoin(keywords);
+      const triples = db.prepare(`
+        SELECT
+          rt.id,
+          rt.doc_id,
+          rt.timestamp,
+          COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+          rt.action,
+          COALESCE(ea_target.canonical_name, rt.target) as target,
+          rt.location,
+          rt.triple_tags,
+          rt.top_cluster_ids
+        FROM rdf_triples rt
+        ${keywordJoin.join}
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        LEFT JOIN documents d ON rt.doc_id = d.doc_id
+        WHERE (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')
+        ${filterSql.where}
+        ORDER BY rt.id
+        LIMIT ?
+      `).all(...keywordJoin.params, ...filterSql.params, maxTriples ?? -1) as Array<GraphTriple & { top_cluster_ids: string | null }>;
+
+      // Hop distances are always measured on the full graph so exported values match the UI filter
+      const hopDistances = graph.getHopDistances(principals);
+      const withinHops = (name: string) => maxHops === null || (hopDistances.get(name) ?? Infinity) <= maxHops;
+
+      const edges: ExportEdge[] = triples
+        .filter(t => withinHops(t.actor) && withinHops(t.target))
+        .map(t => ({
+          id: t.id,
+          source: t.actor,
+          target: t.target,
+          action: t.action,
+          timestamp: t.timestamp,
+          location: t.location,
+          tags: t.triple_tags ? JSON.parse(t.triple_tags) : [],
+          topClusterIds: t.top_cluster_ids ? JSON.parse(t.top_cluster_ids) : [],
+          docId: t.doc_id
+        }));
+
+      // Degree = number of distinct neighbors in the exported graph
+      const neighbors = new Map<string, Set<string>>();
+      edges.forEach(edge => {
+        if (!neighbors.has(edge.source)) neighbors.set(edge.source, new Set());
+        if (!neighbors.has(edge.target)) neighbors.set(edge.target, new Set());
+        if (edge.source !== edge.target) {
+          neighbors.get(edge.source)!.add(edge.target);
+          neighbors.get(edge.target)!.add(edge.source);
+        }
+      });
+
+      const nodes: ExportNode[] = Array.from(neighbors.entries())
+        .map(([id, adjacent]) => ({ id, degree: adjacent.size, hopDistance: hopDistances.get(id) ?? null }))
+        .sort((a, b) => b.degree - a.degree || a.id.localeCompare(b.id));
+
+      const exportGraph: ExportGraph = { nodes, edges, principals };
+      const body = format === 'gexf' ? toGexf(exportGraph)
+        : format === 'graphml' ? toGraphml(exportGraph)
+        : format === 'cyjs' ? toCytoscapeJson(exportGraph)
+        : toCsv(exportGraph, csvTable);
+
+      const { contentType, extension } = GRAPH_EXPORT_FORMATS[format];
+      const filename = format === 'csv' ? `relationship_graph_${csvTable}.csv` : `relationship_graph.${extension}`;
+      res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(body);
+    } catch (error) {
+      console.error('Error in /api/export/graph:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Export the filtered triple store as RDF (Turtle, N-Triples or JSON-LD)
+  router.get('/api/export/rdf', validateRequest(API_ROUTES.exportRdf), (req, res) => {
+    try {
+      const input = routeInput(res, API_ROUTES.exportRdf);
+      const { format } = input;
+      const filterSql = graph.buildTripleFilterSql(toTripleFilters(input));
+
+      const { quads, vocab } = buildRdfDataset(db, {
+        where: `AND (rt.timestamp IS NULL OR rt.timestamp >= '1970-01-01')\n${filterSql.where}`,
+        params: filterSql.params,
+        limit: exportTripleCap(res) ?? undefined
+      });
+
+      const { contentType, extension } = RDF_FORMATS[format];
+      res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="triples.${extension}"`);
+      res.send(serializeRdf(quads, vocab, format));
+    } catch (error) {
+      console.error('Error in /api/export/rdf:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Bulk dump of every triple (raw and alias-resolved names) as NDJSON, for keys with the export scope.
+  // Accepts the same cluster/category/year filters as the other exports.
+  router.get('/api/export/triples', requireScope('export'), validateRequest(API_ROUTES.exportTriples), async (req, res) => {
+    try {
+      const filterSql = graph.buildTripleFilterSql(toTripleFilters(routeInput(res, API_ROUTES.exportTriples)));
+      const batchStmt = db.prepare(`
+        SELECT
+          rt.id,
+          rt.doc_id,
+          rt.timestamp,
+          COALESCE(ea_actor.canonical_name, rt.actor) as actor,
+          rt.actor as actor_original,
+          rt.action,
+          COALESCE(ea_target.canonical_name, rt.target) as target,
+          rt.target as target_original,
+          rt.location,
+          rt.triple_tags,
+          rt.top_cluster_ids
+        FROM rdf_triples rt
+        LEFT JOIN entity_aliases ea_actor ON rt.actor = ea_actor.original_name
+        LEFT JOIN entity_aliases ea_target ON rt.target = ea_target.original_name
+        LEFT JOIN documents d ON rt.doc_id = d.doc_id
+        WHERE rt.id > ?
+        ${filterSql.where}
+        ORDER BY rt.id
+        LIMIT ?
+      `);
+
+      type TripleExportRow = { id: number; triple_tags: string | null; top_cluster_ids: string | null };
+
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="triples.ndjson"');
+      let afterId = 0;
+      while (!res.destroyed) {
+        const rows = batchStmt.all(afterId, ...filterSql.params, STREAM_BATCH_SIZE) as TripleExportRow[];
+        for (const row of rows) {
+          const line = JSON.stringify({
+            ...row,
+            triple_tags: row.triple_tags ? JSON.parse(row.triple_tags) : [],
+            top_cluster_ids: row.top_cluster_ids ? JSON.parse(row.top_cluster_ids) : []
+          });
+          if (!res.write(line + '\n')) await waitForDrain(res);
+        }
+        if (rows.length < STREAM_BATCH_SIZE) break;
+        afterId = rows[rows.length - 1].id;
+      }
+      res.end();
+    } catch (error) {
+      console.error('Error in /api/export/triples:', error);
+      if (res.headersSent) return res.end(); // Mid-stream: just terminate the response
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  // Run a graph pattern query (see graph_query.ts for the language)
+  router.post('/api/query', validateRequest(API_ROUTES.runGraphQuery), (req, res) => {
+    try {
+      const { query, limit } = routeInput(res, API_ROUTES.runGraphQuery);
+      res.json(runGraphQuery(db, query, graph.resolveCanonicalName, limit));
+    } catch (error) {
+      if (error instanceof GraphQueryError) {
+        return res.status(400).json({ error: error.message, position: error.position });
+      }
+      console.error('Error in /api/query:', error);
+      res.status(500).json({ error: 'An internal error occurred' });
+    }
+  });
+
+  return router;
+}
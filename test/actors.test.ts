@@ -0,0 +1,124 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './fixture';
+
+describe('actors router', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  describe('GET /api/actors', () => {
+    it('lists actors by outgoing relationship count with aliases merged', async () => {
+      const res = await server.get('/api/actors');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body[0], { name: 'Jeffrey Epstein', connection_count: 3 });
+      assert.equal(res.body.filter((actor: { name: string }) => actor.name === 'Alice').length, 0);
+    });
+  });
+
+  describe('GET /api/search', () => {
+    it('matches canonical names by substring', async () => {
+      const res = await server.get('/api/search?q=smith');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body.map((actor: { name: string }) => actor.name), ['Alice Smith']);
+    });
+
+    it('returns nothing without a query', async () => {
+      const res = await server.get('/api/search');
+      assert.deepEqual(res.body, []);
+    });
+
+    it('rejects overlong queries', async () => {
+      const res = await server.get(`/api/search?q=${'x'.repeat(201)}`);
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues[0].name, 'q');
+    });
+  });
+
+  describe('GET /api/actor-counts', () => {
+    it('counts both ends of every dated or undated triple since 1970', async () => {
+      const res = await server.get('/api/actor-counts?limit=10');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body, {
+        'Jeffrey Epstein': 3,
+        'Alice Smith': 3,
+        'Bob Jones': 3,
+        'Carol White': 2,
+        'Dan Brown': 1,
+        'Eve Black': 1,
+        'Frank Green': 1
+      });
+    });
+
+    it('keeps only the top N and clamps the limit', async () => {
+      assert.equal(Object.keys((await server.get('/api/actor-counts?limit=2')).body).length, 2);
+      assert.equal(Object.keys((await server.get('/api/actor-counts?limit=0')).body).length, 1);
+    });
+
+    it('rejects a non-numeric limit', async () => {
+      assert.equal((await server.get('/api/actor-counts?limit=many')).status, 400);
+    });
+  });
+
+  describe('GET /api/actor/:name/count', () => {
+    it('counts an entity through its aliases', async () => {
+      const res = await server.get('/api/actor/Alice%20Smith/count');
+      assert.deepEqual(res.body, { count: 3 });
+    });
+
+    it('returns zero for unknown entities', async () => {
+      const res = await server.get('/api/actor/Nobody/count');
+      assert.deepEqual(res.body, { count: 0 });
+    });
+  });
+
+  describe('GET /api/analytics/entities', () => {
+    it('sorts by PageRank by default', async () => {
+      const res = await server.get('/api/analytics/entities');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.total, 7);
+      assert.deepEqual(res.body.entities.slice(0, 2).map((e: { name: string }) => e.name), ['Jeffrey Epstein', 'Bob Jones']);
+    });
+
+    it('sorts by any metric in either order and pages', async () => {
+      const res = await server.get('/api/analytics/entities?sort=degree&order=asc&limit=2&offset=1');
+      assert.deepEqual(res.body.entities.map((e: { name: string }) => e.name), ['Eve Black', 'Frank Green']);
+      assert.equal(res.body.total, 7);
+    });
+
+    it('filters by community and name', async () => {
+      const community = await server.get('/api/analytics/entities?community=1');
+      assert.deepEqual(community.body.entities.map((e: { name: string }) => e.name), ['Carol White', 'Dan Brown']);
+
+      const named = await server.get('/api/analytics/entities?q=green');
+      assert.equal(named.body.total, 1);
+      assert.equal(named.body.entities[0].name, 'Frank Green');
+    });
+
+    it('rejects unknown sort columns and orders', async () => {
+      const res = await server.get('/api/analytics/entities?sort=name&order=up');
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues.length, 2);
+    });
+  });
+
+  describe('GET /api/analytics/communities', () => {
+    it('maps every entity to its community', async () => {
+      const res = await server.get('/api/analytics/communities');
+      assert.equal(res.body['Alice Smith'], 0);
+      assert.equal(res.body['Dan Brown'], 1);
+      assert.equal(Object.keys(res.body).length, 7);
+    });
+  });
+});
+
+describe('actors router without entity analytics', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer({ analytics: false }); });
+  after(() => server.close());
+
+  it('answers 503 until compute_entity_analytics.ts has run', async () => {
+    assert.equal((await server.get('/api/analytics/entities')).status, 503);
+    assert.equal((await server.get('/api/analytics/communities')).status, 503);
+  });
+});
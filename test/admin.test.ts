@@ -0,0 +1,122 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashFingerprint } from '../community_edits';
+import { startTestServer, ADMIN_TOKEN, type TestServer } from './fixture';
+
+const ADMIN = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+async function proposeEdit(server: TestServer, submitterFingerprint: string, proposedValue: string) {
+  const res = await server.post('/api/edits', {
+    tripleId: 3,
+    docId: 'DOC-002',
+    editType: 'add_context',
+    proposedValue,
+    originalValue: 'paid',
+    evidenceText: 'The wire confirmation lists the payment purpose.',
+    submitterFingerprint
+  });
+  assert.equal(res.status, 201);
+  return res.body as { id: number };
+}
+
+describe('admin router', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  describe('authentication', () => {
+    it('rejects a wrong bearer token', async () => {
+      const res = await server.get('/api/admin/flags', { Authorization: 'Bearer wrong' });
+      assert.equal(res.status, 401);
+    });
+
+    it('requires the admin scope on API keys', async () => {
+      const reader = server.issueKey({ name: 'reader', scopes: ['read'] });
+      assert.equal((await server.get('/api/admin/flags', reader)).status, 403);
+
+      const admin = server.issueKey({ name: 'moderator', scopes: ['read', 'admin'] });
+      assert.equal((await server.get('/api/admin/flags', admin)).status, 200);
+    });
+  });
+
+  describe('moderation', () => {
+    it('queues flagged content and hides or restores it', async () => {
+      const edit = await proposeEdit(server, 'spammer', 'Buy now');
+      await server.post('/api/moderation/flag', { targetType: 'edit', targetId: edit.id, flagReason: 'spam', flaggerFingerprint: 'a' });
+      await server.post('/api/moderation/flag', { targetType: 'edit', targetId: edit.id, flagReason: 'abuse', flaggerFingerprint: 'b' });
+
+      const queue = await server.get('/api/admin/flags', ADMIN);
+      assert.equal(queue.body.total, 1);
+      assert.equal(queue.body.items[0].flag_count, 2);
+      assert.deepEqual(queue.body.items[0].reasons, { spam: 1, abuse: 1 });
+
+      const hidden = await server.post(`/api/admin/content/edit/${edit.id}/hide`, { note: 'spam' }, ADMIN);
+      assert.deepEqual(hidden.body, { target_type: 'edit', target_id: edit.id, hidden: true });
+      assert.equal((await server.get('/api/edits/triple/3')).body.totalCount, 0);
+      // Reviewed items leave the queue
+      assert.equal((await server.get('/api/admin/flags', ADMIN)).body.total, 0);
+
+      await server.post(`/api/admin/content/edit/${edit.id}/restore`, {}, ADMIN);
+      assert.equal((await server.get('/api/edits/triple/3')).body.totalCount, 1);
+    });
+
+    it('deletes an edit together with its comments', async () => {
+      const edit = await proposeEdit(server, 'deletable', 'Remove me');
+      await server.post(`/api/edits/${edit.id}/comments`, { commentText: 'Agreed', commenterFingerprint: 'c' });
+
+      const res = await server.request('DELETE', `/api/admin/content/edit/${edit.id}`, { headers: ADMIN });
+      assert.deepEqual(res.body, { deleted: 2 });
+      assert.equal((await server.request('DELETE', `/api/admin/content/edit/${edit.id}`, { headers: ADMIN })).status, 404);
+    });
+
+    it('bans and unbans stored fingerprint hashes', async () => {
+      await proposeEdit(server, 'troll', 'Nonsense');
+      const fingerprint = hashFingerprint('troll');
+
+      const ban = await server.post('/api/admin/bans', { fingerprint, reason: 'trolling', hideContent: true }, ADMIN);
+      assert.equal(ban.status, 201);
+      assert.equal(ban.body.hidden, 1);
+
+      const bans = await server.get('/api/admin/bans', ADMIN);
+      assert.deepEqual(bans.body.bans.map((b: { fingerprint: string }) => b.fingerprint), [fingerprint]);
+
+      const unban = await server.request('DELETE', `/api/admin/bans/${fingerprint}`, { headers: ADMIN });
+      assert.equal(unban.status, 204);
+      assert.equal((await server.request('DELETE', `/api/admin/bans/${fingerprint}`, { headers: ADMIN })).status, 404);
+    });
+  });
+
+  describe('backup', () => {
+    it('round-trips an export through import', async () => {
+      const exported = await server.get('/api/admin/export', ADMIN);
+      assert.match(exported.headers.get('content-disposition') ?? '', /attachment; filename="community_edits-/);
+      const proposals = exported.body.tables.edit_proposals.length;
+      assert.ok(proposals > 0);
+
+      await proposeEdit(server, 'after-export', 'Dropped by the import');
+      const imported = await server.post('/api/admin/import', exported.body, ADMIN);
+      assert.equal(imported.status, 200);
+      assert.equal(imported.body.imported.edit_proposals, proposals);
+
+      const reexported = await server.get('/api/admin/export', ADMIN);
+      assert.deepEqual(reexported.body.tables, exported.body.tables);
+    });
+
+    it('rejects files that are not community exports', async () => {
+      const res = await server.post('/api/admin/import', { format: 'other', tables: {} }, ADMIN);
+      assert.equal(res.status, 400);
+    });
+  });
+});
+
+describe('admin router without ADMIN_TOKEN', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer({ config: { adminToken: '' } }); });
+  after(() => server.close());
+
+  it('is disabled for token callers but still open to admin keys', async () => {
+    assert.equal((await server.get('/api/admin/flags', ADMIN)).status, 503);
+    const admin = server.issueKey({ name: 'moderator', scopes: ['admin'] });
+    assert.equal((await server.get('/api/admin/flags', admin)).status, 200);
+  });
+});
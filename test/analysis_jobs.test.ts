@@ -0,0 +1,175 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { initAnalysisSchema } from '../analysis_schema';
+import {
+  enqueueJobs,
+  claimNextJob,
+  recoverInterruptedJobs,
+  retryFailedJobs,
+  getJobCounts,
+  previewQueuedJobs,
+  runJobQueue,
+  isTransientError,
+  backoffDelay,
+  DEFAULT_JOB_OPTIONS,
+  type JobRunnerOptions
+} from '../analysis_jobs';
+
+function statuses(db: Database.Database) {
+  return Object.fromEntries(
+    (db.prepare('SELECT doc_id, status FROM analysis_jobs ORDER BY doc_id').all() as Array<{ doc_id: string; status: string }>)
+      .map(row => [row.doc_id, row.status])
+  );
+}
+
+// A clock that only moves when a worker sleeps, so backoff is instant and checkable
+function fakeTime(options: Partial<JobRunnerOptions> = {}): JobRunnerOptions & { slept: number[] } {
+  let time = Date.parse('2024-01-01T00:00:00Z');
+  const slept: number[] = [];
+  return {
+    ...DEFAULT_JOB_OPTIONS,
+    ...options,
+    now: () => new Date(time),
+    sleep: async (ms: number) => {
+      slept.push(ms);
+      time += ms;
+    },
+    slept
+  };
+}
+
+describe('analysis job queue', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    initAnalysisSchema(db);
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('enqueues new documents and carries over earlier results', () => {
+    const insert = db.prepare(`
+      INSERT INTO documents (doc_id, file_path, one_sentence_summary, paragraph_summary, category, content_tags, analysis_timestamp, error)
+      VALUES (?, ?, 's', 'p', 'other', '[]', '2024-01-01T00:00:00Z', ?)
+    `);
+    insert.run('A', 'data/A.txt', null);
+    insert.run('B', 'data/B.txt', 'JSON parse error (repair failed)');
+
+    const jobs = ['A', 'B', 'C'].map(docId => ({ docId, filePath: `data/${docId}.txt` }));
+    assert.equal(enqueueJobs(db, jobs), 3);
+    assert.equal(enqueueJobs(db, jobs), 0);
+    assert.deepEqual(statuses(db), { A: 'done', B: 'failed', C: 'queued' });
+  });
+
+  it('previews what would be queued without writing', () => {
+    db.prepare(`
+      INSERT INTO documents (doc_id, file_path, one_sentence_summary, paragraph_summary, category, content_tags, analysis_timestamp)
+      VALUES ('A', 'data/A.txt', 's', 'p', 'other', '[]', '2024-01-01T00:00:00Z')
+    `).run();
+    enqueueJobs(db, [{ docId: 'B', filePath: 'data/B.txt' }]);
+    const jobs = [
+      { docId: 'D_part2', filePath: 'data/D_part2.txt', dependsOn: 'D_part1' },
+      ...['A', 'B', 'C', 'D_part1'].map(docId => ({ docId, filePath: `data/${docId}.txt` }))
+    ];
+
+    assert.deepEqual(previewQueuedJobs(db, jobs).map(job => job.docId), ['B', 'C', 'D_part1', 'D_part2']);
+    assert.deepEqual(getJobCounts(db), { queued: 1, running: 0, failed: 0, done: 0 });
+    assert.equal(previewQueuedJobs(null, jobs).length, 5);
+  });
+
+  it('claims unsplit documents and first parts before the parts that depend on them', () => {
+    enqueueJobs(db, [
+      { docId: 'X_part2', filePath: 'X_part2.txt', dependsOn: 'X_part1' },
+      { docId: 'X_part1', filePath: 'X_part1.txt' },
+      { docId: 'Y', filePath: 'Y.txt' }
+    ]);
+    const now = new Date();
+
+    assert.equal(claimNextJob(db, now)?.doc_id, 'X_part1');
+    assert.equal(claimNextJob(db, now)?.doc_id, 'Y');
+    // X_part2 waits while its first part is running
+    assert.equal(claimNextJob(db, now), null);
+
+    assert.equal(recoverInterruptedJobs(db), 2);
+    assert.deepEqual(getJobCounts(db), { queued: 3, running: 0, failed: 0, done: 0 });
+    assert.equal(claimNextJob(db, now)?.attempts, 2);
+  });
+
+  it('retries rate limits with backoff and fails on other errors', async () => {
+    enqueueJobs(db, [{ docId: 'A', filePath: 'A.txt' }, { docId: 'B', filePath: 'B.txt' }]);
+    const options = fakeTime({ concurrency: 1, backoffBaseMs: 1000 });
+    let calls = 0;
+
+    const summary = await runJobQueue(db, options, async (job) => {
+      if (job.doc_id === 'B') throw new Error('Schema validation failed');
+      if (++calls < 3) throw Object.assign(new Error('Too Many Requests'), { status: 429 });
+    });
+
+    assert.deepEqual(summary, { done: 1, failed: 1, retried: 2 });
+    assert.deepEqual(statuses(db), { A: 'done', B: 'failed' });
+    // Two backoffs, the second about twice the first (±20% jitter)
+    const pauses = options.slept.filter(ms => ms > 1000 * 0.8 - 1);
+    assert.equal(pauses.length, 2);
+    assert.ok(pauses[0] <= 1200 && pauses[1] >= 1600 && pauses[1] <= 2400, `unexpected pauses ${pauses}`);
+
+    const failed = db.prepare("SELECT attempts, last_error FROM analysis_jobs WHERE doc_id = 'B'").get();
+    assert.deepEqual(failed, { attempts: 1, last_error: 'Schema validation failed' });
+
+    assert.equal(retryFailedJobs(db), 1);
+    assert.deepEqual(await runJobQueue(db, options, async () => {}), { done: 1, failed: 0, retried: 0 });
+  });
+
+  it('gives up on transient errors after maxAttempts', async () => {
+    enqueueJobs(db, [{ docId: 'A', filePath: 'A.txt' }]);
+    const summary = await runJobQueue(db, fakeTime({ maxAttempts: 3 }), async () => {
+      throw new Error('https://openrouter.ai/api/v1/chat/completions returned 503: overloaded');
+    });
+
+    assert.deepEqual(summary, { done: 0, failed: 1, retried: 2 });
+    assert.deepEqual(db.prepare('SELECT status, attempts FROM analysis_jobs').get(), { status: 'failed', attempts: 3 });
+  });
+
+  it('keeps at most `concurrency` jobs in flight and stops at the limit', async () => {
+    enqueueJobs(db, Array.from({ length: 10 }, (_, i) => ({ docId: `D${i}`, filePath: `D${i}.txt` })));
+    let inFlight = 0;
+    let peak = 0;
+
+    const summary = await runJobQueue(db, fakeTime({ concurrency: 3, limit: 7 }), async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setImmediate(resolve));
+      inFlight--;
+    });
+
+    assert.equal(peak, 3);
+    assert.equal(summary.done, 7);
+    assert.deepEqual(getJobCounts(db), { queued: 3, running: 0, failed: 0, done: 7 });
+  });
+
+  it('stops claiming new jobs once shouldStop is true', async () => {
+    enqueueJobs(db, Array.from({ length: 5 }, (_, i) => ({ docId: `D${i}`, filePath: `D${i}.txt` })));
+    let spent = 0;
+
+    const summary = await runJobQueue(db, fakeTime({ concurrency: 1, shouldStop: () => spent >= 0.25 }), async () => {
+      spent += 0.1;
+    });
+
+    assert.equal(summary.done, 3);
+    assert.deepEqual(getJobCounts(db), { queued: 2, running: 0, failed: 0, done: 3 });
+  });
+
+  it('recognizes transient errors and caps the backoff', () => {
+    assert.ok(isTransientError(Object.assign(new Error('boom'), { status: 529 })));
+    assert.ok(isTransientError(new Error('rate_limit_error: Number of request tokens has exceeded your limit')));
+    assert.ok(isTransientError(new Error('fetch failed')));
+    assert.ok(!isTransientError(new Error('No recorded response for prompt 0123456789ab in llm_recordings')));
+    assert.ok(!isTransientError(Object.assign(new Error('bad request'), { status: 400 })));
+
+    assert.equal(backoffDelay(1, 1000, 60000, () => 0.5), 1000);
+    assert.equal(backoffDelay(4, 1000, 60000, () => 0.5), 8000);
+    assert.equal(backoffDelay(20, 1000, 60000, () => 1), 60000);
+  });
+});
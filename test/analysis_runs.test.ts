@@ -0,0 +1,85 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { initAnalysisSchema } from '../analysis_schema';
+import {
+  startRun,
+  recordRunDocument,
+  finishRun,
+  markInterruptedRuns,
+  listRuns,
+  averageOutputTokens,
+  estimateRunCost,
+  getSpend,
+  trancheOf
+} from '../analysis_runs';
+
+const RUN = { provider: 'anthropic', model: 'claude-haiku-4-5', promptVersion: 'abc123', dataDir: 'data/tranche_001' };
+
+describe('analysis runs', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    initAnalysisSchema(db);
+  });
+
+  function addDocument(docId: string, filePath: string, category: string, runId: number | null, costUsd: number, outputTokens: number) {
+    db.prepare(`
+      INSERT INTO documents (doc_id, file_path, one_sentence_summary, paragraph_summary, category, content_tags,
+        analysis_timestamp, input_tokens, output_tokens, cost_usd, run_id)
+      VALUES (?, ?, 's', 'p', ?, '[]', '2024-01-01T00:00:00Z', 1000, ?, ?, ?)
+    `).run(docId, filePath, category, outputTokens, costUsd, runId);
+  }
+
+  it('keeps running totals and closes runs', () => {
+    const first = startRun(db, { ...RUN, estimatedCostUsd: 0.5, maxCostUsd: 1 }, new Date('2024-01-01T00:00:00Z'));
+    recordRunDocument(db, first, { input_tokens: 1000, output_tokens: 200, cache_read_input_tokens: 50 }, 0.002);
+    recordRunDocument(db, first, null, 0);
+    finishRun(db, first, 'budget_reached', 1, new Date('2024-01-01T01:00:00Z'));
+
+    // A run that never finished is found by the next one
+    startRun(db, { ...RUN, model: 'qwen2.5:14b' });
+    assert.equal(markInterruptedRuns(db), 1);
+
+    const [latest, earlier] = listRuns(db);
+    assert.equal(latest.status, 'interrupted');
+    assert.deepEqual(
+      { ...earlier, id: undefined },
+      {
+        id: undefined, provider: 'anthropic', model: 'claude-haiku-4-5', prompt_version: 'abc123', data_dir: 'data/tranche_001',
+        status: 'budget_reached', started_at: '2024-01-01T00:00:00.000Z', finished_at: '2024-01-01T01:00:00.000Z',
+        documents: 2, failed: 1, input_tokens: 1000, output_tokens: 200, cache_read_tokens: 50, cost_usd: 0.002,
+        estimated_cost_usd: 0.5, max_cost_usd: 1
+      }
+    );
+  });
+
+  it('estimates cost from prompt length and past output', () => {
+    assert.equal(averageOutputTokens(db), null);
+    addDocument('A', 'data/A.txt', 'email', null, 0.01, 1000);
+    addDocument('B', 'data/B.txt', 'email', null, 0.01, 3000);
+    assert.equal(averageOutputTokens(db), 2000);
+
+    // 8,000 characters ≈ 2,000 input tokens per document; haiku is $1 in / $5 out per million
+    const estimate = estimateRunCost('claude-haiku-4-5', [8000, 8000], 2000);
+    assert.deepEqual(estimate, { documents: 2, inputTokens: 4000, outputTokens: 4000, costUsd: 0.024 });
+    assert.equal(estimateRunCost('qwen2.5:14b', [8000], 2000).costUsd, 0);
+  });
+
+  it('breaks down spend by tranche, category and model', () => {
+    const haiku = startRun(db, RUN);
+    const sonnet = startRun(db, { ...RUN, model: 'claude-sonnet-4-5' });
+    addDocument('A', 'data/tranche_001/A.txt', 'email', haiku, 0.01, 100);
+    addDocument('B', 'data/tranche_001/B.txt', 'court_filing', sonnet, 0.05, 100);
+    addDocument('C', 'data/tranche_002/C.txt', 'email', sonnet, 0.04, 100);
+    addDocument('D', 'D.txt', 'email', null, 0.02, 100);
+
+    const summarize = (rows: ReturnType<typeof getSpend>) => rows.map(row => `${row.key} ${row.documents} ${row.cost_usd.toFixed(2)}`);
+    assert.deepEqual(summarize(getSpend(db, 'tranche')), ['tranche_001 2 0.06', 'tranche_002 1 0.04', '. 1 0.02']);
+    assert.deepEqual(summarize(getSpend(db, 'category')), ['email 3 0.07', 'court_filing 1 0.05']);
+    assert.deepEqual(summarize(getSpend(db, 'model')), ['claude-sonnet-4-5 2 0.09', 'unknown 1 0.02', 'claude-haiku-4-5 1 0.01']);
+    assert.equal(getSpend(db, 'model')[0].input_tokens, 2000);
+    assert.equal(trancheOf('/data/new_docs_nov2024_processed/tranche_003/X_part1.txt'), 'tranche_003');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { bumpContentVersion } from '../db_version';
+import { createMemoryRateLimitStore } from '../rate_limit';
+import { startTestServer, type TestServer } from './fixture';
+
+describe('app', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it('reports health with cache statistics', async () => {
+    const res = await server.get('/health');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.status, 'ok');
+    assert.equal(typeof res.body.cache.entries, 'number');
+  });
+
+  it('serves the OpenAPI document and the docs page', async () => {
+    const spec = await server.get('/api/openapi.json');
+    assert.equal(spec.status, 200);
+    assert.equal(spec.body.openapi, '3.1.0');
+    assert.ok(spec.body.paths['/api/actor/{name}/relationships'].get);
+
+    const docs = await server.get('/api/docs');
+    assert.equal(docs.status, 200);
+    assert.match(docs.headers.get('content-type') ?? '', /text\/html/);
+    assert.match(docs.text, /\/api\/openapi\.json/);
+  });
+
+  it('reports every invalid parameter in one 400', async () => {
+    const res = await server.get('/api/relationships?limit=abc&sort=bogus');
+    assert.equal(res.status, 400);
+    assert.deepEqual(res.body.issues.map((issue: { name: string }) => issue.name).sort(), ['limit', 'sort']);
+    assert.match(res.body.error, /^Invalid query parameter/);
+  });
+
+  it('rejects unknown API keys instead of treating them as anonymous', async () => {
+    const res = await server.get('/api/stats', { 'X-API-Key': 'edx_not-a-real-key' });
+    assert.equal(res.status, 401);
+  });
+
+  it('accepts API keys as bearer tokens', async () => {
+    const headers = server.issueKey({ name: 'bearer', scopes: ['read'] });
+    const res = await server.get('/api/stats', { Authorization: `Bearer ${headers['X-API-Key']}` });
+    assert.equal(res.status, 200);
+  });
+
+  it('enforces daily key quotas', async () => {
+    const headers = server.issueKey({ name: 'quota', scopes: ['read'], dailyQuota: 2 });
+    assert.equal((await server.get('/api/stats', headers)).status, 200);
+    assert.equal((await server.get('/api/stats', headers)).status, 200);
+    const res = await server.get('/api/stats', headers);
+    assert.equal(res.status, 429);
+    assert.match(res.body.error, /Daily quota/);
+  });
+
+  it('caches heavy reads with ETags until the content version changes', async () => {
+    const first = await server.get('/api/actor-counts?limit=5');
+    const second = await server.get('/api/actor-counts?limit=5');
+    assert.equal(second.headers.get('x-cache'), 'HIT');
+    assert.equal(second.headers.get('etag'), first.headers.get('etag'));
+
+    const revalidated = await server.get('/api/actor-counts?limit=5', { 'If-None-Match': first.headers.get('etag')! });
+    assert.equal(revalidated.status, 304);
+
+    bumpContentVersion(server.db, 'test');
+    const afterBump = await server.get('/api/actor-counts?limit=5');
+    assert.equal(afterBump.headers.get('x-cache'), 'MISS');
+  });
+
+  it('allows configured CORS origins', async () => {
+    const res = await server.get('/api/stats', { Origin: 'http://localhost:5173' });
+    assert.equal(res.headers.get('access-control-allow-origin'), 'http://localhost:5173');
+    assert.match(res.headers.get('access-control-expose-headers') ?? '', /RateLimit-Remaining/);
+  });
+});
+
+describe('rate limiting', () => {
+  let server: TestServer;
+  before(async () => {
+    server = await startTestServer({
+      config: {
+        rateLimit: {
+          store: createMemoryRateLimitStore(),
+          heavy: { burst: 1, perMinute: 1 },
+          cheap: { burst: 3, perMinute: 1 }
+        }
+      }
+    });
+  });
+  after(() => server.close());
+
+  it('gives heavy routes their own smaller budget', async () => {
+    assert.equal((await server.get('/api/relationships?format=ndjson')).status, 200);
+    const limited = await server.get('/api/relationships?pageSize=100');
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+
+    // The cheap budget is untouched, and covers the network view the UI reloads on every filter change
+    const cheap = await server.get('/api/stats');
+    assert.equal(cheap.status, 200);
+    assert.equal(cheap.headers.get('ratelimit-limit'), '3');
+    assert.equal((await server.get('/api/relationships')).status, 200);
+  });
+
+  it('sizes keyed buckets by the key, whatever the route', async () => {
+    const headers = server.issueKey({ name: 'bulk', scopes: ['read'], burst: 5, perMinute: 5 });
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await server.get('/api/relationships', headers)).status, 200);
+    }
+    assert.equal((await server.get('/api/relationships', headers)).status, 429);
+  });
+
+  it('does not limit non-API paths', async () => {
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await server.get('/health')).status, 200);
+    }
+  });
+});
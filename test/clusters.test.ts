@@ -0,0 +1,16 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, TAG_CLUSTERS, type TestServer } from './fixture';
+
+describe('clusters router', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  it('lists cluster metadata with tag counts instead of the tags', async () => {
+    const res = await server.get('/api/tag-clusters');
+    assert.equal(res.status, 200);
+    assert.equal(res.body.length, TAG_CLUSTERS.length);
+    assert.deepEqual(res.body[2], { id: 2, name: 'Finance', exemplars: ['financial'], tagCount: 3 });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { COMMUNITY_LIMITS, hashFingerprint } from '../community_edits';
+import { startTestServer, type TestServer } from './fixture';
+
+const EVIDENCE = 'The email header names Frank Gray as the recipient.';
+
+function proposal(overrides: Record<string, unknown> = {}) {
+  return {
+    tripleId: 6,
+    docId: 'DOC-004',
+    editType: 'correct_target',
+    proposedValue: 'Frank Gray',
+    originalValue: 'Frank Green',
+    evidenceText: EVIDENCE,
+    submitterFingerprint: 'submitter',
+    ...overrides
+  };
+}
+
+describe('community router', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  describe('POST /api/edits', () => {
+    it('rejects short evidence', async () => {
+      const res = await server.post('/api/edits', proposal({ evidenceText: 'too short' }));
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues[0].name, 'evidenceText');
+    });
+
+    it('checks the triple and its document', async () => {
+      assert.equal((await server.post('/api/edits', proposal({ tripleId: 999 }))).status, 404);
+      const mismatch = await server.post('/api/edits', proposal({ docId: 'DOC-001' }));
+      assert.equal(mismatch.status, 400);
+      assert.equal(mismatch.body.error, 'docId does not match the relationship');
+    });
+
+    it('creates a pending proposal without exposing the fingerprint', async () => {
+      const res = await server.post('/api/edits', proposal({ editType: 'add_context', proposedValue: 'Sent from the office' }));
+      assert.equal(res.status, 201);
+      assert.equal(res.body.status, 'pending');
+      assert.equal(res.body.submitter_fingerprint, undefined);
+    });
+
+    it('limits proposals per fingerprint per hour', async () => {
+      const submitterFingerprint = 'prolific';
+      for (let i = 0; i < COMMUNITY_LIMITS.proposalsPerHour; i++) {
+        const res = await server.post('/api/edits', proposal({ editType: 'add_context', proposedValue: `Note ${i}`, submitterFingerprint }));
+        assert.equal(res.status, 201);
+      }
+      const limited = await server.post('/api/edits', proposal({ editType: 'add_context', submitterFingerprint }));
+      assert.equal(limited.status, 429);
+    });
+  });
+
+  describe('votes', () => {
+    it('counts one vote per fingerprint and lets voters switch sides', async () => {
+      const edit = (await server.post('/api/edits', proposal({ editType: 'add_context', proposedValue: 'Voting' }))).body;
+      const up = await server.post(`/api/edits/${edit.id}/vote`, { vote: 1, voterFingerprint: 'voter' });
+      assert.equal(up.body.upvotes, 1);
+      assert.equal(up.body.user_vote, 1);
+
+      const again = await server.post(`/api/edits/${edit.id}/vote`, { vote: 1, voterFingerprint: 'voter' });
+      assert.equal(again.body.upvotes, 1);
+
+      const switched = await server.post(`/api/edits/${edit.id}/vote`, { vote: -1, voterFingerprint: 'voter' });
+      assert.deepEqual([switched.body.upvotes, switched.body.downvotes, switched.body.net_score], [0, 1, -1]);
+    });
+
+    it('rejects invalid votes and unknown edits', async () => {
+      assert.equal((await server.post('/api/edits/1/vote', { vote: 2, voterFingerprint: 'voter' })).status, 400);
+      assert.equal((await server.post('/api/edits/999/vote', { vote: 1, voterFingerprint: 'voter' })).status, 404);
+    });
+  });
+
+  describe('comments and flags', () => {
+    it('threads replies under their parent comment', async () => {
+      const edit = (await server.post('/api/edits', proposal({ editType: 'dispute', proposedValue: 'Misread', tripleId: 3, docId: 'DOC-002' }))).body;
+      const top = await server.post(`/api/edits/${edit.id}/comments`, { commentText: 'Which page?', commenterFingerprint: 'reader' });
+      assert.equal(top.status, 201);
+      const reply = await server.post(`/api/edits/${edit.id}/comments`, {
+        commentText: 'Page two', commenterFingerprint: 'submitter', parentCommentId: top.body.id
+      });
+      assert.equal(reply.status, 201);
+
+      const voted = await server.post(`/api/comments/${reply.body.id}/vote`, { vote: 1, voterFingerprint: 'reader' });
+      assert.equal(voted.body.upvotes, 1);
+
+      const thread = await server.get(`/api/edits/${edit.id}/comments`);
+      assert.equal(thread.body.comments.length, 1);
+      assert.equal(thread.body.comments[0].replies[0].comment_text, 'Page two');
+    });
+
+    it('records one flag per fingerprint', async () => {
+      const flag = { targetType: 'edit', targetId: 1, flagReason: 'spam', flaggerFingerprint: 'flagger' };
+      const res = await server.post('/api/moderation/flag', flag);
+      assert.equal(res.status, 201);
+      assert.equal(res.body.flagCount, 1);
+      assert.equal((await server.post('/api/moderation/flag', flag)).status, 409);
+    });
+  });
+
+  describe('POST /api/edits/summary', () => {
+    it('counts proposals by status for the requested triples', async () => {
+      const res = await server.post('/api/edits/summary', { tripleIds: [3, 5] });
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body.summary, { 3: { accepted: 0, pending: 1, disputed: 0, rejected: 0 } });
+    });
+  });
+
+  describe('accepted edits', () => {
+    it('are overlaid on relationship results when applyEdits is set', async () => {
+      const edit = (await server.post('/api/edits', proposal({ submitterFingerprint: 'corrector' }))).body;
+      let status = '';
+      for (let i = 0; i < 5; i++) {
+        status = (await server.post(`/api/edits/${edit.id}/vote`, { vote: 1, voterFingerprint: `supporter-${i}` })).body.status;
+      }
+      assert.equal(status, 'accepted');
+
+      const served = await server.get('/api/relationships');
+      assert.equal(served.body.relationships.find((rel: { id: number }) => rel.id === 6).target, 'Frank Green');
+
+      const edited = await server.get('/api/relationships?applyEdits=true');
+      const rel = edited.body.relationships.find((rel: { id: number }) => rel.id === 6);
+      assert.equal(rel.target, 'Frank Gray');
+      assert.deepEqual(rel.community_edits.target, { edit_id: edit.id, original: 'Frank Green', proposed: 'Frank Gray' });
+    });
+  });
+
+  describe('bans', () => {
+    it('block every kind of contribution', async () => {
+      server.communityDb.prepare('INSERT INTO banned_fingerprints (fingerprint) VALUES (?)').run(hashFingerprint('banned'));
+      const res = await server.post('/api/edits', proposal({ submitterFingerprint: 'banned' }));
+      assert.equal(res.status, 403);
+      assert.equal((await server.post('/api/edits/1/vote', { vote: 1, voterFingerprint: 'banned' })).status, 403);
+    });
+  });
+});
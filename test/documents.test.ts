@@ -0,0 +1,84 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './fixture';
+
+describe('documents router', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  describe('GET /api/stats', () => {
+    it('counts documents, triples, canonical actors and categories', async () => {
+      const res = await server.get('/api/stats');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body.totalDocuments, { count: 4 });
+      assert.deepEqual(res.body.totalTriples, { count: 8 });
+      assert.deepEqual(res.body.totalActors, { count: 6 });
+      assert.deepEqual(res.body.categories[0], { category: 'email', count: 2 });
+    });
+  });
+
+  describe('GET /api/documents/search', () => {
+    it('ranks full-text matches and highlights snippets', async () => {
+      const res = await server.get('/api/documents/search?q=manifest');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.total, 1);
+      assert.equal(res.body.results[0].doc_id, 'DOC-001');
+      assert.match(res.body.results[0].snippet, /<mark>/);
+    });
+
+    it('requires every word and keeps quoted phrases together', async () => {
+      assert.equal((await server.get('/api/documents/search?q=wire%20transfer')).body.total, 1);
+      assert.equal((await server.get('/api/documents/search?q=%22transfer%20wire%22')).body.total, 0);
+      assert.equal((await server.get('/api/documents/search?q=wire%20ledger')).body.total, 0);
+    });
+
+    it('filters by category', async () => {
+      const res = await server.get('/api/documents/search?q=payments&categories=email');
+      assert.equal(res.body.total, 0);
+      const matched = await server.get('/api/documents/search?q=payments&categories=email,financial_record');
+      assert.equal(matched.body.results[0].doc_id, 'DOC-003');
+    });
+
+    it('returns nothing for an empty query and rejects overlong ones', async () => {
+      assert.deepEqual((await server.get('/api/documents/search?q=%22%22')).body, { results: [], total: 0 });
+      assert.equal((await server.get(`/api/documents/search?q=${'a'.repeat(501)}`)).status, 400);
+    });
+  });
+
+  describe('GET /api/document/:docId', () => {
+    it('returns document metadata', async () => {
+      const res = await server.get('/api/document/DOC-002');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.category, 'email');
+      assert.equal(res.body.full_text, undefined);
+    });
+
+    it('answers 404 for unknown documents', async () => {
+      assert.equal((await server.get('/api/document/DOC-999')).status, 404);
+    });
+  });
+
+  describe('GET /api/document/:docId/text', () => {
+    it('returns the stored text', async () => {
+      const res = await server.get('/api/document/DOC-003/text');
+      assert.match(res.body.text, /^Ledger of payments/);
+    });
+
+    it('distinguishes missing documents from missing text', async () => {
+      const missing = await server.get('/api/document/DOC-999/text');
+      assert.equal(missing.status, 404);
+      assert.equal(missing.body.error, 'Document not found');
+
+      const noText = await server.get('/api/document/DOC-004/text');
+      assert.equal(noText.status, 404);
+      assert.equal(noText.body.error, 'Document text not available');
+    });
+
+    it('rejects ids with path characters', async () => {
+      const res = await server.get('/api/document/DOC%3C1%3E/text');
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues[0].in, 'path');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateDocumentAnalysis, isValidDate, EXTRACTION_LIMITS, type ExtractionIssue } from '../extraction_schema';
+
+const TRIPLE = {
+  timestamp: '2003-04-01',
+  actor: 'Alice Smith',
+  action: 'met with',
+  target: 'Bob Jones',
+  tags: ['business_meeting'],
+  explicit_topic: 'meeting',
+  implicit_topic: 'networking'
+};
+
+function response(overrides: Record<string, unknown> = {}) {
+  return {
+    one_sentence_summary: 'An email between Alice Smith and Bob Jones.',
+    paragraph_summary: 'Alice Smith writes to Bob Jones about a meeting.',
+    date_range_earliest: '2003-04-01',
+    date_range_latest: '2003-04-02T14:30',
+    category: 'email',
+    content_tags: ['scheduling'],
+    rdf_triples: [TRIPLE],
+    ...overrides
+  };
+}
+
+function summarize(issues: ExtractionIssue[]) {
+  return issues.map(issue => `${issue.triple_index ?? '-'} ${issue.field} ${issue.code} ${issue.severity}`);
+}
+
+describe('validateDocumentAnalysis', () => {
+  it('accepts a well-formed response unchanged', () => {
+    const { analysis, issues } = validateDocumentAnalysis(response(), 'DOC-1');
+    assert.deepEqual(issues, []);
+    assert.deepEqual(analysis, { doc_id: 'DOC-1', ...response() });
+  });
+
+  it('maps categories onto the enum and falls back to other', () => {
+    assert.equal(validateDocumentAnalysis(response({ category: 'Public_Record' }), 'D').analysis?.category, 'public record');
+
+    const { analysis, issues } = validateDocumentAnalysis(response({ category: 'diary' }), 'D');
+    assert.equal(analysis?.category, 'other');
+    assert.deepEqual(summarize(issues), ['- category invalid_category warning']);
+    assert.equal(issues[0].value, 'diary');
+  });
+
+  it('drops impossible or malformed dates', () => {
+    const { analysis, issues } = validateDocumentAnalysis(response({
+      date_range_earliest: '2003-02-30',
+      date_range_latest: 'April 2003',
+      rdf_triples: [{ ...TRIPLE, timestamp: '2003-04-01T25:00' }]
+    }), 'D');
+
+    assert.equal(analysis?.date_range_earliest, undefined);
+    assert.equal(analysis?.date_range_latest, undefined);
+    assert.equal(analysis?.rdf_triples[0].timestamp, undefined);
+    assert.deepEqual(summarize(issues), [
+      '- date_range_earliest invalid_date warning',
+      '- date_range_latest invalid_date warning',
+      '0 timestamp invalid_date warning'
+    ]);
+    assert.ok(isValidDate('2024-02-29') && !isValidDate('2023-02-29'));
+  });
+
+  it('normalizes tags and reports the ones it drops', () => {
+    const tooMany = Array.from({ length: EXTRACTION_LIMITS.maxTags + 5 }, (_, i) => `tag_${i}`);
+    const { analysis, issues } = validateDocumentAnalysis(response({
+      content_tags: ['legal strategy', 'legal_strategy', 'VIP', 42, 'not/a tag', 'x'.repeat(100)],
+      rdf_triples: [{ ...TRIPLE, tags: tooMany }]
+    }), 'D');
+
+    assert.deepEqual(analysis?.content_tags, ['legal_strategy', 'VIP']);
+    assert.equal(analysis?.rdf_triples[0].tags.length, EXTRACTION_LIMITS.maxTags);
+    assert.deepEqual(summarize(issues), [
+      '- content_tags[3] wrong_type warning',
+      '- content_tags[4] invalid_tag warning',
+      '- content_tags[5] too_long warning',
+      '0 tags too_many warning'
+    ]);
+  });
+
+  it('rejects triples without a usable actor, action or target', () => {
+    const { analysis, issues } = validateDocumentAnalysis(response({
+      rdf_triples: [
+        TRIPLE,
+        { ...TRIPLE, actor: '  ' },
+        { ...TRIPLE, target: 'x'.repeat(EXTRACTION_LIMITS.maxNameLength + 1) },
+        'Alice met Bob',
+        { actor: 'Carol', action: 'called', target: 'Dan', location: ['NYC'] }
+      ]
+    }), 'D');
+
+    assert.deepEqual(analysis?.rdf_triples.map(t => t.actor), ['Alice Smith', 'Carol']);
+    assert.deepEqual(analysis?.rdf_triples[1], { actor: 'Carol', action: 'called', target: 'Dan', tags: [] });
+    assert.deepEqual(summarize(issues), [
+      '1 actor missing_field error',
+      '2 target too_long error',
+      '3 triple wrong_type error',
+      '4 location wrong_type warning',
+      '4 explicit_topic missing_field warning',
+      '4 implicit_topic missing_field warning'
+    ]);
+  });
+
+  it('gives up on responses without summaries, but cuts overlong ones', () => {
+    assert.equal(validateDocumentAnalysis([TRIPLE], 'D').analysis, null);
+
+    const missing = validateDocumentAnalysis(response({ paragraph_summary: null }), 'D');
+    assert.equal(missing.analysis, null);
+    assert.deepEqual(summarize(missing.issues), ['- paragraph_summary missing_field error']);
+
+    const long = validateDocumentAnalysis(response({ one_sentence_summary: 'a'.repeat(600) }), 'D');
+    assert.equal(long.analysis?.one_sentence_summary.length, EXTRACTION_LIMITS.maxSentenceSummaryLength);
+    assert.deepEqual(summarize(long.issues), ['- one_sentence_summary too_long warning']);
+    assert.equal(long.issues[0].value?.length, 201);
+  });
+});
@@ -0,0 +1,227 @@
+import Database from 'better-sqlite3';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createApp, type ApiConfig } from '../api_app';
+import { initAnalysisSchema, initDerivedSchema } from '../analysis_schema';
+import { createMemoryRateLimitStore } from '../rate_limit';
+import { openApiKeysDb, issueApiKey, type NewApiKey } from '../api_keys';
+import { openCommunityEditsDb } from '../community_edits';
+import type { TagCluster } from '../routes/clusters';
+
+// A small, hand-written document_analysis.db built in memory, and an API server around it.
+//
+// Alias-resolved graph (triple ids in brackets; Jeffrey Epstein is the default principal):
+//
+//   Jeffrey Epstein -[1, 7]- Alice Smith -[2]- Bob Jones -[3]- Carol White -[4]- Dan Brown
+//   Jeffrey Epstein -[5]- Bob Jones            Eve Black -[6]- Frank Green (disconnected)
+//
+// Triple 8 is dated 1965 and is hidden by every graph endpoint. "Alice" and "A. Smith" are
+// aliases of Alice Smith. DOC-004 has no stored text.
+
+export const ADMIN_TOKEN = 'test-admin-token';
+
+export const TAG_CLUSTERS: TagCluster[] = [
+  { id: 0, name: 'Travel', exemplars: ['flight'], tags: ['flight', 'travel'] },
+  { id: 1, name: 'Meetings', exemplars: ['meeting'], tags: ['meeting'] },
+  { id: 2, name: 'Finance', exemplars: ['financial'], tags: ['financial', 'payment', 'wire'] },
+  { id: 3, name: 'Communication', exemplars: ['communication'], tags: ['communication'] }
+];
+
+const DOCUMENTS = [
+  {
+    doc_id: 'DOC-001', category: 'court_filing', earliest: '2001-03-01', latest: '2001-03-02',
+    summary: 'Flight manifest for a trip to Palm Beach',
+    full_text: 'Flight manifest listing the passengers on a private flight to Palm Beach. Deposition exhibit 12.'
+  },
+  {
+    doc_id: 'DOC-002', category: 'email', earliest: '2005-06-01', latest: '2005-06-02',
+    summary: 'Email arranging a wire transfer',
+    full_text: 'Please arrange the wire transfer to the foundation account before Friday.'
+  },
+  {
+    doc_id: 'DOC-003', category: 'financial_record', earliest: null, latest: null,
+    summary: 'Ledger of payments',
+    full_text: 'Ledger of payments to household staff and contractors.'
+  },
+  {
+    doc_id: 'DOC-004', category: 'email', earliest: '2010-01-01', latest: '2010-01-02',
+    summary: 'Email between two associates',
+    full_text: null
+  }
+];
+
+// [doc, timestamp, actor, action, target, location, tags, clusters, explicit topic]
+const TRIPLES: Array<[string, string | null, string, string, string, string | null, string[], number[], string]> = [
+  ['DOC-001', '2001-03-01', 'Jeffrey Epstein', 'flew with', 'Alice', 'Palm Beach', ['travel', 'flight'], [0, 1], 'private flight'],
+  ['DOC-001', '2001-03-02', 'Alice Smith', 'met with', 'Bob Jones', 'Palm Beach', ['meeting'], [1], 'meeting'],
+  ['DOC-002', '2005-06-01', 'Bob Jones', 'paid', 'Carol White', 'New York', ['financial'], [2], 'wire transfer'],
+  ['DOC-002', '2005-06-02', 'Carol White', 'called', 'Dan Brown', null, ['communication'], [2, 3], 'phone call'],
+  ['DOC-003', null, 'Jeffrey Epstein', 'paid', 'Bob Jones', null, ['financial'], [2, 0], 'household payment'],
+  ['DOC-004', '2010-01-01', 'Eve Black', 'emailed', 'Frank Green', null, ['communication'], [3], 'introduction'],
+  ['DOC-004', '2010-01-02', 'Jeffrey Epstein', 'met with', 'A. Smith', 'New York', ['meeting'], [0], 'dinner'],
+  ['DOC-001', '1965-05-05', 'Dan Brown', 'met with', 'Carol White', null, ['meeting'], [1], 'old meeting']
+];
+
+const ALIASES: Array<[string, string]> = [['Alice', 'Alice Smith'], ['A. Smith', 'Alice Smith']];
+
+// As written by create_canonical_entities_table.ts / fix_hop_distances.ts (1000 = disconnected)
+const HOP_DISTANCES: Record<string, number> = {
+  'Jeffrey Epstein': 0, 'Alice Smith': 1, 'Bob Jones': 1, 'Carol White': 2, 'Dan Brown': 3,
+  'Eve Black': 1000, 'Frank Green': 1000
+};
+
+// [name, degree, pagerank, community]
+const ANALYTICS: Array<[string, number, number, number]> = [
+  ['Jeffrey Epstein', 2, 0.25, 0], ['Alice Smith', 2, 0.18, 0], ['Bob Jones', 3, 0.2, 0],
+  ['Carol White', 2, 0.14, 1], ['Dan Brown', 1, 0.08, 1], ['Eve Black', 1, 0.075, 2], ['Frank Green', 1, 0.075, 2]
+];
+
+export interface FixtureOptions {
+  // Leave out entity_analytics, as before compute_entity_analytics.ts has run
+  analytics?: boolean;
+}
+
+export function createFixtureDb(options: FixtureOptions = {}): Database.Database {
+  const db = new Database(':memory:');
+  initAnalysisSchema(db);
+  initDerivedSchema(db);
+
+  const insertDocument = db.prepare(`
+    INSERT INTO documents (
+      doc_id, file_path, one_sentence_summary, paragraph_summary, date_range_earliest, date_range_latest,
+      category, content_tags, full_text, analysis_timestamp
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, '[]', ?, '2025-01-01T00:00:00Z')
+  `);
+  DOCUMENTS.forEach(doc => insertDocument.run(
+    doc.doc_id, `data/${doc.doc_id}.txt`, doc.summary, `${doc.summary}.`, doc.earliest, doc.latest, doc.category, doc.full_text
+  ));
+
+  const insertTriple = db.prepare(`
+    INSERT INTO rdf_triples (
+      doc_id, timestamp, actor, action, target, location, triple_tags, explicit_topic, implicit_topic,
+      sequence_order, top_cluster_ids
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?)
+  `);
+  TRIPLES.forEach(([docId, timestamp, actor, action, target, location, tags, clusters, topic], i) => insertTriple.run(
+    docId, timestamp, actor, action, target, location, JSON.stringify(tags), topic, i, JSON.stringify(clusters)
+  ));
+
+  const insertAlias = db.prepare('INSERT INTO entity_aliases (original_name, canonical_name) VALUES (?, ?)');
+  ALIASES.forEach(([original, canonical]) => insertAlias.run(original, canonical));
+
+  const insertEntity = db.prepare('INSERT INTO canonical_entities (canonical_name, hop_distance_from_principal) VALUES (?, ?)');
+  Object.entries(HOP_DISTANCES).forEach(([name, hops]) => insertEntity.run(name, hops));
+
+  if (options.analytics !== false) {
+    db.exec(`
+      CREATE TABLE entity_analytics (
+        canonical_name TEXT PRIMARY KEY,
+        degree INTEGER NOT NULL,
+        weighted_degree INTEGER NOT NULL,
+        betweenness REAL NOT NULL,
+        pagerank REAL NOT NULL,
+        eigenvector REAL NOT NULL,
+        community_id INTEGER NOT NULL,
+        computed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    const insertAnalytics = db.prepare(`
+      INSERT INTO entity_analytics (canonical_name, degree, weighted_degree, betweenness, pagerank, eigenvector, community_id)
+      VALUES (?, ?, ?, 0, ?, 0, ?)
+    `);
+    ANALYTICS.forEach(([name, degree, pagerank, community]) => insertAnalytics.run(name, degree, degree, pagerank, community));
+  }
+
+  return db;
+}
+
+export interface TestServerOptions extends FixtureOptions {
+  config?: Partial<ApiConfig>;
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+  // Parsed JSON body (undefined when the body is not JSON)
+  body: any;
+}
+
+export interface TestServer {
+  url: string;
+  db: Database.Database;
+  communityDb: Database.Database;
+  apiKeysDb: Database.Database;
+  request: (method: string, path: string, options?: { body?: unknown; headers?: Record<string, string> }) => Promise<TestResponse>;
+  get: (path: string, headers?: Record<string, string>) => Promise<TestResponse>;
+  post: (path: string, body: unknown, headers?: Record<string, string>) => Promise<TestResponse>;
+  // Issue a key and return the `X-API-Key` header that sends it
+  issueKey: (input: NewApiKey) => Record<string, string>;
+  close: () => Promise<void>;
+}
+
+// Generous budgets so only the rate limiting tests ever see a 429
+function testConfig(): ApiConfig {
+  return {
+    allowedOrigins: ['http://localhost:5173'],
+    trustProxy: false,
+    adminToken: ADMIN_TOKEN,
+    defaultPrincipals: ['Jeffrey Epstein'],
+    rateLimit: {
+      store: createMemoryRateLimitStore(),
+      heavy: { burst: 10000, perMinute: 10000 },
+      cheap: { burst: 10000, perMinute: 10000 }
+    },
+    responseCache: { maxEntries: 100, maxBytes: 16 * 1024 * 1024, diskDir: null },
+    frontendPath: null
+  };
+}
+
+export async function startTestServer(options: TestServerOptions = {}): Promise<TestServer> {
+  const db = createFixtureDb(options);
+  const communityDb = openCommunityEditsDb(':memory:');
+  const apiKeysDb = openApiKeysDb(':memory:');
+  const config: ApiConfig = { ...testConfig(), ...options.config };
+  const api = createApp({ db, communityDb, apiKeysDb, clusters: TAG_CLUSTERS, config });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = api.app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request: TestServer['request'] = async (method, path, requestOptions = {}) => {
+    const headers: Record<string, string> = { ...requestOptions.headers };
+    let body: string | undefined;
+    if (requestOptions.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(requestOptions.body);
+    }
+    const response = await fetch(url + path, { method, headers, body });
+    const text = await response.text();
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      parsed = undefined;
+    }
+    return { status: response.status, headers: response.headers, text, body: parsed };
+  };
+
+  return {
+    url,
+    db,
+    communityDb,
+    apiKeysDb,
+    request,
+    get: (path, headers) => request('GET', path, { headers }),
+    post: (path, body, headers) => request('POST', path, { body, headers }),
+    issueKey: (input) => ({ 'X-API-Key': issueApiKey(apiKeysDb, input).key }),
+    close: async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      api.close();
+      db.close();
+      communityDb.close();
+      apiKeysDb.close();
+    }
+  };
+}
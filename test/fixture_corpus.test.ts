@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { generateFixtureCorpus, CORPUS_THEMES, type FixtureCorpusOptions } from '../fixture_corpus';
+
+function generate(options: Partial<FixtureCorpusOptions> = {}) {
+  const db = new Database(':memory:');
+  const corpus = generateFixtureCorpus(db, { documents: 60, entities: 40, ...options });
+  return { db, corpus };
+}
+
+function dump(db: Database.Database, table: string): unknown[] {
+  return db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all();
+}
+
+describe('generateFixtureCorpus', () => {
+  it('produces identical rows for the same seed and different ones for another', () => {
+    const first = generate({ seed: 7 });
+    const second = generate({ seed: 7 });
+    const other = generate({ seed: 8 });
+    for (const table of ['documents', 'rdf_triples', 'entity_aliases', 'canonical_entities', 'tag_embeddings']) {
+      assert.deepEqual(dump(first.db, table), dump(second.db, table), table);
+    }
+    assert.notDeepEqual(dump(first.db, 'rdf_triples'), dump(other.db, 'rdf_triples'));
+    assert.deepEqual(first.corpus, second.corpus);
+  });
+
+  it('fills every derived table consistently', () => {
+    const { db, corpus } = generate({ clusters: 5 });
+    const count = (sql: string) => (db.prepare(sql).get() as { count: number }).count;
+
+    assert.equal(count('SELECT COUNT(*) as count FROM documents'), 60);
+    assert.equal(count('SELECT COUNT(*) as count FROM rdf_triples'), corpus.stats.triples);
+    assert.equal(corpus.clusters.length, 5);
+    assert.equal(count('SELECT COUNT(*) as count FROM tag_embeddings'), corpus.stats.tags);
+    assert.equal(count('SELECT COUNT(*) as count FROM rdf_triples WHERE top_cluster_ids IS NULL'), 0);
+    assert.equal(count('SELECT COUNT(*) as count FROM triple_clusters WHERE cluster_id >= 5'), 0);
+    assert.ok(count('SELECT COUNT(*) as count FROM triple_clusters') >= corpus.stats.triples);
+    assert.ok(count("SELECT COUNT(*) as count FROM triples_fts WHERE triples_fts MATCH 'unknown'") > 0);
+
+    // Every alias points at a canonical entity with the same hop distance
+    assert.equal(count(`
+      SELECT COUNT(*) as count FROM entity_aliases ea
+      LEFT JOIN canonical_entities ce ON ce.canonical_name = ea.canonical_name
+      WHERE ce.hop_distance_from_principal IS NOT ea.hop_distance_from_principal
+    `), 0);
+
+    const embedding = JSON.parse((db.prepare('SELECT embedding FROM tag_embeddings LIMIT 1').get() as { embedding: string }).embedding);
+    assert.equal(embedding.length, 32);
+  });
+
+  it('centers hop distances on the principal and leaves islands disconnected', () => {
+    const { db, corpus } = generate({ principal: 'Test Principal', disconnectedRate: 0.25 });
+    const hops = (name: string) => (db.prepare(
+      'SELECT hop_distance_from_principal as hops FROM canonical_entities WHERE canonical_name = ?'
+    ).get(name) as { hops: number }).hops;
+
+    assert.equal(hops('Test Principal'), 0);
+    assert.equal(corpus.stats.disconnected, 10);
+    const reachable = db.prepare(`
+      SELECT COUNT(*) as count FROM canonical_entities
+      WHERE hop_distance_from_principal < 1000 AND canonical_name NOT LIKE 'unknown person%'
+    `).get() as { count: number };
+    assert.equal(reachable.count, 30);
+  });
+
+  it('rejects more clusters than there are themes', () => {
+    assert.throws(() => generate({ clusters: CORPUS_THEMES.length + 1 }), /clusters must be between/);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { repairJson } from '../json_repair';
+
+function repaired(text: string) {
+  const result = repairJson(text);
+  assert.ok(result, `could not repair: ${text}`);
+  return result;
+}
+
+describe('repairJson', () => {
+  it('fixes the sample from test_json_repair.ts', () => {
+    const { value, fixes } = repaired(`{
+      "paragraph_summary": "It contains an unescaped " quote here.",
+      "category": "email,
+      "content_tags": ["legal_proceedings", "financial_transactions"], //aim for 5-10
+      "rdf_triples": [
+        { "actor": "A", "action": "met with", "target": "B", "tags": ["social_event",], },
+      ]
+    }`);
+
+    assert.deepEqual(value, {
+      paragraph_summary: 'It contains an unescaped " quote here.',
+      category: 'email',
+      content_tags: ['legal_proceedings', 'financial_transactions'],
+      rdf_triples: [{ actor: 'A', action: 'met with', target: 'B', tags: ['social_event'] }]
+    });
+    assert.deepEqual(fixes.sort(), ['comments', 'missing commas', 'trailing commas', 'unescaped quotes', 'unterminated strings']);
+  });
+
+  it('closes output that was cut off', () => {
+    assert.deepEqual(repaired('{"a": [1, 2, {"b": "cut off he').value, { a: [1, 2, { b: 'cut off he' }] });
+    // A half-written key or literal is dropped rather than guessed
+    assert.deepEqual(repaired('{"a": [1, {"c": "y", "d').value, { a: [1, { c: 'y' }] });
+    assert.deepEqual(repaired('{"a": "x", "b": tr').value, { a: 'x' });
+    assert.deepEqual(repaired('{"a": [1, 2,').fixes, ['truncated input']);
+  });
+
+  it('adds the comma left out after a value at the end of a line', () => {
+    assert.deepEqual(repaired('{\n  "a": "x"\n  "b": "y"\n}'), { value: { a: 'x', b: 'y' }, fixes: ['missing commas'] });
+    assert.deepEqual(
+      repaired('{"rdf_triples": [\n  {"actor": "Jeffrey Epstein", "target": "Bob Jones"}\n  {"actor": "Bob Jones"\n  "target": "Jeffrey Epstein"}\n]}').value,
+      { rdf_triples: [{ actor: 'Jeffrey Epstein', target: 'Bob Jones' }, { actor: 'Bob Jones', target: 'Jeffrey Epstein' }] }
+    );
+  });
+
+  it('handles block comments, raw newlines, bad escapes and surrounding prose', () => {
+    const { value, fixes } = repaired('Here is the JSON:\n{/* note */ "a": "line one\nline two", "b": "it\\\'s"} Hope this helps');
+    assert.deepEqual(value, { a: 'line one\nline two', b: "it's" });
+    assert.deepEqual(fixes.sort(), ['comments', 'invalid escapes', 'raw control characters', 'surrounding text']);
+  });
+
+  it('leaves valid JSON alone', () => {
+    const text = '{"a": "comma, then \\"quote\\"", "b": [1, -2.5e3, true, null], "c": "http://example.com"}';
+    assert.deepEqual(repaired(text), { value: JSON.parse(text), fixes: [] });
+  });
+
+  it('gives up instead of guessing', () => {
+    assert.equal(repairJson('no json here'), null);
+    assert.equal(repairJson('{"a": undefined}'), null);
+    assert.equal(repairJson('{"a": [1, 2]]'), null);
+    assert.equal(repairJson('{a: 1}'), null);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import {
+  createLLMProvider,
+  llmConfigFromEnv,
+  estimateCostUsd,
+  promptHash,
+  DEFAULT_MODELS
+} from '../llm_provider';
+
+interface ChatRequest {
+  authorization?: string;
+  body: { model: string; max_tokens: number; messages: Array<{ role: string; content: string }> };
+}
+
+// Minimal OpenAI-compatible server that echoes the prompt back
+async function startChatServer() {
+  const requests: ChatRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as ChatRequest['body'];
+      requests.push({ authorization: req.headers.authorization, body });
+      if (body.messages[0].content === 'fail') {
+        res.writeHead(503).end('overloaded');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        model: body.model,
+        choices: [{ message: { role: 'assistant', content: `echo: ${body.messages[0].content}` } }],
+        usage: { prompt_tokens: 12, completion_tokens: 3 }
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}/v1`, requests, close: () => server.close() };
+}
+
+describe('llm providers', () => {
+  let chat: Awaited<ReturnType<typeof startChatServer>>;
+  let dir: string;
+  before(async () => {
+    chat = await startChatServer();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-recordings-'));
+  });
+  after(() => {
+    chat.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('talks to an OpenAI-compatible server', async () => {
+    const llm = createLLMProvider({ provider: 'openai-compatible', model: 'local-test', baseUrl: chat.baseUrl, apiKey: 'secret' });
+    const response = await llm.complete({ prompt: 'hello', maxTokens: 64 });
+
+    assert.deepEqual(response, {
+      text: 'echo: hello',
+      usage: { input_tokens: 12, output_tokens: 3 },
+      costUsd: 0,
+      model: 'local-test'
+    });
+    const sent = chat.requests.at(-1)!;
+    assert.equal(sent.authorization, 'Bearer secret');
+    assert.equal(sent.body.max_tokens, 64);
+
+    await assert.rejects(llm.complete({ prompt: 'fail', maxTokens: 64 }), /returned 503: overloaded/);
+  });
+
+  it('replays recorded responses without calling the backend', async () => {
+    const recording = createLLMProvider({
+      provider: 'openai-compatible', model: 'local-test', baseUrl: chat.baseUrl, recordDir: dir
+    });
+    const live = await recording.complete({ prompt: 'analyze this', maxTokens: 64 });
+    assert.ok(fs.existsSync(path.join(dir, `${promptHash('analyze this')}.json`)));
+
+    const sentBefore = chat.requests.length;
+    const replay = createLLMProvider({ provider: 'replay', replayDir: dir });
+    const replayed = await replay.complete({ prompt: 'analyze this', maxTokens: 64 });
+
+    assert.equal(chat.requests.length, sentBefore);
+    assert.deepEqual(replayed, { ...live, costUsd: 0 });
+    await assert.rejects(replay.complete({ prompt: 'never recorded', maxTokens: 64 }), /No recorded response/);
+  });
+
+  it('reads its configuration from the environment', () => {
+    assert.deepEqual(llmConfigFromEnv({}), {
+      provider: 'agent-sdk', model: undefined, baseUrl: undefined, apiKey: undefined, recordDir: undefined, replayDir: undefined
+    });
+    assert.equal(llmConfigFromEnv({ LLM_PROVIDER: 'replay', LLM_REPLAY_DIR: dir }).replayDir, dir);
+    assert.throws(() => llmConfigFromEnv({ LLM_PROVIDER: 'gpt' }), /LLM_PROVIDER must be one of/);
+
+    assert.equal(createLLMProvider({ provider: 'anthropic', apiKey: 'test' }).model, DEFAULT_MODELS.anthropic);
+    assert.throws(() => createLLMProvider({ provider: 'openai-compatible' }), /LLM_MODEL is required/);
+    assert.throws(() => createLLMProvider({ provider: 'replay', replayDir: path.join(dir, 'missing') }), /does not exist/);
+  });
+
+  it('prices known models across naming schemes', () => {
+    const usage = { input_tokens: 1_000_000, output_tokens: 100_000, cache_read_input_tokens: 1_000_000 };
+    assert.equal(estimateCostUsd('claude-haiku-4-5', usage), 1.6);
+    assert.equal(estimateCostUsd('anthropic/claude-haiku-4.5', usage), 1.6);
+    assert.equal(estimateCostUsd('claude-haiku-4-5-20251001', usage), 1.6);
+    assert.equal(estimateCostUsd('llama3.1:8b', usage), 0);
+    assert.equal(estimateCostUsd('claude-haiku-4-5', null), 0);
+  });
+});
@@ -0,0 +1,364 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, type TestServer } from './fixture';
+import { GRAPH_QUERY_LIMITS } from '../graph_query';
+
+type Relationship = { id: number; actor: string; target: string; relevance: number | null; tags: string[] };
+
+const ids = (relationships: Relationship[]) => relationships.map(rel => rel.id).sort((a, b) => a - b);
+
+describe('relationships router', () => {
+  let server: TestServer;
+  before(async () => { server = await startTestServer(); });
+  after(() => server.close());
+
+  describe('GET /api/relationships', () => {
+    it('returns every relationship since 1970 with aliases resolved', async () => {
+      const res = await server.get('/api/relationships');
+      assert.equal(res.status, 200);
+      assert.deepEqual(ids(res.body.relationships), [1, 2, 3, 4, 5, 6, 7]);
+      assert.equal(res.body.totalBeforeFilter, 7);
+      assert.equal(res.body.totalBeforeLimit, 6);
+      assert.deepEqual(res.body.principals, ['Jeffrey Epstein']);
+
+      const first = res.body.relationships.find((rel: Relationship) => rel.id === 1);
+      assert.equal(first.target, 'Alice Smith');
+      assert.deepEqual(first.tags, ['travel', 'flight']);
+    });
+
+    it('keeps the densest unique edges up to the limit', async () => {
+      const res = await server.get('/api/relationships?limit=2');
+      assert.equal(res.body.totalBeforeLimit, 6);
+      const edges = new Set(res.body.relationships.map((rel: Relationship) => `${rel.actor}|${rel.target}`));
+      assert.equal(edges.size, 2);
+      assert.ok(!edges.has('Eve Black|Frank Green'));
+    });
+
+    it('filters by cluster, category and year', async () => {
+      assert.deepEqual(ids((await server.get('/api/relationships?clusters=3')).body.relationships), [4, 6]);
+      assert.deepEqual(ids((await server.get('/api/relationships?clusters=0,1')).body.relationships), [1, 2, 5, 7]);
+      assert.deepEqual(ids((await server.get('/api/relationships?categories=email')).body.relationships), [3, 4, 6, 7]);
+      assert.deepEqual(ids((await server.get('/api/relationships?yearMin=2005&yearMax=2010')).body.relationships), [3, 4, 5, 6, 7]);
+      assert.deepEqual(
+        ids((await server.get('/api/relationships?yearMin=2005&yearMax=2010&includeUndated=false')).body.relationships),
+        [3, 4, 6, 7]
+      );
+    });
+
+    it('ignores a year range given backwards or with one bound', async () => {
+      assert.equal((await server.get('/api/relationships?yearMin=2010&yearMax=2005')).body.relationships.length, 7);
+      assert.equal((await server.get('/api/relationships?yearMin=2005')).body.relationships.length, 7);
+    });
+
+    it('matches keyword prefixes and ranks by relevance', async () => {
+      const res = await server.get('/api/relationships?keywords=wire,palm&sort=relevance');
+      assert.deepEqual(ids(res.body.relationships), [1, 2, 3]);
+      assert.ok(res.body.relationships.every((rel: Relationship) => typeof rel.relevance === 'number'));
+      const scores = res.body.relationships.map((rel: Relationship) => rel.relevance!);
+      assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    });
+
+    it('matches keywords against canonical names and any part of a name', async () => {
+      // Triple 1 only names "Alice", an alias of Alice Smith
+      const canonical = await server.get('/api/relationships?keywords=smith');
+      assert.deepEqual(ids(canonical.body.relationships), [1, 2, 7]);
+      assert.equal(canonical.body.relationships.find((rel: Relationship) => rel.id === 1).target, 'Alice Smith');
+
+      assert.deepEqual(ids((await server.get('/api/relationships?keywords=stein')).body.relationships), [1, 5, 7]);
+    });
+
+    it('keeps the name index usable after an alias is replaced', async () => {
+      const fresh = await startTestServer();
+      try {
+        // As dedupe_with_llm.ts does; the canonical name is already indexed
+        fresh.db.prepare("INSERT OR REPLACE INTO entity_aliases (original_name, canonical_name) VALUES ('Alice', 'Alice Smith')").run();
+        const res = await fresh.get('/api/relationships?keywords=smith');
+        assert.equal(res.status, 200);
+        assert.deepEqual(ids(res.body.relationships), [1, 2, 7]);
+        assert.doesNotThrow(() => fresh.db.exec("INSERT INTO entity_names_fts(entity_names_fts, rank) VALUES ('integrity-check', 1)"));
+      } finally {
+        fresh.close();
+      }
+    });
+
+    it('limits hop distance from the default principal via canonical_entities', async () => {
+      const res = await server.get('/api/relationships?maxHops=1');
+      assert.deepEqual(ids(res.body.relationships), [1, 2, 5, 7]);
+    });
+
+    it('computes hop distances on demand for other principals', async () => {
+      const res = await server.get('/api/relationships?maxHops=1&principal=Dan%20Brown');
+      assert.deepEqual(ids(res.body.relationships), [4]);
+      assert.deepEqual(res.body.principals, ['Dan Brown']);
+
+      // Aliases resolve to their canonical entity
+      const alias = await server.get('/api/relationships?maxHops=1&principal=Alice');
+      assert.deepEqual(alias.body.principals, ['Alice Smith']);
+      assert.deepEqual(ids(alias.body.relationships), [1, 2, 5, 7]);
+    });
+
+    it('rejects out-of-range hop counts', async () => {
+      const res = await server.get('/api/relationships?maxHops=11');
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues[0].name, 'maxHops');
+    });
+
+    it('pages through every triple in id order with a cursor', async () => {
+      const first = await server.get('/api/relationships?pageSize=3');
+      assert.deepEqual(first.body.relationships.map((rel: Relationship) => rel.id), [1, 2, 3]);
+      assert.ok(first.body.nextCursor);
+
+      const second = await server.get(`/api/relationships?pageSize=3&cursor=${first.body.nextCursor}`);
+      assert.deepEqual(second.body.relationships.map((rel: Relationship) => rel.id), [4, 5, 6]);
+
+      const last = await server.get(`/api/relationships?pageSize=3&cursor=${second.body.nextCursor}`);
+      assert.deepEqual(last.body.relationships.map((rel: Relationship) => rel.id), [7]);
+      assert.equal(last.body.nextCursor, null);
+    });
+
+    it('rejects a malformed cursor', async () => {
+      const res = await server.get(`/api/relationships?cursor=${Buffer.from('abc').toString('base64url')}`);
+      assert.equal(res.status, 400);
+      assert.equal(res.body.error, 'Invalid cursor');
+    });
+
+    it('rejects limit and sort in the id-ordered modes', async () => {
+      const paged = await server.get('/api/relationships?pageSize=3&sort=relevance&keywords=wire');
+      assert.equal(paged.status, 400);
+      assert.deepEqual(paged.body.issues.map((issue: { name: string }) => issue.name), ['sort']);
+
+      const streamed = await server.get('/api/relationships?format=ndjson&limit=2&sort=timestamp');
+      assert.equal(streamed.status, 400);
+      assert.deepEqual(streamed.body.issues.map((issue: { name: string }) => issue.name), ['limit', 'sort']);
+    });
+
+    it('streams NDJSON', async () => {
+      const res = await server.get('/api/relationships?format=ndjson&clusters=2');
+      assert.match(res.headers.get('content-type') ?? '', /application\/x-ndjson/);
+      const lines = res.text.trim().split('\n').map(line => JSON.parse(line));
+      assert.deepEqual(lines.map(rel => rel.id), [3, 4, 5]);
+    });
+  });
+
+  describe('GET /api/actor/:name/relationships', () => {
+    it('collects relationships under every alias of the entity', async () => {
+      const res = await server.get('/api/actor/Alice%20Smith/relationships');
+      assert.equal(res.status, 200);
+      assert.deepEqual(ids(res.body.relationships), [1, 2, 7]);
+      assert.equal(res.body.totalBeforeFilter, 3);
+    });
+
+    it('applies the shared filters but reports the unfiltered total', async () => {
+      const res = await server.get('/api/actor/Alice%20Smith/relationships?yearMin=2005&yearMax=2010&includeUndated=false');
+      assert.deepEqual(ids(res.body.relationships), [7]);
+      assert.equal(res.body.totalBeforeFilter, 3);
+
+      const keyword = await server.get('/api/actor/Alice%20Smith/relationships?keywords=dinner');
+      assert.deepEqual(ids(keyword.body.relationships), [7]);
+
+      const hops = await server.get('/api/actor/Bob%20Jones/relationships?maxHops=1&principal=Carol%20White');
+      assert.deepEqual(ids(hops.body.relationships), [3]);
+    });
+
+    it('returns an empty timeline for unknown entities', async () => {
+      const res = await server.get('/api/actor/Nobody/relationships');
+      assert.deepEqual(res.body.relationships, []);
+      assert.equal(res.body.totalBeforeFilter, 0);
+    });
+  });
+
+  describe('GET /api/path', () => {
+    it('finds the k shortest paths, shortest first', async () => {
+      const res = await server.get('/api/path?from=Alice&to=Dan%20Brown&k=2');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.from, 'Alice Smith');
+      assert.deepEqual(res.body.paths.map((path: { nodes: string[] }) => path.nodes), [
+        ['Alice Smith', 'Bob Jones', 'Carol White', 'Dan Brown'],
+        ['Alice Smith', 'Jeffrey Epstein', 'Bob Jones', 'Carol White', 'Dan Brown']
+      ]);
+      const hop = res.body.paths[1].hops[0];
+      assert.equal(hop.totalRelationships, 2);
+      assert.deepEqual(hop.doc_ids.sort(), ['DOC-001', 'DOC-004']);
+    });
+
+    it('returns no paths between disconnected entities', async () => {
+      const res = await server.get('/api/path?from=Alice%20Smith&to=Eve%20Black');
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body.paths, []);
+    });
+
+    it('respects the shared filters', async () => {
+      const res = await server.get('/api/path?from=Alice%20Smith&to=Dan%20Brown&clusters=1');
+      assert.equal(res.status, 404);
+    });
+
+    it('answers 404 for unknown entities and 400 without both ends', async () => {
+      const missing = await server.get('/api/path?from=Alice%20Smith&to=Nobody');
+      assert.equal(missing.status, 404);
+      assert.match(missing.body.error, /Nobody/);
+
+      const invalid = await server.get('/api/path?from=Alice%20Smith');
+      assert.equal(invalid.status, 400);
+      assert.equal(invalid.body.issues[0].name, 'to');
+    });
+  });
+
+  describe('GET /api/actor/:name/neighborhood', () => {
+    it('grows level by level from the center', async () => {
+      const res = await server.get('/api/actor/Carol%20White/neighborhood?depth=1');
+      assert.equal(res.status, 200);
+      assert.equal(res.body.center, 'Carol White');
+      assert.deepEqual(res.body.nodes.map((node: { name: string }) => node.name).sort(), ['Bob Jones', 'Carol White', 'Dan Brown']);
+      assert.deepEqual(ids(res.body.relationships), [3, 4]);
+      assert.equal(res.body.truncated, false);
+    });
+
+    it('truncates at maxNodes, keeping the strongest neighbors', async () => {
+      const res = await server.get('/api/actor/Jeffrey%20Epstein/neighborhood?depth=1&maxNodes=2');
+      assert.deepEqual(res.body.nodes.map((node: { name: string }) => node.name), ['Jeffrey Epstein', 'Alice Smith']);
+      assert.equal(res.body.truncated, true);
+    });
+
+    it('drops edges below minWeight', async () => {
+      const res = await server.get('/api/actor/Jeffrey%20Epstein/neighborhood?minWeight=2');
+      assert.deepEqual(res.body.nodes.map((node: { name: string }) => node.name), ['Jeffrey Epstein', 'Alice Smith']);
+      assert.deepEqual(ids(res.body.relationships), [1, 7]);
+    });
+
+    it('answers 404 for unknown entities', async () => {
+      assert.equal((await server.get('/api/actor/Nobody/neighborhood')).status, 404);
+    });
+  });
+
+  describe('GET /api/export/graph', () => {
+    it('exports CSV edges and nodes as downloads', async () => {
+      const edges = await server.get('/api/export/graph?format=csv&clusters=3');
+      assert.equal(edges.status, 200);
+      assert.match(edges.headers.get('content-disposition') ?? '', /relationship_graph_edges\.csv/);
+      const rows = edges.text.trim().split('\r\n');
+      assert.equal(rows[0], 'Source,Target,Id,action,timestamp,location,tags,top_cluster_ids,doc_id');
+      assert.equal(rows.length, 3);
+
+      const nodes = await server.get('/api/export/graph?format=csv&table=nodes&maxHops=1');
+      assert.deepEqual(nodes.text.trim().split('\r\n').slice(1).map(row => row.split(',')[0]).sort(), [
+        'Alice Smith', 'Bob Jones', 'Jeffrey Epstein'
+      ]);
+    });
+
+    it('exports GEXF, GraphML and Cytoscape JSON', async () => {
+      assert.match((await server.get('/api/export/graph?format=gexf')).text, /<gexf/);
+      assert.match((await server.get('/api/export/graph?format=graphml')).text, /<graphml/);
+      const cyjs = await server.get('/api/export/graph?format=cyjs');
+      assert.ok(Array.isArray(cyjs.body.elements.nodes));
+    });
+
+    it('rejects unknown formats', async () => {
+      assert.equal((await server.get('/api/export/graph?format=dot')).status, 400);
+    });
+  });
+
+  describe('GET /api/export/rdf', () => {
+    it('serializes the filtered triples', async () => {
+      const turtle = await server.get('/api/export/rdf?clusters=3');
+      assert.equal(turtle.status, 200);
+      assert.match(turtle.headers.get('content-type') ?? '', /text\/turtle/);
+      assert.match(turtle.text, /Frank/);
+      assert.doesNotMatch(turtle.text, /Palm Beach/);
+
+      const ntriples = await server.get('/api/export/rdf?format=ntriples');
+      assert.match(ntriples.headers.get('content-disposition') ?? '', /triples\.nt/);
+      const jsonld = await server.get('/api/export/rdf?format=jsonld');
+      assert.ok(jsonld.body['@context']);
+    });
+  });
+
+  describe('GET /api/export/triples', () => {
+    it('requires an API key with the export scope', async () => {
+      assert.equal((await server.get('/api/export/triples')).status, 401);
+      const readOnly = server.issueKey({ name: 'reader', scopes: ['read'] });
+      assert.equal((await server.get('/api/export/triples', readOnly)).status, 403);
+    });
+
+    it('dumps every triple with raw and resolved names', async () => {
+      const headers = server.issueKey({ name: 'exporter', scopes: ['export'] });
+      const res = await server.get('/api/export/triples', headers);
+      assert.equal(res.status, 200);
+      const lines = res.text.trim().split('\n').map(line => JSON.parse(line));
+      assert.equal(lines.length, 8);
+      assert.equal(lines[0].target, 'Alice Smith');
+      assert.equal(lines[0].target_original, 'Alice');
+      assert.deepEqual(lines[0].top_cluster_ids, [0, 1]);
+
+      const filtered = await server.get('/api/export/triples?categories=financial_record', headers);
+      assert.equal(filtered.text.trim().split('\n').length, 1);
+    });
+  });
+
+  describe('POST /api/query', () => {
+    it('runs a graph pattern query', async () => {
+      const res = await server.post('/api/query', { query: 'MATCH (p)-[r:paid]->(q) RETURN p, q' });
+      assert.equal(res.status, 200);
+      assert.deepEqual(res.body.rows.map((row: { p: string; q: string }) => `${row.p}>${row.q}`).sort(), [
+        'Bob Jones>Carol White',
+        'Jeffrey Epstein>Bob Jones'
+      ]);
+    });
+
+    it('rejects multi-hop patterns whose middle nodes are not anchored to a name', async () => {
+      const res = await server.post('/api/query', {
+        query: 'MATCH (a)-[]-(b)-[]-(c)-[]-(d)-[]-(e) WHERE a = "Jeffrey Epstein" AND e = "Adrian Castellano" RETURN a'
+      });
+      assert.equal(res.status, 400);
+      assert.match(res.body.error, /'c' links edges/);
+
+      const anchored = await server.post('/api/query', { query: 'MATCH ("Jeffrey Epstein")-[:paid]->(q)-[:paid]->(r) RETURN q, r' });
+      assert.equal(anchored.status, 200);
+      assert.deepEqual(anchored.body.rows, [{ q: 'Bob Jones', r: 'Carol White' }]);
+    });
+
+    it('finds matches past the per-edge cap and flags edges cut short', async () => {
+      const fresh = await startTestServer();
+      try {
+        const insert = fresh.db.prepare("INSERT INTO rdf_triples (doc_id, actor, action, target, sequence_order) VALUES ('DOC-003', ?, ?, ?, 0)");
+        fresh.db.transaction(() => {
+          for (let i = 0; i < GRAPH_QUERY_LIMITS.maxEdgeRows; i++) insert.run(`Payer ${i}`, 'paid', `Payee ${i}`);
+          insert.run('Jeffrey Epstein', 'met with', 'Gina Late');
+          insert.run('Gina Late', 'paid', 'Harry Late');
+        })();
+
+        const res = await fresh.post('/api/query', { query: 'MATCH ("Jeffrey Epstein")-[:met]->(p), (p)-[:paid]->(y) RETURN p, y' });
+        assert.deepEqual(res.body.rows, [{ p: 'Gina Late', y: 'Harry Late' }]);
+        assert.equal(res.body.truncated, false);
+
+        // Nothing pays itself, but only the first maxEdgeRows payments were looked at
+        const loop = await fresh.post('/api/query', { query: 'MATCH (p)-[:paid]->(p) RETURN p' });
+        assert.deepEqual(loop.body.rows, []);
+        assert.equal(loop.body.truncated, true);
+      } finally {
+        fresh.close();
+      }
+    });
+
+    it('documents and enforces the parser length limit', async () => {
+      const spec = await server.get('/api/openapi.json');
+      const body = spec.body.paths['/api/query'].post.requestBody.content['application/json'].schema;
+      assert.equal(body.properties.query.maxLength, GRAPH_QUERY_LIMITS.maxQueryLength);
+
+      const res = await server.post('/api/query', { query: `MATCH (p)-[]->(q)${' '.repeat(GRAPH_QUERY_LIMITS.maxQueryLength)}RETURN p` });
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues[0].name, 'query');
+    });
+
+    it('reports syntax errors with a position', async () => {
+      const res = await server.post('/api/query', { query: 'MATCH (p' });
+      assert.equal(res.status, 400);
+      assert.equal(typeof res.body.position, 'number');
+    });
+
+    it('requires a query', async () => {
+      const res = await server.post('/api/query', {});
+      assert.equal(res.status, 400);
+      assert.equal(res.body.issues[0].in, 'body');
+    });
+  });
+});